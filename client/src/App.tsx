@@ -4,20 +4,26 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "@/hooks/use-theme";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
 import { Separator } from "@/components/ui/separator";
-import { Mail, Filter } from "lucide-react";
+import { Mail, Filter, Loader2, ShieldBan, Ban } from "lucide-react";
 import NotFound from "@/pages/not-found";
 import BrainworksFiltering from "@/pages/brainworks-filtering";
 import EmailMarketing from "@/pages/email-marketing";
 import BrainworksAnalysis from "@/pages/brainworks-analysis";
 import TrendsICP from "@/pages/trends-icp";
+import SuppressionList from "@/pages/suppression-list";
+import DoNotContact from "@/pages/do-not-contact";
+import AuthPage from "@/pages/auth-page";
 
 const PAGE_META: Record<string, { title: string; icon: typeof Mail }> = {
   "/email-marketing": { title: "Campaign Builder", icon: Mail },
   "/filtering-tool": { title: "Data Filter", icon: Filter },
+  "/suppression": { title: "Suppression List", icon: ShieldBan },
+  "/do-not-contact": { title: "Do Not Contact", icon: Ban },
   "/": { title: "Data Filter", icon: Filter },
 };
 
@@ -44,40 +50,61 @@ function Router() {
       <Route path="/filtering-tool" component={BrainworksFiltering} />
       <Route path="/brainworks-analysis" component={BrainworksAnalysis} />
       <Route path="/trends-icp" component={TrendsICP} />
+      <Route path="/suppression" component={SuppressionList} />
+      <Route path="/do-not-contact" component={DoNotContact} />
       <Route component={NotFound} />
     </Switch>
   );
 }
 
-function App() {
+function AppShell() {
+  const { user, isLoading } = useAuth();
   const sidebarStyle = {
     "--sidebar-width": "16rem",
     "--sidebar-width-icon": "3rem",
   };
 
+  if (isLoading) {
+    return (
+      <div className="flex h-screen w-full items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!user) return <AuthPage />;
+
+  return (
+    <SidebarProvider style={sidebarStyle as React.CSSProperties}>
+      <div className="flex h-screen w-full">
+        <AppSidebar />
+        <div className="flex flex-col flex-1 min-w-0">
+          <header className="flex items-center justify-between h-12 px-4 border-b bg-background shrink-0">
+            <div className="flex items-center gap-2">
+              <SidebarTrigger data-testid="button-sidebar-toggle" />
+              <PageBreadcrumb />
+            </div>
+            <ThemeToggle />
+          </header>
+          <main className="flex-1 overflow-auto">
+            <Router />
+          </main>
+        </div>
+      </div>
+    </SidebarProvider>
+  );
+}
+
+function App() {
   return (
     <ThemeProvider>
       <QueryClientProvider client={queryClient}>
-        <TooltipProvider>
-          <SidebarProvider style={sidebarStyle as React.CSSProperties}>
-            <div className="flex h-screen w-full">
-              <AppSidebar />
-              <div className="flex flex-col flex-1 min-w-0">
-                <header className="flex items-center justify-between h-12 px-4 border-b bg-background shrink-0">
-                  <div className="flex items-center gap-2">
-                    <SidebarTrigger data-testid="button-sidebar-toggle" />
-                    <PageBreadcrumb />
-                  </div>
-                  <ThemeToggle />
-                </header>
-                <main className="flex-1 overflow-auto">
-                  <Router />
-                </main>
-              </div>
-            </div>
-          </SidebarProvider>
-          <Toaster />
-        </TooltipProvider>
+        <AuthProvider>
+          <TooltipProvider>
+            <AppShell />
+            <Toaster />
+          </TooltipProvider>
+        </AuthProvider>
       </QueryClientProvider>
     </ThemeProvider>
   );
@@ -1,5 +1,13 @@
 import { useLocation } from "wouter";
-import { Mail, Filter, Wrench } from "lucide-react";
+import {
+  Mail,
+  Filter,
+  ShieldBan,
+  Ban,
+  Wrench,
+  LogOut,
+  UserCircle,
+} from "lucide-react";
 import {
   Sidebar,
   SidebarContent,
@@ -10,7 +18,11 @@ import {
   SidebarMenuButton,
   SidebarMenuItem,
   SidebarHeader,
+  SidebarFooter,
 } from "@/components/ui/sidebar";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/hooks/use-auth";
 
 const tools = [
   {
@@ -27,10 +39,25 @@ const tools = [
     description: "Filter and export contact lists",
     shortDesc: "Query & export data",
   },
+  {
+    title: "Suppression List",
+    url: "/suppression",
+    icon: ShieldBan,
+    description: "Browse and edit suppression entries",
+    shortDesc: "Review mailed contacts",
+  },
+  {
+    title: "Do Not Contact",
+    url: "/do-not-contact",
+    icon: Ban,
+    description: "Permanent opt-outs excluded from every export",
+    shortDesc: "Manage opt-outs",
+  },
 ];
 
 export function AppSidebar() {
   const [location] = useLocation();
+  const { user, logout } = useAuth();
 
   return (
     <Sidebar>
@@ -86,6 +113,37 @@ export function AppSidebar() {
           </SidebarGroupContent>
         </SidebarGroup>
       </SidebarContent>
+      {user && (
+        <SidebarFooter className="border-t px-4 py-3">
+          <div className="flex items-center gap-2">
+            <UserCircle className="h-4 w-4 shrink-0 text-muted-foreground" />
+            <div className="flex flex-col min-w-0 flex-1 leading-tight">
+              <span
+                className="text-sm font-medium truncate"
+                data-testid="text-current-user"
+              >
+                {user.username}
+              </span>
+              <Badge
+                variant="secondary"
+                className="w-fit text-[10px] px-1.5 py-0 mt-0.5 capitalize"
+              >
+                {user.role}
+              </Badge>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={logout}
+              title="Sign out"
+              data-testid="button-logout"
+            >
+              <LogOut className="h-4 w-4" />
+            </Button>
+          </div>
+        </SidebarFooter>
+      )}
     </Sidebar>
   );
 }
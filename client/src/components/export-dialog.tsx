@@ -12,6 +12,7 @@ import {
   Zap,
 } from "lucide-react";
 import { useState, useRef, useEffect, useCallback, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
 import {
   Dialog,
   DialogContent,
@@ -22,8 +23,21 @@ import {
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { apiRequest } from "@/lib/queryClient";
-import type { FilterValue } from "@shared/schema";
+import type { FilterValue, MetabaseField, TableExportFormat } from "@shared/schema";
 
 interface ExportDialogProps {
   open: boolean;
@@ -40,6 +54,12 @@ type LimitMode = "maximum" | "custom";
 
 const BATCH_SIZE = 5000;
 
+const FORMAT_LABELS: Record<TableExportFormat, string> = {
+  csv: "CSV",
+  tsv: "TSV",
+  xlsx: "Excel (.xlsx)",
+};
+
 export function ExportDialog({
   open,
   onOpenChange,
@@ -63,6 +83,14 @@ export function ExportDialog({
   const [customLimit, setCustomLimit] = useState("2000");
   const [sortColumn, setSortColumn] = useState<string | null>(null);
   const [sortDirection, setSortDirection] = useState<SortDirection>(null);
+  const [format, setFormat] = useState<TableExportFormat>("csv");
+  // Field names picked for the download; null = every column
+  const [selectedFields, setSelectedFields] = useState<string[] | null>(null);
+
+  const { data: fields = [] } = useQuery<MetabaseField[]>({
+    queryKey: ["/api/metabase/tables", tableId, "fields"],
+    enabled: open && !!tableId,
+  });
 
   const recordsRef = useRef<Record<string, any>[]>([]);
   recordsRef.current = records;
@@ -171,6 +199,7 @@ export function ExportDialog({
       setSortDirection(null);
       setLimitMode("maximum");
       setCustomLimit("2000");
+      setSelectedFields(null);
       fetchInitial();
     }
   }, [open, fetchInitial]);
@@ -230,6 +259,25 @@ export function ExportDialog({
 
   const sortedRecords = useMemo(() => applySorting(records), [records, applySorting]);
 
+  // Preview columns are display names; the picker works on field names
+  const visibleColumns = useMemo(() => {
+    if (!selectedFields) return columns;
+    const picked = new Set(
+      fields
+        .filter((f) => selectedFields.includes(f.name))
+        .map((f) => f.display_name || f.name),
+    );
+    return columns.filter((col) => picked.has(col));
+  }, [columns, fields, selectedFields]);
+
+  const toggleField = (name: string, checked: boolean) => {
+    const current = selectedFields ?? fields.map((f) => f.name);
+    const next = checked
+      ? fields.map((f) => f.name).filter((n) => n === name || current.includes(n))
+      : current.filter((n) => n !== name);
+    setSelectedFields(next.length === fields.length ? null : next);
+  };
+
   const parsedLimit = parseInt(customLimit, 10);
   const targetExportCount = limitMode === "custom" && !isNaN(parsedLimit) && parsedLimit >= 1
     ? Math.min(parsedLimit, total || Infinity)
@@ -249,9 +297,9 @@ export function ExportDialog({
       exportRecords = sortedRecords.slice(0, targetExportCount);
     }
 
-    const header = columns.join("\t");
+    const header = visibleColumns.join("\t");
     const rows = exportRecords.map((r) =>
-      columns.map((col) => {
+      visibleColumns.map((col) => {
         const val = r[col];
         if (val == null || String(val).toLowerCase() === "null") return "";
         return String(val);
@@ -263,38 +311,32 @@ export function ExportDialog({
     setTimeout(() => setCopied(false), 2000);
   };
 
-  const handleDownloadCSV = async () => {
-    let exportRecords: Record<string, any>[];
-
-    if (needsMoreData) {
-      const allData = await fetchAllAndReturn(targetExportCount);
-      exportRecords = applySorting(allData).slice(0, targetExportCount);
-    } else {
-      exportRecords = sortedRecords.slice(0, targetExportCount);
+  // The server streams the file straight from the database, so the download isn't
+  // limited to what has been loaded into the preview
+  const handleDownload = () => {
+    const params = new URLSearchParams({
+      databaseId: String(databaseId),
+      tableId: String(tableId),
+      filters: JSON.stringify(filters),
+      format,
+    });
+    if (selectedFields) params.set("columns", JSON.stringify(selectedFields));
+    if (sortColumn && sortDirection) {
+      // The preview sorts by its column labels; the server sorts by field name
+      const sortField = fields.find((f) => (f.display_name || f.name) === sortColumn);
+      params.set("sortColumn", sortField?.name ?? sortColumn);
+      params.set("sortDirection", sortDirection);
+    }
+    if (limitMode === "custom" && !isNaN(parsedLimit) && parsedLimit >= 1) {
+      params.set("limit", String(parsedLimit));
     }
 
-    const csvContent = [
-      columns.join(","),
-      ...exportRecords.map((r) =>
-        columns
-          .map((col) => {
-            const val = r[col];
-            const s = val == null || String(val).toLowerCase() === "null" ? "" : String(val);
-            return `"${s.replace(/"/g, '""')}"`;
-          })
-          .join(","),
-      ),
-    ].join("\n");
-
-    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
-    const url = URL.createObjectURL(blob);
     const link = document.createElement("a");
-    link.href = url;
-    link.download = `${tableName || "table"}-export-${new Date().toISOString().split("T")[0]}.csv`;
+    link.href = `/api/metabase/export/stream?${params.toString()}`;
+    link.download = "";
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
-    URL.revokeObjectURL(url);
   };
 
   const formatCell = (val: any): string => {
@@ -330,7 +372,9 @@ export function ExportDialog({
                 {columns.length > 0 && (
                   <span className="text-muted-foreground flex items-center gap-1">
                     <Columns3 className="h-3.5 w-3.5" />
-                    {columns.length} columns
+                    {visibleColumns.length === columns.length
+                      ? `${columns.length} columns`
+                      : `${visibleColumns.length} of ${columns.length} columns`}
                   </span>
                 )}
                 <Badge variant="secondary" className="text-xs">
@@ -373,7 +417,7 @@ export function ExportDialog({
                     <th className="sticky top-0 left-0 z-30 bg-muted border-b border-r px-3 py-2.5 text-xs font-bold text-muted-foreground text-center w-[52px] min-w-[52px]">
                       #
                     </th>
-                    {columns.map((col) => (
+                    {visibleColumns.map((col) => (
                       <th
                         key={col}
                         className="sticky top-0 z-20 bg-muted border-b px-3 py-2.5 text-left text-xs font-bold text-foreground whitespace-nowrap select-none cursor-pointer hover:bg-muted/80 transition-colors group"
@@ -398,7 +442,7 @@ export function ExportDialog({
                       <td className="sticky left-0 z-10 bg-inherit border-r px-3 py-2 text-xs text-muted-foreground text-center font-mono tabular-nums">
                         {rowIdx + 1}
                       </td>
-                      {columns.map((col) => {
+                      {visibleColumns.map((col) => {
                         const val = formatCell(record[col]);
                         return (
                           <td
@@ -531,23 +575,77 @@ export function ExportDialog({
                   </>
                 )}
               </Button>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    disabled={fields.length === 0}
+                    data-testid="button-pick-columns"
+                  >
+                    <Columns3 className="h-4 w-4 mr-2" />
+                    {selectedFields
+                      ? `${selectedFields.length} of ${fields.length} columns`
+                      : "All columns"}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent align="end" className="w-64 p-0">
+                  <div className="flex items-center justify-between px-3 py-2 border-b text-xs">
+                    <span className="font-medium">Columns to export</span>
+                    <button
+                      type="button"
+                      className="text-primary hover:underline"
+                      onClick={() => setSelectedFields(null)}
+                      data-testid="button-select-all-columns"
+                    >
+                      Select all
+                    </button>
+                  </div>
+                  <div className="max-h-72 overflow-auto py-1">
+                    {fields.map((field) => {
+                      const checked =
+                        !selectedFields || selectedFields.includes(field.name);
+                      return (
+                        <label
+                          key={field.id}
+                          className="flex items-center gap-2 px-3 py-1.5 text-sm cursor-pointer hover:bg-muted/50"
+                        >
+                          <Checkbox
+                            checked={checked}
+                            disabled={checked && selectedFields?.length === 1}
+                            onCheckedChange={(v) => toggleField(field.name, v === true)}
+                            data-testid={`checkbox-column-${field.name}`}
+                          />
+                          <span className="truncate">{field.display_name || field.name}</span>
+                        </label>
+                      );
+                    })}
+                  </div>
+                </PopoverContent>
+              </Popover>
+              <Select
+                value={format}
+                onValueChange={(v) => setFormat(v as TableExportFormat)}
+              >
+                <SelectTrigger className="w-[140px]" data-testid="select-export-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(FORMAT_LABELS) as TableExportFormat[]).map((f) => (
+                    <SelectItem key={f} value={f}>
+                      {FORMAT_LABELS[f]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <Button
-                onClick={handleDownloadCSV}
-                disabled={displayRecords.length === 0 || isFetchingForExport}
+                onClick={handleDownload}
+                disabled={total === 0 || isLoading}
                 className="flex-1"
-                data-testid="button-download-csv"
+                data-testid="button-download-export"
               >
-                {isFetchingForExport ? (
-                  <>
-                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                    Fetching {targetExportCount.toLocaleString()} rows...
-                  </>
-                ) : (
-                  <>
-                    <Download className="h-4 w-4 mr-2" />
-                    Download CSV ({targetExportCount.toLocaleString()} rows)
-                  </>
-                )}
+                <Download className="h-4 w-4 mr-2" />
+                Download {FORMAT_LABELS[format].split(" ")[0]} (
+                {(limitMode === "custom" ? targetExportCount : total).toLocaleString()} rows)
               </Button>
             </div>
           </div>
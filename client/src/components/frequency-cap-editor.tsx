@@ -0,0 +1,133 @@
+import { Gauge, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { FrequencyCapRule } from "@shared/schema";
+
+const MAX_CAPS = 10;
+
+interface FrequencyCapEditorProps {
+  caps: FrequencyCapRule[];
+  onChange: (caps: FrequencyCapRule[]) => void;
+  disabled?: boolean;
+}
+
+// Clamps typed numbers to the ranges the server accepts
+function clampInt(value: string, min: number, max: number): number {
+  const n = parseInt(value, 10);
+  if (!Number.isFinite(n)) return min;
+  return Math.min(max, Math.max(min, n));
+}
+
+export function FrequencyCapEditor({
+  caps,
+  onChange,
+  disabled,
+}: FrequencyCapEditorProps) {
+  const update = (index: number, patch: Partial<FrequencyCapRule>) =>
+    onChange(caps.map((cap, i) => (i === index ? { ...cap, ...patch } : cap)));
+  const remove = (index: number) =>
+    onChange(caps.filter((_, i) => i !== index));
+  const add = () =>
+    onChange([...caps, { maxMailings: 3, windowDays: 30, brand: null }]);
+
+  return (
+    <div className="rounded-lg border px-4 py-2.5 space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Gauge className="h-4 w-4 text-muted-foreground" />
+          <div>
+            <span className="text-xs font-medium">Frequency caps</span>
+            <p className="text-[10px] text-muted-foreground leading-tight">
+              {disabled
+                ? "Needs the suppression history"
+                : caps.length === 0
+                  ? "No limit on mailings across campaigns"
+                  : "Skip contacts already mailed this often"}
+            </p>
+          </div>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 text-xs"
+          onClick={add}
+          disabled={disabled || caps.length >= MAX_CAPS}
+          data-testid="button-add-frequency-cap"
+        >
+          <Plus className="h-3.5 w-3.5 mr-1" /> Add cap
+        </Button>
+      </div>
+
+      {caps.map((cap, index) => (
+        <div
+          key={index}
+          className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-end"
+          data-testid={`frequency-cap-${index}`}
+        >
+          <div className="space-y-1">
+            <Label className="text-[11px] text-muted-foreground">
+              Max mailings
+            </Label>
+            <Input
+              type="number"
+              min="1"
+              max="100"
+              value={cap.maxMailings}
+              onChange={(e) =>
+                update(index, {
+                  maxMailings: clampInt(e.target.value, 1, 100),
+                })
+              }
+              disabled={disabled}
+              className="h-8"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-[11px] text-muted-foreground">
+              Per days
+            </Label>
+            <Input
+              type="number"
+              min="1"
+              max="365"
+              value={cap.windowDays}
+              onChange={(e) =>
+                update(index, {
+                  windowDays: clampInt(e.target.value, 1, 365),
+                })
+              }
+              disabled={disabled}
+              className="h-8"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-[11px] text-muted-foreground">
+              Brand <span className="text-muted-foreground/40">(optional)</span>
+            </Label>
+            <Input
+              placeholder="All brands"
+              maxLength={50}
+              value={cap.brand ?? ""}
+              onChange={(e) =>
+                update(index, { brand: e.target.value.trim() || null })
+              }
+              disabled={disabled}
+              className="h-8"
+            />
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => remove(index)}
+            disabled={disabled}
+            aria-label="Remove cap"
+          >
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { Plus, Split, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { SplitCell } from "@shared/schema";
+
+const MAX_CELLS = 10;
+
+interface SplitCellEditorProps {
+  cells: SplitCell[];
+  onChange: (cells: SplitCell[]) => void;
+  campaignCode: string;
+  disabled?: boolean;
+}
+
+// Next unused single-letter name: A, B, C...
+function nextCellName(cells: SplitCell[]): string {
+  const used = new Set(cells.map((cell) => cell.name.toUpperCase()));
+  for (let i = 0; i < 26; i++) {
+    const name = String.fromCharCode(65 + i);
+    if (!used.has(name)) return name;
+  }
+  return `CELL${cells.length + 1}`;
+}
+
+export function SplitCellEditor({
+  cells,
+  onChange,
+  campaignCode,
+  disabled,
+}: SplitCellEditorProps) {
+  const update = (index: number, patch: Partial<SplitCell>) =>
+    onChange(
+      cells.map((cell, i) => (i === index ? { ...cell, ...patch } : cell)),
+    );
+  // A split test needs two cells, so removing the second one ends it
+  const remove = (index: number) =>
+    onChange(cells.length <= 2 ? [] : cells.filter((_, i) => i !== index));
+  // The first click starts the test with two cells
+  const add = () => {
+    const next = [...cells];
+    do {
+      next.push({ name: nextCellName(next), weight: 1 });
+    } while (next.length < 2);
+    onChange(next);
+  };
+
+  return (
+    <div className="rounded-lg border px-4 py-2.5 space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Split className="h-4 w-4 text-muted-foreground" />
+          <div>
+            <span className="text-xs font-medium">Split test</span>
+            <p className="text-[10px] text-muted-foreground leading-tight">
+              {disabled
+                ? "Needs the suppression history"
+                : cells.length === 0
+                  ? "Everyone gets the same mailing"
+                  : `Cells are added as a "cell" column and logged as ${campaignCode || "<code>"}-<cell>`}
+            </p>
+          </div>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 text-xs"
+          onClick={add}
+          disabled={disabled || cells.length >= MAX_CELLS}
+          data-testid="button-add-split-cell"
+        >
+          <Plus className="h-3.5 w-3.5 mr-1" /> Add cell
+        </Button>
+      </div>
+
+      {cells.map((cell, index) => (
+        <div
+          key={index}
+          className="grid grid-cols-[1fr_1fr_auto] gap-2 items-end"
+          data-testid={`split-cell-${index}`}
+        >
+          <div className="space-y-1">
+            <Label className="text-[11px] text-muted-foreground">Cell</Label>
+            <Input
+              maxLength={20}
+              value={cell.name}
+              onChange={(e) =>
+                update(index, {
+                  name: e.target.value.toUpperCase().replace(/[^A-Z0-9_]/g, ""),
+                })
+              }
+              disabled={disabled}
+              className="h-8 font-mono"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-[11px] text-muted-foreground">Weight</Label>
+            <Input
+              type="number"
+              min="1"
+              max="1000"
+              value={cell.weight}
+              onChange={(e) =>
+                update(index, {
+                  weight: Math.min(
+                    1000,
+                    Math.max(1, parseInt(e.target.value, 10) || 1),
+                  ),
+                })
+              }
+              disabled={disabled}
+              className="h-8"
+            />
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => remove(index)}
+            disabled={disabled}
+            aria-label="Remove cell"
+          >
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,312 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { AlertCircle, Columns3, Loader2, RotateCcw, Save } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type {
+  ExportMappingResponse,
+  InsertSuppressionMapping,
+} from "@shared/schema";
+
+// Radix Select reserves "" for "no selection"
+const UNMAPPED = "__unmapped__";
+
+type MappingColumns = Pick<
+  InsertSuppressionMapping,
+  | "sourceRefColumn"
+  | "sourceSystemColumn"
+  | "historyRefColumn"
+  | "historyCampaignCodeColumn"
+  | "historySourceSystemColumn"
+  | "historySentDateColumn"
+>;
+
+interface ColumnRole {
+  key: keyof MappingColumns;
+  label: string;
+  side: "source" | "suppression";
+  required: boolean;
+  confidence: (mapping: ExportMappingResponse) => number;
+}
+
+const ROLES: ColumnRole[] = [
+  {
+    key: "sourceRefColumn",
+    label: "Customer reference",
+    side: "source",
+    required: true,
+    confidence: (m) => m.source.refConfidence,
+  },
+  {
+    key: "sourceSystemColumn",
+    label: "Source system",
+    side: "source",
+    required: false,
+    confidence: (m) => m.source.sourceSystemConfidence,
+  },
+  {
+    key: "historyRefColumn",
+    label: "Customer reference",
+    side: "suppression",
+    required: true,
+    confidence: (m) => m.suppression.refConfidence,
+  },
+  {
+    key: "historyCampaignCodeColumn",
+    label: "Campaign code",
+    side: "suppression",
+    required: false,
+    confidence: (m) => m.suppression.campaignCodeConfidence,
+  },
+  {
+    key: "historySourceSystemColumn",
+    label: "Source system",
+    side: "suppression",
+    required: false,
+    confidence: (m) => m.suppression.sourceSystemConfidence,
+  },
+  {
+    key: "historySentDateColumn",
+    label: "Sent date",
+    side: "suppression",
+    required: true,
+    confidence: (m) => m.suppression.sentDateConfidence,
+  },
+];
+
+function columnsFromMapping(mapping: ExportMappingResponse): MappingColumns {
+  return {
+    sourceRefColumn: mapping.source.refColumn ?? "",
+    sourceSystemColumn: mapping.source.sourceSystemColumn,
+    historyRefColumn: mapping.suppression.refColumn ?? "",
+    historyCampaignCodeColumn: mapping.suppression.campaignCodeColumn,
+    historySourceSystemColumn: mapping.suppression.sourceSystemColumn,
+    historySentDateColumn: mapping.suppression.sentDateColumn ?? "",
+  };
+}
+
+interface SuppressionMappingCardProps {
+  mapping: ExportMappingResponse;
+  databaseId: number;
+  masterTableId: number;
+  historyDbId: number;
+  historyTableId: number;
+  /** Called after the profile is saved or reset so preview/mapping can refresh. */
+  onChanged: () => void;
+}
+
+export function SuppressionMappingCard({
+  mapping,
+  databaseId,
+  masterTableId,
+  historyDbId,
+  historyTableId,
+  onChanged,
+}: SuppressionMappingCardProps) {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canEdit = hasRole("operator");
+  const [columns, setColumns] = useState<MappingColumns>(() =>
+    columnsFromMapping(mapping),
+  );
+
+  useEffect(() => setColumns(columnsFromMapping(mapping)), [mapping]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/suppression-mappings", {
+        databaseId,
+        masterTableId,
+        historyDbId,
+        historyTableId,
+        ...columns,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Mapping saved",
+        description:
+          "Preview and export will use these columns for this table pair.",
+      });
+      onChanged();
+    },
+    onError: (error) =>
+      toast({
+        title: "Could not save mapping",
+        description: error.message,
+        variant: "destructive",
+      }),
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/suppression-mappings/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Mapping reset",
+        description: "Columns will be detected automatically again.",
+      });
+      onChanged();
+    },
+    onError: (error) =>
+      toast({
+        title: "Could not reset mapping",
+        description: error.message,
+        variant: "destructive",
+      }),
+  });
+
+  const isProfile = mapping.mappingSource === "profile";
+  const missingRequired = ROLES.some((r) => r.required && !columns[r.key]);
+  const isBusy = saveMutation.isPending || resetMutation.isPending;
+
+  const renderRole = (role: ColumnRole) => {
+    const options = mapping.availableColumns[role.side];
+    const value = columns[role.key] || UNMAPPED;
+    const confidence = role.confidence(mapping);
+    return (
+      <div key={role.key} className="space-y-1">
+        <div className="flex items-center justify-between">
+          <Label className="text-[11px] text-muted-foreground">
+            {role.label}
+            {role.required && " *"}
+          </Label>
+          {!isProfile && columns[role.key] && (
+            <span className="text-[10px] text-muted-foreground tabular-nums">
+              {confidence}%
+            </span>
+          )}
+        </div>
+        <Select
+          value={value}
+          onValueChange={(next) =>
+            setColumns((prev) => ({
+              ...prev,
+              [role.key]:
+                next === UNMAPPED ? (role.required ? "" : null) : next,
+            }))
+          }
+          disabled={!canEdit || isBusy}
+        >
+          <SelectTrigger
+            className="h-8 text-xs"
+            data-testid={`select-mapping-${role.key}`}
+          >
+            <SelectValue placeholder="Select column" />
+          </SelectTrigger>
+          <SelectContent>
+            {!role.required && (
+              <SelectItem value={UNMAPPED} className="text-xs">
+                Not mapped
+              </SelectItem>
+            )}
+            {options.map((name) => (
+              <SelectItem key={name} value={name} className="text-xs">
+                {name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    );
+  };
+
+  return (
+    <div
+      className="rounded-lg border px-4 py-3 space-y-3"
+      data-testid="card-suppression-mapping"
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Columns3 className="h-4 w-4 text-muted-foreground" />
+          <span className="text-xs font-medium">
+            Suppression column mapping
+          </span>
+        </div>
+        <Badge
+          variant={isProfile ? "default" : "secondary"}
+          className="text-[10px]"
+        >
+          {isProfile ? "Saved profile" : "Auto-detected"}
+        </Badge>
+      </div>
+
+      {mapping.issues.length > 0 && (
+        <div className="space-y-1">
+          {mapping.issues.map((issue) => (
+            <p
+              key={issue}
+              className="text-[11px] text-amber-600 dark:text-amber-400 flex items-start gap-1"
+            >
+              <AlertCircle className="w-3 h-3 mt-0.5 shrink-0" /> {issue}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <p className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wider truncate">
+            {mapping.source.tableName}
+          </p>
+          {ROLES.filter((r) => r.side === "source").map(renderRole)}
+        </div>
+        <div className="space-y-2">
+          <p className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wider truncate">
+            {mapping.suppression.tableName ?? "Suppression table"}
+          </p>
+          {ROLES.filter((r) => r.side === "suppression").map(renderRole)}
+        </div>
+      </div>
+
+      {canEdit ? (
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            className="flex-1 h-8 text-xs"
+            onClick={() => saveMutation.mutate()}
+            disabled={missingRequired || isBusy}
+            data-testid="button-save-mapping"
+          >
+            {saveMutation.isPending ? (
+              <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />
+            ) : (
+              <Save className="h-3.5 w-3.5 mr-1.5" />
+            )}
+            {isProfile ? "Update mapping" : "Confirm mapping"}
+          </Button>
+          {mapping.profile && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-8 text-xs"
+              onClick={() => resetMutation.mutate(mapping.profile!.id)}
+              disabled={isBusy}
+              data-testid="button-reset-mapping"
+            >
+              <RotateCcw className="h-3.5 w-3.5 mr-1.5" />
+              Reset
+            </Button>
+          )}
+        </div>
+      ) : (
+        <p className="text-[11px] text-muted-foreground">
+          An operator can confirm or change these columns.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,277 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Crosshair, Loader2, MessageSquare, Send } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { describeAIError } from "@/lib/ai-errors";
+import { apiRequest } from "@/lib/queryClient";
+import { describeSuggestionValidation } from "@/lib/suggestion-validation";
+import type {
+  AudienceSizeTargetResponse,
+  SuggestionValidationReport,
+  TargetingRefinementDiff,
+  TargetingRefinementResponse,
+  TargetingRefinementTurn,
+  TargetingRule,
+} from "@shared/schema";
+
+interface TargetingRefinementChatProps {
+  concept: string;
+  databaseId: number;
+  masterTableId: number;
+  segments: string[];
+  segmentRules: Record<string, TargetingRule>;
+  filterEmailsOnly: boolean;
+  onRefined: (result: TargetingRefinementResponse) => void;
+}
+
+function DiffBadges({ diff }: { diff: TargetingRefinementDiff }) {
+  const unchanged =
+    diff.added.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.changed.length === 0 &&
+    !diff.ageRange;
+  if (unchanged) {
+    return (
+      <p className="text-[10px] text-muted-foreground">No rules changed</p>
+    );
+  }
+  return (
+    <div className="flex flex-wrap gap-1">
+      {diff.added.map((s) => (
+        <Badge
+          key={`+${s.segment}`}
+          variant="outline"
+          className="text-[10px] text-emerald-600 dark:text-emerald-400"
+        >
+          + {s.segment}
+        </Badge>
+      ))}
+      {diff.removed.map((s) => (
+        <Badge
+          key={`-${s.segment}`}
+          variant="outline"
+          className="text-[10px] text-rose-600 dark:text-rose-400 line-through"
+        >
+          {s.segment}
+        </Badge>
+      ))}
+      {diff.changed.map((c) => (
+        <Badge
+          key={`~${c.segment}`}
+          variant="outline"
+          className="text-[10px] text-amber-600 dark:text-amber-400"
+        >
+          ~ {c.segment}
+        </Badge>
+      ))}
+      {diff.ageRange && (
+        <Badge variant="outline" className="text-[10px]">
+          Age {diff.ageRange.before ?? "any"} → {diff.ageRange.after ?? "any"}
+        </Badge>
+      )}
+    </div>
+  );
+}
+
+// What the server corrected or dropped in the model's reply
+function ValidationNote({ report }: { report: SuggestionValidationReport }) {
+  const text = describeSuggestionValidation(report);
+  if (!text) return null;
+  return (
+    <p className="text-[10px] text-amber-600 dark:text-amber-400">{text}</p>
+  );
+}
+
+// Refines the current targeting in plain language, or towards a contact count.
+// The first request opens a server-side session seeded with the segments on
+// screen; remount (change the key) to start over after a new analysis.
+export function TargetingRefinementChat({
+  concept,
+  databaseId,
+  masterTableId,
+  segments,
+  segmentRules,
+  filterEmailsOnly,
+  onRefined,
+}: TargetingRefinementChatProps) {
+  const { toast } = useToast();
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [turns, setTurns] = useState<TargetingRefinementTurn[]>([]);
+  const [audienceCount, setAudienceCount] = useState<number | null>(null);
+  const [message, setMessage] = useState("");
+  const [targetSize, setTargetSize] = useState("");
+
+  const ensureSession = async () => {
+    if (sessionId) return sessionId;
+    const started = await apiRequest("POST", "/api/ai/refinement-sessions", {
+      concept,
+      databaseId,
+      masterTableId,
+      segments,
+      segmentRules,
+      filterEmailsOnly,
+    });
+    const id = ((await started.json()) as TargetingRefinementResponse)
+      .sessionId;
+    setSessionId(id);
+    return id;
+  };
+
+  const applyResult = (result: TargetingRefinementResponse) => {
+    setTurns(result.turns);
+    setAudienceCount(result.audienceCount);
+    onRefined(result);
+  };
+
+  const refineMutation = useMutation({
+    mutationFn: async (text: string) => {
+      const id = await ensureSession();
+      const response = await apiRequest(
+        "POST",
+        `/api/ai/refinement-sessions/${id}/messages`,
+        { message: text },
+      );
+      return response.json() as Promise<TargetingRefinementResponse>;
+    },
+    onSuccess: (result) => {
+      setMessage("");
+      applyResult(result);
+    },
+    onError: (error) =>
+      toast({
+        title: "Refinement failed",
+        description: describeAIError(error),
+        variant: "destructive",
+      }),
+  });
+
+  const sizeMutation = useMutation({
+    mutationFn: async (size: number) => {
+      const id = await ensureSession();
+      const response = await apiRequest(
+        "POST",
+        `/api/ai/refinement-sessions/${id}/audience-size`,
+        { targetSize: size },
+      );
+      return response.json() as Promise<AudienceSizeTargetResponse>;
+    },
+    onSuccess: (result) => {
+      applyResult(result);
+      const { audienceTarget } = result;
+      if (!audienceTarget.reached) {
+        toast({
+          title: "Target size not reached",
+          description:
+            `The closest targeting found matches ${(result.audienceCount ?? 0).toLocaleString()} ` +
+            `of the ${audienceTarget.targetSize.toLocaleString()} contacts requested.`,
+        });
+      }
+    },
+    onError: (error) =>
+      toast({
+        title: "Audience sizing failed",
+        description: describeAIError(error),
+        variant: "destructive",
+      }),
+  });
+
+  const busy = refineMutation.isPending || sizeMutation.isPending;
+  const submit = () => {
+    const text = message.trim();
+    if (text && !busy) refineMutation.mutate(text);
+  };
+  const requestedSize = parseInt(targetSize);
+
+  return (
+    <div className="rounded-lg border px-4 py-2.5 space-y-2">
+      <div className="flex items-center gap-2">
+        <MessageSquare className="h-4 w-4 text-muted-foreground" />
+        <div>
+          <span className="text-xs font-medium">Refine targeting</span>
+          <p className="text-[10px] text-muted-foreground leading-tight">
+            {audienceCount !== null
+              ? `${audienceCount.toLocaleString()} ${filterEmailsOnly ? "contacts with an email" : "customers"} match the current rules`
+              : 'Describe a change, e.g. "drop the under-30s" or "too small, broaden"'}
+          </p>
+        </div>
+      </div>
+
+      {turns.map((turn, index) => (
+        <div
+          key={index}
+          className="space-y-1 border-l-2 pl-2"
+          data-testid={`refinement-turn-${index}`}
+        >
+          <p className="text-xs font-medium">{turn.message}</p>
+          {turn.reasoning && (
+            <p className="text-[11px] text-muted-foreground">
+              {turn.reasoning}
+            </p>
+          )}
+          <DiffBadges diff={turn.diff} />
+          <ValidationNote report={turn.validation} />
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <Input
+          placeholder="Ask for a change..."
+          maxLength={1000}
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") submit();
+          }}
+          disabled={busy}
+          className="h-8 text-xs"
+          data-testid="input-refinement-message"
+        />
+        <Button
+          size="sm"
+          className="h-8"
+          onClick={submit}
+          disabled={busy || !message.trim()}
+          aria-label="Send"
+          data-testid="button-send-refinement"
+        >
+          {refineMutation.isPending ? (
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          ) : (
+            <Send className="h-3.5 w-3.5" />
+          )}
+        </Button>
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          type="number"
+          min={1}
+          placeholder="Target contacts, e.g. 20000"
+          value={targetSize}
+          onChange={(e) => setTargetSize(e.target.value)}
+          disabled={busy}
+          className="h-8 text-xs"
+          data-testid="input-target-size"
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-8 text-xs"
+          onClick={() => sizeMutation.mutate(requestedSize)}
+          disabled={busy || !(requestedSize > 0)}
+          data-testid="button-target-size"
+        >
+          {sizeMutation.isPending ? (
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          ) : (
+            <Crosshair className="h-3.5 w-3.5" />
+          )}
+          Fit to size
+        </Button>
+      </div>
+    </div>
+  );
+}
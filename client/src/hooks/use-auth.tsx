@@ -0,0 +1,77 @@
+import { createContext, useContext, type ReactNode } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { PublicUser, UserRole } from "@shared/schema";
+import { userRoles } from "@shared/schema";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+
+interface LoginInput {
+  username: string;
+  password: string;
+}
+
+interface AuthContextType {
+  user: PublicUser | null;
+  isLoading: boolean;
+  login: (input: LoginInput) => Promise<PublicUser>;
+  isLoggingIn: boolean;
+  loginError: Error | null;
+  logout: () => void;
+  hasRole: (required: UserRole) => boolean;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ["/api/auth/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (input: LoginInput) => {
+      const res = await apiRequest("POST", "/api/auth/login", input);
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: (loggedIn) => {
+      queryClient.setQueryData(["/api/auth/me"], loggedIn);
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSettled: () => {
+      // Drop everything cached for the previous user
+      queryClient.clear();
+      queryClient.setQueryData(["/api/auth/me"], null);
+    },
+  });
+
+  const hasRole = (required: UserRole) =>
+    !!user && userRoles.indexOf(user.role) >= userRoles.indexOf(required);
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        login: loginMutation.mutateAsync,
+        isLoggingIn: loginMutation.isPending,
+        loginError: loginMutation.error,
+        logout: () => logoutMutation.mutate(),
+        hasRole,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
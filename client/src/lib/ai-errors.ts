@@ -0,0 +1,16 @@
+import type { AIResponseErrorBody } from "@shared/schema";
+import { getApiErrorBody } from "@/lib/queryClient";
+
+// Text for a failed AI request. A reply the server rejected even after asking the
+// model to fix it gets an explanation; anything else shows the server's message.
+export function describeAIError(error: Error): string {
+  const body = getApiErrorBody(error);
+  if (body?.code === "ai_response_invalid") {
+    const { issues } = body as AIResponseErrorBody;
+    return (
+      "The AI's answer was not in the expected format, even after a retry. " +
+      `Try again or rephrase the request. (${issues.slice(0, 2).join("; ")})`
+    );
+  }
+  return typeof body?.error === "string" ? body.error : error.message;
+}
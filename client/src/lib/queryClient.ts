@@ -7,6 +7,19 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Recovers the JSON body from an error thrown by apiRequest ("400: {...}")
+export function getApiErrorBody(error: unknown): Record<string, any> | null {
+  if (!(error instanceof Error)) return null;
+  const match = error.message.match(/^\d{3}: ([\s\S]*)$/);
+  if (!match) return null;
+  try {
+    const body = JSON.parse(match[1]);
+    return body && typeof body === "object" ? body : null;
+  } catch {
+    return null;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -0,0 +1,18 @@
+import type { SuggestionValidationReport } from "@shared/schema";
+
+// What the server fixed or dropped in the AI's suggestions, for a toast or note
+export function describeSuggestionValidation(
+  report: SuggestionValidationReport | undefined,
+): string | null {
+  if (!report) return null;
+  const list = (notes: SuggestionValidationReport["corrected"]) =>
+    notes.map((n) => `${n.segment} (${n.message})`).join("; ");
+  const parts: string[] = [];
+  if (report.corrected.length > 0) {
+    parts.push(`Corrected: ${list(report.corrected)}.`);
+  }
+  if (report.dropped.length > 0) {
+    parts.push(`Dropped: ${list(report.dropped)}.`);
+  }
+  return parts.length > 0 ? parts.join(" ") : null;
+}
@@ -0,0 +1,96 @@
+import { useState } from "react";
+import { Wrench, Loader2, LogIn } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useAuth } from "@/hooks/use-auth";
+
+export default function AuthPage() {
+  const { login, isLoggingIn, loginError } = useAuth();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    // Errors are surfaced through loginError
+    login({ username: username.trim(), password }).catch(() => {});
+  };
+
+  const errorMessage = loginError
+    ? loginError.message.startsWith("401")
+      ? "Invalid username or password"
+      : "Could not sign in. Please try again."
+    : null;
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-muted/30">
+      <Card className="w-full max-w-sm mx-4">
+        <CardHeader className="space-y-3">
+          <div className="flex items-center gap-2.5">
+            <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-lg bg-primary/10">
+              <Wrench className="h-4 w-4 text-primary" />
+            </div>
+            <div className="leading-tight">
+              <CardTitle className="text-base">Database Toolkit</CardTitle>
+              <CardDescription className="text-xs">
+                Sign in to continue
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-1.5">
+              <Label htmlFor="username">Username</Label>
+              <Input
+                id="username"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                autoFocus
+                data-testid="input-username"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                data-testid="input-password"
+              />
+            </div>
+            {errorMessage && (
+              <Alert variant="destructive">
+                <AlertDescription>{errorMessage}</AlertDescription>
+              </Alert>
+            )}
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={isLoggingIn || !username.trim() || !password}
+              data-testid="button-login"
+            >
+              {isLoggingIn ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <LogIn className="h-4 w-4 mr-2" />
+              )}
+              Sign in
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -77,7 +77,8 @@ import { useDebounce } from "@/hooks/use-debounce";
 import { ResultsPanel } from "@/components/results-panel";
 import { ExportDialog } from "@/components/export-dialog";
 import { DatabaseSelector } from "@/components/database-selector";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getApiErrorBody } from "@/lib/queryClient";
+import { describeAIError } from "@/lib/ai-errors";
 import {
   OPERATOR_LABELS,
   BASE_TYPE_OPERATORS,
@@ -119,6 +120,23 @@ interface SQLAnalysisResponse {
     title: string;
   } | null;
   rowCount: number;
+  rowLimit: number;
+  rowLimitApplied: boolean;
+}
+
+interface SQLSafetyViolation {
+  code: string;
+  message: string;
+  token?: string;
+  position?: number;
+}
+
+// Returned with a 400 when the generated SQL fails the server's safety checks
+interface SQLAnalysisRejection {
+  error: string;
+  sql: string;
+  explanation?: string;
+  violations: SQLSafetyViolation[];
 }
 
 export default function BrainworksFiltering() {
@@ -143,6 +161,8 @@ export default function BrainworksFiltering() {
   const [analysisPrompt, setAnalysisPrompt] = useState("");
   const [analysisResult, setAnalysisResult] =
     useState<SQLAnalysisResponse | null>(null);
+  const [analysisRejection, setAnalysisRejection] =
+    useState<SQLAnalysisRejection | null>(null);
   const [showSQL, setShowSQL] = useState(false);
   const [analysisViewMode, setAnalysisViewMode] = useState<"table" | "chart">(
     "table",
@@ -262,6 +282,7 @@ export default function BrainworksFiltering() {
       setFilters({});
       setFieldOptions({});
       setAnalysisResult(null);
+      setAnalysisRejection(null);
       setAnalysisPrompt("");
     }
   }, [selectedTableId]);
@@ -277,6 +298,7 @@ export default function BrainworksFiltering() {
     },
     onSuccess: (data) => {
       setAnalysisResult(data);
+      setAnalysisRejection(null);
       // Auto-switch to chart view if chart config is available
       if (data.chartConfig && data.chartConfig.type !== "table_only") {
         setAnalysisViewMode("chart");
@@ -285,10 +307,15 @@ export default function BrainworksFiltering() {
       }
     },
     onError: (error) => {
+      const body = getApiErrorBody(error);
+      if (body && Array.isArray(body.violations)) {
+        setAnalysisResult(null);
+        setAnalysisRejection(body as SQLAnalysisRejection);
+        return;
+      }
       toast({
         title: "Analysis failed",
-        description:
-          error instanceof Error ? error.message : "Failed to run analysis",
+        description: describeAIError(error),
         variant: "destructive",
       });
     },
@@ -306,6 +333,7 @@ export default function BrainworksFiltering() {
     setFilters({});
     setFieldOptions({});
     setAnalysisResult(null);
+    setAnalysisRejection(null);
   }, []);
 
   const handleTableChange = useCallback((id: number) => {
@@ -520,6 +548,9 @@ export default function BrainworksFiltering() {
                         className="text-xs tabular-nums"
                       >
                         {analysisResult.rowCount} rows
+                        {analysisResult.rowLimitApplied &&
+                          analysisResult.rowCount >= analysisResult.rowLimit &&
+                          " (limit reached)"}
                       </Badge>
                     )}
                     {analysisOpen ? (
@@ -579,6 +610,24 @@ export default function BrainworksFiltering() {
                   </div>
                 )}
 
+                {/* Rejected by the SQL safety checks */}
+                {analysisRejection && !analysisMutation.isPending && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertTitle>{analysisRejection.error}</AlertTitle>
+                    <AlertDescription className="space-y-2">
+                      <ul className="list-disc pl-4 text-xs space-y-0.5">
+                        {analysisRejection.violations.map((v, i) => (
+                          <li key={i}>{v.message}</li>
+                        ))}
+                      </ul>
+                      <pre className="p-2 rounded bg-muted/60 text-xs font-mono overflow-x-auto whitespace-pre-wrap text-foreground">
+                        {analysisRejection.sql}
+                      </pre>
+                    </AlertDescription>
+                  </Alert>
+                )}
+
                 {/* Results */}
                 {analysisResult && !analysisMutation.isPending && (
                   <div className="space-y-3">
@@ -686,7 +735,9 @@ export default function BrainworksFiltering() {
                 )}
 
                 {/* Empty state */}
-                {!analysisResult && !analysisMutation.isPending && (
+                {!analysisResult &&
+                  !analysisRejection &&
+                  !analysisMutation.isPending && (
                   <div className="py-6 text-center space-y-2">
                     <div className="h-10 w-10 rounded-xl bg-muted/60 flex items-center justify-center mx-auto">
                       <Sparkles className="h-5 w-5 text-muted-foreground/40" />
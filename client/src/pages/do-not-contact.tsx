@@ -0,0 +1,422 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  Ban,
+  Loader2,
+  Trash2,
+  Upload,
+  Plus,
+  ChevronLeft,
+  ChevronRight,
+  AlertCircle,
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  doNotContactTypes,
+  type DoNotContactAddResult,
+  type DoNotContactListResponse,
+  type DoNotContactType,
+} from "@shared/schema";
+
+const ALL = "__all__";
+
+const TYPE_LABELS: Record<DoNotContactType, string> = {
+  email: "Email",
+  phone: "Phone",
+  customer_ref: "Customer ref",
+  domain: "Domain",
+};
+
+const TYPE_PLACEHOLDERS: Record<DoNotContactType, string> = {
+  email: "taro.yamada@example.jp",
+  phone: "090-1234-5678",
+  customer_ref: "100234",
+  domain: "example.jp",
+};
+
+function describeResult(result: DoNotContactAddResult): string {
+  const parts = [`${result.added.toLocaleString()} added`];
+  if (result.alreadyListed > 0) {
+    parts.push(`${result.alreadyListed.toLocaleString()} already listed`);
+  }
+  if (result.rejected.length > 0) {
+    const sample = result.rejected.slice(0, 3).join(", ");
+    parts.push(
+      `${result.rejected.length.toLocaleString()} invalid (${sample}${
+        result.rejected.length > 3 ? ", …" : ""
+      })`,
+    );
+  }
+  return parts.join(", ");
+}
+
+export default function DoNotContact() {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canEdit = hasRole("operator");
+
+  const [typeFilter, setTypeFilter] = useState<DoNotContactType | null>(null);
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(1);
+
+  const [newType, setNewType] = useState<DoNotContactType>("email");
+  const [newValues, setNewValues] = useState("");
+  const [newReason, setNewReason] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const params = new URLSearchParams({ page: String(page) });
+  if (typeFilter) params.set("type", typeFilter);
+  if (search.trim()) params.set("search", search.trim());
+
+  const listQuery = useQuery<DoNotContactListResponse>({
+    queryKey: [`/api/do-not-contact?${params}`],
+  });
+
+  useEffect(() => setPage(1), [typeFilter, search]);
+
+  const refreshList = () =>
+    queryClient.invalidateQueries({
+      predicate: (query) =>
+        String(query.queryKey[0]).startsWith("/api/do-not-contact"),
+    });
+
+  const onAdded = (result: DoNotContactAddResult) => {
+    toast({
+      title: "Do-not-contact list updated",
+      description: describeResult(result),
+    });
+    setNewValues("");
+    refreshList();
+  };
+  const onAddError = (error: Error) =>
+    toast({
+      title: "Could not add values",
+      description: error.message,
+      variant: "destructive",
+    });
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/do-not-contact", {
+        type: newType,
+        values: newValues.split(/[\r\n,]+/),
+        reason: newReason.trim() || undefined,
+      });
+      return response.json() as Promise<DoNotContactAddResult>;
+    },
+    onSuccess: onAdded,
+    onError: onAddError,
+  });
+
+  // Same as the suppression upload: the file goes up as-is (text/csv)
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const query = new URLSearchParams({ type: newType });
+      if (newReason.trim()) query.set("reason", newReason.trim());
+      const response = await fetch(`/api/do-not-contact/upload?${query}`, {
+        method: "POST",
+        headers: { "Content-Type": "text/csv" },
+        body: await file.text(),
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error(
+          `${response.status}: ${(await response.text()) || response.statusText}`,
+        );
+      }
+      return response.json() as Promise<DoNotContactAddResult>;
+    },
+    onSuccess: onAdded,
+    onError: onAddError,
+    onSettled: () => {
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/do-not-contact/${id}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Entry removed" });
+      refreshList();
+    },
+    onError: (error) =>
+      toast({
+        title: "Remove failed",
+        description: error.message,
+        variant: "destructive",
+      }),
+  });
+
+  const pagination = listQuery.data?.pagination;
+  const isAdding = addMutation.isPending || uploadMutation.isPending;
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto space-y-6 font-sans">
+      {/* Header */}
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-primary/10 text-primary rounded-lg">
+          <Ban className="h-5 w-5" />
+        </div>
+        <div>
+          <h1 className="text-xl font-semibold tracking-tight">
+            Do Not Contact
+          </h1>
+          <p className="text-xs text-muted-foreground">
+            Permanent opt-outs, removed from every preview and export regardless
+            of the suppression window
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-5">
+        {/* Entries */}
+        <Card className="lg:col-span-3">
+          <CardHeader className="pb-2 pt-4 px-5 flex flex-row items-center justify-between space-y-0">
+            <CardTitle className="text-sm font-medium">Entries</CardTitle>
+            {pagination && (
+              <span className="text-[11px] text-muted-foreground tabular-nums">
+                {pagination.totalCount.toLocaleString()} total
+              </span>
+            )}
+          </CardHeader>
+          <CardContent className="px-5 pb-4 space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <Select
+                value={typeFilter ?? ALL}
+                onValueChange={(v) =>
+                  setTypeFilter(v === ALL ? null : (v as DoNotContactType))
+                }
+              >
+                <SelectTrigger className="h-9" data-testid="select-dnc-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All types</SelectItem>
+                  {doNotContactTypes.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search values"
+                className="h-9"
+                data-testid="input-dnc-search"
+              />
+            </div>
+            {listQuery.error && (
+              <p className="text-[11px] text-destructive flex items-center gap-1">
+                <AlertCircle className="w-3 h-3" /> {listQuery.error.message}
+              </p>
+            )}
+            {listQuery.isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs">Value</TableHead>
+                    <TableHead className="text-xs">Type</TableHead>
+                    <TableHead className="text-xs">Reason</TableHead>
+                    <TableHead className="text-xs">Added</TableHead>
+                    {canEdit && <TableHead className="w-8" />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {listQuery.data?.entries.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="text-xs font-mono truncate max-w-[220px]">
+                        {entry.value}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="secondary" className="text-[10px]">
+                          {TYPE_LABELS[entry.type]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground truncate max-w-[160px]">
+                        {entry.reason ?? "—"}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {new Date(entry.createdAt).toLocaleDateString()}
+                        {entry.createdBy && ` · ${entry.createdBy}`}
+                      </TableCell>
+                      {canEdit && (
+                        <TableCell className="p-1">
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7"
+                            onClick={() => removeMutation.mutate(entry.id)}
+                            disabled={removeMutation.isPending}
+                            data-testid={`button-remove-dnc-${entry.id}`}
+                          >
+                            <Trash2 className="h-3.5 w-3.5 text-destructive" />
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {pagination && pagination.totalPages > 1 && (
+              <div className="flex items-center justify-end gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-7"
+                  disabled={page <= 1}
+                  onClick={() => setPage(page - 1)}
+                >
+                  <ChevronLeft className="h-3.5 w-3.5" />
+                </Button>
+                <span className="text-[11px] text-muted-foreground tabular-nums">
+                  Page {pagination.page} of {pagination.totalPages}
+                </span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-7"
+                  disabled={!pagination.hasMore}
+                  onClick={() => setPage(page + 1)}
+                >
+                  <ChevronRight className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Additions */}
+        {canEdit && (
+          <Card className="lg:col-span-2">
+            <CardHeader className="pb-2 pt-4 px-5">
+              <CardTitle className="text-sm font-medium">Add values</CardTitle>
+            </CardHeader>
+            <CardContent className="px-5 pb-4 space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label className="text-[11px] text-muted-foreground">
+                    Type
+                  </Label>
+                  <Select
+                    value={newType}
+                    onValueChange={(v) => setNewType(v as DoNotContactType)}
+                  >
+                    <SelectTrigger
+                      className="h-9"
+                      data-testid="select-new-dnc-type"
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {doNotContactTypes.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {TYPE_LABELS[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-[11px] text-muted-foreground">
+                    Reason
+                  </Label>
+                  <Input
+                    value={newReason}
+                    onChange={(e) => setNewReason(e.target.value)}
+                    placeholder="e.g. Unsubscribed"
+                    maxLength={200}
+                    className="h-9"
+                    data-testid="input-new-dnc-reason"
+                  />
+                </div>
+              </div>
+              <Textarea
+                value={newValues}
+                onChange={(e) => setNewValues(e.target.value)}
+                placeholder={`One per line, e.g. ${TYPE_PLACEHOLDERS[newType]}`}
+                className="min-h-[120px] font-mono text-xs"
+                data-testid="textarea-new-dnc-values"
+              />
+              <p className="text-[11px] text-muted-foreground">
+                Emails are matched case-insensitively, ignoring +tags (and dots
+                for Gmail). Phone numbers are matched on digits only. A domain
+                also covers its subdomains.
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => addMutation.mutate()}
+                  disabled={!newValues.trim() || isAdding}
+                  data-testid="button-add-dnc"
+                >
+                  {addMutation.isPending ? (
+                    <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />
+                  ) : (
+                    <Plus className="h-3.5 w-3.5 mr-1.5" />
+                  )}
+                  Add
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isAdding}
+                  data-testid="button-upload-dnc-csv"
+                >
+                  {uploadMutation.isPending ? (
+                    <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />
+                  ) : (
+                    <Upload className="h-3.5 w-3.5 mr-1.5" />
+                  )}
+                  Upload CSV
+                </Button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,.tsv,.txt,text/csv"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) uploadMutation.mutate(file);
+                  }}
+                />
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
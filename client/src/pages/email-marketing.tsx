@@ -11,9 +11,23 @@ import {
   Sparkles,
   Users,
   ShieldOff,
+  Ban,
+  Undo2,
+  FlaskConical,
+  Save,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
@@ -29,18 +43,35 @@ import {
 } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { apiRequest } from "@/lib/queryClient";
+import { describeAIError } from "@/lib/ai-errors";
+import { describeSuggestionValidation } from "@/lib/suggestion-validation";
 import { CampaignExportDialog } from "@/components/campaign-export-dialog";
+import { SuppressionMappingCard } from "@/components/suppression-mapping-card";
+import { FrequencyCapEditor } from "@/components/frequency-cap-editor";
+import { SplitCellEditor } from "@/components/split-cell-editor";
+import { TargetingRefinementChat } from "@/components/targeting-refinement-chat";
 import type {
+  AudienceTierCounts,
+  CampaignRollbackResponse,
+  ExportMappingResponse,
+  FrequencyCapRule,
+  SplitCell,
+  SuggestionValidationReport,
   MetabaseDatabase,
   MetabaseTable,
   MetabaseField,
+  SuppressionWriteBackReport,
+  TargetingRefinementResponse,
+  TargetingRule,
 } from "@shared/schema";
 
 interface SegmentSuggestion {
   segment: string;
   confidence: number;
   reasoning: string;
+  rule?: TargetingRule;
 }
 
 interface AIAnalysisResponse {
@@ -48,6 +79,7 @@ interface AIAnalysisResponse {
   suggestedAgeRange: string | null;
   reasoning: string;
   matchCounts?: Record<string, number>;
+  validation?: SuggestionValidationReport;
 }
 
 interface PreviewResponse {
@@ -62,50 +94,47 @@ interface PreviewResponse {
   columns: string[];
   records: Record<string, any>[];
   excludedCount: number;
+  frequencyCappedCount: number;
+  frequencyCapWarnings?: string[];
+  holdoutCount: number;
+  holdoutWarning?: string | null;
+  complianceExcludedCount: number;
   totalCandidates: number;
   historyTableUsed: boolean;
   filterWarning?: string | null;
+  fillWarning?: string | null;
   emailColumn: string | null;
   emailFilterApplied: boolean;
   totalWithEmail?: number;
   exactMatchCount?: number;
   relaxedCount?: number;
+  fillCount?: number;
+  dobColumn?: string | null;
+  demographicFilters?: string[];
+  demographicWarnings?: string[];
 }
 
-interface ExportMappingResponse {
-  ready: boolean;
-  issues: string[];
-  source: {
-    databaseId: number;
-    tableName: string;
-    refColumn: string | null;
-    refConfidence: number;
-    refReason: string;
-    sourceSystemColumn: string | null;
-    sourceSystemConfidence: number;
-    sourceSystemReason: string;
-    sourceSystemSample: string | null;
-  };
-  suppression: {
-    databaseId: number | null;
-    tableName: string | null;
-    refColumn: string | null;
-    refReason: string;
-    refConfidence: number;
-    campaignCodeColumn: string | null;
-    campaignCodeReason: string;
-    campaignCodeConfidence: number;
-    sourceSystemColumn: string | null;
-    sourceSystemReason: string;
-    sourceSystemConfidence: number;
-    sentDateColumn: string | null;
-    sentDateReason: string;
-    sentDateConfidence: number;
-  };
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// The last export that logged contacts, kept so it can be rolled back
+interface LoggedExport {
+  campaignId: string;
+  runId: string;
+  campaignCode: string;
+  inserted: number;
 }
 
 export default function EmailMarketing() {
   const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canRollBack = hasRole("operator");
 
   // State: Source Selection
   const [selectedDatabaseId, setSelectedDatabaseId] = useState<number | null>(
@@ -129,19 +158,31 @@ export default function EmailMarketing() {
   const [concept, setConcept] = useState("");
   const [birthdayFilter, setBirthdayFilter] = useState("");
   const [excludeDays, setExcludeDays] = useState("7");
+  const [frequencyCaps, setFrequencyCaps] = useState<FrequencyCapRule[]>([]);
+  const [holdoutPercent, setHoldoutPercent] = useState("0");
+  const [splitCells, setSplitCells] = useState<SplitCell[]>([]);
   const [contactCap, setContactCap] = useState("10000");
   const [applySuppression, setApplySuppression] = useState(true);
+  // Saved exports can be rolled back and keep the holdout's control group file
+  const [saveCampaign, setSaveCampaign] = useState(true);
 
   // State: Results
   const [selectedSegments, setSelectedSegments] = useState<string[]>([]);
+  const [segmentRules, setSegmentRules] = useState<
+    Record<string, TargetingRule>
+  >({});
   const [analysisResult, setAnalysisResult] =
     useState<AIAnalysisResponse | null>(null);
+  // Bumped on every new analysis so the refinement chat starts a fresh session
+  const [refinementKey, setRefinementKey] = useState(0);
   const [previewResult, setPreviewResult] = useState<PreviewResponse | null>(
     null,
   );
   const [exportMapping, setExportMapping] =
     useState<ExportMappingResponse | null>(null);
   const [exportDialogOpen, setExportDialogOpen] = useState(false);
+  const [lastExport, setLastExport] = useState<LoggedExport | null>(null);
+  const [confirmRollback, setConfirmRollback] = useState(false);
 
   // 1. Fetch all databases
   const { data: databases, isLoading: isLoadingDatabases } = useQuery<
@@ -207,6 +248,7 @@ export default function EmailMarketing() {
       setAnalysisResult(null);
       setPreviewResult(null);
       setSelectedSegments([]);
+      setSegmentRules({});
     }
   }, [selectedDatabaseId, tables]);
 
@@ -214,6 +256,7 @@ export default function EmailMarketing() {
   const previewMutation = useMutation({
     mutationFn: async (vars?: {
       segments?: string[];
+      segmentRules?: Record<string, TargetingRule>;
       ageRange?: string | null;
     }) => {
       const response = await apiRequest("POST", "/api/ai/preview-v2", {
@@ -223,12 +266,16 @@ export default function EmailMarketing() {
         historyTableId: applySuppression ? suppressionTableId : null,
         campaignCode,
         segments: vars?.segments ?? selectedSegments,
+        segmentRules: vars?.segmentRules ?? segmentRules,
         ageRange:
           vars?.ageRange !== undefined
             ? vars.ageRange
             : analysisResult?.suggestedAgeRange,
         birthdayFilter,
         excludeDays: parseInt(excludeDays) || 7,
+        frequencyCaps,
+        holdoutPercent: parseInt(holdoutPercent) || 0,
+        splitCells,
         contactCap: parseInt(contactCap) || 5000,
         filterEmailsOnly,
       });
@@ -251,6 +298,7 @@ export default function EmailMarketing() {
         historyDbId: applySuppression ? suppressionDbId : null,
         historyTableId: applySuppression ? suppressionTableId : null,
         segments: selectedSegments,
+        segmentRules,
       });
       return response.json();
     },
@@ -261,42 +309,130 @@ export default function EmailMarketing() {
   const exportMutation = useMutation({
     mutationFn: async () => {
       const response = await apiRequest("POST", "/api/ai/export-v2", {
+        concept,
         databaseId: selectedDatabaseId,
         masterTableId: selectedMasterTableId,
         historyDbId: applySuppression ? suppressionDbId : null,
         historyTableId: applySuppression ? suppressionTableId : null,
         campaignCode,
         segments: selectedSegments,
+        segmentRules,
         ageRange: analysisResult?.suggestedAgeRange,
         birthdayFilter,
         excludeDays: parseInt(excludeDays) || 7,
+        frequencyCaps,
+        holdoutPercent: parseInt(holdoutPercent) || 0,
+        splitCells,
         contactCap: parseInt(contactCap) || 5000,
         filterEmailsOnly,
+        saveCampaign: saveCampaign || (parseInt(holdoutPercent) || 0) > 0,
       });
-      return response.blob();
+      const report = response.headers.get("X-Write-Back-Report");
+      return {
+        blob: await response.blob(),
+        writeBack: report
+          ? (JSON.parse(report) as SuppressionWriteBackReport)
+          : null,
+        complianceExcluded: Number(
+          response.headers.get("X-Compliance-Excluded-Count") ?? 0,
+        ),
+        frequencyCapped: Number(
+          response.headers.get("X-Frequency-Capped-Count") ?? 0,
+        ),
+        frequencyCapWarnings: JSON.parse(
+          response.headers.get("X-Frequency-Cap-Warnings") ?? "[]",
+        ) as string[],
+        heldOut: Number(response.headers.get("X-Holdout-Count") ?? 0),
+        cellCounts: JSON.parse(
+          response.headers.get("X-Cell-Counts") ?? "null",
+        ) as Record<string, number> | null,
+        tierCounts: JSON.parse(
+          response.headers.get("X-Tier-Counts") ?? "null",
+        ) as AudienceTierCounts | null,
+        campaignId: response.headers.get("X-Campaign-Id"),
+        runId: response.headers.get("X-Campaign-Run-Id"),
+      };
     },
-    onSuccess: (blob) => {
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `${campaignCode || "campaign"}-${new Date().toISOString().split("T")[0]}.csv`;
-      a.click();
-      URL.revokeObjectURL(url);
+    onSuccess: ({
+      blob,
+      writeBack,
+      complianceExcluded,
+      frequencyCapped,
+      frequencyCapWarnings,
+      heldOut,
+      cellCounts,
+      tierCounts,
+      campaignId,
+      runId,
+    }) => {
+      const date = new Date().toISOString().split("T")[0];
+      downloadBlob(blob, `${campaignCode || "campaign"}-${date}.csv`);
+      // The control group is kept on the run; fetch it as a second file
+      if (heldOut > 0 && campaignId && runId) {
+        const controlName = `${campaignCode || "campaign"}-control-${date}.csv`;
+        apiRequest(
+          "GET",
+          `/api/campaigns/${campaignId}/runs/${runId}/files/control`,
+        )
+          .then((res) => res.blob())
+          .then((control) => downloadBlob(control, controlName))
+          .catch((error) =>
+            toast({
+              title: "Control group download failed",
+              description: error.message,
+              variant: "destructive",
+            }),
+          );
+      }
       setExportDialogOpen(false);
       toast({
         title: "Success",
-        description: applySuppression
-          ? "Export complete and logged to suppression history."
-          : "Export complete (suppression skipped).",
+        description:
+          (writeBack
+            ? `Export complete. Suppression history: ${writeBack.inserted} logged` +
+              (writeBack.duplicatesSkipped > 0
+                ? `, ${writeBack.duplicatesSkipped} already logged today for this campaign code`
+                : "") +
+              "."
+            : "Export complete (suppression skipped).") +
+          (complianceExcluded > 0
+            ? ` ${complianceExcluded} contacts on the do-not-contact list were left out.`
+            : "") +
+          (frequencyCapped > 0
+            ? ` ${frequencyCapped} contacts over a frequency cap were skipped.`
+            : "") +
+          (frequencyCapWarnings.length > 0
+            ? ` ${frequencyCapWarnings.join(" ")}`
+            : "") +
+          (heldOut > 0
+            ? ` ${heldOut} contacts were held out as the control group.`
+            : "") +
+          (cellCounts
+            ? ` Split-test cells: ${Object.entries(cellCounts)
+                .map(([cell, count]) => `${cell} ${count}`)
+                .join(", ")}.`
+            : "") +
+          (tierCounts && tierCounts.fill > 0
+            ? ` ${tierCounts.fill} contacts outside the targeting were added to reach the cap.`
+            : ""),
       });
+      setLastExport(
+        writeBack && writeBack.inserted > 0 && campaignId && runId
+          ? { campaignId, runId, campaignCode, inserted: writeBack.inserted }
+          : null,
+      );
       setConcept("");
       setCampaignCode("");
       setSelectedSegments([]);
+      setSegmentRules({});
       setAnalysisResult(null);
       setPreviewResult(null);
       setExportMapping(null);
       setBirthdayFilter("");
       setExcludeDays("7");
+      setFrequencyCaps([]);
+      setHoldoutPercent("0");
+      setSplitCells([]);
       setContactCap("10000");
       setApplySuppression(true);
     },
@@ -308,10 +444,42 @@ export default function EmailMarketing() {
       }),
   });
 
+  const rollbackMutation = useMutation({
+    mutationFn: async (target: LoggedExport) => {
+      const response = await apiRequest(
+        "POST",
+        `/api/campaigns/${target.campaignId}/runs/${target.runId}/rollback`,
+      );
+      return response.json() as Promise<CampaignRollbackResponse>;
+    },
+    onSuccess: ({ deleted, logged }, target) => {
+      toast({
+        title: "Export rolled back",
+        description:
+          `${deleted.toLocaleString()} suppression entries for ${target.campaignCode} were deleted` +
+          (deleted < logged
+            ? ` (${(logged - deleted).toLocaleString()} had already been removed).`
+            : "."),
+      });
+      setLastExport(null);
+    },
+    onError: (error) =>
+      toast({
+        title: "Rollback failed",
+        description: error.message,
+        variant: "destructive",
+      }),
+  });
+
   const directPreviewMutation = useMutation({
     mutationFn: async () => {
       if (!concept.trim()) {
-        return { segments: [], ageRange: null, analysisData: null };
+        return {
+          segments: [],
+          segmentRules: {},
+          ageRange: null,
+          analysisData: null,
+        };
       }
       const response = await apiRequest("POST", "/api/ai/analyze-concept-v2", {
         concept,
@@ -325,34 +493,61 @@ export default function EmailMarketing() {
         contactCap: parseInt(contactCap) || 5000,
       });
       const data = (await response.json()) as AIAnalysisResponse;
-      const validSegments = data.suggestions
-        .filter((s) => {
-          const count = data.matchCounts?.[s.segment];
-          return count === undefined || count > 0;
-        })
-        .map((s) => s.segment);
+      const validSuggestions = data.suggestions.filter((s) => {
+        const count = data.matchCounts?.[s.segment];
+        return count === undefined || count > 0;
+      });
+      const validRules: Record<string, TargetingRule> = {};
+      for (const s of validSuggestions) {
+        if (s.rule) validRules[s.segment] = s.rule;
+      }
       return {
-        segments: validSegments,
+        segments: validSuggestions.map((s) => s.segment),
+        segmentRules: validRules,
         ageRange: data.suggestedAgeRange,
         analysisData: data,
       };
     },
     onSuccess: async (result) => {
       setAnalysisResult(null);
+      setRefinementKey((key) => key + 1);
+      const fixes = describeSuggestionValidation(
+        result.analysisData?.validation,
+      );
+      if (fixes) {
+        toast({ title: "AI suggestions adjusted", description: fixes });
+      }
       setSelectedSegments(result.segments);
+      setSegmentRules(result.segmentRules);
       previewMutation.mutate({
         segments: result.segments,
+        segmentRules: result.segmentRules,
         ageRange: result.ageRange,
       });
     },
     onError: (error) =>
       toast({
         title: "Preview failed",
-        description: error.message,
+        description: describeAIError(error),
         variant: "destructive",
       }),
   });
 
+  const handleRefined = (result: TargetingRefinementResponse) => {
+    const rules: Record<string, TargetingRule> = {};
+    for (const s of result.suggestions) {
+      if (s.rule) rules[s.segment] = s.rule;
+    }
+    const segments = result.suggestions.map((s) => s.segment);
+    setSelectedSegments(segments);
+    setSegmentRules(rules);
+    previewMutation.mutate({
+      segments,
+      segmentRules: rules,
+      ageRange: result.suggestedAgeRange,
+    });
+  };
+
   const handleDirectPreview = () => {
     if (!selectedDatabaseId || !selectedMasterTableId)
       return toast({
@@ -375,7 +570,14 @@ export default function EmailMarketing() {
       const timer = setTimeout(() => previewMutation.mutate(), 500);
       return () => clearTimeout(timer);
     }
-  }, [contactCap, excludeDays, birthdayFilter, applySuppression]);
+  }, [
+    contactCap,
+    excludeDays,
+    frequencyCaps,
+    holdoutPercent,
+    birthdayFilter,
+    applySuppression,
+  ]);
 
   useEffect(() => {
     if (
@@ -586,6 +788,7 @@ export default function EmailMarketing() {
                   <Input
                     placeholder="e.g. next month"
                     value={birthdayFilter}
+                    maxLength={50}
                     onChange={(e) => setBirthdayFilter(e.target.value)}
                     className="h-9"
                   />
@@ -642,6 +845,88 @@ export default function EmailMarketing() {
                 />
               </div>
 
+              <FrequencyCapEditor
+                caps={frequencyCaps}
+                onChange={setFrequencyCaps}
+                disabled={!suppressionTableId || !applySuppression}
+              />
+
+              {/* Holdout: share of the list kept back as a control group */}
+              <div className="flex items-center justify-between gap-3 rounded-lg border px-4 py-2.5">
+                <div className="flex items-center gap-2">
+                  <FlaskConical className="h-4 w-4 text-muted-foreground" />
+                  <div>
+                    <span className="text-xs font-medium">Control group</span>
+                    <p className="text-[10px] text-muted-foreground leading-tight">
+                      Held out of the file and logged as{" "}
+                      {campaignCode ? `${campaignCode}-CTRL` : "<code>-CTRL"}
+                    </p>
+                  </div>
+                </div>
+                <div className="relative w-[96px] shrink-0">
+                  <Input
+                    type="number"
+                    min="0"
+                    max="50"
+                    value={holdoutPercent}
+                    onChange={(e) => setHoldoutPercent(e.target.value)}
+                    disabled={!suppressionTableId || !applySuppression}
+                    className="h-9 pr-7"
+                    data-testid="input-holdout-percent"
+                  />
+                  <span className="absolute right-3 top-1/2 -translate-y-1/2 text-[11px] text-muted-foreground pointer-events-none">
+                    %
+                  </span>
+                </div>
+              </div>
+
+              <SplitCellEditor
+                cells={splitCells}
+                onChange={setSplitCells}
+                campaignCode={campaignCode}
+                disabled={!suppressionTableId || !applySuppression}
+              />
+
+              {/* Saving registers the export as a campaign run */}
+              <div className="flex items-center justify-between gap-3 rounded-lg border px-4 py-2.5">
+                <div className="flex items-center gap-2">
+                  <Save className="h-4 w-4 text-muted-foreground" />
+                  <div>
+                    <span className="text-xs font-medium">Save as campaign</span>
+                    <p className="text-[10px] text-muted-foreground leading-tight">
+                      {(parseInt(holdoutPercent) || 0) > 0
+                        ? "Required to keep the control group file"
+                        : "Lets the export be re-run or rolled back later"}
+                    </p>
+                  </div>
+                </div>
+                <Switch
+                  checked={saveCampaign || (parseInt(holdoutPercent) || 0) > 0}
+                  onCheckedChange={setSaveCampaign}
+                  disabled={(parseInt(holdoutPercent) || 0) > 0}
+                  data-testid="switch-save-campaign"
+                />
+              </div>
+
+              {exportMapping &&
+                applySuppression &&
+                selectedDatabaseId &&
+                selectedMasterTableId &&
+                suppressionDbId &&
+                suppressionTableId && (
+                  <SuppressionMappingCard
+                    mapping={exportMapping}
+                    databaseId={selectedDatabaseId}
+                    masterTableId={selectedMasterTableId}
+                    historyDbId={suppressionDbId}
+                    historyTableId={suppressionTableId}
+                    onChanged={() => {
+                      mappingMutation.mutate();
+                      previewMutation.mutate(undefined);
+                    }}
+                  />
+                )}
+
               {/* Action Button */}
               <Button
                 onClick={handleDirectPreview}
@@ -666,6 +951,22 @@ export default function EmailMarketing() {
                   </>
                 )}
               </Button>
+
+              {previewResult &&
+                concept.trim() &&
+                selectedDatabaseId &&
+                selectedMasterTableId && (
+                  <TargetingRefinementChat
+                    key={refinementKey}
+                    concept={concept}
+                    databaseId={selectedDatabaseId}
+                    masterTableId={selectedMasterTableId}
+                    segments={selectedSegments}
+                    segmentRules={segmentRules}
+                    filterEmailsOnly={filterEmailsOnly}
+                    onRefined={handleRefined}
+                  />
+                )}
             </CardContent>
           </Card>
         </div>
@@ -686,6 +987,37 @@ export default function EmailMarketing() {
               </CardTitle>
             </CardHeader>
             <CardContent className="pt-5 px-5 pb-5 space-y-4">
+              {lastExport && canRollBack && (
+                <Alert data-testid="alert-last-export">
+                  <Undo2 className="h-4 w-4" />
+                  <AlertTitle className="text-xs font-semibold">
+                    Export logged to suppression
+                  </AlertTitle>
+                  <AlertDescription className="text-[11px] leading-relaxed space-y-2">
+                    <p>
+                      {lastExport.inserted.toLocaleString()} contacts were
+                      logged under {lastExport.campaignCode}. If the send is
+                      cancelled, roll the export back so they are not held back
+                      for the exclusion window.
+                    </p>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={() => setConfirmRollback(true)}
+                      disabled={rollbackMutation.isPending}
+                      data-testid="button-rollback-export"
+                    >
+                      {rollbackMutation.isPending ? (
+                        <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+                      ) : (
+                        <Undo2 className="h-3.5 w-3.5 mr-1" />
+                      )}
+                      Roll back export
+                    </Button>
+                  </AlertDescription>
+                </Alert>
+              )}
               {!previewResult && !isProcessing ? (
                 <div className="flex flex-col items-center justify-center py-10 text-center space-y-3">
                   <div className="h-12 w-12 rounded-xl bg-muted/60 flex items-center justify-center">
@@ -737,6 +1069,42 @@ export default function EmailMarketing() {
                     </Alert>
                   )}
 
+                  {/* Birthday / age filters that could not be applied */}
+                  {previewResult.demographicWarnings &&
+                    previewResult.demographicWarnings.length > 0 && (
+                      <Alert className="border-amber-400 bg-amber-50 dark:bg-amber-950/30 text-amber-900 dark:text-amber-200">
+                        <AlertCircle className="h-4 w-4 !text-amber-600" />
+                        <AlertDescription className="text-amber-700 dark:text-amber-400 text-[11px] leading-relaxed">
+                          {previewResult.demographicWarnings.join(" ")}
+                        </AlertDescription>
+                      </Alert>
+                    )}
+                  {previewResult.fillWarning && (
+                    <Alert className="border-amber-400 bg-amber-50 dark:bg-amber-950/30 text-amber-900 dark:text-amber-200">
+                      <AlertCircle className="h-4 w-4 !text-amber-600" />
+                      <AlertDescription className="text-amber-700 dark:text-amber-400 text-[11px] leading-relaxed">
+                        {previewResult.fillWarning}
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                  {previewResult.frequencyCapWarnings &&
+                    previewResult.frequencyCapWarnings.length > 0 && (
+                      <Alert className="border-amber-400 bg-amber-50 dark:bg-amber-950/30 text-amber-900 dark:text-amber-200">
+                        <AlertCircle className="h-4 w-4 !text-amber-600" />
+                        <AlertDescription className="text-amber-700 dark:text-amber-400 text-[11px] leading-relaxed">
+                          {previewResult.frequencyCapWarnings.join(" ")}
+                        </AlertDescription>
+                      </Alert>
+                    )}
+                  {previewResult.holdoutWarning && (
+                    <Alert className="border-amber-400 bg-amber-50 dark:bg-amber-950/30 text-amber-900 dark:text-amber-200">
+                      <AlertCircle className="h-4 w-4 !text-amber-600" />
+                      <AlertDescription className="text-amber-700 dark:text-amber-400 text-[11px] leading-relaxed">
+                        {previewResult.holdoutWarning}
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
                   {/* Count */}
                   <div className="text-center py-1">
                     <div
@@ -747,10 +1115,19 @@ export default function EmailMarketing() {
                     <div className="text-xs text-muted-foreground mt-0.5">
                       contacts ready
                     </div>
+                    {previewResult.demographicFilters &&
+                      previewResult.demographicFilters.length > 0 && (
+                        <div className="text-[11px] text-muted-foreground mt-1">
+                          Filtered by {previewResult.demographicFilters.join(", ")}
+                          {previewResult.dobColumn
+                            ? ` (${previewResult.dobColumn})`
+                            : ""}
+                        </div>
+                      )}
                   </div>
 
                   {/* Stats */}
-                  <div className="grid grid-cols-2 gap-2">
+                  <div className="grid grid-cols-3 gap-2">
                     <div className="p-2.5 rounded-lg bg-muted/40 text-center">
                       <div className="text-[10px] text-muted-foreground uppercase tracking-wider font-semibold">
                         Exact Match
@@ -777,7 +1154,44 @@ export default function EmailMarketing() {
                         {previewResult.excludedCount.toLocaleString()}
                       </div>
                     </div>
+                    <div
+                      className={`p-2.5 rounded-lg text-center ${previewResult.frequencyCappedCount > 0 ? "bg-amber-50 dark:bg-amber-950/30" : "bg-muted/40"}`}
+                    >
+                      <div
+                        className={`text-[10px] uppercase tracking-wider font-semibold ${previewResult.frequencyCappedCount > 0 ? "text-amber-600 dark:text-amber-400" : "text-muted-foreground"}`}
+                      >
+                        Freq. Capped
+                      </div>
+                      <div
+                        className={`text-base font-semibold tabular-nums mt-0.5 ${previewResult.frequencyCappedCount > 0 ? "text-amber-600 dark:text-amber-400" : ""}`}
+                      >
+                        {previewResult.frequencyCappedCount.toLocaleString()}
+                      </div>
+                    </div>
                   </div>
+                  {previewResult.complianceExcludedCount > 0 && (
+                    <div className="flex items-center gap-2 rounded-lg border px-3 py-2">
+                      <Ban className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                      <p className="text-[11px] text-muted-foreground leading-snug">
+                        <span className="font-semibold text-foreground">
+                          {previewResult.complianceExcludedCount.toLocaleString()}
+                        </span>{" "}
+                        contacts on the do-not-contact list were left out
+                      </p>
+                    </div>
+                  )}
+                  {previewResult.holdoutCount > 0 && (
+                    <div className="flex items-center gap-2 rounded-lg border px-3 py-2">
+                      <FlaskConical className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                      <p className="text-[11px] text-muted-foreground leading-snug">
+                        <span className="font-semibold text-foreground">
+                          {previewResult.holdoutCount.toLocaleString()}
+                        </span>{" "}
+                        of these contacts will be held out as the control group
+                        and exported as a separate file
+                      </p>
+                    </div>
+                  )}
                   {previewResult.relaxedCount != null &&
                     previewResult.relaxedCount > 0 && (
                       <div className="flex items-center gap-2 rounded-lg border border-blue-200 bg-blue-50/60 dark:bg-blue-950/20 dark:border-blue-900 px-3 py-2">
@@ -792,6 +1206,20 @@ export default function EmailMarketing() {
                         </p>
                       </div>
                     )}
+                  {previewResult.fillCount != null &&
+                    previewResult.fillCount > 0 && (
+                      <div className="flex items-center gap-2 rounded-lg border border-amber-200 bg-amber-50/60 dark:bg-amber-950/20 dark:border-amber-900 px-3 py-2">
+                        <TriangleAlert className="h-3.5 w-3.5 shrink-0 text-amber-500" />
+                        <p className="text-[11px] text-amber-700 dark:text-amber-300 leading-snug">
+                          <span className="font-semibold">
+                            {previewResult.fillCount.toLocaleString()}
+                          </span>{" "}
+                          contacts outside the targeting fill the list to your
+                          cap. Lower the cap or broaden the targeting to avoid
+                          them.
+                        </p>
+                      </div>
+                    )}
 
                   <Separator />
 
@@ -865,6 +1293,32 @@ export default function EmailMarketing() {
           isExporting={exportMutation.isPending}
         />
       )}
+
+      <AlertDialog open={confirmRollback} onOpenChange={setConfirmRollback}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll back this export?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The {lastExport?.inserted.toLocaleString()} suppression entries
+              this export logged under {lastExport?.campaignCode} will be
+              deleted, so those contacts can be selected again. Entries logged
+              by other exports are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (lastExport) rollbackMutation.mutate(lastExport);
+                setConfirmRollback(false);
+              }}
+              data-testid="button-confirm-rollback"
+            >
+              Roll back
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -0,0 +1,660 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  ShieldBan,
+  Loader2,
+  Trash2,
+  Upload,
+  Plus,
+  ChevronLeft,
+  ChevronRight,
+  AlertCircle,
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type {
+  MetabaseDatabase,
+  MetabaseTable,
+  SuppressionAddResult,
+  SuppressionCampaignsResponse,
+  SuppressionEntriesResponse,
+} from "@shared/schema";
+
+const ALL = "__all__";
+
+function describeResult(result: SuppressionAddResult): string {
+  const parts = [`${result.inserted.toLocaleString()} added`];
+  if (result.duplicatesSkipped > 0) {
+    parts.push(
+      `${result.duplicatesSkipped.toLocaleString()} already logged today`,
+    );
+  }
+  if (result.rejected > 0) {
+    parts.push(`${result.rejected.toLocaleString()} invalid`);
+  }
+  return parts.join(", ");
+}
+
+export default function SuppressionList() {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canEdit = hasRole("operator");
+
+  const [historyDbId, setHistoryDbId] = useState<number | null>(null);
+  const [historyTableId, setHistoryTableId] = useState<number | null>(null);
+  const [campaignCode, setCampaignCode] = useState<string | null>(null);
+  const [sourceSystem, setSourceSystem] = useState<string | null>(null);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(1);
+  const [pendingRemoval, setPendingRemoval] = useState<string | null>(null);
+
+  const [newCode, setNewCode] = useState("");
+  const [newSource, setNewSource] = useState("Manual");
+  const [newRefs, setNewRefs] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { data: databases } = useQuery<MetabaseDatabase[]>({
+    queryKey: ["/api/metabase/databases"],
+  });
+  const { data: tables } = useQuery<MetabaseTable[]>({
+    queryKey: ["/api/metabase/databases", historyDbId, "tables"],
+    enabled: !!historyDbId,
+  });
+
+  // Same defaults as the Campaign Builder's suppression auto-detection
+  useEffect(() => {
+    if (!databases || historyDbId) return;
+    const suppDb = databases.find((db) =>
+      db.name.toLowerCase().includes("suppression"),
+    );
+    if (suppDb) setHistoryDbId(suppDb.id);
+  }, [databases]);
+
+  useEffect(() => {
+    if (!tables || tables.length === 0 || historyTableId) return;
+    const suppTable = tables.find((t) =>
+      ["campaign", "suppression", "history"].some(
+        (word) =>
+          t.name.toLowerCase().includes(word) ||
+          t.display_name.toLowerCase().includes(word),
+      ),
+    );
+    setHistoryTableId((suppTable ?? tables[0]).id);
+  }, [tables]);
+
+  const tableParams = `historyDbId=${historyDbId}&historyTableId=${historyTableId}`;
+  const filterParams = useMemo(() => {
+    const params = new URLSearchParams();
+    if (sourceSystem) params.set("sourceSystem", sourceSystem);
+    if (from) params.set("from", from);
+    if (to) params.set("to", to);
+    return params.toString();
+  }, [sourceSystem, from, to]);
+
+  const campaignsQuery = useQuery<SuppressionCampaignsResponse>({
+    queryKey: [`/api/suppression/campaigns?${tableParams}&${filterParams}`],
+    enabled: !!historyDbId && !!historyTableId,
+  });
+
+  const entriesUrl = `/api/suppression/entries?${tableParams}&${filterParams}${
+    campaignCode ? `&campaignCode=${encodeURIComponent(campaignCode)}` : ""
+  }&page=${page}`;
+  const entriesQuery = useQuery<SuppressionEntriesResponse>({
+    queryKey: [entriesUrl],
+    enabled: !!historyDbId && !!historyTableId,
+  });
+
+  useEffect(() => setPage(1), [campaignCode, filterParams, historyTableId]);
+
+  const refreshLists = () =>
+    queryClient.invalidateQueries({
+      predicate: (query) =>
+        String(query.queryKey[0]).startsWith("/api/suppression/"),
+    });
+
+  const removeMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequest(
+        "DELETE",
+        `/api/suppression/campaigns/${encodeURIComponent(code)}?${tableParams}`,
+      );
+      return response.json() as Promise<{ deleted: number }>;
+    },
+    onSuccess: ({ deleted }, code) => {
+      toast({
+        title: "Campaign removed",
+        description: `${deleted.toLocaleString()} entries for ${code} were deleted.`,
+      });
+      if (campaignCode === code) setCampaignCode(null);
+      refreshLists();
+    },
+    onError: (error) =>
+      toast({
+        title: "Remove failed",
+        description: error.message,
+        variant: "destructive",
+      }),
+  });
+
+  const onAdded = (result: SuppressionAddResult) => {
+    toast({
+      title: "Suppression list updated",
+      description: describeResult(result),
+    });
+    setNewRefs("");
+    refreshLists();
+  };
+  const onAddError = (error: Error) =>
+    toast({
+      title: "Could not add references",
+      description: error.message,
+      variant: "destructive",
+    });
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/suppression/entries", {
+        historyDbId,
+        historyTableId,
+        campaignCode: newCode,
+        sourceSystem: newSource,
+        refs: newRefs.split(/[\r\n,]+/),
+      });
+      return response.json() as Promise<SuppressionAddResult>;
+    },
+    onSuccess: onAdded,
+    onError: onAddError,
+  });
+
+  // The file goes up as-is (text/csv) so large lists aren't bound by the JSON limit
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const params = new URLSearchParams({
+        campaignCode: newCode,
+        sourceSystem: newSource,
+      });
+      const response = await fetch(
+        `/api/suppression/upload?${tableParams}&${params}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "text/csv" },
+          body: await file.text(),
+          credentials: "include",
+        },
+      );
+      if (!response.ok) {
+        throw new Error(
+          `${response.status}: ${(await response.text()) || response.statusText}`,
+        );
+      }
+      return response.json() as Promise<SuppressionAddResult>;
+    },
+    onSuccess: onAdded,
+    onError: onAddError,
+    onSettled: () => {
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    },
+  });
+
+  const mapping = campaignsQuery.data?.mapping ?? entriesQuery.data?.mapping;
+  const pagination = entriesQuery.data?.pagination;
+  const isAdding = addMutation.isPending || uploadMutation.isPending;
+  const loadError = campaignsQuery.error ?? entriesQuery.error;
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto space-y-6 font-sans">
+      {/* Header */}
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-primary/10 text-primary rounded-lg">
+          <ShieldBan className="h-5 w-5" />
+        </div>
+        <div>
+          <h1 className="text-xl font-semibold tracking-tight">
+            Suppression List
+          </h1>
+          <p className="text-xs text-muted-foreground">
+            Browse, remove and add entries in the campaign history table
+          </p>
+        </div>
+      </div>
+
+      {/* Table + filters */}
+      <Card>
+        <CardContent className="pt-4 px-5 pb-4 space-y-3">
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+            <div className="space-y-1">
+              <Label className="text-[11px] text-muted-foreground">
+                Database
+              </Label>
+              <Select
+                value={historyDbId ? String(historyDbId) : ""}
+                onValueChange={(v) => {
+                  setHistoryDbId(Number(v));
+                  setHistoryTableId(null);
+                  setCampaignCode(null);
+                }}
+              >
+                <SelectTrigger
+                  className="h-9"
+                  data-testid="select-suppression-db"
+                >
+                  <SelectValue placeholder="Select database" />
+                </SelectTrigger>
+                <SelectContent>
+                  {databases?.map((db) => (
+                    <SelectItem key={db.id} value={String(db.id)}>
+                      {db.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-[11px] text-muted-foreground">Table</Label>
+              <Select
+                value={historyTableId ? String(historyTableId) : ""}
+                onValueChange={(v) => {
+                  setHistoryTableId(Number(v));
+                  setCampaignCode(null);
+                }}
+                disabled={!tables}
+              >
+                <SelectTrigger
+                  className="h-9"
+                  data-testid="select-suppression-table"
+                >
+                  <SelectValue placeholder="Select table" />
+                </SelectTrigger>
+                <SelectContent>
+                  {tables?.map((t) => (
+                    <SelectItem key={t.id} value={String(t.id)}>
+                      {t.display_name || t.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-[11px] text-muted-foreground">
+                Source system
+              </Label>
+              <Select
+                value={sourceSystem ?? ALL}
+                onValueChange={(v) => setSourceSystem(v === ALL ? null : v)}
+                disabled={!mapping?.sourceSystemColumn}
+              >
+                <SelectTrigger
+                  className="h-9"
+                  data-testid="select-source-system"
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All sources</SelectItem>
+                  {campaignsQuery.data?.sourceSystems.map((s) => (
+                    <SelectItem key={s} value={s}>
+                      {s}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-[11px] text-muted-foreground">
+                Sent from
+              </Label>
+              <Input
+                type="date"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+                className="h-9"
+                data-testid="input-sent-from"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-[11px] text-muted-foreground">
+                Sent to
+              </Label>
+              <Input
+                type="date"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                className="h-9"
+                data-testid="input-sent-to"
+              />
+            </div>
+          </div>
+          {mapping && (
+            <p className="text-[11px] text-muted-foreground">
+              Columns (
+              {mapping.mappingSource === "profile"
+                ? "saved mapping"
+                : "auto-detected"}
+              ): reference{" "}
+              <span className="font-mono">{mapping.refColumn}</span>, campaign{" "}
+              <span className="font-mono">{mapping.campaignCodeColumn}</span>,
+              source{" "}
+              <span className="font-mono">
+                {mapping.sourceSystemColumn ?? "—"}
+              </span>
+              , sent <span className="font-mono">{mapping.sentDateColumn}</span>
+            </p>
+          )}
+          {loadError && (
+            <p className="text-[11px] text-destructive flex items-center gap-1">
+              <AlertCircle className="w-3 h-3" /> {loadError.message}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-5">
+        {/* Per-campaign counts */}
+        <Card className="lg:col-span-2">
+          <CardHeader className="pb-2 pt-4 px-5">
+            <CardTitle className="text-sm font-medium">Campaigns</CardTitle>
+          </CardHeader>
+          <CardContent className="px-5 pb-4">
+            {campaignsQuery.isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs">Code</TableHead>
+                    <TableHead className="text-xs text-right">
+                      Entries
+                    </TableHead>
+                    <TableHead className="text-xs">Last sent</TableHead>
+                    {canEdit && <TableHead className="w-8" />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {campaignsQuery.data?.campaigns.map((c) => (
+                    <TableRow
+                      key={c.campaignCode ?? ""}
+                      className={`cursor-pointer ${campaignCode === c.campaignCode ? "bg-muted" : ""}`}
+                      onClick={() =>
+                        setCampaignCode(
+                          campaignCode === c.campaignCode
+                            ? null
+                            : c.campaignCode,
+                        )
+                      }
+                      data-testid={`row-campaign-${c.campaignCode}`}
+                    >
+                      <TableCell className="text-xs font-medium">
+                        {c.campaignCode ?? "(none)"}
+                      </TableCell>
+                      <TableCell className="text-xs text-right tabular-nums">
+                        {c.count.toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {c.lastSent ?? "—"}
+                      </TableCell>
+                      {canEdit && (
+                        <TableCell className="p-1">
+                          {c.campaignCode && (
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="h-7 w-7"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setPendingRemoval(c.campaignCode);
+                              }}
+                              data-testid={`button-remove-${c.campaignCode}`}
+                            >
+                              <Trash2 className="h-3.5 w-3.5 text-destructive" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Entries */}
+        <Card className="lg:col-span-3">
+          <CardHeader className="pb-2 pt-4 px-5 flex flex-row items-center justify-between space-y-0">
+            <CardTitle className="text-sm font-medium flex items-center gap-2">
+              Entries
+              {campaignCode && (
+                <Badge variant="secondary" className="text-[10px]">
+                  {campaignCode}
+                </Badge>
+              )}
+            </CardTitle>
+            {pagination && (
+              <span className="text-[11px] text-muted-foreground tabular-nums">
+                {pagination.totalCount.toLocaleString()} total
+              </span>
+            )}
+          </CardHeader>
+          <CardContent className="px-5 pb-4 space-y-3">
+            {entriesQuery.isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs">Reference</TableHead>
+                    <TableHead className="text-xs">Campaign</TableHead>
+                    <TableHead className="text-xs">Source</TableHead>
+                    <TableHead className="text-xs">Sent</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entriesQuery.data?.entries.map((entry, idx) => (
+                    <TableRow key={`${entry.ref}-${entry.campaignCode}-${idx}`}>
+                      <TableCell className="text-xs font-mono">
+                        {entry.ref}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {entry.campaignCode ?? "—"}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground truncate max-w-[160px]">
+                        {entry.sourceSystem ?? "—"}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {entry.sentDate ?? "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {pagination && pagination.totalPages > 1 && (
+              <div className="flex items-center justify-end gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-7"
+                  disabled={page <= 1}
+                  onClick={() => setPage(page - 1)}
+                >
+                  <ChevronLeft className="h-3.5 w-3.5" />
+                </Button>
+                <span className="text-[11px] text-muted-foreground tabular-nums">
+                  Page {pagination.page} of {pagination.totalPages}
+                </span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-7"
+                  disabled={!pagination.hasMore}
+                  onClick={() => setPage(page + 1)}
+                >
+                  <ChevronRight className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Manual additions */}
+      {canEdit && (
+        <Card>
+          <CardHeader className="pb-2 pt-4 px-5">
+            <CardTitle className="text-sm font-medium">
+              Add references
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="px-5 pb-4 space-y-3">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label className="text-[11px] text-muted-foreground">
+                  Campaign code
+                </Label>
+                <Input
+                  value={newCode}
+                  onChange={(e) => setNewCode(e.target.value)}
+                  placeholder="e.g. OPTOUT-2026"
+                  className="h-9"
+                  data-testid="input-new-campaign-code"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-[11px] text-muted-foreground">
+                  Source system
+                </Label>
+                <Input
+                  value={newSource}
+                  onChange={(e) => setNewSource(e.target.value)}
+                  className="h-9"
+                  data-testid="input-new-source-system"
+                />
+              </div>
+            </div>
+            <Textarea
+              value={newRefs}
+              onChange={(e) => setNewRefs(e.target.value)}
+              placeholder="One reference per line"
+              className="min-h-[90px] font-mono text-xs"
+              data-testid="textarea-new-refs"
+            />
+            <p className="text-[11px] text-muted-foreground">
+              Entries are logged with today's date. References already logged
+              under the same code today are skipped. The source system has to
+              match the master table name for exports from that table to
+              suppress them.
+            </p>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => addMutation.mutate()}
+                disabled={
+                  !newCode.trim() ||
+                  !newRefs.trim() ||
+                  !historyTableId ||
+                  isAdding
+                }
+                data-testid="button-add-refs"
+              >
+                {addMutation.isPending ? (
+                  <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />
+                ) : (
+                  <Plus className="h-3.5 w-3.5 mr-1.5" />
+                )}
+                Add references
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={!newCode.trim() || !historyTableId || isAdding}
+                data-testid="button-upload-csv"
+              >
+                {uploadMutation.isPending ? (
+                  <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />
+                ) : (
+                  <Upload className="h-3.5 w-3.5 mr-1.5" />
+                )}
+                Upload CSV
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.tsv,.txt,text/csv"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) uploadMutation.mutate(file);
+                }}
+              />
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <AlertDialog
+        open={!!pendingRemoval}
+        onOpenChange={(open) => !open && setPendingRemoval(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove {pendingRemoval}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every suppression entry logged under this campaign code will be
+              deleted, so those contacts can be selected by the next export.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingRemoval) removeMutation.mutate(pendingRemoval);
+                setPendingRemoval(null);
+              }}
+              data-testid="button-confirm-remove"
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
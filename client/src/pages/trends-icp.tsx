@@ -7,6 +7,7 @@ import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { describeAIError } from "@/lib/ai-errors";
 import {
   Dialog,
   DialogContent,
@@ -304,7 +305,7 @@ export default function TrendsICP() {
             </div>
           ) : aiSummaryMutation.error ? (
             <p className="text-destructive text-sm" data-testid="text-ai-error">
-              Failed to generate summary: {aiSummaryMutation.error.message}
+              Failed to generate summary: {describeAIError(aiSummaryMutation.error)}
             </p>
           ) : aiSummaryMutation.data ? (
             <div className="space-y-4">
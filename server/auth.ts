@@ -0,0 +1,308 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import {
+  createUserSchema,
+  loginSchema,
+  updateUserSchema,
+  userRoles,
+  type PublicUser,
+  type User,
+  type UserRole,
+} from "@shared/schema";
+import { hasAppDatabase } from "./db";
+import { getStorage } from "./storage";
+
+declare global {
+  namespace Express {
+    interface User extends PublicUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// ── Passwords ───────────────────────────────────────────────────────
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+async function comparePasswords(
+  supplied: string,
+  stored: string,
+): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return (
+    hashedBuf.length === suppliedBuf.length &&
+    timingSafeEqual(hashedBuf, suppliedBuf)
+  );
+}
+
+function toPublicUser(user: User): PublicUser {
+  const { password, ...publicUser } = user;
+  return publicUser;
+}
+
+// ── Roles ───────────────────────────────────────────────────────────
+
+export function hasRole(
+  user: Express.User | undefined,
+  required: UserRole,
+): boolean {
+  if (!user) return false;
+  return userRoles.indexOf(user.role) >= userRoles.indexOf(required);
+}
+
+// Per-route guard: 401 when not logged in, 403 when the role is too low
+export function requireRole(required: UserRole) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (!hasRole(req.user, required)) {
+      return res
+        .status(403)
+        .json({ error: `This action requires the ${required} role` });
+    }
+    next();
+  };
+}
+
+// Databases non-admins may query through the AI SQL analysis tool
+export function getSqlAnalysisDatabaseIds(): number[] {
+  return (process.env.SQL_ANALYSIS_DATABASE_IDS || "")
+    .split(",")
+    .map((id) => parseInt(id.trim(), 10))
+    .filter((id) => !isNaN(id));
+}
+
+// ── Session + passport ──────────────────────────────────────────────
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  console.warn(
+    "SESSION_SECRET is not set — using a random secret; sessions end on restart",
+  );
+  return randomBytes(32).toString("hex");
+}
+
+function createSessionStore(): session.Store {
+  if (hasAppDatabase()) {
+    const PgStore = connectPg(session);
+    return new PgStore({
+      conString: process.env.DATABASE_URL,
+      createTableIfMissing: true,
+    });
+  }
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+// First admin comes from ADMIN_USERNAME / ADMIN_PASSWORD; further users are
+// created by an admin through /api/users
+async function ensureBootstrapAdmin(): Promise<void> {
+  const username = process.env.ADMIN_USERNAME;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!username || !password) {
+    console.warn(
+      "ADMIN_USERNAME / ADMIN_PASSWORD not set — no bootstrap admin account was created",
+    );
+    return;
+  }
+  const storage = getStorage();
+  const existing = await storage.getUserByUsername(username);
+  if (existing) return;
+  await storage.createUser({
+    username,
+    password: await hashPassword(password),
+    role: "admin",
+  });
+  console.log(`Created bootstrap admin account "${username}"`);
+}
+
+export async function setupAuth(app: Express): Promise<void> {
+  app.set("trust proxy", 1);
+  app.use(
+    session({
+      secret: getSessionSecret(),
+      store: createSessionStore(),
+      resave: false,
+      saveUninitialized: false,
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        maxAge: 12 * 60 * 60 * 1000,
+      },
+    }),
+  );
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await getStorage().getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, toPublicUser(user));
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await getStorage().getUser(id);
+      done(null, user ? toPublicUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  try {
+    await ensureBootstrapAdmin();
+  } catch (error) {
+    console.error("Failed to create bootstrap admin:", error);
+  }
+
+  // Everything under /api except the auth endpoints requires a session
+  app.use("/api", (req, res, next) => {
+    if (req.path.startsWith("/auth/")) return next();
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    next();
+  });
+
+  // ── Auth routes ──
+  app.post("/api/auth/login", (req, res, next) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: "Invalid request body",
+        details: parsed.error.errors,
+      });
+    }
+    passport.authenticate(
+      "local",
+      (err: unknown, user: Express.User | false) => {
+        if (err) return next(err);
+        if (!user) {
+          return res
+            .status(401)
+            .json({ error: "Invalid username or password" });
+        }
+        req.login(user, (loginErr) => {
+          if (loginErr) return next(loginErr);
+          res.json(user);
+        });
+      },
+    )(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => res.sendStatus(204));
+    });
+  });
+
+  app.get("/api/auth/me", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not logged in" });
+    }
+    res.json(req.user);
+  });
+
+  // ── User management (admin) ──
+  app.get("/api/users", requireRole("admin"), async (req, res) => {
+    try {
+      const users = await getStorage().listUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      console.error("Error listing users:", error);
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to list users",
+      });
+    }
+  });
+
+  app.post("/api/users", requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = createUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Invalid request body",
+          details: parsed.error.errors,
+        });
+      }
+      const storage = getStorage();
+      if (await storage.getUserByUsername(parsed.data.username)) {
+        return res.status(409).json({ error: "Username already exists" });
+      }
+      const user = await storage.createUser({
+        ...parsed.data,
+        password: await hashPassword(parsed.data.password),
+      });
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      console.error("Error creating user:", error);
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to create user",
+      });
+    }
+  });
+
+  app.patch("/api/users/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = updateUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Invalid request body",
+          details: parsed.error.errors,
+        });
+      }
+      // Admins can't demote themselves — avoids locking everyone out
+      if (
+        req.params.id === req.user!.id &&
+        parsed.data.role &&
+        parsed.data.role !== "admin"
+      ) {
+        return res
+          .status(400)
+          .json({ error: "You cannot remove your own admin role" });
+      }
+      const user = await getStorage().updateUser(req.params.id, {
+        ...(parsed.data.role ? { role: parsed.data.role } : {}),
+        ...(parsed.data.password
+          ? { password: await hashPassword(parsed.data.password) }
+          : {}),
+      });
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error) {
+      console.error("Error updating user:", error);
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to update user",
+      });
+    }
+  });
+}
@@ -0,0 +1,809 @@
+import type {
+  AnalysisDataQuality,
+  BrainworksAnalysisResponse,
+  MetabaseDatabase,
+  MetabaseField,
+  MetabaseTable,
+} from "@shared/schema";
+import {
+  getDatabases,
+  getTables,
+  getFields,
+  getTotalCount,
+  runRawQuery,
+  runNativeQuery,
+  normalizeColName,
+} from "./metabase";
+
+// ── BrainWorks Analysis engine ───────────────────────────────────────
+// Every model runs real aggregates against the selected table. Columns are
+// found by name pattern + base_type, so the same engine works across the
+// differently-shaped tables in the BrainWorks database.
+
+// Assumed cost per mail piece (JPY) when the table has no cost column
+const DEFAULT_MAIL_COST = 100;
+// Maximum number of groups returned per breakout
+const GROUP_LIMIT = 20;
+
+const NUMERIC_TYPES = [
+  "type/Integer",
+  "type/BigInteger",
+  "type/Float",
+  "type/Decimal",
+  "type/Number",
+];
+const DATE_TYPES = [
+  "type/Date",
+  "type/DateTime",
+  "type/DateTimeWithLocalTZ",
+  "type/DateTimeWithTZ",
+];
+
+const RFM_SEGMENT_ORDER = [
+  "Champions",
+  "Loyal Customers",
+  "At Risk",
+  "Potential Loyalists",
+  "Needs Attention",
+  "Hibernating",
+];
+
+const DORMANT_BAND_ORDER = [
+  "6-12 months",
+  "12-24 months",
+  "24-36 months",
+  "36+ months",
+];
+
+interface AnalysisFields {
+  segment: MetabaseField | null;
+  market: MetabaseField | null;
+  campaign: MetabaseField | null;
+  product: MetabaseField | null;
+  revenue: MetabaseField | null;
+  cost: MetabaseField | null;
+  frequency: MetabaseField | null;
+  lastActivity: MetabaseField | null;
+  response: MetabaseField | null;
+  mailed: MetabaseField | null;
+}
+
+interface ModelResult {
+  dataQuality: AnalysisDataQuality;
+  fieldsUsed: MetabaseField[];
+  data: Record<string, any>;
+}
+
+interface GroupStats {
+  label: string;
+  customers: number;
+  mailed: number;
+  converted: number;
+  revenue: number;
+  cost: number;
+}
+
+function isNumericField(f: MetabaseField): boolean {
+  return (
+    NUMERIC_TYPES.includes(f.base_type) &&
+    f.semantic_type !== "type/PK" &&
+    f.semantic_type !== "type/FK"
+  );
+}
+
+function isDateField(f: MetabaseField): boolean {
+  return DATE_TYPES.includes(f.base_type);
+}
+
+function isCategoryField(f: MetabaseField): boolean {
+  return f.base_type === "type/Text" || f.semantic_type === "type/Category";
+}
+
+function isFlagField(f: MetabaseField): boolean {
+  return isNumericField(f) || f.base_type === "type/Boolean";
+}
+
+function findAnalysisField(
+  fields: MetabaseField[],
+  patterns: string[],
+  predicate: (f: MetabaseField) => boolean,
+  exclude: string[] = [],
+): MetabaseField | null {
+  for (const pattern of patterns) {
+    const found = fields.find((f) => {
+      const n = normalizeColName(f.name);
+      return (
+        predicate(f) &&
+        n.includes(pattern) &&
+        !exclude.some((token) => n.includes(token))
+      );
+    });
+    if (found) return found;
+  }
+  return null;
+}
+
+function detectAnalysisFields(fields: MetabaseField[]): AnalysisFields {
+  return {
+    segment: findAnalysisField(
+      fields,
+      ["segment", "tier", "rank", "class", "category", "type", "status"],
+      isCategoryField,
+    ),
+    market: findAnalysisField(
+      fields,
+      [
+        "market",
+        "region",
+        "area",
+        "prefecture",
+        "pref",
+        "state",
+        "city",
+        "country",
+      ],
+      isCategoryField,
+    ),
+    campaign: findAnalysisField(
+      fields,
+      ["campaign", "promo", "offer", "mailing", "source", "code"],
+      isCategoryField,
+      ["zip", "postal"],
+    ),
+    product: findAnalysisField(
+      fields,
+      ["product", "item", "sku", "brand", "merchandise", "category"],
+      isCategoryField,
+    ),
+    revenue: findAnalysisField(
+      fields,
+      ["revenue", "sales", "amount", "ltv", "spend", "total", "value", "price"],
+      isNumericField,
+      ["cost"],
+    ),
+    cost: findAnalysisField(
+      fields,
+      ["cost", "expense", "postage"],
+      isNumericField,
+    ),
+    frequency: findAnalysisField(
+      fields,
+      ["frequency", "orders", "purchases", "quantity", "qty", "count", "times"],
+      isNumericField,
+      ["mail", "sent"],
+    ),
+    lastActivity: findAnalysisField(
+      fields,
+      [
+        "lastorder",
+        "lastpurchase",
+        "recent",
+        "last",
+        "purchase",
+        "order",
+        "date",
+      ],
+      isDateField,
+      ["birth", "dob"],
+    ),
+    response: findAnalysisField(
+      fields,
+      [
+        "response",
+        "responded",
+        "converted",
+        "conversion",
+        "purchased",
+        "buyer",
+      ],
+      isFlagField,
+    ),
+    mailed: findAnalysisField(
+      fields,
+      ["mailed", "sent", "mailcount", "mailings"],
+      (f) => isFlagField(f) || isDateField(f),
+    ),
+  };
+}
+
+function col(field: MetabaseField): string {
+  return `[${field.name.replace(/]/g, "]]")}]`;
+}
+
+function table(name: string): string {
+  return `[${name.replace(/]/g, "]]")}]`;
+}
+
+function flagCondition(field: MetabaseField): string {
+  return isDateField(field) ? `${col(field)} IS NOT NULL` : `${col(field)} > 0`;
+}
+
+// A row "converted" when it has an explicit response flag, otherwise when it has revenue
+function conversionCondition(d: AnalysisFields): string | null {
+  if (d.response) return flagCondition(d.response);
+  if (d.revenue) return `${col(d.revenue)} > 0`;
+  return null;
+}
+
+function num(value: any): number {
+  const n = Number(value ?? 0);
+  return isFinite(n) ? n : 0;
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function usedFields(...fields: (MetabaseField | null)[]): MetabaseField[] {
+  return fields.filter((f): f is MetabaseField => f !== null);
+}
+
+function insufficient(data: Record<string, any>, note: string): ModelResult {
+  return {
+    dataQuality: "insufficient",
+    fieldsUsed: [],
+    data: { ...data, note },
+  };
+}
+
+// Breakout count via MBQL — used when a model can only fall back to counts
+async function getGroupCounts(
+  databaseId: number,
+  tableId: number,
+  field: MetabaseField,
+): Promise<Array<{ value: string; count: number }>> {
+  const result = await runRawQuery(databaseId, {
+    "source-table": tableId,
+    aggregation: [["count"]],
+    breakout: [["field", field.id, null]],
+    "order-by": [["desc", ["aggregation", 0]]],
+    limit: GROUP_LIMIT,
+  });
+  return result.rows
+    .filter((row: any[]) => row[0] !== null && String(row[0]).trim() !== "")
+    .map((row: any[]) => ({
+      value: String(row[0]).trim(),
+      count: num(row[1]),
+    }));
+}
+
+// One grouped pass computing volume, mail, conversion, revenue and cost per group
+async function getGroupStats(
+  databaseId: number,
+  tableName: string,
+  groupField: MetabaseField,
+  d: AnalysisFields,
+): Promise<GroupStats[]> {
+  const groupExpr = col(groupField);
+  const convCond = conversionCondition(d);
+  const mailedExpr = d.mailed
+    ? `SUM(CASE WHEN ${flagCondition(d.mailed)} THEN 1 ELSE 0 END)`
+    : "COUNT(*)";
+  const convertedExpr = convCond
+    ? `SUM(CASE WHEN ${convCond} THEN 1 ELSE 0 END)`
+    : "0";
+  const revenueExpr = d.revenue
+    ? `SUM(CAST(ISNULL(${col(d.revenue)}, 0) AS FLOAT))`
+    : "0";
+  const costExpr = d.cost
+    ? `SUM(CAST(ISNULL(${col(d.cost)}, 0) AS FLOAT))`
+    : "NULL";
+
+  const sql =
+    `SELECT TOP ${GROUP_LIMIT} ` +
+    `ISNULL(LTRIM(RTRIM(CAST(${groupExpr} AS NVARCHAR(200)))), '(blank)') AS label, ` +
+    `COUNT(*) AS customers, ${mailedExpr} AS mailed, ${convertedExpr} AS converted, ` +
+    `${revenueExpr} AS revenue, ${costExpr} AS cost ` +
+    `FROM ${table(tableName)} GROUP BY ${groupExpr} ORDER BY COUNT(*) DESC;`;
+
+  const result = await runNativeQuery(databaseId, sql);
+  return result.rows.map((row: any[]) => {
+    const mailed = num(row[2]);
+    return {
+      label: String(row[0]),
+      customers: num(row[1]),
+      mailed,
+      converted: num(row[3]),
+      revenue: num(row[4]),
+      cost: row[5] === null ? mailed * DEFAULT_MAIL_COST : num(row[5]),
+    };
+  });
+}
+
+async function runRfmModel(
+  databaseId: number,
+  tableId: number,
+  tableName: string,
+  d: AnalysisFields,
+  totalCount: number,
+): Promise<ModelResult> {
+  const recency = d.lastActivity
+    ? `NTILE(5) OVER (ORDER BY ${col(d.lastActivity)} ASC)`
+    : null;
+  const frequency = d.frequency
+    ? `NTILE(5) OVER (ORDER BY ISNULL(${col(d.frequency)}, 0) ASC)`
+    : null;
+  const monetary = d.revenue
+    ? `NTILE(5) OVER (ORDER BY ISNULL(${col(d.revenue)}, 0) ASC)`
+    : null;
+
+  if (!recency && !frequency && !monetary) {
+    // No scoring columns — fall back to the table's own segment breakout
+    if (!d.segment) {
+      return insufficient(
+        { segments: [] },
+        "No date, frequency or monetary columns found",
+      );
+    }
+    const groups = await getGroupCounts(databaseId, tableId, d.segment);
+    return {
+      dataQuality: "estimated",
+      fieldsUsed: usedFields(d.segment),
+      data: {
+        segments: groups.map((g) => ({
+          name: g.value,
+          count: g.count,
+          percentage: totalCount > 0 ? round1((g.count / totalCount) * 100) : 0,
+        })),
+        note: `Grouped by ${d.segment.name}; no RFM columns found`,
+      },
+    };
+  }
+
+  // Missing dimensions are held at the neutral score of 3
+  const sql =
+    `SELECT segment, COUNT(*) AS customers, ` +
+    `AVG(CAST(r AS FLOAT)), AVG(CAST(f AS FLOAT)), AVG(CAST(m AS FLOAT)) ` +
+    `FROM (` +
+    `SELECT r, f, m, CASE ` +
+    `WHEN r >= 4 AND f >= 4 AND m >= 4 THEN 'Champions' ` +
+    `WHEN f >= 4 AND m >= 3 THEN 'Loyal Customers' ` +
+    `WHEN r <= 2 AND (f >= 3 OR m >= 3) THEN 'At Risk' ` +
+    `WHEN r >= 4 THEN 'Potential Loyalists' ` +
+    `WHEN r <= 2 THEN 'Hibernating' ` +
+    `ELSE 'Needs Attention' END AS segment ` +
+    `FROM (SELECT ${recency ?? "3"} AS r, ${frequency ?? "3"} AS f, ${monetary ?? "3"} AS m ` +
+    `FROM ${table(tableName)}) AS scored` +
+    `) AS labelled GROUP BY segment;`;
+
+  const result = await runNativeQuery(databaseId, sql);
+  const rows = result.rows
+    .map((row: any[]) => ({
+      name: String(row[0]),
+      count: num(row[1]),
+      recency: round1(num(row[2])),
+      frequency: round1(num(row[3])),
+      monetary: round1(num(row[4])),
+    }))
+    .sort(
+      (a, b) =>
+        RFM_SEGMENT_ORDER.indexOf(a.name) - RFM_SEGMENT_ORDER.indexOf(b.name),
+    );
+  const scored = rows.reduce((sum, r) => sum + r.count, 0);
+
+  const missing = [
+    !recency ? "recency" : null,
+    !frequency ? "frequency" : null,
+    !monetary ? "monetary" : null,
+  ].filter(Boolean);
+
+  return {
+    dataQuality: "real",
+    fieldsUsed: usedFields(d.lastActivity, d.frequency, d.revenue),
+    data: {
+      segments: rows.map((r) => ({
+        name: r.name,
+        count: r.count,
+        percentage: scored > 0 ? round1((r.count / scored) * 100) : 0,
+      })),
+      rfmScores: rows.map((r) => ({
+        segment: r.name,
+        recency: r.recency,
+        frequency: r.frequency,
+        monetary: r.monetary,
+      })),
+      note:
+        missing.length > 0
+          ? `No ${missing.join("/")} column; held at neutral score 3`
+          : undefined,
+    },
+  };
+}
+
+async function runCampaignResponseModel(
+  databaseId: number,
+  tableName: string,
+  d: AnalysisFields,
+): Promise<ModelResult> {
+  if (!d.market && !d.campaign) {
+    return insufficient(
+      { markets: [], campaigns: [] },
+      "No market or campaign columns found",
+    );
+  }
+
+  const [marketStats, campaignStats] = await Promise.all([
+    d.market ? getGroupStats(databaseId, tableName, d.market, d) : [],
+    d.campaign ? getGroupStats(databaseId, tableName, d.campaign, d) : [],
+  ]);
+
+  const convCond = conversionCondition(d);
+  const notes: string[] = [];
+  if (!convCond) notes.push("no response or revenue column; conversion is 0");
+  if (!d.mailed) notes.push("every record counted as mailed");
+
+  return {
+    dataQuality: convCond ? "real" : "estimated",
+    fieldsUsed: usedFields(
+      d.market,
+      d.campaign,
+      d.response,
+      d.revenue,
+      d.cost,
+      d.mailed,
+    ),
+    data: {
+      markets: marketStats.map((m) => ({
+        market: m.label,
+        count: m.customers,
+        mailed: m.mailed,
+        conversion: m.mailed > 0 ? round1((m.converted / m.mailed) * 100) : 0,
+      })),
+      campaigns: campaignStats.map((c) => ({
+        campaign: c.label,
+        count: c.customers,
+        conversionRate:
+          c.mailed > 0 ? round1((c.converted / c.mailed) * 100) : 0,
+        roi: c.cost > 0 ? round2(c.revenue / c.cost) : 0,
+      })),
+      note: notes.length > 0 ? notes.join("; ") : undefined,
+    },
+  };
+}
+
+async function runPropensityModel(
+  databaseId: number,
+  tableName: string,
+  d: AnalysisFields,
+): Promise<ModelResult> {
+  // Each available signal contributes a 0..1 percentile; the score is their mean × 100
+  const signals: string[] = [];
+  if (d.lastActivity) {
+    signals.push(`PERCENT_RANK() OVER (ORDER BY ${col(d.lastActivity)} ASC)`);
+  }
+  if (d.frequency) {
+    signals.push(
+      `PERCENT_RANK() OVER (ORDER BY ISNULL(${col(d.frequency)}, 0) ASC)`,
+    );
+  }
+  if (d.revenue) {
+    signals.push(
+      `PERCENT_RANK() OVER (ORDER BY ISNULL(${col(d.revenue)}, 0) ASC)`,
+    );
+  }
+  if (d.response) {
+    signals.push(
+      `CASE WHEN ${flagCondition(d.response)} THEN 1.0 ELSE 0.0 END`,
+    );
+  }
+
+  if (signals.length === 0) {
+    return insufficient(
+      { scoreDistribution: [] },
+      "No recency, frequency, monetary or response columns found",
+    );
+  }
+
+  const sql =
+    `SELECT bucket, COUNT(*) FROM (` +
+    `SELECT CASE WHEN score >= 100 THEN 9 ELSE CAST(FLOOR(score / 10) AS INT) END AS bucket ` +
+    `FROM (SELECT (${signals.join(" + ")}) * 100.0 / ${signals.length} AS score ` +
+    `FROM ${table(tableName)}) AS scored` +
+    `) AS bucketed GROUP BY bucket;`;
+
+  const result = await runNativeQuery(databaseId, sql);
+  const counts = new Map<number, number>();
+  for (const row of result.rows) {
+    counts.set(num(row[0]), num(row[1]));
+  }
+
+  const scoreDistribution = [];
+  for (let bucket = 9; bucket >= 0; bucket--) {
+    scoreDistribution.push({
+      range: `${bucket * 10}-${bucket * 10 + 10}`,
+      count: counts.get(bucket) ?? 0,
+    });
+  }
+
+  return {
+    dataQuality: "real",
+    fieldsUsed: usedFields(d.lastActivity, d.frequency, d.revenue, d.response),
+    data: {
+      scoreDistribution,
+      note: `Score from ${signals.length} signal${signals.length === 1 ? "" : "s"}`,
+    },
+  };
+}
+
+async function runReactivationModel(
+  databaseId: number,
+  tableName: string,
+  d: AnalysisFields,
+): Promise<ModelResult> {
+  if (!d.lastActivity) {
+    return insufficient(
+      { dormantSegments: [] },
+      "No last purchase/activity date column found",
+    );
+  }
+
+  const months = `DATEDIFF(month, ${col(d.lastActivity)}, GETDATE())`;
+  const ltvExpr = d.revenue ? `ISNULL(${col(d.revenue)}, 0)` : "0";
+  const sql =
+    `SELECT band, COUNT(*), AVG(CAST(ltv AS FLOAT)), AVG(CAST(months AS FLOAT)) FROM (` +
+    `SELECT ${months} AS months, ${ltvExpr} AS ltv, CASE ` +
+    `WHEN ${months} >= 36 THEN '36+ months' ` +
+    `WHEN ${months} >= 24 THEN '24-36 months' ` +
+    `WHEN ${months} >= 12 THEN '12-24 months' ` +
+    `ELSE '6-12 months' END AS band ` +
+    `FROM ${table(tableName)} ` +
+    `WHERE ${col(d.lastActivity)} IS NOT NULL AND ${months} >= 6` +
+    `) AS dormant GROUP BY band;`;
+
+  const result = await runNativeQuery(databaseId, sql);
+  const dormantSegments = result.rows
+    .map((row: any[]) => ({
+      segment: String(row[0]),
+      count: num(row[1]),
+      avgLTV: Math.round(num(row[2])),
+      monthsInactive: round1(num(row[3])),
+    }))
+    .sort(
+      (a, b) =>
+        DORMANT_BAND_ORDER.indexOf(a.segment) -
+        DORMANT_BAND_ORDER.indexOf(b.segment),
+    );
+
+  return {
+    dataQuality: d.revenue ? "real" : "estimated",
+    fieldsUsed: usedFields(d.lastActivity, d.revenue),
+    data: {
+      dormantSegments,
+      note: d.revenue ? undefined : "No LTV/revenue column; avg LTV is 0",
+    },
+  };
+}
+
+async function runLookalikeModel(
+  databaseId: number,
+  tableName: string,
+  d: AnalysisFields,
+): Promise<ModelResult> {
+  const profile = d.segment ?? d.market ?? d.product;
+  const buyerCond = conversionCondition(d);
+  if (!profile || !buyerCond) {
+    return insufficient(
+      { prospectSegments: [] },
+      !profile
+        ? "No profile column (segment, market or product) found"
+        : "No response or revenue column to identify buyers",
+    );
+  }
+
+  const stats = await getGroupStats(databaseId, tableName, profile, d);
+  const buyerRate = (g: GroupStats) =>
+    g.customers > 0 ? g.converted / g.customers : 0;
+  const bestRate = Math.max(0, ...stats.map(buyerRate));
+
+  // Similarity = the group's buyer rate relative to the best-converting group;
+  // count = the prospects (non-buyers) in that group who could be mailed
+  const prospectSegments = stats
+    .map((g) => ({
+      segment: g.label,
+      count: g.customers - g.converted,
+      similarity:
+        bestRate > 0 ? Math.round((buyerRate(g) / bestRate) * 100) : 0,
+    }))
+    .sort((a, b) => b.similarity - a.similarity);
+
+  return {
+    dataQuality: "real",
+    fieldsUsed: usedFields(profile, d.response ?? d.revenue),
+    data: {
+      prospectSegments,
+      note: `Profiled by ${profile.name}`,
+    },
+  };
+}
+
+async function runProductAffinityModel(
+  databaseId: number,
+  tableId: number,
+  tableName: string,
+  d: AnalysisFields,
+): Promise<ModelResult> {
+  if (!d.product) {
+    return insufficient(
+      { products: [] },
+      "No product or category column found",
+    );
+  }
+
+  if (!d.frequency) {
+    const groups = await getGroupCounts(databaseId, tableId, d.product);
+    const total = groups.reduce((sum, g) => sum + g.count, 0);
+    return {
+      dataQuality: "estimated",
+      fieldsUsed: usedFields(d.product),
+      data: {
+        products: groups.map((g) => ({
+          product: g.value,
+          purchases: g.count,
+          affinity: total > 0 ? round1((g.count / total) * 100) : 0,
+        })),
+        note: "No quantity column; purchases counted as records",
+      },
+    };
+  }
+
+  const sql =
+    `SELECT TOP ${GROUP_LIMIT} ` +
+    `ISNULL(LTRIM(RTRIM(CAST(${col(d.product)} AS NVARCHAR(200)))), '(blank)') AS product, ` +
+    `SUM(CAST(ISNULL(${col(d.frequency)}, 0) AS FLOAT)) AS purchases, ` +
+    `SUM(SUM(CAST(ISNULL(${col(d.frequency)}, 0) AS FLOAT))) OVER () AS total ` +
+    `FROM ${table(tableName)} GROUP BY ${col(d.product)} ORDER BY purchases DESC;`;
+
+  const result = await runNativeQuery(databaseId, sql);
+  return {
+    dataQuality: "real",
+    fieldsUsed: usedFields(d.product, d.frequency),
+    data: {
+      products: result.rows.map((row: any[]) => {
+        const purchases = num(row[1]);
+        const total = num(row[2]);
+        return {
+          product: String(row[0]),
+          purchases: Math.round(purchases),
+          affinity: total > 0 ? round1((purchases / total) * 100) : 0,
+        };
+      }),
+    },
+  };
+}
+
+async function runRoiModel(
+  databaseId: number,
+  tableName: string,
+  d: AnalysisFields,
+): Promise<ModelResult> {
+  const groupField = d.campaign ?? d.market;
+  if (!groupField) {
+    return insufficient(
+      { campaigns: [] },
+      "No campaign or market column found",
+    );
+  }
+
+  const stats = await getGroupStats(databaseId, tableName, groupField, d);
+  const notes: string[] = [];
+  if (!d.revenue) notes.push("no revenue column; ROI is 0");
+  if (!d.cost) notes.push(`cost estimated at ¥${DEFAULT_MAIL_COST} per piece`);
+
+  return {
+    dataQuality: d.revenue ? "real" : "estimated",
+    fieldsUsed: usedFields(groupField, d.revenue, d.cost, d.mailed),
+    data: {
+      campaigns: stats.map((c) => ({
+        campaign: c.label,
+        revenue: Math.round(c.revenue),
+        cost: Math.round(c.cost),
+        mailed: c.mailed,
+        roi: c.cost > 0 ? round2(c.revenue / c.cost) : 0,
+      })),
+      note: notes.length > 0 ? notes.join("; ") : undefined,
+    },
+  };
+}
+
+// Models without a dedicated engine get a plain distribution over the best category column
+async function runDistributionModel(
+  databaseId: number,
+  tableId: number,
+  d: AnalysisFields,
+  totalCount: number,
+): Promise<ModelResult> {
+  const groupField = d.segment ?? d.market ?? d.product ?? d.campaign;
+  if (!groupField) {
+    return insufficient({ distribution: [] }, "No category columns found");
+  }
+
+  const groups = await getGroupCounts(databaseId, tableId, groupField);
+  return {
+    dataQuality: "estimated",
+    fieldsUsed: usedFields(groupField),
+    data: {
+      distribution: groups.map((g) => ({
+        [groupField.display_name || groupField.name]: g.value,
+        count: g.count,
+        percentage: totalCount > 0 ? round1((g.count / totalCount) * 100) : 0,
+      })),
+    },
+  };
+}
+
+export async function getBrainworksDatabase(): Promise<{
+  database: MetabaseDatabase;
+  tables: MetabaseTable[];
+}> {
+  const databases = await getDatabases();
+  if (databases.length === 0) {
+    throw new Error("No databases are available in Metabase");
+  }
+
+  const database =
+    databases.find((db) => {
+      const n = db.name.toLowerCase();
+      return n.includes("brainworks") || n.includes("brain works");
+    }) ?? databases[0];
+
+  const tables = await getTables(database.id);
+  return { database, tables };
+}
+
+export async function runBrainworksAnalysis(
+  databaseId: number,
+  tableId: number,
+  modelId: string,
+): Promise<BrainworksAnalysisResponse> {
+  const [tables, fields, totalCount] = await Promise.all([
+    getTables(databaseId),
+    getFields(tableId),
+    getTotalCount(databaseId, tableId),
+  ]);
+  const analysisTable = tables.find((t) => t.id === tableId);
+  if (!analysisTable) throw new Error("Analysis table not found");
+
+  const tableName = analysisTable.name;
+  const d = detectAnalysisFields(fields);
+
+  let result: ModelResult;
+  switch (modelId) {
+    case "rfm":
+      result = await runRfmModel(databaseId, tableId, tableName, d, totalCount);
+      break;
+    case "campaign-response":
+      result = await runCampaignResponseModel(databaseId, tableName, d);
+      break;
+    case "propensity":
+      result = await runPropensityModel(databaseId, tableName, d);
+      break;
+    case "reactivation":
+      result = await runReactivationModel(databaseId, tableName, d);
+      break;
+    case "lookalike":
+      result = await runLookalikeModel(databaseId, tableName, d);
+      break;
+    case "product-affinity":
+      result = await runProductAffinityModel(databaseId, tableId, tableName, d);
+      break;
+    case "roi-optimization":
+      result = await runRoiModel(databaseId, tableName, d);
+      break;
+    default:
+      result = await runDistributionModel(databaseId, tableId, d, totalCount);
+  }
+
+  return {
+    modelId,
+    tableName,
+    totalCount: num(totalCount),
+    dataQuality: result.dataQuality,
+    fieldsUsed: result.fieldsUsed.map((f) => f.name),
+    fields,
+    data: result.data,
+  };
+}
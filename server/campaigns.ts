@@ -0,0 +1,298 @@
+import { createHash } from "crypto";
+import type {
+  AudienceTierCounts,
+  Campaign,
+  CampaignDefinition,
+  CampaignRollbackResponse,
+  CampaignRun,
+  CampaignRunKind,
+  CapturedSuppressionRows,
+  InsertCampaign,
+  SuppressionWriteBackLog,
+  SuppressionWriteBackReport,
+} from "@shared/schema";
+import {
+  buildSuppressionRollbackSql,
+  getMarketingPreviewV2,
+  runMarketingExportAndLogV2,
+  runNativeQuery,
+} from "./metabase";
+import { getStorage } from "./storage";
+import { resolveTargetingRule } from "./targeting";
+
+// ── Definitions ─────────────────────────────────────────────────────
+
+export function getCampaignDefinition(campaign: Campaign): CampaignDefinition {
+  const { id, name, clonedFromId, createdAt, updatedAt, ...definition } =
+    campaign;
+  return definition;
+}
+
+// Exports that ask to be saved without referencing a saved campaign register one
+// on the fly, named after the code or concept.
+function defaultCampaignName(input: InsertCampaign): string {
+  if (input.campaignCode) return input.campaignCode;
+  const concept = input.concept?.trim();
+  if (concept)
+    return concept.length > 60 ? `${concept.slice(0, 57)}...` : concept;
+  return `Campaign ${new Date().toISOString().split("T")[0]}`;
+}
+
+export async function saveCampaignForRun(
+  campaignId: number | null | undefined,
+  input: Omit<InsertCampaign, "name"> & { name?: string },
+): Promise<Campaign> {
+  const storage = getStorage();
+  if (campaignId) {
+    const { name, ...definition } = input;
+    const updated = await storage.updateCampaign(campaignId, {
+      ...definition,
+      ...(name ? { name } : {}),
+    });
+    if (!updated) throw new Error(`Campaign ${campaignId} not found`);
+    return updated;
+  }
+  return storage.createCampaign({
+    ...input,
+    name: input.name || defaultCampaignName({ ...input, name: "" }),
+  });
+}
+
+export async function cloneCampaign(
+  source: Campaign,
+  name?: string,
+): Promise<Campaign> {
+  const definition = getCampaignDefinition(source);
+  // A clone must not reuse the campaign code: codes identify suppression rows
+  return getStorage().createCampaign(
+    {
+      ...definition,
+      name: name || `${source.name} (copy)`,
+      campaignCode: "",
+    },
+    source.id,
+  );
+}
+
+// ── Runs ────────────────────────────────────────────────────────────
+
+// Run file holding a holdout's control group (GET /api/campaigns/:id/runs/:runId/files/control)
+export const CONTROL_FILE_NAME = "control";
+
+function checksum(content: string): string {
+  return createHash("sha256").update(content, "utf8").digest("hex");
+}
+
+// Data rows in a header-first CSV; newlines inside quoted values don't count
+function countCsvDataRows(csv: string): number {
+  let newlines = 0;
+  let inQuotes = false;
+  for (const ch of csv) {
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (ch === "\n" && !inQuotes) newlines++;
+  }
+  const records = newlines + (csv.endsWith("\n") ? 0 : 1);
+  return Math.max(0, records - 1);
+}
+
+async function startRun(
+  campaign: Campaign,
+  kind: CampaignRunKind,
+  triggeredBy: string | null,
+): Promise<CampaignRun> {
+  return getStorage().createCampaignRun({
+    campaignId: campaign.id,
+    kind,
+    status: "running",
+    definition: getCampaignDefinition(campaign),
+    triggeredBy,
+  });
+}
+
+async function failRun(run: CampaignRun, error: unknown): Promise<void> {
+  try {
+    await getStorage().updateCampaignRun(run.id, {
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+      completedAt: new Date(),
+    });
+  } catch (e) {
+    console.error(`Failed to record failure for campaign run ${run.id}:`, e);
+  }
+}
+
+export async function runCampaignPreview(
+  campaign: Campaign,
+  triggeredBy: string | null = null,
+) {
+  const run = await startRun(campaign, "preview", triggeredBy);
+  try {
+    const preview = await getMarketingPreviewV2(
+      campaign.databaseId,
+      campaign.masterTableId,
+      campaign.historyDbId,
+      campaign.historyTableId,
+      resolveTargetingRule(campaign),
+      campaign.contactCap,
+      campaign.excludeDays,
+      campaign.frequencyCaps,
+      {
+        percent: campaign.holdoutPercent,
+        campaignCode: campaign.campaignCode,
+      },
+      campaign.filterEmailsOnly,
+      { birthdayFilter: campaign.birthdayFilter, ageRange: campaign.ageRange },
+    );
+    const completed = await getStorage().updateCampaignRun(run.id, {
+      status: "completed",
+      totalCandidates: preview.totalCandidates,
+      excludedCount: preview.excludedCount,
+      complianceExcludedCount: preview.complianceExcludedCount,
+      frequencyCappedCount: preview.frequencyCappedCount,
+      holdoutCount: preview.holdoutCount,
+      exactMatchCount: preview.exactMatchCount,
+      contactCount: preview.count,
+      completedAt: new Date(),
+    });
+    return { run: completed ?? run, preview };
+  } catch (error) {
+    await failRun(run, error);
+    throw error;
+  }
+}
+
+export async function runCampaignExport(
+  campaign: Campaign,
+  triggeredBy: string | null = null,
+) {
+  const run = await startRun(campaign, "export", triggeredBy);
+  let csv: string;
+  let controlCsv: string | null;
+  let writeBack: SuppressionWriteBackReport | null;
+  let insertedRows: CapturedSuppressionRows | null;
+  let complianceExcludedCount: number;
+  let frequencyCappedCount: number;
+  let frequencyCapWarnings: string[];
+  let holdoutCount: number;
+  let cellCounts: Record<string, number> | null;
+  let tierCounts: AudienceTierCounts;
+  try {
+    // The campaign run id doubles as the export-run id in write-back logs and reports
+    ({
+      csv,
+      controlCsv,
+      writeBack,
+      insertedRows,
+      complianceExcludedCount,
+      frequencyCappedCount,
+      frequencyCapWarnings,
+      holdoutCount,
+      cellCounts,
+      tierCounts,
+    } = await runMarketingExportAndLogV2(
+      campaign.databaseId,
+      campaign.masterTableId,
+      campaign.historyDbId,
+      campaign.historyTableId,
+      resolveTargetingRule(campaign),
+      campaign.contactCap,
+      campaign.excludeDays,
+      campaign.frequencyCaps,
+      campaign.holdoutPercent,
+      campaign.splitCells,
+      campaign.campaignCode,
+      campaign.filterEmailsOnly,
+      {
+        birthdayFilter: campaign.birthdayFilter,
+        ageRange: campaign.ageRange,
+      },
+      String(run.id),
+    ));
+  } catch (error) {
+    await failRun(run, error);
+    throw error;
+  }
+
+  const fileName = `campaign-${campaign.campaignCode || "export"}.csv`;
+  // The export already hit the suppression table — never fail the download on bookkeeping
+  let completed: CampaignRun | undefined;
+  try {
+    completed = await getStorage().updateCampaignRun(run.id, {
+      status: "completed",
+      contactCount: countCsvDataRows(csv),
+      fileName,
+      fileChecksum: checksum(csv),
+      writeBack,
+      complianceExcludedCount,
+      frequencyCappedCount,
+      holdoutCount,
+      cellCounts,
+      exactMatchCount: tierCounts.exact,
+      completedAt: new Date(),
+    });
+    if (controlCsv !== null) {
+      await getStorage().saveCampaignRunFile({
+        campaignRunId: run.id,
+        name: CONTROL_FILE_NAME,
+        fileName: `campaign-${campaign.campaignCode || "export"}-control.csv`,
+        content: controlCsv,
+        checksum: checksum(controlCsv),
+        rowCount: countCsvDataRows(controlCsv),
+      });
+    }
+    if (insertedRows) {
+      await getStorage().saveSuppressionWriteBackLog({
+        ...insertedRows,
+        campaignRunId: run.id,
+      });
+    }
+  } catch (e) {
+    console.error(`Failed to record export for campaign run ${run.id}:`, e);
+  }
+  return {
+    run: completed ?? run,
+    csv,
+    fileName,
+    writeBack,
+    complianceExcludedCount,
+    frequencyCappedCount,
+    frequencyCapWarnings,
+    holdoutCount,
+    cellCounts,
+    tierCounts,
+  };
+}
+
+// ── Rollback ────────────────────────────────────────────────────────
+
+/**
+ * Deletes the suppression rows an export run logged, e.g. when the send was
+ * cancelled, so its contacts aren't held back for the exclusion window. Only the
+ * rows in the run's write-back log are touched; the run records who rolled it
+ * back, when, and how many rows went.
+ */
+export async function rollbackCampaignRun(
+  run: CampaignRun,
+  log: SuppressionWriteBackLog,
+  rolledBackBy: string | null,
+): Promise<CampaignRollbackResponse> {
+  const result = await runNativeQuery(
+    log.historyDbId,
+    buildSuppressionRollbackSql(log),
+  );
+  const deleted = Number(result.rows[0]?.[0] ?? 0);
+  const logged = Object.values(log.refs).reduce(
+    (sum, refs) => sum + refs.length,
+    0,
+  );
+  console.log(
+    `Campaign run ${run.id} rolled back: table=${log.tableName}, campaignCode=${log.campaignCode}, loggedOn=${log.loggedOn}, logged=${logged}, deleted=${deleted}, by=${rolledBackBy ?? "(unknown)"}`,
+  );
+
+  const updated = await getStorage().updateCampaignRun(run.id, {
+    rolledBackAt: new Date(),
+    rolledBackBy,
+    rolledBackCount: deleted,
+  });
+  return { run: updated ?? run, deleted, logged };
+}
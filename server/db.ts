@@ -1,17 +1,103 @@
 import sql from "mssql";
+import pg from "pg";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import * as schema from "@shared/schema";
 
-// ── Direct SQL Server connection pool ────────────────────────────────
-// Bypasses Metabase HTTP overhead for data-heavy queries.
-// Credentials loaded from environment variables (see .env).
+// ── Direct SQL Server connection pools ───────────────────────────────
+// Bypass Metabase HTTP overhead (and its 2,000-row response cap) for data-heavy
+// queries. The default connection comes from MSSQL_* (see .env); MSSQL_DATABASE_MAP
+// routes individual Metabase database ids to a connection, e.g.
+//   {"3": "GalaxyMaster", "7": {"server": "10.0.0.5", "database": "BrainWorks"}}
+// A string is shorthand for a database on the default server; object entries
+// override any of server / port / user / password / database.
 
-let pool: sql.ConnectionPool | null = null;
+export interface DirectConnectionConfig {
+  server: string;
+  port: number;
+  user: string;
+  password: string;
+  database?: string;
+}
+
+export type DirectQueryParamValue = string | number | boolean | null;
+
+export interface DirectQueryParam {
+  name: string; // without "@"
+  value: DirectQueryParamValue;
+}
 
-function getConfig(): sql.config {
+const pools = new Map<string, sql.ConnectionPool>();
+let databaseMap: Map<number, DirectConnectionConfig> | null = null;
+
+function getDefaultConnection(): DirectConnectionConfig {
   return {
     server: process.env.MSSQL_SERVER || "127.0.0.1",
     port: parseInt(process.env.MSSQL_PORT || "1483", 10),
     user: process.env.MSSQL_USER || "sa",
     password: process.env.MSSQL_PASSWORD || "",
+    database: process.env.MSSQL_DATABASE || undefined,
+  };
+}
+
+function getDatabaseMap(): Map<number, DirectConnectionConfig> {
+  if (databaseMap) return databaseMap;
+  databaseMap = new Map();
+  const raw = process.env.MSSQL_DATABASE_MAP;
+  if (!raw) return databaseMap;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    console.error("MSSQL_DATABASE_MAP is not valid JSON — ignoring it:", error);
+    return databaseMap;
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    console.error("MSSQL_DATABASE_MAP must be a JSON object — ignoring it");
+    return databaseMap;
+  }
+
+  const defaults = getDefaultConnection();
+  for (const [key, entry] of Object.entries(
+    parsed as Record<string, unknown>,
+  )) {
+    const databaseId = parseInt(key, 10);
+    if (isNaN(databaseId)) {
+      console.error(`MSSQL_DATABASE_MAP: "${key}" is not a database id`);
+      continue;
+    }
+    if (typeof entry === "string") {
+      databaseMap.set(databaseId, { ...defaults, database: entry });
+    } else if (entry && typeof entry === "object") {
+      const e = entry as Partial<DirectConnectionConfig>;
+      databaseMap.set(databaseId, {
+        server: e.server ?? defaults.server,
+        port: e.port !== undefined ? Number(e.port) : defaults.port,
+        user: e.user ?? defaults.user,
+        password: e.password ?? defaults.password,
+        database: e.database ?? defaults.database,
+      });
+    } else {
+      console.error(`MSSQL_DATABASE_MAP: invalid entry for database ${key}`);
+    }
+  }
+  return databaseMap;
+}
+
+/** Direct connection for a Metabase database id, or null to go through Metabase. */
+export function getDirectConnection(
+  databaseId: number,
+): DirectConnectionConfig | null {
+  return getDatabaseMap().get(databaseId) ?? null;
+}
+
+function toPoolConfig(connection: DirectConnectionConfig): sql.config {
+  return {
+    server: connection.server,
+    port: connection.port,
+    user: connection.user,
+    password: connection.password,
+    database: connection.database,
     options: {
       encrypt: true,
       trustServerCertificate: true,
@@ -26,21 +112,33 @@ function getConfig(): sql.config {
   };
 }
 
-export async function getPool(): Promise<sql.ConnectionPool> {
-  if (pool && pool.connected) return pool;
-  if (pool) {
+// One pool per distinct server/database/login
+export async function getPool(
+  connection: DirectConnectionConfig = getDefaultConnection(),
+): Promise<sql.ConnectionPool> {
+  const key = `${connection.user}@${connection.server}:${connection.port}/${connection.database ?? ""}`;
+  const existing = pools.get(key);
+  if (existing && existing.connected) return existing;
+  if (existing) {
     try {
-      await pool.close();
+      await existing.close();
     } catch {
       /* ignore */
     }
-    pool = null;
+    pools.delete(key);
   }
-  pool = await sql.connect(getConfig());
+  const pool = new sql.ConnectionPool(toPoolConfig(connection));
   pool.on("error", (err) => {
     console.error("MSSQL pool error:", err);
-    pool = null;
+    pools.delete(key);
   });
+  pools.set(key, pool);
+  try {
+    await pool.connect();
+  } catch (error) {
+    pools.delete(key);
+    throw error;
+  }
   return pool;
 }
 
@@ -50,41 +148,183 @@ export interface DirectQueryResult {
   rowCount: number;
 }
 
+function bindParams(request: sql.Request, params: DirectQueryParam[]): void {
+  for (const param of params) {
+    request.input(param.name, param.value);
+  }
+}
+
+// Requests run in arrayRowMode: rows come back as value arrays and the column
+// metadata as an ordered array. Keyed records merge duplicate column names (and
+// every unnamed column, e.g. AVG(x), AVG(y)) into one property.
+function toColumnMeta(columns: unknown): DirectQueryResult["columns"] {
+  if (!Array.isArray(columns)) return [];
+  return columns.map((meta: any) => ({
+    name: meta.name,
+    type: meta?.type?.declaration ?? "text",
+  }));
+}
+
+function toRow(record: any[], columns: DirectQueryResult["columns"]): any[] {
+  return columns.map((_, i) => record[i] ?? null);
+}
+
+export function queryTimeoutError(timeoutMs: number): Error {
+  return new Error(
+    `Query exceeded the ${Math.round(timeoutMs / 1000)}s time limit and was cancelled`,
+  );
+}
+
 /**
- * Run a raw SQL query directly against SQL Server.
+ * Run a parameterised query directly against SQL Server. `@name` placeholders in
+ * the SQL are bound from `params` — values never appear in the query text.
  * Returns columns + rows in the same shape as Metabase's runNativeQuery.
+ * With `timeoutMs`, the query is cancelled on the server once the limit passes.
  */
 export async function runDirectQuery(
   querySql: string,
+  params: DirectQueryParam[] = [],
+  connection?: DirectConnectionConfig,
+  options: { timeoutMs?: number } = {},
 ): Promise<DirectQueryResult> {
-  const p = await getPool();
-  const result = await p.request().query(querySql);
-
-  const recordset = result.recordset ?? [];
-  const columnMeta = result.recordset?.columns
-    ? Object.entries(result.recordset.columns).map(
-        ([name, meta]: [string, any]) => ({
-          name,
-          type: meta?.type?.declaration ?? "text",
-        }),
-      )
-    : [];
-
-  const rows = recordset.map((record: Record<string, any>) =>
-    columnMeta.map((col) => record[col.name] ?? null),
+  const p = await getPool(connection);
+  const request = p.request();
+  request.arrayRowMode = true;
+  bindParams(request, params);
+
+  let timedOut = false;
+  const timer = options.timeoutMs
+    ? setTimeout(() => {
+        timedOut = true;
+        request.cancel();
+      }, options.timeoutMs)
+    : null;
+
+  let result: sql.IResult<any>;
+  try {
+    result = await request.query(querySql);
+  } catch (error) {
+    if (timedOut) throw queryTimeoutError(options.timeoutMs!);
+    throw error;
+  } finally {
+    if (timer) clearTimeout(timer);
+  }
+
+  const columnMeta = toColumnMeta(result.recordset?.columns);
+  const rows = (result.recordset ?? []).map((record: any[]) =>
+    toRow(record, columnMeta),
   );
+  return {
+    columns: columnMeta,
+    rows,
+    rowCount: result.recordset ? rows.length : (result.rowsAffected?.[0] ?? 0),
+  };
+}
+
+/**
+ * Streams a query's rows in batches of `batchSize`. The request is paused while a
+ * batch is being consumed, so a slow consumer (e.g. an HTTP download) never makes
+ * the server buffer the whole result set. Breaking out of the loop cancels the query.
+ */
+export async function* streamDirectQuery(
+  querySql: string,
+  params: DirectQueryParam[] = [],
+  connection?: DirectConnectionConfig,
+  batchSize = 2000,
+): AsyncGenerator<DirectQueryResult> {
+  const p = await getPool(connection);
+  const request = p.request();
+  request.stream = true;
+  request.arrayRowMode = true;
+  bindParams(request, params);
+
+  let columns: DirectQueryResult["columns"] = [];
+  const pending: any[][] = [];
+  let finished = false;
+  let failure: Error | null = null;
+  let wake: (() => void) | null = null;
+  const notify = () => {
+    const w = wake;
+    wake = null;
+    w?.();
+  };
+
+  request.on("recordset", (meta: unknown) => {
+    columns = toColumnMeta(meta);
+  });
+  request.on("row", (record: any[]) => {
+    pending.push(record);
+    if (pending.length >= batchSize) {
+      request.pause();
+      notify();
+    }
+  });
+  request.on("error", (err: Error) => {
+    failure = err;
+    notify();
+  });
+  request.on("done", () => {
+    finished = true;
+    notify();
+  });
+  // In stream mode errors arrive as "error" events; the returned promise always resolves
+  request.query(querySql);
 
-  return { columns: columnMeta, rows, rowCount: rows.length };
+  try {
+    while (true) {
+      if (failure) throw failure;
+      if (pending.length >= batchSize || (finished && pending.length > 0)) {
+        const batch = pending.splice(0, batchSize);
+        const rows = batch.map((record) => toRow(record, columns));
+        yield { columns, rows, rowCount: rows.length };
+        if (pending.length < batchSize) request.resume();
+        continue;
+      }
+      if (finished) return;
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+      });
+    }
+  } finally {
+    if (!finished && !failure) request.cancel();
+  }
 }
 
 /**
- * Test whether the direct connection is reachable.
+ * Test whether a direct connection is reachable.
  */
-export async function testDirectConnection(): Promise<boolean> {
+export async function testDirectConnection(
+  connection?: DirectConnectionConfig,
+): Promise<boolean> {
   try {
-    const result = await runDirectQuery("SELECT 1 AS ok");
+    const result = await runDirectQuery("SELECT 1 AS ok", [], connection);
     return result.rows[0]?.[0] === 1;
   } catch {
     return false;
   }
 }
+
+// ── Application database (Postgres via drizzle) ─────────────────────
+// Holds app-owned state (users, campaign registry). Created on first use so the
+// .env loader in index.ts has populated DATABASE_URL by then.
+
+let appDb: NodePgDatabase<typeof schema> | null = null;
+
+export function hasAppDatabase(): boolean {
+  return !!process.env.DATABASE_URL;
+}
+
+export function getDb(): NodePgDatabase<typeof schema> {
+  if (appDb) return appDb;
+  if (!process.env.DATABASE_URL) {
+    throw new Error(
+      "DATABASE_URL is not set — the application database is unavailable",
+    );
+  }
+  const appPool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+  appPool.on("error", (err) => {
+    console.error("Postgres pool error:", err);
+  });
+  appDb = drizzle(appPool, { schema });
+  return appDb;
+}
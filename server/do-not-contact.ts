@@ -0,0 +1,218 @@
+import type {
+  AddDoNotContactRequest,
+  DoNotContactAddResult,
+  DoNotContactListResponse,
+  DoNotContactQuery,
+  DoNotContactType,
+  InsertDoNotContactEntry,
+} from "@shared/schema";
+import { getStorage } from "./storage";
+
+// ── Do-not-contact list ─────────────────────────────────────────────
+// Permanent opt-outs (unsubscribes, complaints, legal requests). Unlike the
+// suppression table this has no time window and no source scoping: a listed
+// email, phone number, customer reference or domain never leaves in a file.
+// Values are normalised on the way in and rows are normalised the same way
+// when matched, so "Taro.Yamada+news@GoogleMail.com" and
+// "taroyamada@gmail.com" are the same address.
+
+const LIST_PAGE_SIZE = 50;
+const MAX_VALUE_LENGTH = 320; // longest valid email address
+
+// Providers that ignore dots in the local part
+const DOTLESS_EMAIL_DOMAINS = new Set(["gmail.com", "googlemail.com"]);
+
+function cleanText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  // NFKC folds full-width input (ｔａｒｏ＠ｅｘａｍｐｌｅ．ｊｐ, ０９０…) to ASCII
+  return String(value).normalize("NFKC").trim();
+}
+
+/** Lowercased, "+tag" removed, dots dropped for Gmail; null if not an address. */
+export function normalizeEmail(value: unknown): string | null {
+  const text = cleanText(value)
+    .toLowerCase()
+    .replace(/^mailto:/, "");
+  const at = text.lastIndexOf("@");
+  if (at <= 0 || at === text.length - 1 || /\s/.test(text)) return null;
+
+  let local = text.slice(0, at);
+  let domain = text.slice(at + 1);
+  if (!domain.includes(".")) return null;
+
+  local = local.split("+")[0];
+  if (DOTLESS_EMAIL_DOMAINS.has(domain)) {
+    local = local.replace(/\./g, "");
+    domain = "gmail.com";
+  }
+  return local ? `${local}@${domain}` : null;
+}
+
+/** Digits only, with a +81 / 0081 country code rewritten to the domestic 0. */
+export function normalizePhone(value: unknown): string | null {
+  const text = cleanText(value);
+  let digits = text.replace(/\D/g, "");
+  if (text.startsWith("+81")) digits = `0${digits.slice(2)}`;
+  else if (digits.startsWith("0081")) digits = `0${digits.slice(4)}`;
+  // Shorter than any real number; also keeps 0/1 flag columns from matching
+  return digits.length >= 7 ? digits : null;
+}
+
+export function normalizeCustomerRef(value: unknown): string | null {
+  // Same comparison the suppression lookup uses
+  const ref = String(value ?? "")
+    .trim()
+    .toLowerCase();
+  return ref && ref !== "null" && ref !== "undefined" ? ref : null;
+}
+
+export function normalizeDomain(value: unknown): string | null {
+  let text = cleanText(value)
+    .toLowerCase()
+    .replace(/^mailto:/, "");
+  if (text.includes("@")) text = text.slice(text.lastIndexOf("@") + 1);
+  text = text.replace(/^\.+|\.+$/g, "");
+  if (!text.includes(".") || /[\s/]/.test(text)) return null;
+  return text === "googlemail.com" ? "gmail.com" : text;
+}
+
+const NORMALIZERS: Record<DoNotContactType, (value: unknown) => string | null> =
+  {
+    email: normalizeEmail,
+    phone: normalizePhone,
+    customer_ref: normalizeCustomerRef,
+    domain: normalizeDomain,
+  };
+
+export function normalizeDoNotContactValue(
+  type: DoNotContactType,
+  value: unknown,
+): string | null {
+  const normalized = NORMALIZERS[type](value);
+  return normalized && normalized.length <= MAX_VALUE_LENGTH
+    ? normalized
+    : null;
+}
+
+// ── Matching ────────────────────────────────────────────────────────
+
+/** Raw values of one row; any may be missing when the table has no such column. */
+export interface ContactValues {
+  ref?: unknown;
+  email?: unknown;
+  phone?: unknown;
+}
+
+export interface DoNotContactMatcher {
+  /** Listed values across all types; 0 means nothing can match. */
+  size: number;
+  /** The list type that excludes the contact, or null when it may be contacted. */
+  match(contact: ContactValues): DoNotContactType | null;
+}
+
+// Loaded per preview/export rather than cached: an opt-out must apply to the
+// very next file. A storage failure propagates, so nothing is exported unchecked.
+export async function loadDoNotContactMatcher(): Promise<DoNotContactMatcher> {
+  const values = await getStorage().listDoNotContactValues();
+  const byType: Record<DoNotContactType, Set<string>> = {
+    email: new Set(),
+    phone: new Set(),
+    customer_ref: new Set(),
+    domain: new Set(),
+  };
+  for (const { type, value } of values) byType[type]?.add(value);
+
+  return {
+    size: values.length,
+    match(contact) {
+      if (values.length === 0) return null;
+
+      const ref =
+        contact.ref !== undefined ? normalizeCustomerRef(contact.ref) : null;
+      if (ref && byType.customer_ref.has(ref)) return "customer_ref";
+
+      const email =
+        contact.email !== undefined ? normalizeEmail(contact.email) : null;
+      if (email) {
+        if (byType.email.has(email)) return "email";
+        // Listed domains cover their subdomains (mail.example.jp ⊂ example.jp)
+        const labels = email.slice(email.indexOf("@") + 1).split(".");
+        for (let i = 0; i < labels.length - 1; i++) {
+          if (byType.domain.has(labels.slice(i).join("."))) return "domain";
+        }
+      }
+
+      const phone =
+        contact.phone !== undefined ? normalizePhone(contact.phone) : null;
+      if (phone && byType.phone.has(phone)) return "phone";
+
+      return null;
+    },
+  };
+}
+
+// ── List management ─────────────────────────────────────────────────
+
+export async function listDoNotContact(
+  query: DoNotContactQuery,
+): Promise<DoNotContactListResponse> {
+  const { page, ...filter } = query;
+  const { entries, total } = await getStorage().listDoNotContact(
+    filter,
+    LIST_PAGE_SIZE,
+    (page - 1) * LIST_PAGE_SIZE,
+  );
+  const totalPages = Math.ceil(total / LIST_PAGE_SIZE);
+  return {
+    entries,
+    pagination: {
+      page,
+      pageSize: LIST_PAGE_SIZE,
+      totalCount: total,
+      totalPages,
+      hasMore: page < totalPages,
+    },
+  };
+}
+
+// Header cells that mark the column to read in an uploaded file (for parseCsvColumn)
+export const DO_NOT_CONTACT_CSV_HEADERS: Record<DoNotContactType, string[]> = {
+  email: ["email", "emailaddress", "mail", "mailaddress", "メールアドレス"],
+  phone: ["phone", "phonenumber", "tel", "mobile", "電話番号", "携帯番号"],
+  customer_ref: ["ref", "reference", "customerid", "customerrefid"],
+  domain: ["domain", "emaildomain", "ドメイン"],
+};
+
+export async function addDoNotContact(
+  request: AddDoNotContactRequest,
+  createdBy: string | null,
+): Promise<DoNotContactAddResult> {
+  const rejected: string[] = [];
+  const seen = new Set<string>();
+  const entries: InsertDoNotContactEntry[] = [];
+
+  for (const raw of request.values) {
+    if (!raw.trim()) continue;
+    const value = normalizeDoNotContactValue(request.type, raw);
+    if (!value) {
+      rejected.push(raw.trim());
+      continue;
+    }
+    if (seen.has(value)) continue;
+    seen.add(value);
+    entries.push({ type: request.type, value, reason: request.reason || null });
+  }
+
+  const added =
+    entries.length > 0
+      ? await getStorage().addDoNotContact(entries, createdBy)
+      : [];
+  console.log(
+    `Do-not-contact: ${added.length} ${request.type} value(s) added by ${createdBy ?? "(unknown)"}, ${entries.length - added.length} already listed, ${rejected.length} rejected`,
+  );
+  return {
+    added: added.length,
+    alreadyListed: entries.length - added.length,
+    rejected,
+  };
+}
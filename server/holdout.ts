@@ -0,0 +1,62 @@
+import { createHash } from "crypto";
+import type { SplitCell } from "@shared/schema";
+
+// ── Holdout (control) groups ────────────────────────────────────────
+// A holdout keeps a share of a campaign's selected contacts out of the mailing so
+// its lift can be measured against them. Assignment hashes the customer reference
+// with the campaign code: re-running or re-previewing a campaign holds out the same
+// contacts, while another campaign draws its own control group.
+
+// History rows for the control group are logged under the campaign code plus this
+// suffix, so response analysis can tell them apart from mailed contacts
+export const CONTROL_CODE_SUFFIX = "-CTRL";
+
+export interface HoldoutSettings {
+  percent: number; // 0 disables the holdout
+  campaignCode: string;
+}
+
+export function controlCampaignCode(campaignCode: string): string {
+  return `${campaignCode}${CONTROL_CODE_SUFFIX}`;
+}
+
+// Position of a key in [0, 1); SQL Server compares codes and references
+// case-insensitively, so the hash does too
+function hashPosition(key: string): number {
+  const digest = createHash("sha256").update(key.toLowerCase()).digest();
+  return digest.readUInt32BE(0) / 0x100000000;
+}
+
+export function isHeldOut(ref: string, holdout: HoldoutSettings): boolean {
+  return (
+    holdout.percent > 0 &&
+    hashPosition(`${holdout.campaignCode.trim()}:${ref.trim()}`) * 100 <
+      holdout.percent
+  );
+}
+
+// ── Split-test cells ────────────────────────────────────────────────
+// A split test divides the mailed contacts between named cells (e.g. two
+// creatives) in proportion to their weights. The hash is salted apart from the
+// holdout's, so the cells are drawn independently of the control group.
+
+// History rows are logged under the campaign code plus the cell name
+export function cellCampaignCode(campaignCode: string, cell: string): string {
+  return `${campaignCode}-${cell}`;
+}
+
+export function assignCell(
+  ref: string,
+  campaignCode: string,
+  cells: SplitCell[],
+): string {
+  const total = cells.reduce((sum, cell) => sum + cell.weight, 0);
+  let position =
+    hashPosition(`${campaignCode.trim()}:${ref.trim()}:cell`) * total;
+  for (const cell of cells) {
+    if (position < cell.weight) return cell.name;
+    position -= cell.weight;
+  }
+  // Float rounding can leave the position just past the last weight
+  return cells[cells.length - 1].name;
+}
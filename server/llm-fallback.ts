@@ -0,0 +1,330 @@
+import type {
+  AnalysisSummaryResult,
+  ConceptAnalysisResult,
+  CustomAnalysisResult,
+  MetabaseField,
+  SQLAnalysisResult,
+  TargetingRule,
+  TrendsICPResult,
+} from "@shared/schema";
+import type {
+  ICPSegmentData,
+  SnapshotData,
+  TargetingRefinementState,
+} from "./openai";
+import { normalizeForMatch } from "./suggestion-validation";
+import { parseAgeRange } from "./targeting";
+
+// ── Rule-based fallback answers ─────────────────────────────────────
+// What the "fallback" LLM provider returns when no model is available. The answers
+// are deterministic and deliberately modest: concept analysis only suggests values
+// and fields the concept names outright, SQL analysis groups or measures by the
+// columns the question mentions, and features that need a model to say anything
+// useful explain that instead of inventing data.
+
+const NOTE = "Rule-based analysis (no AI provider is configured)";
+
+const NUMERIC_TYPES = [
+  "type/Integer",
+  "type/BigInteger",
+  "type/Float",
+  "type/Decimal",
+  "type/Number",
+];
+
+const FEMALE_WORDS = /\b(women|woman|female|ladies|lady)\b|女性|婦人/;
+const MALE_WORDS = /\b(men|man|male|gentlemen)\b|男性|紳士/;
+const FEMALE_VALUES = ["f", "female", "w", "woman", "women", "女", "女性"];
+const MALE_VALUES = ["m", "male", "man", "men", "男", "男性"];
+
+// Age phrases parseAgeRange understands, found anywhere in the concept
+const AGE_PATTERNS = [
+  /(?<!\d)\d{2}\s*(?:-|–|~|〜|to)\s*\d{2}(?!\d)/,
+  /(?<!\d)\d0(?:s|'s|代)/,
+  /(?<!\d)\d{2}\s*(?:\+|歳以上|and (?:above|over|older)|or (?:above|over|older))/,
+  /(?:over|above|older than|under|below|younger than)\s+\d{2}(?!\d)/,
+];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function isNumeric(field: MetabaseField): boolean {
+  return NUMERIC_TYPES.includes(field.base_type);
+}
+
+function findAgeRange(concept: string): string | null {
+  const text = concept.normalize("NFKC").toLowerCase();
+  for (const pattern of AGE_PATTERNS) {
+    const match = text.match(pattern);
+    if (match && parseAgeRange(match[0])) return match[0].trim();
+  }
+  return null;
+}
+
+// A known value appears in the concept, with or without its prefecture suffix (東京都 / 東京)
+function mentionsValue(concept: string, value: string): boolean {
+  const wanted = normalizeForMatch(value);
+  if (wanted.length < 2 || /^\d+(\.\d+)?$/.test(wanted)) return false;
+  if (concept.includes(wanted)) return true;
+  const stem = wanted.replace(/[都道府県]$/, "");
+  return stem.length >= 2 && stem !== wanted && concept.includes(stem);
+}
+
+function genderValue(
+  samples: string[] | undefined,
+  accepted: string[],
+  fallback: string,
+): string {
+  return (
+    samples?.find((v) => accepted.includes(normalizeForMatch(v))) ?? fallback
+  );
+}
+
+/**
+ * Suggests rules for what the concept names outright: known values of categorical
+ * fields ("東京都", "VIP"), gender words, brand prefixes of LTV fields ("GL buyers"
+ * → GL_LTV > 0) and an age phrase ("40代", "over 50").
+ */
+export function ruleBasedConceptAnalysis(
+  concept: string,
+  fields: MetabaseField[],
+  fieldSampleValues: Record<string, string[]> = {},
+): ConceptAnalysisResult {
+  const text = normalizeForMatch(concept);
+  const words = concept.normalize("NFKC").toLowerCase();
+  const suggestions: ConceptAnalysisResult["suggestions"] = [];
+  const suggest = (segment: string, rule: TargetingRule, reasoning: string) =>
+    suggestions.push({ segment, rule, confidence: 0.6, reasoning });
+
+  for (const field of fields) {
+    const name = normalizeForMatch(field.name);
+    const samples = fieldSampleValues[field.name];
+
+    if (/gender|sex|性別/.test(name)) {
+      const female = FEMALE_WORDS.test(words);
+      const male = MALE_WORDS.test(words);
+      if (female !== male) {
+        const value = female
+          ? genderValue(samples, FEMALE_VALUES, "F")
+          : genderValue(samples, MALE_VALUES, "M");
+        suggest(
+          `${field.name}:${value}`,
+          { type: "condition", field: field.name, operator: "=", value },
+          `The concept targets ${female ? "women" : "men"}`,
+        );
+        continue;
+      }
+    }
+
+    if (isNumeric(field) && name.endsWith("ltv")) {
+      const brand = field.name.replace(/[_\s-]*ltv$/i, "").toLowerCase();
+      if (
+        brand.length >= 2 &&
+        new RegExp(`(^|[^a-z])${escapeRegExp(brand)}([^a-z]|$)`).test(words)
+      ) {
+        suggest(
+          `${field.name}:>0`,
+          { type: "condition", field: field.name, operator: ">", value: 0 },
+          `The concept names the ${brand.toUpperCase()} brand; ${field.name} > 0 selects its buyers`,
+        );
+      }
+      continue;
+    }
+
+    const matched = (samples ?? []).filter((v) => mentionsValue(text, v));
+    if (matched.length === 1) {
+      suggest(
+        `${field.name}:${matched[0]}`,
+        {
+          type: "condition",
+          field: field.name,
+          operator: "=",
+          value: matched[0],
+        },
+        `The concept mentions "${matched[0]}"`,
+      );
+    } else if (matched.length > 1) {
+      suggest(
+        `${field.name}: ${matched.join(", ")}`,
+        {
+          type: "condition",
+          field: field.name,
+          operator: "in",
+          values: matched,
+        },
+        `The concept mentions ${matched.map((v) => `"${v}"`).join(", ")}`,
+      );
+    }
+  }
+
+  const suggestedAgeRange = findAgeRange(concept);
+  const found = [
+    ...suggestions.map((s) => s.segment),
+    ...(suggestedAgeRange ? [`age ${suggestedAgeRange}`] : []),
+  ];
+  return {
+    suggestions,
+    suggestedAgeRange,
+    reasoning:
+      found.length > 0
+        ? `${NOTE}: the concept names ${found.join("; ")}.`
+        : `${NOTE}: no field value, brand or age in the table matched the concept. Choose segments manually.`,
+  };
+}
+
+// Without a model an instruction cannot be interpreted, so the rules stay as they are
+export function unchangedTargeting(
+  current: TargetingRefinementState,
+): ConceptAnalysisResult {
+  return {
+    suggestions: current.suggestions,
+    suggestedAgeRange: current.suggestedAgeRange,
+    reasoning: `${NOTE}: plain-language changes need a model, so the targeting was not changed. Edit the segments directly.`,
+  };
+}
+
+export function unavailableTrendsICP(): TrendsICPResult {
+  return {
+    trends: [],
+    icpSegments: [],
+    summary: `${NOTE}: Trend & ICP analysis needs a model.`,
+    totalRecords: 0,
+    mailedExcluded: 0,
+  };
+}
+
+export function unavailableCustomAnalysis(
+  prompt: string,
+): CustomAnalysisResult {
+  return {
+    query: prompt,
+    results: [],
+    summary: `${NOTE}: custom analysis needs a model.`,
+  };
+}
+
+/** The three insights computed directly from the aggregates. */
+export function ruleBasedAnalysisSummary(
+  snapshot: SnapshotData,
+  icpSegments: ICPSegmentData[],
+): AnalysisSummaryResult {
+  const describe = (s: ICPSegmentData) =>
+    `${s.gender || "Unknown"} / ${s.ageGroup} / ${s.location}`;
+  const byLtv = [...icpSegments].sort((a, b) => b.avgTotalLtv - a.avgTotalLtv);
+
+  const top = byLtv[0];
+  const topDemographic = top
+    ? `${describe(top)} has the highest average LTV (¥${Math.round(top.avgTotalLtv).toLocaleString()} across ${top.customerCount.toLocaleString()} customers).`
+    : "No segment data available.";
+
+  const overlaps: Array<[string, number]> = [
+    ["GL and TSI", snapshot.glTsiOverlap],
+    ["GL and MD", snapshot.glMdOverlap],
+    ["SY and GL", snapshot.syGlOverlap],
+  ];
+  const [pair, overlap] = overlaps.reduce((best, o) =>
+    o[1] > best[1] ? o : best,
+  );
+  const crossSellOpportunity =
+    overlap > 0
+      ? `${overlap.toLocaleString()} customers buy both ${pair}, the largest brand overlap.`
+      : "No customers buy from more than one brand.";
+
+  // The least reachable of the three most valuable segments
+  const gap = byLtv
+    .slice(0, 3)
+    .filter((s) => s.emailRate < 0.5)
+    .sort((a, b) => a.emailRate - b.emailRate)[0];
+  const contactabilityWarning = gap
+    ? `${describe(gap)} is among the highest-LTV segments but only ${(gap.emailRate * 100).toFixed(1)}% have an email address.`
+    : "No significant contactability concerns";
+
+  return {
+    summary: `${NOTE}. ${topDemographic} ${crossSellOpportunity}`,
+    topDemographic,
+    crossSellOpportunity,
+    contactabilityWarning,
+  };
+}
+
+/**
+ * A query over the selected table built from the columns the question names: counts
+ * per the first categorical column, with an average (or total, when asked) of the
+ * first numeric one; summary statistics when only a numeric column is named; the
+ * row count otherwise.
+ */
+export function ruleBasedAnalysisSql(
+  prompt: string,
+  allTables: Array<{
+    name: string;
+    display_name: string;
+    fields: Array<{ name: string; display_name: string; base_type: string }>;
+  }>,
+  primaryTableName: string,
+): SQLAnalysisResult {
+  const table =
+    allTables.find((t) => t.name === primaryTableName) ?? allTables[0];
+  if (!table) {
+    return {
+      sql: "",
+      explanation: `${NOTE}: no table is available to query.`,
+      chartConfig: null,
+    };
+  }
+
+  const text = normalizeForMatch(prompt);
+  const position = (f: { name: string; display_name: string }) => {
+    const names = [f.name, f.display_name]
+      .map((n) => normalizeForMatch(n || ""))
+      .filter((n) => n.length >= 2);
+    const hits = names.map((n) => text.indexOf(n)).filter((i) => i !== -1);
+    return hits.length > 0 ? Math.min(...hits) : -1;
+  };
+  const mentioned = table.fields
+    .map((f) => ({ field: f, at: position(f) }))
+    .filter((m) => m.at !== -1)
+    .sort((a, b) => a.at - b.at)
+    .map((m) => m.field);
+  const group = mentioned.find((f) => !NUMERIC_TYPES.includes(f.base_type));
+  const measure = mentioned.find((f) => NUMERIC_TYPES.includes(f.base_type));
+  const total = /\b(sum|total)\b|合計/.test(prompt.toLowerCase());
+  const from = `FROM [${table.name}]`;
+
+  if (group) {
+    const agg = measure
+      ? {
+          alias: `${total ? "total" : "avg"}_${measure.name}`,
+          sql: `${total ? "SUM" : "AVG"}(CAST([${measure.name}] AS FLOAT))`,
+        }
+      : null;
+    return {
+      sql:
+        `SELECT TOP 100 [${group.name}], COUNT(*) AS [customers]` +
+        (agg ? `, ${agg.sql} AS [${agg.alias}]` : "") +
+        ` ${from} GROUP BY [${group.name}] ORDER BY [customers] DESC`,
+      explanation: `${NOTE}: counts rows per ${group.name}${measure ? ` with the ${total ? "total" : "average"} ${measure.name}` : ""}.`,
+      chartConfig: {
+        type: "bar",
+        xKey: group.name,
+        yKey: agg?.alias ?? "customers",
+        title: agg
+          ? `${total ? "Total" : "Average"} ${measure!.name} by ${group.name}`
+          : `Customers by ${group.name}`,
+      },
+    };
+  }
+  if (measure) {
+    const col = `CAST([${measure.name}] AS FLOAT)`;
+    return {
+      sql: `SELECT COUNT(*) AS [customers], MIN(${col}) AS [min_${measure.name}], MAX(${col}) AS [max_${measure.name}], AVG(${col}) AS [avg_${measure.name}] ${from}`,
+      explanation: `${NOTE}: summary statistics for ${measure.name}.`,
+      chartConfig: null,
+    };
+  }
+  return {
+    sql: `SELECT COUNT(*) AS [customers] ${from}`,
+    explanation: `${NOTE}: no column of ${table.name} was named in the question, so this counts its rows. Name a column to group or measure by it.`,
+    chartConfig: null,
+  };
+}
@@ -0,0 +1,239 @@
+import OpenAI from "openai";
+import type { z } from "zod";
+
+// ── LLM providers ───────────────────────────────────────────────────
+// The AI features ask for one JSON chat completion through completeJson() and never
+// talk to a model SDK directly. Which provider answers is configured per feature:
+//   LLM_PROVIDER                 default for every feature
+//   LLM_PROVIDER_<FEATURE>       override for one feature, e.g. LLM_PROVIDER_SQL_ANALYSIS
+// with "openai" (the AI_INTEGRATIONS_OPENAI_* endpoint, model LLM_MODEL), "local"
+// (an OpenAI-compatible server such as Ollama or LM Studio at LLM_LOCAL_BASE_URL,
+// model LLM_LOCAL_MODEL) or "fallback" (the caller's deterministic rule-based
+// answer, no network). Without any configuration, features use OpenAI when its
+// endpoint or key is set and the fallback otherwise.
+
+export const LLM_FEATURES = [
+  "concept-analysis",
+  "targeting-refinement",
+  "trends-icp",
+  "analysis-summary",
+  "custom-analysis",
+  "sql-analysis",
+] as const;
+export type LlmFeature = (typeof LLM_FEATURES)[number];
+
+export const LLM_PROVIDER_NAMES = ["openai", "local", "fallback"] as const;
+export type LlmProviderName = (typeof LLM_PROVIDER_NAMES)[number];
+
+export interface LlmMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LlmRequest {
+  feature: LlmFeature;
+  messages: LlmMessage[];
+  temperature: number;
+  maxTokens?: number;
+  // Strict JSON Schema the reply must follow (every property required, no others);
+  // providers that cannot enforce one still get JSON mode
+  schema?: { name: string; schema: Record<string, unknown> };
+  // The rule-based answer the fallback provider returns; computed only when used
+  fallback: () => unknown;
+}
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  /** Returns the assistant's reply: a JSON document as text. */
+  complete(request: LlmRequest): Promise<string>;
+}
+
+interface OpenAICompatibleOptions {
+  baseURL: string | undefined;
+  apiKey: string;
+  model: string;
+  // Whether the server accepts response_format json_schema (OpenAI does)
+  jsonSchema: boolean;
+}
+
+// Clients are reused per endpoint and key
+const clients = new Map<string, OpenAI>();
+
+function clientFor(baseURL: string | undefined, apiKey: string): OpenAI {
+  const key = `${baseURL ?? ""}\n${apiKey}`;
+  let client = clients.get(key);
+  if (!client) {
+    client = new OpenAI({ baseURL, apiKey });
+    clients.set(key, client);
+  }
+  return client;
+}
+
+function openAICompatible(
+  name: LlmProviderName,
+  options: () => OpenAICompatibleOptions,
+): LlmProvider {
+  return {
+    name,
+    async complete(request) {
+      const { baseURL, apiKey, model, jsonSchema } = options();
+      const response = await clientFor(baseURL, apiKey).chat.completions.create(
+        {
+          model,
+          messages: request.messages,
+          response_format:
+            request.schema && jsonSchema
+              ? {
+                  type: "json_schema",
+                  json_schema: {
+                    name: request.schema.name,
+                    schema: request.schema.schema,
+                    strict: true,
+                  },
+                }
+              : { type: "json_object" },
+          temperature: request.temperature,
+          ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
+        },
+      );
+      return response.choices[0]?.message?.content || "{}";
+    },
+  };
+}
+
+const providers: Record<LlmProviderName, LlmProvider> = {
+  openai: openAICompatible("openai", () => ({
+    baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
+    // The SDK refuses to start without a key; gateways that don't need one ignore it
+    apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY || "unset",
+    model: process.env.LLM_MODEL || "gpt-4o",
+    jsonSchema: true,
+  })),
+  local: openAICompatible("local", () => ({
+    baseURL: process.env.LLM_LOCAL_BASE_URL || "http://localhost:11434/v1",
+    apiKey: process.env.LLM_LOCAL_API_KEY || "local",
+    model: process.env.LLM_LOCAL_MODEL || "llama3.1",
+    jsonSchema: false,
+  })),
+  fallback: {
+    name: "fallback",
+    async complete(request) {
+      return JSON.stringify(request.fallback());
+    },
+  },
+};
+
+function featureEnvName(feature: LlmFeature): string {
+  return `LLM_PROVIDER_${feature.toUpperCase().replace(/-/g, "_")}`;
+}
+
+/** The provider configured for `feature`; read on every call so config changes apply. */
+export function getLlmProvider(feature: LlmFeature): LlmProvider {
+  const envName = featureEnvName(feature);
+  const configured =
+    process.env[envName]?.trim() || process.env.LLM_PROVIDER?.trim();
+  if (!configured) {
+    const hasOpenAI =
+      !!process.env.AI_INTEGRATIONS_OPENAI_BASE_URL ||
+      !!process.env.AI_INTEGRATIONS_OPENAI_API_KEY;
+    return providers[hasOpenAI ? "openai" : "fallback"];
+  }
+  const name = configured.toLowerCase();
+  if (!(LLM_PROVIDER_NAMES as readonly string[]).includes(name)) {
+    throw new Error(
+      `Unknown LLM provider "${configured}" in ${process.env[envName]?.trim() ? envName : "LLM_PROVIDER"}; expected ${LLM_PROVIDER_NAMES.join(", ")}`,
+    );
+  }
+  return providers[name as LlmProviderName];
+}
+
+/** One JSON chat completion from the provider configured for the request's feature. */
+export function completeJson(request: LlmRequest): Promise<string> {
+  return getLlmProvider(request.feature).complete(request);
+}
+
+// ── Response validation ─────────────────────────────────────────────
+// A reply that is not JSON or does not match the feature's schema is sent back to
+// the model once, with what was wrong, before giving up with an LlmResponseError.
+
+const REPAIR_ATTEMPTS = 1;
+const MAX_REPORTED_ISSUES = 20;
+
+/** A reply that still failed its schema after the repair retry. */
+export class LlmResponseError extends Error {
+  constructor(
+    readonly feature: LlmFeature,
+    readonly issues: string[],
+  ) {
+    super(
+      `The AI response for ${feature} was invalid after ${REPAIR_ATTEMPTS + 1} attempts: ${issues.slice(0, 3).join("; ")}`,
+    );
+    this.name = "LlmResponseError";
+  }
+}
+
+// A value that matches no alternative of a union (a rule tree) is described by the
+// alternative it came closest to, instead of zod's bare "Invalid input"
+function describeIssues(issues: z.ZodIssue[]): string[] {
+  return issues.flatMap((issue) => {
+    if (issue.code === "invalid_union" && issue.unionErrors.length > 0) {
+      const closest = issue.unionErrors.reduce((best, e) =>
+        e.issues.length < best.issues.length ? e : best,
+      );
+      return describeIssues(closest.issues);
+    }
+    return [`${issue.path.join(".") || "(root)"}: ${issue.message}`];
+  });
+}
+
+type CheckedReply<T> = { ok: true; data: T } | { ok: false; issues: string[] };
+
+function checkReply<S extends z.ZodTypeAny>(
+  content: string,
+  schema: S,
+): CheckedReply<z.output<S>> {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { ok: false, issues: [`Not valid JSON: ${reason}`] };
+  }
+  const parsed = schema.safeParse(json);
+  if (parsed.success) return { ok: true, data: parsed.data };
+  return {
+    ok: false,
+    issues: describeIssues(parsed.error.issues).slice(0, MAX_REPORTED_ISSUES),
+  };
+}
+
+function repairPrompt(issues: string[]): string {
+  return `Your reply did not match the required JSON format:
+${issues.map((i) => `- ${i}`).join("\n")}
+
+Reply again with the complete, corrected JSON object only.`;
+}
+
+/**
+ * completeJson() parsed and checked against `schema`; an invalid reply gets one
+ * repair turn (the bad reply plus the issues found) before LlmResponseError.
+ */
+export async function completeValidated<S extends z.ZodTypeAny>(
+  request: LlmRequest,
+  schema: S,
+): Promise<z.output<S>> {
+  let messages = request.messages;
+  for (let attempt = 0; ; attempt++) {
+    const content = await completeJson({ ...request, messages });
+    const checked = checkReply(content, schema);
+    if (checked.ok) return checked.data;
+    if (attempt === REPAIR_ATTEMPTS) {
+      throw new LlmResponseError(request.feature, checked.issues);
+    }
+    messages = [
+      ...request.messages,
+      { role: "assistant", content },
+      { role: "user", content: repairPrompt(checked.issues) },
+    ];
+  }
+}
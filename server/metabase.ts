@@ -1,142 +1,65 @@
 import type {
+  CapturedSuppressionRows,
   MetabaseDatabase,
   MetabaseTable,
   MetabaseField,
   FilterValue,
+  ExportMappingResponse,
   FieldOption,
   MailingListEntry,
+  MailingListResponse,
+  SuppressionMapping,
+  FrequencyCapRule,
+  SplitCell,
+  SuppressionWriteBackReport,
+  TargetingRule,
+  AudienceTierCounts,
 } from "@shared/schema";
+import { randomUUID } from "crypto";
+import {
+  getDirectConnection,
+  queryTimeoutError,
+  runDirectQuery,
+  streamDirectQuery,
+  type DirectConnectionConfig,
+  type DirectQueryResult,
+} from "./db";
+import {
+  buildDemographicClause,
+  compileTargetingRule,
+  describeTargetingRule,
+  escapeLikePattern,
+  filterValuesToRule,
+  inlineSqlParams,
+  quoteIdentifier,
+  relaxTargetingRule,
+  renderLiteral,
+  segmentToCondition,
+  targetingRuleToSql,
+  type CompiledSql,
+  type DobColumn,
+  type SqlParam,
+} from "./targeting";
+import { getStorage } from "./storage";
+import { loadDoNotContactMatcher, type ContactValues } from "./do-not-contact";
+import {
+  CONTROL_CODE_SUFFIX,
+  assignCell,
+  cellCampaignCode,
+  controlCampaignCode,
+  isHeldOut,
+  type HoldoutSettings,
+} from "./holdout";
 
 const ROW_LIMIT = 100000;
 
-interface ParsedSegment {
-  field: string;
-  operator: string;
-  isNumeric: boolean;
-  condition: string;
-}
-
-function parseSegmentsToConditions(segments: string[]): ParsedSegment[] {
-  const results: ParsedSegment[] = [];
-  for (const seg of segments) {
-    const colonIdx = seg.indexOf(":");
-    if (colonIdx === -1) continue;
-    const field = seg.substring(0, colonIdx);
-    let val = seg.substring(colonIdx + 1);
-    val = val.replace(/^["']+|["']+$/g, "").trim();
-
-    let operator = "=";
-    if (val.startsWith(">=")) {
-      operator = ">=";
-      val = val.substring(2).trim();
-    } else if (val.startsWith("<=")) {
-      operator = "<=";
-      val = val.substring(2).trim();
-    } else if (val.startsWith("!=")) {
-      operator = "!=";
-      val = val.substring(2).trim();
-    } else if (val.startsWith(">")) {
-      operator = ">";
-      val = val.substring(1).trim();
-    } else if (val.startsWith("<")) {
-      operator = "<";
-      val = val.substring(1).trim();
-    }
-
-    val = val.replace(/^["']+|["']+$/g, "").trim();
-
-    let sqlVal: string;
-    const isNumeric = !isNaN(Number(val)) && val.trim() !== "";
-    if (isNumeric) {
-      sqlVal = val;
-    } else if (val.toLowerCase() === "true") {
-      sqlVal = "1";
-    } else if (val.toLowerCase() === "false") {
-      sqlVal = "0";
-    } else {
-      sqlVal = `'${val.replace(/'/g, "''")}'`;
-    }
-
-    let condition: string;
-    if (!isNumeric && operator === "=") {
-      condition = `LTRIM(RTRIM([${field}])) ${operator} ${sqlVal}`;
-    } else {
-      condition = `[${field}] ${operator} ${sqlVal}`;
-    }
-
-    results.push({ field, operator, isNumeric, condition });
-  }
-  return results;
-}
-
-function buildGroupedWhereClause(parsed: ParsedSegment[]): string {
-  if (parsed.length === 0) return "";
-
-  const fieldGroups: Record<string, ParsedSegment[]> = {};
-  for (const p of parsed) {
-    if (!fieldGroups[p.field]) fieldGroups[p.field] = [];
-    fieldGroups[p.field].push(p);
-  }
-
-  const clauses: string[] = [];
-  for (const [, group] of Object.entries(fieldGroups)) {
-    const equalityConditions = group.filter((p) => p.operator === "=");
-    const rangeConditions = group.filter((p) => p.operator !== "=");
-
-    if (equalityConditions.length > 1) {
-      clauses.push(
-        `(${equalityConditions.map((p) => p.condition).join(" OR ")})`,
-      );
-    } else if (equalityConditions.length === 1) {
-      clauses.push(equalityConditions[0].condition);
-    }
-
-    for (const r of rangeConditions) {
-      clauses.push(r.condition);
-    }
-  }
-
-  return clauses.length > 0 ? ` AND ${clauses.join(" AND ")}` : "";
-}
-
-// Returns a bare SQL condition string (no leading " AND ") suitable for use inside
-// a CASE WHEN expression. Returns "1=0" when no conditions exist (matches nothing).
-function buildConditionClause(parsed: ParsedSegment[]): string {
-  const grouped = buildGroupedWhereClause(parsed);
-  if (!grouped) return "1=0";
-  // buildGroupedWhereClause returns " AND cond1 AND cond2..." — strip leading " AND "
-  return grouped.startsWith(" AND ") ? grouped.substring(5) : grouped;
-}
-
-/**
- * Splits segments into "core demographic" (always keep) and
- * "specific" (product/channel/source — drop in fallback tier).
- * Returns only the core segments for use in a relaxed fallback query.
- */
-function buildRelaxedSegments(segments: string[]): string[] {
-  const CORE_PATTERNS =
-    /^(gender|sex|age|ddob|dob|birth|birthdate|pref|prefecture|country|nation|nationality)/i;
-  return segments.filter((seg) => {
-    const colonIdx = seg.indexOf(":");
-    if (colonIdx === -1) return false;
-    const field = seg.substring(0, colonIdx);
-    const val = seg.substring(colonIdx + 1).trim();
-    // Always keep demographic segments
-    if (CORE_PATTERNS.test(field)) return true;
-    // Keep any segment using a range/comparison operator — these are campaign-concept
-    // anchors (e.g. GL_LTV:>0, TSI_LTV:>0) that broadly define the target audience
-    if (/^[><]/.test(val) || val.startsWith("!=")) return true;
-    return false;
-  });
-}
-
 function getMetabaseUrl(): string {
   const url = process.env.METABASE_URL || "";
   return url.replace(/\/+$/, "");
 }
 
 // FIXED: Now safely keeps Japanese text while stripping only spaces, underscores, and hyphens
-function normalizeColName(name: string): string {
+export function normalizeColName(name: string): string {
   if (!name) return "";
   return name.toLowerCase().replace(/[\s_\-]/g, "");
 }
@@ -213,7 +136,7 @@ function detectSuppressionField(
   };
 }
 
-function detectSourceRef(
+export function detectSourceRef(
   cols: any[],
   rows: any[] = [],
 ): {
@@ -381,12 +304,397 @@ function detectSourceSystem(cols: any[]): {
   };
 }
 
-function findSourceRefIndex(cols: any[], rows: any[] = []): number {
-  return detectSourceRef(cols, rows).index;
+interface ColumnDetection {
+  index: number;
+  columnName: string | null;
+  confidence: number;
+  reason: string;
+}
+
+export interface FieldDetection {
+  field: any | null;
+  reason: string;
+  confidence: number;
+}
+
+// Column roles used by suppression lookup and write-back. A saved mapping profile
+// wins over detection; its columns are matched by exact name and reported as
+// missing (never re-detected) when they no longer exist.
+interface SourceColumnRoles {
+  ref: ColumnDetection;
+  sourceSystem: ColumnDetection;
+}
+
+export interface SuppressionFieldRoles {
+  ref: FieldDetection;
+  campaignCode: FieldDetection;
+  sourceSystem: FieldDetection;
+  sentDate: FieldDetection;
+}
+
+const PROFILE_CONFIDENCE = 100;
+
+function profileColumn(
+  cols: any[],
+  name: string | null,
+  label: string,
+): ColumnDetection {
+  if (!name) {
+    return {
+      index: -1,
+      columnName: null,
+      confidence: PROFILE_CONFIDENCE,
+      reason: `${label} is not mapped in the saved profile`,
+    };
+  }
+  const index = cols.findIndex((c: any) => c.name === name);
+  return index !== -1
+    ? {
+        index,
+        columnName: name,
+        confidence: PROFILE_CONFIDENCE,
+        reason: `${label} set to ${name} by the saved mapping profile`,
+      }
+    : {
+        index: -1,
+        columnName: null,
+        confidence: 0,
+        reason: `${label} column ${name} from the saved mapping profile no longer exists`,
+      };
+}
+
+function profileField(
+  suppFields: any[],
+  name: string | null,
+  label: string,
+): FieldDetection {
+  const { index, confidence, reason } = profileColumn(suppFields, name, label);
+  return { field: index !== -1 ? suppFields[index] : null, confidence, reason };
+}
+
+function resolveSourceColumns(
+  cols: any[],
+  rows: any[],
+  profile: SuppressionMapping | null,
+): SourceColumnRoles {
+  if (profile) {
+    return {
+      ref: profileColumn(cols, profile.sourceRefColumn, "Source reference"),
+      sourceSystem: profileColumn(
+        cols,
+        profile.sourceSystemColumn,
+        "Source system",
+      ),
+    };
+  }
+  return {
+    ref: detectSourceRef(cols, rows),
+    sourceSystem: detectSourceSystem(cols),
+  };
+}
+
+export function resolveSuppressionFields(
+  suppFields: any[],
+  profile: SuppressionMapping | null,
+): SuppressionFieldRoles {
+  if (profile) {
+    return {
+      ref: profileField(
+        suppFields,
+        profile.historyRefColumn,
+        "Suppression reference",
+      ),
+      campaignCode: profileField(
+        suppFields,
+        profile.historyCampaignCodeColumn,
+        "Suppression campaign code",
+      ),
+      sourceSystem: profileField(
+        suppFields,
+        profile.historySourceSystemColumn,
+        "Suppression source system",
+      ),
+      sentDate: profileField(
+        suppFields,
+        profile.historySentDateColumn,
+        "Suppression sent date",
+      ),
+    };
+  }
+
+  const refField = findSuppressionRefField(suppFields);
+  return {
+    ref: {
+      field: refField,
+      reason: refField
+        ? `Suppression reference selected as ${refField.name}`
+        : "Suppression reference column could not be detected",
+      confidence: refField ? 95 : 0,
+    },
+    campaignCode: detectSuppressionField(
+      suppFields,
+      ["Campaign_Code"],
+      (f: any) =>
+        normalizeColName(f.name).includes("campaign") ||
+        normalizeColName(f.name).includes("code"),
+      "Suppression campaign code",
+    ),
+    sourceSystem: detectSuppressionField(
+      suppFields,
+      ["Source_System"],
+      (f: any) =>
+        normalizeColName(f.name).includes("source") ||
+        normalizeColName(f.name).includes("system"),
+      "Suppression source system",
+    ),
+    sentDate: detectSuppressionField(
+      suppFields,
+      ["Sent_Date"],
+      (f: any) =>
+        f.base_type === "type/DateTime" ||
+        f.base_type === "type/Date" ||
+        normalizeColName(f.name).includes("exportdate") ||
+        normalizeColName(f.name).includes("date") ||
+        normalizeColName(f.name).includes("sent"),
+      "Suppression sent date",
+    ),
+  };
+}
+
+export function loadSuppressionMapping(
+  databaseId: number,
+  masterTableId: number,
+  historyDbId: number,
+  historyTableId: number,
+): Promise<SuppressionMapping | null> {
+  return getStorage()
+    .getSuppressionMapping({
+      databaseId,
+      masterTableId,
+      historyDbId,
+      historyTableId,
+    })
+    .then((mapping) => mapping ?? null);
+}
+
+// History rows logged from this master table, in either the plain ("TableName") or
+// structured ("db:X | table:TableName | ...") source format
+function sourceScopeSql(sourceField: any, masterTableName: string): string {
+  const safeTableName = masterTableName.replace(/'/g, "''");
+  return `([${sourceField.name}] = '${safeTableName}' OR [${sourceField.name}] LIKE '%table:${safeTableName}%')`;
+}
+
+// ── Frequency caps ──────────────────────────────────────────────────
+// Contact-pressure limits across campaigns, counted in the suppression history
+// with the same reference and source scoping as the excludeDays lookup.
+
+function findBrandField(suppFields: any[]): any | null {
+  return (
+    suppFields.find((f: any) => {
+      const n = normalizeColName(f.name);
+      return n.includes("brand") || n.includes("ブランド");
+    }) ?? null
+  );
+}
+
+function describeFrequencyCap(cap: FrequencyCapRule): string {
+  const mailings = `${cap.maxMailings} mailing${cap.maxMailings === 1 ? "" : "s"}`;
+  const brand = cap.brand ? ` for brand ${cap.brand}` : "";
+  return `${mailings} per ${cap.windowDays} days${brand}`;
+}
+
+// A holdout's control group is logged but never mailed, so its history rows
+// neither count towards a frequency cap nor suppress the contact later. Rows
+// without a campaign code still count.
+function notControlGroupSql(
+  roles: SuppressionFieldRoles,
+  qualifier = "",
+): string {
+  const codeField = roles.campaignCode.field;
+  if (!codeField) return "";
+  const code = `${qualifier}${quoteIdentifier(codeField.name)}`;
+  const pattern = renderLiteral(`%${escapeLikePattern(CONTROL_CODE_SUFFIX)}`);
+  return ` AND (${code} IS NULL OR ${code} NOT LIKE ${pattern})`;
+}
+
+// Why frequency caps were skipped before the history lookup (shown with the preview,
+// returned with the export)
+const FREQUENCY_CAPS_NEED_HISTORY =
+  "Frequency caps were not applied: they are counted in the suppression history, and no history table is selected.";
+const FREQUENCY_CAPS_NEED_REF =
+  "Frequency caps were not applied: no customer reference column was found in the master table.";
+
+const FREQUENCY_CAP_CANDIDATES_TABLE = "#frequency_cap_candidates";
+
+/**
+ * Candidate references (trimmed, lowercased) that already reached a cap. Like the
+ * cross-database suppression lookup, the candidates are staged in a temp table on
+ * the history database in chunks, and each chunk returns only its capped
+ * references, so no result runs into Metabase's 2,000-row response cap. Brand caps
+ * compare the history table's brand column, or, without one, match campaign codes
+ * starting with the brand (e.g. "GL" → "GL-SPRING24"). Caps that cannot be
+ * evaluated on this table are skipped and reported as warnings.
+ */
+async function lookupFrequencyCappedRefs(
+  historyDbId: number,
+  suppTableName: string,
+  suppFields: any[],
+  roles: SuppressionFieldRoles,
+  masterTableName: string,
+  caps: FrequencyCapRule[],
+  candidateKeys: Set<string>,
+): Promise<{ cappedIds: Set<string>; warnings: string[] }> {
+  const cappedIds = new Set<string>();
+  const warnings: string[] = [];
+  if (caps.length === 0) return { cappedIds, warnings };
+  const refField = roles.ref.field;
+  const dateField = roles.sentDate.field;
+  if (!refField || !dateField) {
+    warnings.push(
+      `Frequency caps were not applied: the history table has no ${refField ? "sent date" : "reference"} column.`,
+    );
+    return { cappedIds, warnings };
+  }
+  const brandField = findBrandField(suppFields);
+  const codeField = roles.campaignCode.field;
+  const candidates = FREQUENCY_CAP_CANDIDATES_TABLE;
+  const history = quoteIdentifier(suppTableName);
+  const ref = `${history}.${quoteIdentifier(refField.name)}`;
+
+  // One "reached the cap" predicate per cap, correlated on the staged reference
+  const capped: string[] = [];
+  const params: SqlParam[] = [];
+  for (const cap of caps) {
+    let brandSql = "";
+    let brandValue = "";
+    if (cap.brand) {
+      if (brandField) {
+        brandSql = `LTRIM(RTRIM(${history}.${quoteIdentifier(brandField.name)})) =`;
+        brandValue = cap.brand;
+      } else if (codeField) {
+        brandSql = `${history}.${quoteIdentifier(codeField.name)} LIKE`;
+        brandValue = `${escapeLikePattern(cap.brand)}%`;
+      } else {
+        warnings.push(
+          `Frequency cap "${describeFrequencyCap(cap)}" was not applied: the history table has no brand or campaign code column.`,
+        );
+        continue;
+      }
+    }
+
+    let where =
+      `LOWER(LTRIM(RTRIM(CAST(${ref} AS NVARCHAR(450))))) = c.Ref` +
+      ` AND ${history}.${quoteIdentifier(dateField.name)} > DATEADD(day, -${cap.windowDays}, CAST(GETDATE() AS DATE))`;
+    if (roles.sourceSystem.field) {
+      where += ` AND ${sourceScopeSql(roles.sourceSystem.field, masterTableName)}`;
+    }
+    where += notControlGroupSql(roles, `${history}.`);
+    if (brandSql) {
+      where += ` AND ${brandSql} @p${params.length}`;
+      params.push({ name: `p${params.length}`, value: brandValue });
+    }
+    capped.push(
+      `(SELECT COUNT(*) FROM ${history} WHERE ${where}) >= @p${params.length}`,
+    );
+    params.push({ name: `p${params.length}`, value: cap.maxMailings });
+  }
+  if (capped.length === 0) return { cappedIds, warnings };
+
+  const refs = Array.from(candidateKeys).filter((key) => key.length <= 450);
+  for (let i = 0; i < refs.length; i += SUPPRESSION_LOOKUP_CHUNK_SIZE) {
+    const values = refs
+      .slice(i, i + SUPPRESSION_LOOKUP_CHUNK_SIZE)
+      .map((key) => `(${renderLiteral(key)})`);
+    const sql = [
+      "SET NOCOUNT ON;",
+      `DROP TABLE IF EXISTS ${candidates};`,
+      `CREATE TABLE ${candidates} (Ref NVARCHAR(450) NOT NULL);`,
+      ...buildStagingInserts(candidates, "Ref", values),
+      `SELECT c.Ref FROM ${candidates} c WHERE ${capped.join(" OR ")};`,
+      `DROP TABLE ${candidates};`,
+    ].join("\n");
+    const result = await runNativeQuery(historyDbId, sql, params);
+    for (const r of result.rows) cappedIds.add(String(r[0]));
+  }
+  return { cappedIds, warnings };
+}
+
+// ── Same-database suppression ───────────────────────────────────────
+// When the history table sits in the master table's database, suppression is a
+// NOT EXISTS anti-join inside the ranked query, so suppressed rows never use up the
+// fetch limit. Cross-database pairs keep the in-memory lookup after the fetch.
+
+/**
+ * EXISTS predicate for master rows logged in the history table within the
+ * excludeDays window, correlated on the source reference column. Only the master
+ * side is trimmed: a text history column is compared as stored (the write-back
+ * logs trimmed references; SQL Server's = ignores trailing spaces and follows the
+ * column's case-insensitive collation), so an index on it can be used for a seek
+ * instead of a scan per candidate. Other column types are compared as trimmed text
+ * on both sides, like the in-memory lookup. Null when the history table has no
+ * reference column.
+ */
+function buildSuppressedExistsSql(
+  masterTableName: string,
+  sourceRefColumn: string,
+  suppTableName: string,
+  roles: SuppressionFieldRoles,
+  excludeDays: number,
+): string | null {
+  const refField = roles.ref.field;
+  if (!refField) return null;
+  const history = quoteIdentifier(suppTableName);
+  const asText = (column: string) =>
+    `LTRIM(RTRIM(CAST(${column} AS NVARCHAR(450))))`;
+  const historyRef = `${history}.${quoteIdentifier(refField.name)}`;
+
+  let sql =
+    `SELECT 1 FROM ${history} WHERE ` +
+    `${refField.base_type === "type/Text" ? historyRef : asText(historyRef)} = ` +
+    asText(
+      `${quoteIdentifier(masterTableName)}.${quoteIdentifier(sourceRefColumn)}`,
+    );
+  if (roles.sentDate.field) {
+    sql += ` AND ${history}.${quoteIdentifier(roles.sentDate.field.name)} > DATEADD(day, -${excludeDays}, CAST(GETDATE() AS DATE))`;
+  }
+  if (roles.sourceSystem.field) {
+    sql += ` AND ${sourceScopeSql(roles.sourceSystem.field, masterTableName)}`;
+  }
+  sql += notControlGroupSql(roles, `${history}.`);
+  return `EXISTS (${sql})`;
 }
 
-function findSourceSystemIndex(cols: any[]): number {
-  return detectSourceSystem(cols).index;
+/**
+ * The suppression predicate for a same-database master/history pair, or null when
+ * the tables are in different databases or the columns can't be resolved (the
+ * in-memory lookup then applies). The source reference is resolved from field
+ * metadata, since no rows have been fetched yet.
+ */
+async function resolveSameDatabaseSuppression(
+  databaseId: number,
+  masterTableName: string,
+  masterFields: MetabaseField[],
+  historyDbId: number | null,
+  historyTableId: number | null,
+  profile: SuppressionMapping | null,
+  excludeDays: number,
+): Promise<string | null> {
+  if (!historyTableId || historyDbId !== databaseId) return null;
+  const [tables, suppFields] = await Promise.all([
+    getTables(historyDbId),
+    getFields(historyTableId),
+  ]);
+  const suppTable = tables.find((t) => t.id === historyTableId);
+  const sourceRef = resolveSourceColumns(masterFields, [], profile).ref
+    .columnName;
+  if (!suppTable || !sourceRef) return null;
+  return buildSuppressedExistsSql(
+    masterTableName,
+    sourceRef,
+    suppTable.name,
+    resolveSuppressionFields(suppFields, profile),
+    excludeDays,
+  );
 }
 
 function buildSuppressionSourceValue(
@@ -484,6 +792,336 @@ function getFieldTextMaxLength(field: any): number | null {
   return null;
 }
 
+// T-SQL accepts at most 1,000 rows in a single VALUES list
+const SUPPRESSION_STAGING_BATCH_SIZE = 1000;
+const SUPPRESSION_STAGING_TABLE = "#suppression_staging";
+const SUPPRESSION_INSERTED_TABLE = "#suppression_inserted";
+const SUPPRESSION_ROLLBACK_TABLE = "#suppression_rollback";
+// Joins the inserted references into one value (Metabase returns at most 2,000
+// rows); the unit separator can't occur in a customer reference
+const INSERTED_REFS_SEPARATOR = "\u001f";
+
+export interface SuppressionLogEntry {
+  ref: string;
+  sourceValue: string;
+  campaignCode?: string; // defaults to the batch's code (a holdout logs its control group apart)
+}
+
+export interface SuppressionWriteBackTarget {
+  tableName: string;
+  refColumn: string;
+  dateColumn: string;
+  codeColumn: string | null;
+  sourceColumn: string | null;
+}
+
+export interface SuppressionWriteBackResult {
+  staged: number;
+  inserted: number;
+  loggedOn: string | null; // YYYY-MM-DD, null when nothing was inserted
+  refsByCode: Record<string, string[]>;
+}
+
+// INSERT statements staging `values` (already rendered) in batches T-SQL accepts
+function buildStagingInserts(
+  table: string,
+  columns: string,
+  values: string[],
+): string[] {
+  const inserts: string[] = [];
+  for (let i = 0; i < values.length; i += SUPPRESSION_STAGING_BATCH_SIZE) {
+    const batch = values.slice(i, i + SUPPRESSION_STAGING_BATCH_SIZE);
+    inserts.push(
+      `INSERT INTO ${table} (${columns}) VALUES ${batch.join(", ")};`,
+    );
+  }
+  return inserts;
+}
+
+// The write-back's uniqueness guard: history row `row` logs the reference under the
+// campaign code on `day` (a DATE expression). `staged` is the staging table holding
+// the Ref and Campaign_Code columns.
+function loggedOnDaySql(
+  target: SuppressionWriteBackTarget,
+  row: string,
+  staged: string,
+  day: string,
+): string {
+  const dateCol = `${row}.${quoteIdentifier(target.dateColumn)}`;
+  return [
+    `${row}.${quoteIdentifier(target.refColumn)} = ${staged}.Ref`,
+    ...(target.codeColumn
+      ? [
+          `${row}.${quoteIdentifier(target.codeColumn)} = ${staged}.Campaign_Code`,
+        ]
+      : []),
+    `${dateCol} >= ${day}`,
+    `${dateCol} < DATEADD(day, 1, ${day})`,
+  ].join(" AND ");
+}
+
+/**
+ * Builds the write-back as one batch, because Metabase cannot keep a connection
+ * (and so a transaction) open across /api/dataset calls. Rows are staged in a temp
+ * table, rows already logged for the same reference, campaign code and day are
+ * marked as duplicates, and the rest are inserted in one transaction; XACT_ABORT
+ * rolls the whole batch back on any error. The only result set has one row per
+ * campaign code inserted (one row with a null code when nothing was):
+ * (staged, campaign_code, inserted, logged_on, inserted_refs), the last three taken
+ * from the INSERT's OUTPUT so a rollback can find exactly these rows again. Read it
+ * with parseSuppressionWriteBackResult.
+ */
+export function buildSuppressionWriteBackSql(
+  target: SuppressionWriteBackTarget,
+  entries: SuppressionLogEntry[],
+  campaignCode: string,
+): string {
+  const staging = SUPPRESSION_STAGING_TABLE;
+  const inserted = SUPPRESSION_INSERTED_TABLE;
+  const history = quoteIdentifier(target.tableName);
+  const refCol = quoteIdentifier(target.refColumn);
+  const dateCol = quoteIdentifier(target.dateColumn);
+
+  const stagingInserts = buildStagingInserts(
+    staging,
+    "Ref, Source_Value, Campaign_Code",
+    entries.map(
+      (entry) =>
+        `(${renderLiteral(entry.ref)}, ${renderLiteral(entry.sourceValue)}, ${renderLiteral(entry.campaignCode ?? campaignCode)})`,
+    ),
+  );
+
+  // Locks are held until commit so two exports of the same campaign can't both
+  // decide a row is new
+  const alreadyLogged = loggedOnDaySql(
+    target,
+    "h",
+    staging,
+    "CAST(GETDATE() AS DATE)",
+  );
+
+  const insertCols = [refCol];
+  const selectCols = ["Ref"];
+  const outputCols = [`INSERTED.${refCol}`];
+  if (target.codeColumn) {
+    insertCols.push(quoteIdentifier(target.codeColumn));
+    selectCols.push("Campaign_Code");
+    outputCols.push(`INSERTED.${quoteIdentifier(target.codeColumn)}`);
+  }
+  if (target.sourceColumn) {
+    insertCols.push(quoteIdentifier(target.sourceColumn));
+    selectCols.push("Source_Value");
+  }
+  insertCols.push(dateCol);
+  selectCols.push("CAST(GETDATE() AS DATE)");
+  outputCols.push(`INSERTED.${dateCol}`);
+  const outputInto = target.codeColumn
+    ? "Ref, Campaign_Code, Logged_On"
+    : "Ref, Logged_On";
+
+  return [
+    "SET NOCOUNT ON;",
+    "SET XACT_ABORT ON;",
+    // Metabase pools connections, so a temp table can outlive a failed batch
+    `DROP TABLE IF EXISTS ${staging};`,
+    `DROP TABLE IF EXISTS ${inserted};`,
+    `CREATE TABLE ${staging} (Ref NVARCHAR(450) NOT NULL, Source_Value NVARCHAR(4000) NULL, Campaign_Code NVARCHAR(100) NOT NULL, Is_Duplicate BIT NOT NULL DEFAULT 0);`,
+    `CREATE TABLE ${inserted} (Ref NVARCHAR(450) NOT NULL, Campaign_Code NVARCHAR(100) NULL, Logged_On DATE NULL);`,
+    ...stagingInserts,
+    "BEGIN TRANSACTION;",
+    `UPDATE ${staging} SET Is_Duplicate = 1 WHERE EXISTS (SELECT 1 FROM ${history} h WITH (UPDLOCK, HOLDLOCK) WHERE ${alreadyLogged});`,
+    `INSERT INTO ${history} (${insertCols.join(", ")}) OUTPUT ${outputCols.join(", ")} INTO ${inserted} (${outputInto}) SELECT ${selectCols.join(", ")} FROM ${staging} WHERE Is_Duplicate = 0;`,
+    "COMMIT TRANSACTION;",
+    `SELECT s.staged, i.Campaign_Code AS campaign_code, ISNULL(i.inserted, 0) AS inserted, i.logged_on, i.inserted_refs ` +
+      `FROM (SELECT COUNT(*) AS staged FROM ${staging}) s LEFT JOIN ` +
+      `(SELECT Campaign_Code, COUNT(*) AS inserted, MAX(Logged_On) AS logged_on, STRING_AGG(CAST(Ref AS NVARCHAR(MAX)), CHAR(31)) AS inserted_refs FROM ${inserted} GROUP BY Campaign_Code) i ON 1 = 1;`,
+    `DROP TABLE ${staging};`,
+    `DROP TABLE ${inserted};`,
+  ].join("\n");
+}
+
+/**
+ * Reads the write-back batch's result. References logged without a code column
+ * are filed under `campaignCode`, the batch's code.
+ */
+export function parseSuppressionWriteBackResult(
+  result: NativeQueryResult,
+  campaignCode: string,
+): SuppressionWriteBackResult {
+  const parsed: SuppressionWriteBackResult = {
+    staged: Number(result.rows[0]?.[0] ?? 0),
+    inserted: 0,
+    loggedOn: null,
+    refsByCode: {},
+  };
+  for (const [, code, inserted, loggedOn, refs] of result.rows) {
+    if (!Number(inserted)) continue;
+    parsed.inserted += Number(inserted);
+    parsed.loggedOn ??= loggedOn ? String(loggedOn).slice(0, 10) : null;
+    parsed.refsByCode[code ?? campaignCode] = refs
+      ? String(refs).split(INSERTED_REFS_SEPARATOR)
+      : [];
+  }
+  return parsed;
+}
+
+/**
+ * Deletes the history rows an export run logged, found again by reference, campaign
+ * code and day (the write-back's uniqueness guard). Counted and deleted in one
+ * transaction; the only result set is the deleted count.
+ */
+export function buildSuppressionRollbackSql(
+  log: CapturedSuppressionRows,
+): string {
+  const staging = SUPPRESSION_ROLLBACK_TABLE;
+  const history = quoteIdentifier(log.tableName);
+  const target: SuppressionWriteBackTarget = {
+    tableName: log.tableName,
+    refColumn: log.refColumn,
+    dateColumn: log.dateColumn,
+    codeColumn: log.codeColumn ?? null,
+    sourceColumn: null,
+  };
+  const logged = `EXISTS (SELECT 1 FROM ${staging} WHERE ${loggedOnDaySql(
+    target,
+    history,
+    staging,
+    `CAST(${renderLiteral(log.loggedOn)} AS DATE)`,
+  )})`;
+  const values = Object.entries(log.refs).flatMap(([code, refs]) =>
+    refs.map((ref) => `(${renderLiteral(ref)}, ${renderLiteral(code)})`),
+  );
+
+  return [
+    "SET NOCOUNT ON;",
+    "SET XACT_ABORT ON;",
+    `DROP TABLE IF EXISTS ${staging};`,
+    `CREATE TABLE ${staging} (Ref NVARCHAR(450) NOT NULL, Campaign_Code NVARCHAR(100) NOT NULL);`,
+    ...buildStagingInserts(staging, "Ref, Campaign_Code", values),
+    "BEGIN TRANSACTION;",
+    `SELECT COUNT(*) AS deleted FROM ${history} WITH (UPDLOCK, HOLDLOCK) WHERE ${logged};`,
+    `DELETE FROM ${history} WHERE ${logged};`,
+    "COMMIT TRANSACTION;",
+    `DROP TABLE ${staging};`,
+  ].join("\n");
+}
+
+// ── Cross-database suppression lookup ───────────────────────────────
+// When the history table is in another database the master query can't join it.
+// By default the candidate references are staged in a temp table on the history
+// database and joined there, so only the suppressed references come back.
+// SUPPRESSION_LOOKUP_MODE=in-memory restores the older lookup, which downloads
+// every reference logged in the window and intersects in Node.
+
+const SUPPRESSION_CANDIDATES_TABLE = "#suppression_candidates";
+// References staged per call; a call returns at most as many rows as it stages,
+// which keeps every result under Metabase's 2,000-row response cap
+const SUPPRESSION_LOOKUP_CHUNK_SIZE = 2000;
+
+export type SuppressionLookupMode = "staged" | "in-memory";
+
+function getSuppressionLookupMode(): SuppressionLookupMode {
+  return process.env.SUPPRESSION_LOOKUP_MODE === "in-memory"
+    ? "in-memory"
+    : "staged";
+}
+
+// History rows that suppress a reference: within the window, logged from this
+// table, and not a holdout's control group
+function suppressionWindowSql(
+  roles: SuppressionFieldRoles,
+  excludeDays: number,
+  masterTableName: string,
+): string {
+  let sql = "";
+  if (roles.sentDate.field) {
+    sql += ` AND [${roles.sentDate.field.name}] > DATEADD(day, -${excludeDays}, CAST(GETDATE() AS DATE))`;
+  }
+  if (roles.sourceSystem.field) {
+    sql += ` AND ${sourceScopeSql(roles.sourceSystem.field, masterTableName)}`;
+  }
+  return sql + notControlGroupSql(roles);
+}
+
+/**
+ * One lookup call: stage `refs` (already trimmed and lowercased) in a temp table
+ * and return those logged in the history table, compared the same way. Like the
+ * write-back, it is a single batch because Metabase can't keep a temp table
+ * alive across /api/dataset calls.
+ */
+export function buildStagedSuppressionLookupSql(
+  suppTableName: string,
+  roles: SuppressionFieldRoles,
+  refs: string[],
+  excludeDays: number,
+  masterTableName: string,
+): string {
+  const candidates = SUPPRESSION_CANDIDATES_TABLE;
+  const refCol = quoteIdentifier(roles.ref.field.name);
+
+  const stagingInserts: string[] = [];
+  for (let i = 0; i < refs.length; i += SUPPRESSION_STAGING_BATCH_SIZE) {
+    const values = refs
+      .slice(i, i + SUPPRESSION_STAGING_BATCH_SIZE)
+      .map((ref) => `(${renderLiteral(ref)})`)
+      .join(", ");
+    stagingInserts.push(`INSERT INTO ${candidates} (Ref) VALUES ${values};`);
+  }
+
+  return [
+    "SET NOCOUNT ON;",
+    `DROP TABLE IF EXISTS ${candidates};`,
+    `CREATE TABLE ${candidates} (Ref NVARCHAR(450) NOT NULL);`,
+    ...stagingInserts,
+    `SELECT c.Ref FROM ${candidates} c WHERE EXISTS (SELECT 1 FROM ${quoteIdentifier(suppTableName)} ` +
+      `WHERE LOWER(LTRIM(RTRIM(CAST(${refCol} AS NVARCHAR(450))))) = c.Ref` +
+      `${suppressionWindowSql(roles, excludeDays, masterTableName)});`,
+    `DROP TABLE ${candidates};`,
+  ].join("\n");
+}
+
+/** The candidate references (trimmed, lowercased) suppressed by the history table. */
+async function lookupSuppressedRefs(
+  historyDbId: number,
+  suppTableName: string,
+  roles: SuppressionFieldRoles,
+  candidateKeys: Set<string>,
+  excludeDays: number,
+  masterTableName: string,
+): Promise<Set<string>> {
+  const suppressed = new Set<string>();
+  if (!roles.ref.field || candidateKeys.size === 0) return suppressed;
+
+  if (getSuppressionLookupMode() === "in-memory") {
+    // Fetch ALL matching suppression records in a single query (the table must be small)
+    const suppSql =
+      `SELECT [${roles.ref.field.name}] FROM [${suppTableName}] WHERE 1=1` +
+      suppressionWindowSql(roles, excludeDays, masterTableName);
+    const suppResult = await runNativeQuery(historyDbId, suppSql);
+    for (const r of suppResult.rows) {
+      const val = String(r[0]).toLowerCase().trim();
+      if (candidateKeys.has(val)) suppressed.add(val);
+    }
+    return suppressed;
+  }
+
+  const refs = Array.from(candidateKeys).filter((ref) => ref.length <= 450);
+  for (let i = 0; i < refs.length; i += SUPPRESSION_LOOKUP_CHUNK_SIZE) {
+    const result = await runNativeQuery(
+      historyDbId,
+      buildStagedSuppressionLookupSql(
+        suppTableName,
+        roles,
+        refs.slice(i, i + SUPPRESSION_LOOKUP_CHUNK_SIZE),
+        excludeDays,
+        masterTableName,
+      ),
+    );
+    for (const r of result.rows) suppressed.add(String(r[0]));
+  }
+  return suppressed;
+}
+
 // Inside server/metabase.ts - Conceptual Query Builder
 export async function runMarketingExportAndLog(
   databaseId: number,
@@ -536,7 +1174,7 @@ interface CacheEntry<T> {
 
 const cache = new Map<string, CacheEntry<any>>();
 
-function cacheGet<T>(key: string): T | null {
+export function cacheGet<T>(key: string): T | null {
   const entry = cache.get(key);
   if (!entry) return null;
   if (Date.now() > entry.expiresAt) {
@@ -546,7 +1184,7 @@ function cacheGet<T>(key: string): T | null {
   return entry.data as T;
 }
 
-function cacheSet<T>(key: string, data: T, ttlMs: number): void {
+export function cacheSet<T>(key: string, data: T, ttlMs: number): void {
   cache.set(key, { data, expiresAt: Date.now() + ttlMs });
 }
 
@@ -831,6 +1469,10 @@ export async function getCount(
   return { count, total, percentage };
 }
 
+// getFieldOptions returns at most this many values (the most frequent first), so
+// a field with exactly this many may have more
+export const FIELD_OPTIONS_LIMIT = 100;
+
 export async function getFieldOptions(
   databaseId: number,
   tableId: number,
@@ -854,7 +1496,7 @@ export async function getFieldOptions(
       aggregation: [["count"]],
       breakout: [["field", fieldId, null]],
       "order-by": [["desc", ["aggregation", 0]]],
-      limit: 100,
+      limit: FIELD_OPTIONS_LIMIT,
     },
   };
 
@@ -874,6 +1516,9 @@ export async function getFieldOptions(
   return options;
 }
 
+// Source reads per mailing-list page when do-not-contact rows leave it short
+const MAILING_LIST_MAX_FETCHES = 5;
+
 export async function getMailingList(
   databaseId: number,
   tableId: number,
@@ -881,8 +1526,11 @@ export async function getMailingList(
   limit: number = 1000,
   offset: number = 0,
   scanLimit: number = 100000,
-): Promise<{ entries: MailingListEntry[]; total: number }> {
-  const fields = await getFields(tableId);
+): Promise<MailingListResponse> {
+  const [fields, doNotContact] = await Promise.all([
+    getFields(tableId),
+    loadDoNotContactMatcher(),
+  ]);
 
   const findField = (patterns: string[]): number | null => {
     for (const pattern of patterns) {
@@ -961,6 +1609,27 @@ export async function getMailingList(
     breakoutFields.push(...firstThreeFields);
   }
 
+  // Fetched after the list columns, only to check rows against the do-not-contact list
+  const refField = fields[detectSourceRef(fields).index] ?? null;
+  const contactFields = {
+    ref: refField?.id ?? null,
+    email: emailFieldId,
+    phone: findPhoneField(fields)?.id ?? null,
+  };
+  const queryFields = [
+    ...breakoutFields,
+    ...[contactFields.ref, contactFields.phone].filter(
+      (id): id is number => id !== null && !breakoutFields.includes(id),
+    ),
+  ];
+  const position = (id: number | null) =>
+    id !== null ? queryFields.indexOf(id) : -1;
+  const contactColumns: ContactColumns = {
+    ref: position(contactFields.ref),
+    email: position(contactFields.email),
+    phone: position(contactFields.phone),
+  };
+
   const filterClauses = filters.map(buildFilterClause);
   const combinedFilter =
     filterClauses.length === 0
@@ -974,35 +1643,63 @@ export async function getMailingList(
     sourceQuery.limit = scanLimit;
   }
 
-  const query: any = {
-    database: databaseId,
-    type: "query",
-    query: {
-      "source-query": sourceQuery,
-      fields: breakoutFields.map((id) => ["field", id, null]),
-      limit,
-    },
+  const fetchPage = async (pageOffset: number, pageLimit: number) => {
+    const query: any = {
+      database: databaseId,
+      type: "query",
+      query: {
+        "source-query": sourceQuery,
+        fields: queryFields.map((id) => ["field", id, null]),
+        limit: pageLimit,
+      },
+    };
+    if (pageOffset > 0) {
+      query.query.offset = pageOffset;
+    }
+    if (combinedFilter) {
+      query.query.filter = combinedFilter;
+    }
+    const result = await metabaseRequest("/api/dataset", {
+      method: "POST",
+      body: JSON.stringify(query),
+    });
+    return {
+      rows: (result.data?.rows ?? []) as any[][],
+      cols: result.data?.cols ?? [],
+    };
   };
 
-  if (offset > 0) {
-    (query.query as any).offset = offset;
-    query.query.limit = limit;
-  }
-
-  if (combinedFilter) {
-    query.query.filter = combinedFilter;
+  // Do-not-contact rows are dropped after the fetch, so keep reading until the page
+  // is full; offsets count source rows, so the client continues from nextOffset
+  const rows: any[][] = [];
+  let cols: any[] = [];
+  let complianceExcludedCount = 0;
+  let sourceOffset = offset;
+  let exhausted = false;
+  for (
+    let fetches = 0;
+    rows.length < limit && fetches < MAILING_LIST_MAX_FETCHES;
+    fetches++
+  ) {
+    const wanted = limit - rows.length;
+    const page = await fetchPage(sourceOffset, wanted);
+    cols = page.cols;
+    sourceOffset += page.rows.length;
+    for (const row of page.rows) {
+      if (doNotContact.match(contactValuesAt(row, contactColumns))) {
+        complianceExcludedCount++;
+      } else {
+        rows.push(row);
+      }
+    }
+    if (page.rows.length < wanted) {
+      exhausted = true;
+      break;
+    }
   }
 
-  const result = await metabaseRequest("/api/dataset", {
-    method: "POST",
-    body: JSON.stringify(query),
-  });
-
-  const rows = result.data?.rows ?? [];
-  const cols = result.data?.cols ?? [];
-
   const colIndexMap: Record<string, number> = {};
-  cols.forEach((col: any, index: number) => {
+  cols.slice(0, breakoutFields.length).forEach((col: any, index: number) => {
     const cleanName = normalizeColName(col.name);
     const match = (kws: string[]) => kws.some((kw) => cleanName.includes(kw));
 
@@ -1115,7 +1812,12 @@ export async function getMailingList(
 
   return {
     entries,
-    total: countResult.count,
+    // Listed rows outside the rows read for this page can't be counted without
+    // scanning them, so the total is only exact when this page read them all
+    total: Math.max(0, countResult.count - complianceExcludedCount),
+    totalIsEstimate: doNotContact.size > 0 && (offset > 0 || !exhausted),
+    nextOffset: exhausted ? null : sourceOffset,
+    complianceExcludedCount,
   };
 }
 
@@ -1327,10 +2029,51 @@ export async function runRawQuery(
   };
 }
 
-export async function runNativeQuery(
+// ── Query executors ─────────────────────────────────────────────────
+// Native SQL goes either through Metabase's /api/dataset (the default) or, for
+// databases listed in MSSQL_DATABASE_MAP, straight to SQL Server over the direct
+// pool in db.ts — which binds real parameters and streams rows instead of paging.
+
+export interface NativeQueryResult {
+  rows: any[];
+  cols: any[];
+  rowCount: number;
+}
+
+// A single-table SELECT that an executor can page (Metabase) or stream (direct)
+export interface PagedSelect {
+  tableName: string;
+  selectList: string;
+  where: CompiledSql;
+  orderBy: string;
+}
+
+export interface NativeQueryOptions {
+  timeoutMs?: number; // cancel the query once it runs this long
+}
+
+export interface QueryExecutor {
+  readonly kind: "metabase" | "direct";
+  query(
+    compiled: CompiledSql,
+    options?: NativeQueryOptions,
+  ): Promise<NativeQueryResult>;
+  iterateRows(
+    select: PagedSelect,
+    targetRows?: number,
+  ): AsyncGenerator<{ rows: any[]; cols: any[] }>;
+}
+
+// 2000 = Metabase's default bare-row limit per /api/dataset response.
+// Requesting more than 2000 causes Metabase to silently truncate, which makes
+// the loop think there are no more rows and stops pagination early.
+const NATIVE_BATCH_SIZE = 2000;
+
+async function runMetabaseNativeQuery(
   databaseId: number,
   sql: string,
-): Promise<{ rows: any[]; cols: any[]; rowCount: number }> {
+  options: NativeQueryOptions = {},
+): Promise<NativeQueryResult> {
   const query = {
     database: databaseId,
     type: "native",
@@ -1341,10 +2084,22 @@ export async function runNativeQuery(
 
   console.log("Running native SQL query on database:", databaseId);
 
-  const result = await metabaseRequest("/api/dataset", {
-    method: "POST",
-    body: JSON.stringify(query),
-  });
+  // Aborting the request makes Metabase cancel the running query
+  let result: any;
+  try {
+    result = await metabaseRequest("/api/dataset", {
+      method: "POST",
+      body: JSON.stringify(query),
+      signal: options.timeoutMs
+        ? AbortSignal.timeout(options.timeoutMs)
+        : undefined,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "TimeoutError") {
+      throw queryTimeoutError(options.timeoutMs!);
+    }
+    throw error;
+  }
 
   if (result.status === "failed" || result.error) {
     const errorMsg = result.error || result.error_type || "Unknown SQL Error";
@@ -1359,6 +2114,134 @@ export async function runNativeQuery(
   };
 }
 
+function createMetabaseExecutor(databaseId: number): QueryExecutor {
+  return {
+    kind: "metabase",
+    // /api/dataset has no bind parameters for ad-hoc SQL, so values are inlined
+    query: (compiled, options) =>
+      runMetabaseNativeQuery(databaseId, inlineSqlParams(compiled), options),
+    // Pages with OFFSET/FETCH in batches that fit under the response cap
+    async *iterateRows(select, targetRows = Infinity) {
+      const whereClause = inlineSqlParams(select.where);
+      let offset = 0;
+
+      while (offset < targetRows) {
+        const nextBatch = Math.min(NATIVE_BATCH_SIZE, targetRows - offset);
+        const batchSql =
+          `SELECT ${select.selectList} FROM [${select.tableName}] ` +
+          `WHERE ${whereClause} ` +
+          `ORDER BY ${select.orderBy} ` +
+          `OFFSET ${offset} ROWS FETCH NEXT ${nextBatch} ROWS ONLY;`;
+
+        const batchResult = await runMetabaseNativeQuery(databaseId, batchSql);
+        const batchRows = batchResult.rows ?? [];
+        if (batchRows.length === 0) break;
+
+        yield { rows: batchRows, cols: batchResult.cols ?? [] };
+        offset += batchRows.length;
+
+        if (batchRows.length < nextBatch) break;
+      }
+    },
+  };
+}
+
+// Metabase-style base_type for a SQL Server column type, so column detection
+// (emails, dates, numeric fields) works the same on both paths
+function sqlTypeToBaseType(type: string = ""): string {
+  const t = type.toLowerCase();
+  if (t.startsWith("bigint")) return "type/BigInteger";
+  if (/^(tinyint|smallint|int)\b/.test(t)) return "type/Integer";
+  if (/^(decimal|numeric|money|smallmoney)/.test(t)) return "type/Decimal";
+  if (/^(float|real)/.test(t)) return "type/Float";
+  if (t.startsWith("bit")) return "type/Boolean";
+  if (t === "date") return "type/Date";
+  if (/^(datetime|smalldatetime)/.test(t)) return "type/DateTime";
+  return "type/Text";
+}
+
+function toMetabaseCols(result: DirectQueryResult): any[] {
+  return result.columns.map((c) => ({
+    name: c.name,
+    display_name: c.name,
+    base_type: sqlTypeToBaseType(c.type),
+  }));
+}
+
+// Metabase serialises dates as ISO strings; match that so callers see one shape
+function normalizeDirectRows(rows: any[][]): any[][] {
+  return rows.map((row) =>
+    row.map((v) => (v instanceof Date ? v.toISOString() : v)),
+  );
+}
+
+function createDirectExecutor(
+  databaseId: number,
+  connection: DirectConnectionConfig,
+): QueryExecutor {
+  return {
+    kind: "direct",
+    async query(compiled, options) {
+      console.log(
+        `Running native SQL query on database ${databaseId} (direct connection)`,
+      );
+      const result = await runDirectQuery(
+        compiled.sql,
+        compiled.params,
+        connection,
+        options,
+      );
+      return {
+        rows: normalizeDirectRows(result.rows),
+        cols: toMetabaseCols(result),
+        rowCount: result.rowCount,
+      };
+    },
+    // One streamed query — no response cap, so no OFFSET paging
+    async *iterateRows(select, targetRows = Infinity) {
+      const top = Number.isFinite(targetRows)
+        ? `TOP (${Math.max(0, Math.floor(targetRows))}) `
+        : "";
+      const batchSql =
+        `SELECT ${top}${select.selectList} FROM [${select.tableName}] ` +
+        `WHERE ${select.where.sql} ` +
+        `ORDER BY ${select.orderBy};`;
+
+      for await (const batch of streamDirectQuery(
+        batchSql,
+        select.where.params,
+        connection,
+        NATIVE_BATCH_SIZE,
+      )) {
+        yield {
+          rows: normalizeDirectRows(batch.rows),
+          cols: toMetabaseCols(batch),
+        };
+      }
+    },
+  };
+}
+
+export function getQueryExecutor(databaseId: number): QueryExecutor {
+  const connection = getDirectConnection(databaseId);
+  return connection
+    ? createDirectExecutor(databaseId, connection)
+    : createMetabaseExecutor(databaseId);
+}
+
+/**
+ * Runs native SQL on the executor configured for `databaseId`. `@pN` placeholders
+ * are bound from `params` on the direct path and inlined for Metabase.
+ */
+export async function runNativeQuery(
+  databaseId: number,
+  sql: string,
+  params: SqlParam[] = [],
+  options: NativeQueryOptions = {},
+): Promise<NativeQueryResult> {
+  return getQueryExecutor(databaseId).query({ sql, params }, options);
+}
+
 async function getNativeRowCount(
   databaseId: number,
   tableName: string,
@@ -1375,42 +2258,13 @@ async function fetchNativeRowsInBatches(
   whereClause: string,
   targetRows: number,
 ): Promise<{ rows: any[]; cols: any[] }> {
-  const rows: any[] = [];
-  let cols: any[] = [];
-  let offset = 0;
-  // 2000 = Metabase's default bare-row limit per /api/dataset response.
-  // Requesting more than 2000 causes Metabase to silently truncate, which makes
-  // the loop think there are no more rows and stops pagination early.
-  const batchSize = 2000;
-
-  while (rows.length < targetRows) {
-    const remaining = targetRows - rows.length;
-    const nextBatch = Math.min(batchSize, remaining);
-    const batchSql =
-      `SELECT * FROM [${tableName}] ` +
-      `WHERE ${whereClause} ` +
-      `ORDER BY (SELECT NULL) ` +
-      `OFFSET ${offset} ROWS FETCH NEXT ${nextBatch} ROWS ONLY;`;
-
-    const batchResult = await runNativeQuery(databaseId, batchSql);
-    if (cols.length === 0) {
-      cols = batchResult.cols ?? [];
-    }
-
-    const batchRows = batchResult.rows ?? [];
-    if (batchRows.length === 0) {
-      break;
-    }
-
-    rows.push(...batchRows);
-    offset += batchRows.length;
-
-    if (batchRows.length < nextBatch) {
-      break;
-    }
-  }
-
-  return { rows, cols };
+  return fetchRankedRowsInBatches(
+    databaseId,
+    tableName,
+    whereClause,
+    "(SELECT NULL)",
+    targetRows,
+  );
 }
 
 // Like fetchNativeRowsInBatches but accepts a custom ORDER BY expression so the DB
@@ -1421,34 +2275,196 @@ async function fetchRankedRowsInBatches(
   whereClause: string,
   orderByExpr: string,
   targetRows: number,
+  selectList: string = "*",
 ): Promise<{ rows: any[]; cols: any[] }> {
   const rows: any[] = [];
   let cols: any[] = [];
-  let offset = 0;
-  const batchSize = 2000; // Match Metabase's bare-row limit to avoid silent truncation
+  for await (const batch of getQueryExecutor(databaseId).iterateRows(
+    {
+      tableName,
+      selectList,
+      where: { sql: whereClause, params: [] },
+      orderBy: orderByExpr,
+    },
+    targetRows,
+  )) {
+    if (cols.length === 0) cols = batch.cols;
+    rows.push(...batch.rows);
+  }
+  return { rows, cols };
+}
 
-  while (rows.length < targetRows) {
-    const remaining = targetRows - rows.length;
-    const nextBatch = Math.min(batchSize, remaining);
-    const batchSql =
-      `SELECT * FROM [${tableName}] ` +
-      `WHERE ${whereClause} ` +
-      `ORDER BY ${orderByExpr} ` +
-      `OFFSET ${offset} ROWS FETCH NEXT ${nextBatch} ROWS ONLY;`;
+// Computed column carrying each fetched row's tier; stripped before rows are returned
+const MATCH_TIER_COLUMN = "__match_tier";
+const MATCH_TIERS: (keyof AudienceTierCounts)[] = ["exact", "relaxed", "fill"];
 
-    const batchResult = await runNativeQuery(databaseId, batchSql);
-    if (cols.length === 0) cols = batchResult.cols ?? [];
+interface TieredRows {
+  rows: any[];
+  cols: any[];
+  tierOf: Map<any[], keyof AudienceTierCounts>;
+}
 
-    const batchRows = batchResult.rows ?? [];
-    if (batchRows.length === 0) break;
+/**
+ * Fetches contacts ranked by how well they match the targeting: tier 1 matches the
+ * rule exactly, tier 2 matches its relaxed core (relaxTargetingRule), tier 3 is
+ * anything else the WHERE clause allows, used to fill up to the cap. Each row's tier
+ * is kept so the final list's composition can be reported.
+ */
+async function fetchTieredRows(
+  databaseId: number,
+  tableName: string,
+  whereClause: string,
+  targeting: TargetingRule | null,
+  targetRows: number,
+): Promise<TieredRows> {
+  const exactCond = targetingRuleToSql(targeting, "1=0");
+  const relaxedCond = targetingRuleToSql(relaxTargetingRule(targeting), "1=0");
+  const tierExpr = `CASE WHEN (${exactCond}) THEN 1 WHEN (${relaxedCond}) THEN 2 ELSE 3 END`;
+  const fetched = await fetchRankedRowsInBatches(
+    databaseId,
+    tableName,
+    whereClause,
+    `${tierExpr}, (SELECT NULL)`,
+    targetRows,
+    `*, ${tierExpr} AS [${MATCH_TIER_COLUMN}]`,
+  );
+  const tierIndex = fetched.cols.findIndex(
+    (c: any) => c.name === MATCH_TIER_COLUMN,
+  );
+  const tierOf = new Map<any[], keyof AudienceTierCounts>();
+  const rows = fetched.rows.map((raw: any[]) => {
+    const row = raw.filter((_, i) => i !== tierIndex);
+    tierOf.set(row, MATCH_TIERS[Number(raw[tierIndex]) - 1] ?? "fill");
+    return row;
+  });
+  return {
+    rows,
+    cols: fetched.cols.filter((_: any, i: number) => i !== tierIndex),
+    tierOf,
+  };
+}
 
-    rows.push(...batchRows);
-    offset += batchRows.length;
+function countTiers(
+  rows: any[][],
+  tierOf: TieredRows["tierOf"],
+): AudienceTierCounts {
+  const counts: AudienceTierCounts = { exact: 0, relaxed: 0, fill: 0 };
+  for (const row of rows) counts[tierOf.get(row) ?? "fill"]++;
+  return counts;
+}
 
-    if (batchRows.length < nextBatch) break;
+// ── Streaming table export (Data Filter) ──
+
+const NUMERIC_BASE_TYPES = [
+  "type/Integer",
+  "type/BigInteger",
+  "type/Float",
+  "type/Decimal",
+  "type/Number",
+];
+
+/** A column, filter field or sort column the table doesn't have. */
+export class TableExportRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TableExportRequestError";
   }
+}
 
-  return { rows, cols };
+export interface TableExport {
+  tableName: string;
+  columns: MetabaseField[];
+  batches: AsyncGenerator<any[][]>;
+}
+
+/**
+ * Resolves the Data Filter's filters and column selection to native SQL and returns
+ * the chosen columns plus a generator over the matching rows (values in column
+ * order). Rows follow `sort` (the preview's sort, nulls last when ascending) and
+ * then the primary key when the table has one, so OFFSET paging is stable across
+ * batches.
+ */
+export async function prepareTableExport(
+  databaseId: number,
+  tableId: number,
+  filters: FilterValue[],
+  columnNames?: string[],
+  limit?: number,
+  sort?: { column: string; direction: "asc" | "desc" },
+): Promise<TableExport> {
+  const [tables, fields] = await Promise.all([
+    getTables(databaseId),
+    getFields(tableId),
+  ]);
+  const table = tables.find((t) => t.id === tableId);
+  if (!table) throw new Error("Table not found");
+
+  let columns = fields;
+  if (columnNames && columnNames.length > 0) {
+    const unknown = columnNames.filter(
+      (name) => !fields.some((f) => f.name === name),
+    );
+    if (unknown.length > 0) {
+      throw new TableExportRequestError(
+        `Unknown column(s): ${unknown.join(", ")}`,
+      );
+    }
+    columns = columnNames.map((name) => fields.find((f) => f.name === name)!);
+  }
+
+  const unknownFilters = filters.filter(
+    (f) => !fields.some((field) => field.name === f.fieldName),
+  );
+  if (unknownFilters.length > 0) {
+    throw new TableExportRequestError(
+      `Unknown filter field(s): ${unknownFilters.map((f) => f.fieldName).join(", ")}`,
+    );
+  }
+
+  const numericFields = new Set(
+    fields
+      .filter((f) => NUMERIC_BASE_TYPES.includes(f.base_type))
+      .map((f) => f.name),
+  );
+  const where = compileTargetingRule(
+    filterValuesToRule(filters, numericFields),
+  );
+  // The preview sorts by its column labels, so a display name is accepted too
+  const sortField = sort
+    ? (fields.find((f) => f.name === sort.column) ??
+      fields.find((f) => f.display_name === sort.column))
+    : undefined;
+  if (sort && !sortField) {
+    throw new TableExportRequestError(`Unknown sort column: ${sort.column}`);
+  }
+
+  const pk = fields.find((f) => f.semantic_type === "type/PK");
+  const orderTerms: string[] = [];
+  if (sort && sortField) {
+    // Same placement as the preview table: nulls after values ascending, before descending
+    const column = quoteIdentifier(sortField.name);
+    const direction = sort.direction.toUpperCase();
+    orderTerms.push(
+      `CASE WHEN ${column} IS NULL THEN 1 ELSE 0 END ${direction}`,
+      `${column} ${direction}`,
+    );
+  }
+  if (pk && pk.name !== sortField?.name)
+    orderTerms.push(quoteIdentifier(pk.name));
+  const orderBy =
+    orderTerms.length > 0 ? orderTerms.join(", ") : "(SELECT NULL)";
+  const selectList = columns.map((c) => quoteIdentifier(c.name)).join(", ");
+
+  async function* batches(): AsyncGenerator<any[][]> {
+    for await (const batch of getQueryExecutor(databaseId).iterateRows(
+      { tableName: table!.name, selectList, where, orderBy },
+      limit,
+    )) {
+      yield batch.rows;
+    }
+  }
+
+  return { tableName: table.name, columns, batches: batches() };
 }
 
 export async function getExportMappingV2(
@@ -1456,38 +2472,8 @@ export async function getExportMappingV2(
   masterTableId: number,
   historyDbId: number | null,
   historyTableId: number | null,
-  segments: string[],
-): Promise<{
-  ready: boolean;
-  issues: string[];
-  source: {
-    databaseId: number;
-    tableName: string;
-    refColumn: string | null;
-    refConfidence: number;
-    refReason: string;
-    sourceSystemColumn: string | null;
-    sourceSystemConfidence: number;
-    sourceSystemReason: string;
-    sourceSystemSample: string | null;
-  };
-  suppression: {
-    databaseId: number | null;
-    tableName: string | null;
-    refColumn: string | null;
-    refReason: string;
-    refConfidence: number;
-    campaignCodeColumn: string | null;
-    campaignCodeReason: string;
-    campaignCodeConfidence: number;
-    sourceSystemColumn: string | null;
-    sourceSystemReason: string;
-    sourceSystemConfidence: number;
-    sentDateColumn: string | null;
-    sentDateReason: string;
-    sentDateConfidence: number;
-  };
-}> {
+  targeting: TargetingRule | null,
+): Promise<ExportMappingResponse> {
   const issues: string[] = [];
 
   const masterTables = await getTables(databaseId);
@@ -1496,11 +2482,17 @@ export async function getExportMappingV2(
     throw new Error("Master table not found");
   }
 
-  let whereClause = "1=1";
-  if (segments && segments.length > 0) {
-    const parsed = parseSegmentsToConditions(segments);
-    whereClause += buildGroupedWhereClause(parsed);
-  }
+  const profile =
+    historyDbId && historyTableId
+      ? await loadSuppressionMapping(
+          databaseId,
+          masterTableId,
+          historyDbId,
+          historyTableId,
+        )
+      : null;
+
+  const whereClause = targetingRuleToSql(targeting);
 
   const sampled = await fetchNativeRowsInBatches(
     databaseId,
@@ -1509,8 +2501,9 @@ export async function getExportMappingV2(
     500,
   );
 
-  const sourceRefDetection = detectSourceRef(sampled.cols, sampled.rows);
-  const sourceSystemDetection = detectSourceSystem(sampled.cols);
+  const sourceRoles = resolveSourceColumns(sampled.cols, sampled.rows, profile);
+  const sourceRefDetection = sourceRoles.ref;
+  const sourceSystemDetection = sourceRoles.sourceSystem;
 
   const sourceRefIdx = sourceRefDetection.index;
   const sourceSystemIdx = sourceSystemDetection.index;
@@ -1536,23 +2529,15 @@ export async function getExportMappingV2(
 
   if (sourceRefIdx === -1) {
     issues.push(
-      "No reliable source reference column was detected in the selected export table.",
+      profile
+        ? `${sourceRefDetection.reason}.`
+        : "No reliable source reference column was detected in the selected export table.",
     );
   }
 
   let suppressionTableName: string | null = null;
-  let suppRefColumn: string | null = null;
-  let suppCodeColumn: string | null = null;
-  let suppSourceColumn: string | null = null;
-  let suppDateColumn: string | null = null;
-  let suppRefReason = "Suppression reference detection not run";
-  let suppRefConfidence = 0;
-  let suppCodeReason = "Suppression campaign code detection not run";
-  let suppCodeConfidence = 0;
-  let suppSourceReason = "Suppression source system detection not run";
-  let suppSourceConfidence = 0;
-  let suppDateReason = "Suppression sent date detection not run";
-  let suppDateConfidence = 0;
+  let suppressionColumns: string[] = [];
+  let suppRoles: SuppressionFieldRoles | null = null;
 
   if (historyDbId && historyTableId) {
     const suppressionTables = await getTables(historyDbId);
@@ -1566,67 +2551,43 @@ export async function getExportMappingV2(
     } else {
       suppressionTableName = suppressionTable.name;
       const suppFields = await getFields(historyTableId);
+      suppressionColumns = suppFields.map((f) => f.name);
+      suppRoles = resolveSuppressionFields(suppFields, profile);
 
-      const refField = findSuppressionRefField(suppFields);
-      const codeDetection = detectSuppressionField(
-        suppFields,
-        ["Campaign_Code"],
-        (f: any) =>
-          normalizeColName(f.name).includes("campaign") ||
-          normalizeColName(f.name).includes("code"),
-        "Suppression campaign code",
-      );
-      const sourceDetection = detectSuppressionField(
-        suppFields,
-        ["Source_System"],
-        (f: any) =>
-          normalizeColName(f.name).includes("source") ||
-          normalizeColName(f.name).includes("system"),
-        "Suppression source system",
-      );
-      const dateDetection = detectSuppressionField(
-        suppFields,
-        ["Sent_Date"],
-        (f: any) =>
-          normalizeColName(f.name).includes("exportdate") ||
-          normalizeColName(f.name).includes("date") ||
-          normalizeColName(f.name).includes("sent"),
-        "Suppression sent date",
-      );
-
-      const codeField = codeDetection.field;
-      const sourceField = sourceDetection.field;
-      const dateField = dateDetection.field;
-
-      suppRefColumn = refField?.name ?? null;
-      suppCodeColumn = codeField?.name ?? null;
-      suppSourceColumn = sourceField?.name ?? null;
-      suppDateColumn = dateField?.name ?? null;
-
-      suppRefReason = refField
-        ? `Suppression reference selected as ${refField.name}`
-        : "Suppression reference column could not be detected";
-      suppRefConfidence = refField ? 95 : 0;
-      suppCodeReason = codeDetection.reason;
-      suppCodeConfidence = codeDetection.confidence;
-      suppSourceReason = sourceDetection.reason;
-      suppSourceConfidence = sourceDetection.confidence;
-      suppDateReason = dateDetection.reason;
-      suppDateConfidence = dateDetection.confidence;
-
-      if (!refField) {
+      if (!suppRoles.ref.field) {
         issues.push(
-          "Suppression reference column (Customer Ref ID) was not detected.",
+          profile
+            ? `${suppRoles.ref.reason}.`
+            : "Suppression reference column (Customer Ref ID) was not detected.",
         );
       }
-      if (!dateField) {
-        issues.push("Suppression date column (Sent Date) was not detected.");
+      if (!suppRoles.sentDate.field) {
+        issues.push(
+          profile
+            ? `${suppRoles.sentDate.reason}.`
+            : "Suppression date column (Sent Date) was not detected.",
+        );
       }
-      if (!codeField) {
-        issues.push("Suppression campaign code column was not detected.");
+      // A profile may leave these unmapped on purpose; only a stale column is an issue
+      if (
+        !suppRoles.campaignCode.field &&
+        suppRoles.campaignCode.confidence === 0
+      ) {
+        issues.push(
+          profile
+            ? `${suppRoles.campaignCode.reason}.`
+            : "Suppression campaign code column was not detected.",
+        );
       }
-      if (!sourceField) {
-        issues.push("Suppression source system column was not detected.");
+      if (
+        !suppRoles.sourceSystem.field &&
+        suppRoles.sourceSystem.confidence === 0
+      ) {
+        issues.push(
+          profile
+            ? `${suppRoles.sourceSystem.reason}.`
+            : "Suppression source system column was not detected.",
+        );
       }
     }
   } else {
@@ -1635,9 +2596,27 @@ export async function getExportMappingV2(
     );
   }
 
+  const notRun = (label: string): FieldDetection => ({
+    field: null,
+    reason: `${label} detection not run`,
+    confidence: 0,
+  });
+  const suppRef = suppRoles?.ref ?? notRun("Suppression reference");
+  const suppCode =
+    suppRoles?.campaignCode ?? notRun("Suppression campaign code");
+  const suppSource =
+    suppRoles?.sourceSystem ?? notRun("Suppression source system");
+  const suppDate = suppRoles?.sentDate ?? notRun("Suppression sent date");
+
   return {
     ready: issues.length === 0,
     issues,
+    mappingSource: profile ? "profile" : "detected",
+    profile,
+    availableColumns: {
+      source: sampled.cols.map((c: any) => String(c.name)),
+      suppression: suppressionColumns,
+    },
     source: {
       databaseId,
       tableName: masterTable.name,
@@ -1652,47 +2631,47 @@ export async function getExportMappingV2(
     suppression: {
       databaseId: historyDbId,
       tableName: suppressionTableName,
-      refColumn: suppRefColumn,
-      refReason: suppRefReason,
-      refConfidence: suppRefConfidence,
-      campaignCodeColumn: suppCodeColumn,
-      campaignCodeReason: suppCodeReason,
-      campaignCodeConfidence: suppCodeConfidence,
-      sourceSystemColumn: suppSourceColumn,
-      sourceSystemReason: suppSourceReason,
-      sourceSystemConfidence: suppSourceConfidence,
-      sentDateColumn: suppDateColumn,
-      sentDateReason: suppDateReason,
-      sentDateConfidence: suppDateConfidence,
+      refColumn: suppRef.field?.name ?? null,
+      refReason: suppRef.reason,
+      refConfidence: suppRef.confidence,
+      campaignCodeColumn: suppCode.field?.name ?? null,
+      campaignCodeReason: suppCode.reason,
+      campaignCodeConfidence: suppCode.confidence,
+      sourceSystemColumn: suppSource.field?.name ?? null,
+      sourceSystemReason: suppSource.reason,
+      sourceSystemConfidence: suppSource.confidence,
+      sentDateColumn: suppDate.field?.name ?? null,
+      sentDateReason: suppDate.reason,
+      sentDateConfidence: suppDate.confidence,
     },
   };
 }
 
 // Runs one lightweight COUNT(*) per suggested segment so the UI can surface match counts
-// Returns -1 for a segment when the query errors (e.g. field doesn't exist)
+// Each segment is counted with its rule from `segmentRules` when given, otherwise parsed
+// as a legacy "field:value" string. Returns -1 when the query errors (e.g. unknown field)
 export async function getSegmentMatchCounts(
   databaseId: number,
   tableName: string,
   segments: string[],
+  segmentRules: Record<string, TargetingRule> = {},
 ): Promise<Record<string, number>> {
   const counts: Record<string, number> = {};
-  const parsedList = segments.map((seg) => {
-    const colonIdx = seg.indexOf(":");
-    if (colonIdx === -1) return null;
-    const parsed = parseSegmentsToConditions([seg]);
-    return parsed.length > 0 ? parsed[0] : null;
-  });
 
   await Promise.all(
-    segments.map(async (seg, i) => {
-      const p = parsedList[i];
-      if (!p) {
+    segments.map(async (seg) => {
+      const rule = segmentRules[seg] ?? segmentToCondition(seg);
+      if (!rule) {
         counts[seg] = 0;
         return;
       }
       try {
-        const sql = `SELECT COUNT(*) FROM [${tableName}] WHERE ${p.condition};`;
-        const result = await runNativeQuery(databaseId, sql);
+        const where = compileTargetingRule(rule);
+        const result = await runNativeQuery(
+          databaseId,
+          `SELECT COUNT(*) FROM [${tableName}] WHERE ${where.sql};`,
+          where.params,
+        );
         counts[seg] = Number(result.rows[0]?.[0] ?? 0);
       } catch {
         counts[seg] = -1;
@@ -1703,6 +2682,61 @@ export async function getSegmentMatchCounts(
   return counts;
 }
 
+// Customers matching a whole rule tree, e.g. all of a campaign's segments
+// combined; no rule counts the whole table. With an email column, only customers
+// who have an address are counted; a demographic clause (buildDemographicClause)
+// applies the birthday / age filters like the preview
+export async function getTargetingMatchCount(
+  databaseId: number,
+  tableName: string,
+  rule: TargetingRule | null,
+  emailColumn: string | null = null,
+  demographicClause: string | null = null,
+): Promise<number> {
+  const where = rule
+    ? compileTargetingRule(rule)
+    : { sql: "1 = 1", params: [] };
+  // Same reachability test as the preview's email filter
+  const emailSql = emailColumn
+    ? ` AND [${emailColumn}] IS NOT NULL AND LEN(LTRIM(RTRIM([${emailColumn}]))) > 0`
+    : "";
+  const demographicSql = demographicClause ? ` AND ${demographicClause}` : "";
+  const result = await runNativeQuery(
+    databaseId,
+    `SELECT COUNT(*) FROM [${tableName}] WHERE (${where.sql})${emailSql}${demographicSql};`,
+    where.params,
+  );
+  return Number(result.rows[0]?.[0] ?? 0);
+}
+
+// Distinct values of the categorical fields, so the AI only suggests real values
+export async function getFieldSampleValues(
+  databaseId: number,
+  tableId: number,
+  fields: MetabaseField[],
+): Promise<Record<string, string[]>> {
+  const categoricalFields = fields.filter(
+    (f) =>
+      f.base_type === "type/Text" ||
+      f.semantic_type === "type/Category" ||
+      f.base_type === "type/Boolean",
+  );
+  const fieldSampleValues: Record<string, string[]> = {};
+  await Promise.all(
+    categoricalFields.slice(0, 15).map(async (f) => {
+      try {
+        const options = await getFieldOptions(databaseId, tableId, f.id);
+        if (options.length > 0) {
+          fieldSampleValues[f.name] = options.slice(0, 20).map((o) => o.value);
+        }
+      } catch {
+        // Non-fatal — skip if can't fetch values for this field
+      }
+    }),
+  );
+  return fieldSampleValues;
+}
+
 export async function getTableRowCountsFast(
   databaseId: number,
   tableNames: string[],
@@ -1759,90 +2793,210 @@ export async function getEmailFillRate(
   return Math.round(Number(result.rows?.[0]?.[0] ?? 0));
 }
 
+const DOB_FIELD_NAMES = [
+  "ddob",
+  "dob",
+  "dateofbirth",
+  "birthdate",
+  "birthday",
+  "birth",
+  "生年月日",
+  "誕生日",
+];
+
+// Finds the date-of-birth column used by the birthday / age filters, preferring
+// date-typed fields over text-encoded ones
+export function findDobColumn(fields: MetabaseField[]): DobColumn | null {
+  const isDateType = (f: MetabaseField) =>
+    f.base_type === "type/Date" || f.base_type === "type/DateTime";
+  const candidates = fields.filter((f) => {
+    const n = normalizeColName(f.name);
+    return (
+      DOB_FIELD_NAMES.includes(n) ||
+      n.includes("birth") ||
+      n.endsWith("dob") ||
+      n.includes("生年月日")
+    );
+  });
+  const best =
+    candidates.find(isDateType) ||
+    candidates.find((f) => DOB_FIELD_NAMES.includes(normalizeColName(f.name)));
+  return best ? { name: best.name, isDate: isDateType(best) } : null;
+}
+
+export function findEmailField(fields: MetabaseField[]): MetabaseField | null {
+  return (
+    fields.find((f: MetabaseField) => {
+      if (f.semantic_type === "type/Email") return true;
+      const n = normalizeColName(f.name);
+      return (
+        n.includes("email") ||
+        n.includes("mail") ||
+        n.includes("メール") ||
+        n.includes("eメール")
+      );
+    }) ?? null
+  );
+}
+
+const PHONE_FIELD_NAMES = ["phone", "mobile", "電話", "携帯"];
+// "TEL", "Tel_No", "Home_Tel1" — but not "Hotel"
+const TEL_FIELD_PATTERN = /(^|[\s_\-])tel(no|number)?\d*$/i;
+
+// Only text columns qualify, so "has mobile" style flags are never read as numbers
+export function findPhoneField(fields: MetabaseField[]): MetabaseField | null {
+  return (
+    fields.find((f) => {
+      if (f.base_type !== "type/Text") return false;
+      const n = normalizeColName(f.name);
+      return (
+        PHONE_FIELD_NAMES.some((name) => n.includes(name)) ||
+        TEL_FIELD_PATTERN.test(f.name.trim())
+      );
+    }) ?? null
+  );
+}
+
+// Positions of the columns the do-not-contact check reads (-1 when absent)
+interface ContactColumns {
+  ref: number;
+  email: number;
+  phone: number;
+}
+
+function findContactColumns(
+  cols: any[],
+  rows: any[][],
+  masterFields: MetabaseField[],
+  profile: SuppressionMapping | null,
+): ContactColumns {
+  const indexOf = (field: MetabaseField | null) =>
+    field ? cols.findIndex((c: any) => c.name === field.name) : -1;
+  return {
+    ref: resolveSourceColumns(cols, rows, profile).ref.index,
+    email: indexOf(findEmailField(masterFields)),
+    phone: indexOf(findPhoneField(masterFields)),
+  };
+}
+
+function contactValuesAt(row: any[], columns: ContactColumns): ContactValues {
+  return {
+    ref: columns.ref !== -1 ? row[columns.ref] : undefined,
+    email: columns.email !== -1 ? row[columns.email] : undefined,
+    phone: columns.phone !== -1 ? row[columns.phone] : undefined,
+  };
+}
+
 export async function getMarketingPreviewV2(
   databaseId: number,
   masterTableId: number,
   historyDbId: number | null,
   historyTableId: number | null,
-  segments: string[],
+  targeting: TargetingRule | null,
   contactCap: number,
   excludeDays: number,
+  frequencyCaps: FrequencyCapRule[],
+  holdout: HoldoutSettings,
   filterEmailsOnly: boolean = true,
+  demographics: {
+    birthdayFilter?: string | null;
+    ageRange?: string | null;
+  } = {},
 ) {
   // Fetch tables + fields in PARALLEL
   const [masterTables, masterFields] = await Promise.all([
     getTables(databaseId),
-    filterEmailsOnly ? getFields(masterTableId) : Promise.resolve([]),
+    getFields(masterTableId),
   ]);
   const masterTable = masterTables.find((t) => t.id === masterTableId);
   if (!masterTable) throw new Error("Master table not found");
 
-  // Detect email column from table field metadata when filter is requested
-  let emailColName: string | null = null;
-  if (filterEmailsOnly) {
-    const emailField = masterFields.find((f: MetabaseField) => {
-      if (f.semantic_type === "type/Email") return true;
-      const n = normalizeColName(f.name);
-      return (
-        n.includes("email") ||
-        n.includes("mail") ||
-        n.includes("メール") ||
-        n.includes("eメール")
-      );
-    });
-    emailColName = emailField?.name ?? null;
-  }
+  // Detect email column from table field metadata; it is also needed for
+  // totalWithEmail when the email filter is off
+  const emailColName: string | null =
+    findEmailField(masterFields)?.name ?? null;
 
   // Segment-filtered WHERE for the count display (shows how many matched targeting rules)
-  let whereClause = "1=1";
-  if (segments && segments.length > 0) {
-    const parsed = parseSegmentsToConditions(segments);
-    whereClause += buildGroupedWhereClause(parsed);
-  }
+  let whereClause = targetingRuleToSql(targeting);
   if (filterEmailsOnly && emailColName) {
     whereClause += ` AND [${emailColName}] IS NOT NULL AND LEN(LTRIM(RTRIM([${emailColName}]))) > 0`;
   }
 
-  // Build ranked ORDER BY: Tier 1 = exact segment match, Tier 2 = related/concept match,
-  // Tier 3 = any contact with email. This guarantees we always fill to contactCap.
-  const exactParsed =
-    segments?.length > 0 ? parseSegmentsToConditions(segments) : [];
-  const relaxedParsed =
-    segments?.length > 0
-      ? parseSegmentsToConditions(buildRelaxedSegments(segments))
-      : [];
-  const exactCond = buildConditionClause(exactParsed);
-  const relaxedCond = buildConditionClause(relaxedParsed);
+  // Birthday / age are hard constraints: applied to the count AND the ranked fetch
+  const dobColumn = findDobColumn(masterFields);
+  const demographicFilter = buildDemographicClause(dobColumn, demographics);
+  if (demographicFilter.clause) {
+    whereClause += ` AND ${demographicFilter.clause}`;
+  }
 
   // Ranked fetch uses email-only WHERE so tier 3 fill always finds contacts
   let rankedWhere = "1=1";
   if (filterEmailsOnly && emailColName) {
     rankedWhere += ` AND [${emailColName}] IS NOT NULL AND LEN(LTRIM(RTRIM([${emailColName}]))) > 0`;
   }
-  const rankOrderBy = `CASE WHEN (${exactCond}) THEN 1 WHEN (${relaxedCond}) THEN 2 ELSE 3 END, (SELECT NULL)`;
+  if (demographicFilter.clause) {
+    rankedWhere += ` AND ${demographicFilter.clause}`;
+  }
   const fetchLimit = Math.min(contactCap * 5, 100000);
 
+  const mappingProfile =
+    historyDbId && historyTableId
+      ? await loadSuppressionMapping(
+          databaseId,
+          masterTableId,
+          historyDbId,
+          historyTableId,
+        )
+      : null;
+  const suppressedSql = await resolveSameDatabaseSuppression(
+    databaseId,
+    masterTable.name,
+    masterFields,
+    historyDbId,
+    historyTableId,
+    mappingProfile,
+    excludeDays,
+  );
+  if (suppressedSql) {
+    rankedWhere += ` AND NOT ${suppressedSql}`;
+  }
+
   console.log("🎯 PREVIEW QUERY DEBUG:", {
     contactCap,
     fetchLimit,
-    exactCond: exactCond.substring(0, 80),
+    targeting: targetingRuleToSql(targeting).substring(0, 80),
     tableName: masterTable.name,
     filterEmailsOnly,
     emailColName,
+    demographicFilters: demographicFilter.applied,
+    suppressionInQuery: !!suppressedSql,
   });
 
   // Run count + ranked fetch in PARALLEL
-  const [totalCandidates, { rows: previewRows, cols: previewCols }] =
-    await Promise.all([
-      getNativeRowCount(databaseId, masterTable.name, whereClause),
-      fetchRankedRowsInBatches(
-        databaseId,
-        masterTable.name,
-        rankedWhere,
-        rankOrderBy,
-        fetchLimit,
-      ),
-    ]);
+  const [
+    totalCandidates,
+    { rows: previewRows, cols: previewCols, tierOf },
+    doNotContact,
+    suppressedCandidates,
+  ] = await Promise.all([
+    getNativeRowCount(databaseId, masterTable.name, whereClause),
+    fetchTieredRows(
+      databaseId,
+      masterTable.name,
+      rankedWhere,
+      targeting,
+      fetchLimit,
+    ),
+    loadDoNotContactMatcher(),
+    // The anti-join hides suppressed rows from the fetch, so count them separately
+    suppressedSql
+      ? getNativeRowCount(
+          databaseId,
+          masterTable.name,
+          `${whereClause} AND ${suppressedSql}`,
+        )
+      : 0,
+  ]);
 
   console.log("🎯 PREVIEW DATABASE RESPONSE:", {
     totalCandidates,
@@ -1855,12 +3009,18 @@ export async function getMarketingPreviewV2(
   );
 
   const finalRows = [];
-  let excludedCount = 0;
+  let excludedCount = suppressedCandidates;
   let suppressedIds = new Set<string>();
+  let cappedIds = new Set<string>();
+  const frequencyCapWarnings: string[] = [];
   let previewRefIndex = -1;
 
   if (historyDbId && historyTableId) {
-    previewRefIndex = findSourceRefIndex(previewCols, previewRows);
+    previewRefIndex = resolveSourceColumns(
+      previewCols,
+      previewRows,
+      mappingProfile,
+    ).ref.index;
 
     if (previewRefIndex !== -1) {
       const candidateKeys = new Set<string>();
@@ -1879,77 +3039,137 @@ export async function getMarketingPreviewV2(
           const suppTable = suppTables.find((t) => t.id === historyTableId);
 
           if (suppTable) {
-            const refField = findSuppressionRefField(suppFields);
-
-            const dateField = suppFields.find(
-              (f: any) =>
-                f.base_type === "type/DateTime" || f.base_type === "type/Date",
+            const suppRoles = resolveSuppressionFields(
+              suppFields,
+              mappingProfile,
             );
-
-            // Detect Source_System column for source-scoped suppression
-            const sourceField =
-              findSuppressionFieldByNames(suppFields, ["Source_System"]) ||
-              suppFields.find(
-                (f: any) =>
-                  normalizeColName(f.name).includes("source") ||
-                  normalizeColName(f.name).includes("system"),
+            const refField = suppRoles.ref.field;
+
+            if (refField && !suppressedSql) {
+              suppressedIds = await lookupSuppressedRefs(
+                historyDbId,
+                suppTable.name,
+                suppRoles,
+                candidateKeys,
+                excludeDays,
+                masterTable.name,
               );
-
-            if (refField) {
-              // Optimized: fetch ALL matching suppression records in a single query
-              // instead of chunked IN-clause lookups (table is small — few thousand rows)
-              let suppSql = `SELECT [${refField.name}] FROM [${suppTable.name}] WHERE 1=1`;
-              if (dateField) {
-                suppSql += ` AND [${dateField.name}] > DATEADD(day, -${excludeDays}, CAST(GETDATE() AS DATE))`;
-              }
-              if (sourceField) {
-                const safeTableName = masterTable.name.replace(/'/g, "''");
-                // Match both plain table name format ("TableName") and structured format ("db:X | table:TableName | ...")
-                suppSql += ` AND ([${sourceField.name}] = '${safeTableName}' OR [${sourceField.name}] LIKE '%table:${safeTableName}%')`;
-              }
-
-              const suppResult = await runNativeQuery(historyDbId, suppSql);
-              // Filter in-memory: only suppress candidates we actually have
-              for (const r of suppResult.rows) {
-                const val = String(r[0]).toLowerCase().trim();
-                if (candidateKeys.has(val)) {
-                  suppressedIds.add(val);
-                }
-              }
               console.log(
                 `Preview exclusion: Found ${suppressedIds.size} suppressed refs using column [${refField.name}] (source-scoped to db:${databaseId} table:${masterTable.name})`,
               );
             }
+
+            const frequencyCap = await lookupFrequencyCappedRefs(
+              historyDbId,
+              suppTable.name,
+              suppFields,
+              suppRoles,
+              masterTable.name,
+              frequencyCaps,
+              candidateKeys,
+            );
+            cappedIds = frequencyCap.cappedIds;
+            frequencyCapWarnings.push(...frequencyCap.warnings);
           }
         } catch (e) {
           console.error("Failed to lookup suppression list:", e);
         }
       }
+    } else if (frequencyCaps.length > 0) {
+      frequencyCapWarnings.push(FREQUENCY_CAPS_NEED_REF);
     }
+  } else if (frequencyCaps.length > 0) {
+    frequencyCapWarnings.push(FREQUENCY_CAPS_NEED_HISTORY);
   }
 
+  // Do-not-contact applies regardless of history table or excludeDays
+  const contactColumns = findContactColumns(
+    previewCols,
+    previewRows,
+    masterFields,
+    mappingProfile,
+  );
+  let complianceExcludedCount = 0;
+  let frequencyCappedCount = 0;
+
   // Rows are pre-ranked by the DB (exact → related → any email). Single pass to fill cap.
   for (const row of previewRows) {
     if (finalRows.length >= contactCap) break;
-    if (previewRefIndex !== -1 && suppressedIds.size > 0) {
+    if (doNotContact.match(contactValuesAt(row, contactColumns))) {
+      complianceExcludedCount++;
+      continue;
+    }
+    if (previewRefIndex !== -1) {
       const val = String(row[previewRefIndex]).toLowerCase().trim();
-      if (val && val !== "null" && val !== "" && suppressedIds.has(val)) {
-        excludedCount++;
-        continue;
+      if (val && val !== "null" && val !== "") {
+        // A contact both suppressed and capped counts as suppressed
+        if (suppressedIds.has(val)) {
+          excludedCount++;
+          continue;
+        }
+        if (cappedIds.has(val)) {
+          frequencyCappedCount++;
+          continue;
+        }
       }
     }
     finalRows.push(row);
   }
 
-  const exactMatchCount = finalRows.length;
-  const relaxedCount = 0;
+  // Exclusions applied after the fetch can use up every fetched row; say so rather
+  // than returning a silently short list
+  let fillWarning: string | null = null;
+  const skippedAfterFetch =
+    (suppressedSql ? 0 : excludedCount) +
+    frequencyCappedCount +
+    complianceExcludedCount;
+  if (
+    finalRows.length < contactCap &&
+    previewRows.length >= fetchLimit &&
+    skippedAfterFetch > 0
+  ) {
+    fillWarning =
+      `Only ${finalRows.length.toLocaleString()} of ${contactCap.toLocaleString()} contacts could be selected: ` +
+      `${skippedAfterFetch.toLocaleString()} of the ${previewRows.length.toLocaleString()} top-ranked rows fetched were excluded afterwards` +
+      (!suppressedSql && excludedCount > 0
+        ? " (the history table is in another database, so suppression is applied after the fetch)"
+        : "") +
+      ". Lower the contact cap or narrow the targeting.";
+  }
+
+  // The export holds these contacts out of the file; the preview lists them all
+  let holdoutCount = 0;
+  let holdoutWarning: string | null = null;
+  if (holdout.percent > 0) {
+    if (previewRefIndex === -1) {
+      holdoutWarning = historyDbId
+        ? "The holdout cannot be drawn: no customer reference column was found in the master table."
+        : "The holdout needs a history table: the control group is logged there for response analysis.";
+    } else if (!holdout.campaignCode) {
+      holdoutWarning =
+        "Enter a campaign code to see the control group: contacts are assigned by their reference and the campaign code.";
+    } else {
+      holdoutCount = finalRows.filter((row) =>
+        isHeldOut(String(row[previewRefIndex]), holdout),
+      ).length;
+    }
+  }
+
+  // What the list is made of: contacts outside the targeting only fill it to the cap
+  const tierCounts = countTiers(finalRows, tierOf);
+  const exactMatchCount = tierCounts.exact;
+  const relaxedCount = tierCounts.relaxed;
+  const fillCount = tierCounts.fill;
 
   console.log("🎯 PREVIEW FILTERING RESULTS:", {
     totalFetched: previewRows.length,
     suppressedIds: suppressedIds.size,
     excluded: excludedCount,
+    frequencyCapped: frequencyCappedCount,
+    complianceExcluded: complianceExcludedCount,
     exactMatchCount,
     relaxedCount,
+    fillCount,
     finalRowsCount: finalRows.length,
     targetCap: contactCap,
   });
@@ -2071,8 +3291,16 @@ export async function getMarketingPreviewV2(
   // Build a human-readable warning when no results come back
   let filterWarning: string | null = null;
   if (finalRows.length === 0) {
+    if (
+      complianceExcludedCount > 0 &&
+      excludedCount === 0 &&
+      frequencyCappedCount === 0
+    ) {
+      filterWarning = `${complianceExcludedCount.toLocaleString()} contacts were found, but all of them are on the do-not-contact list.`;
+    }
+
     // Check if an email filter is the cause when there were segment matches
-    if (filterEmailsOnly && emailColName && segments.length > 0) {
+    if (!filterWarning && filterEmailsOnly && emailColName && targeting) {
       const whereWithoutEmail = whereClause.replace(
         ` AND [${emailColName}] IS NOT NULL AND LEN(LTRIM(RTRIM([${emailColName}]))) > 0`,
         "",
@@ -2094,20 +3322,23 @@ export async function getMarketingPreviewV2(
     }
 
     if (!filterWarning) {
-      if (totalCandidates === 0 && segments.length === 0) {
+      if (totalCandidates === 0 && !targeting) {
         filterWarning =
           "The selected table appears to be empty or returned no rows.";
-      } else if (totalCandidates === 0 && segments.length > 0) {
-        const segmentList = segments.map((s) => `"${s}"`).join(", ");
+      } else if (totalCandidates === 0 && targeting) {
         filterWarning =
           `None of the targeting rules matched any records in this table. ` +
-          `The following filters returned 0 results: ${segmentList}. ` +
+          `The following filters returned 0 results: ${describeTargetingRule(targeting)}. ` +
           `This usually means the suggested field names or values do not exist in the selected database. ` +
           `Try re-analyzing with a different table, or remove individual filters to isolate which ones have no matches.`;
       } else if (totalCandidates > 0 && excludedCount > 0) {
         filterWarning =
           `${totalCandidates.toLocaleString()} contacts matched the targeting rules, but all ${excludedCount.toLocaleString()} were suppressed. ` +
           `Try increasing the "Exclude Mailed Within" days or selecting a different suppression window.`;
+      } else if (totalCandidates > 0 && frequencyCappedCount > 0) {
+        filterWarning =
+          `${totalCandidates.toLocaleString()} contacts matched the targeting rules, but all ${frequencyCappedCount.toLocaleString()} have reached a frequency cap. ` +
+          `Raise the caps or shorten their windows to include them.`;
       } else if (totalCandidates > 0) {
         filterWarning =
           `${totalCandidates.toLocaleString()} contacts matched the targeting rules but all were filtered out. ` +
@@ -2140,6 +3371,13 @@ export async function getMarketingPreviewV2(
     columns,
     records: allRecords,
     excludedCount: excludedCount,
+    frequencyCappedCount,
+    frequencyCapWarnings,
+    holdoutCount,
+    holdoutWarning,
+    complianceExcludedCount,
+    suppressionInQuery: !!suppressedSql,
+    fillWarning,
     totalCandidates,
     historyTableUsed: !!historyDbId,
     filterWarning,
@@ -2148,77 +3386,144 @@ export async function getMarketingPreviewV2(
     totalWithEmail,
     exactMatchCount,
     relaxedCount,
+    fillCount,
+    dobColumn: dobColumn?.name ?? null,
+    demographicFilters: demographicFilter.applied,
+    demographicWarnings: demographicFilter.warnings,
   };
 }
 
+function rowsToCsv(cols: any[], rows: any[][]): string {
+  const headers = cols.map((c: any) => c.name).join(",");
+  const lines = rows
+    .map((row) =>
+      row.map((val: any) => `"${String(val).replace(/"/g, '""')}"`).join(","),
+    )
+    .join("\n");
+  return `${headers}\n${lines}`;
+}
+
 export async function runMarketingExportAndLogV2(
   databaseId: number,
   masterTableId: number,
   historyDbId: number | null,
   historyTableId: number | null,
-  segments: string[],
+  targeting: TargetingRule | null,
   contactCap: number,
   excludeDays: number,
+  frequencyCaps: FrequencyCapRule[],
+  holdoutPercent: number,
+  splitCells: SplitCell[],
   campaignCode: string,
   filterEmailsOnly: boolean = true,
-): Promise<string> {
+  demographics: {
+    birthdayFilter?: string | null;
+    ageRange?: string | null;
+  } = {},
+  exportRunId: string = randomUUID(),
+): Promise<{
+  csv: string;
+  // The holdout's control group, in the same columns; null without a holdout
+  controlCsv: string | null;
+  writeBack: SuppressionWriteBackReport | null;
+  // The rows the write-back inserted, null when it inserted none
+  insertedRows: CapturedSuppressionRows | null;
+  complianceExcludedCount: number;
+  frequencyCappedCount: number;
+  // Caps that could not be applied, as the preview reports them
+  frequencyCapWarnings: string[];
+  holdoutCount: number;
+  // Contacts per split-test cell; null without a split test
+  cellCounts: Record<string, number> | null;
+  // Exact, relaxed and fill contacts among those selected (control group included)
+  tierCounts: AudienceTierCounts;
+}> {
+  // The control group and cells are only measurable if they are logged alongside
+  // the mailing
+  if (holdoutPercent > 0 && !(historyDbId && historyTableId)) {
+    throw new Error(
+      "A holdout needs a history table: the control group is logged there for response analysis.",
+    );
+  }
+  if (splitCells.length > 0 && !(historyDbId && historyTableId)) {
+    throw new Error(
+      "A split test needs a history table: each contact's cell is logged there for response analysis.",
+    );
+  }
+
   // Fetch tables + fields in PARALLEL
   const [masterTables, masterFields] = await Promise.all([
     getTables(databaseId),
-    filterEmailsOnly ? getFields(masterTableId) : Promise.resolve([]),
+    getFields(masterTableId),
   ]);
   const masterTable = masterTables.find((t) => t.id === masterTableId);
   if (!masterTable) throw new Error("Master table not found");
 
   // Detect email column when filter is requested
-  let emailColName: string | null = null;
-  if (filterEmailsOnly) {
-    const emailField = masterFields.find((f: MetabaseField) => {
-      if (f.semantic_type === "type/Email") return true;
-      const n = normalizeColName(f.name);
-      return (
-        n.includes("email") ||
-        n.includes("mail") ||
-        n.includes("メール") ||
-        n.includes("eメール")
-      );
-    });
-    emailColName = emailField?.name ?? null;
-  }
-
-  // Build ranked ORDER BY: Tier 1 = exact segment match, Tier 2 = related/concept match,
-  // Tier 3 = any contact with email. Guarantees we always fill to contactCap.
-  const exactParsedExport =
-    segments?.length > 0 ? parseSegmentsToConditions(segments) : [];
-  const relaxedParsedExport =
-    segments?.length > 0
-      ? parseSegmentsToConditions(buildRelaxedSegments(segments))
-      : [];
-  const exactCondExport = buildConditionClause(exactParsedExport);
-  const relaxedCondExport = buildConditionClause(relaxedParsedExport);
+  const emailColName: string | null = filterEmailsOnly
+    ? (findEmailField(masterFields)?.name ?? null)
+    : null;
 
+  // Ranked fetch: exact match, then related, then any contact with email to fill the cap
   let rankedWhereExport = "1=1";
   if (filterEmailsOnly && emailColName) {
     rankedWhereExport += ` AND [${emailColName}] IS NOT NULL AND LEN(LTRIM(RTRIM([${emailColName}]))) > 0`;
   }
-  const rankOrderByExport = `CASE WHEN (${exactCondExport}) THEN 1 WHEN (${relaxedCondExport}) THEN 2 ELSE 3 END, (SELECT NULL)`;
+  const demographicFilterExport = buildDemographicClause(
+    findDobColumn(masterFields),
+    demographics,
+  );
+  if (demographicFilterExport.clause) {
+    rankedWhereExport += ` AND ${demographicFilterExport.clause}`;
+  }
+  for (const warning of demographicFilterExport.warnings) {
+    console.warn(`Export ${campaignCode || "(no code)"}: ${warning}`);
+  }
   const fetchLimitExport = Math.min(contactCap * 5, 100000);
 
+  const mappingProfile =
+    historyDbId && historyTableId
+      ? await loadSuppressionMapping(
+          databaseId,
+          masterTableId,
+          historyDbId,
+          historyTableId,
+        )
+      : null;
+  const suppressedSql = await resolveSameDatabaseSuppression(
+    databaseId,
+    masterTable.name,
+    masterFields,
+    historyDbId,
+    historyTableId,
+    mappingProfile,
+    excludeDays,
+  );
+  if (suppressedSql) {
+    rankedWhereExport += ` AND NOT ${suppressedSql}`;
+  }
+
   console.log("🎯 EXPORT QUERY DEBUG:", {
     contactCap,
     fetchLimitExport,
     tableName: masterTable.name,
     filterEmailsOnly,
     emailColName,
+    demographicFilters: demographicFilterExport.applied,
+    suppressionInQuery: !!suppressedSql,
   });
 
-  const { rows: exportRows, cols: exportCols } = await fetchRankedRowsInBatches(
-    databaseId,
-    masterTable.name,
-    rankedWhereExport,
-    rankOrderByExport,
-    fetchLimitExport,
-  );
+  const [{ rows: exportRows, cols: exportCols, tierOf }, doNotContact] =
+    await Promise.all([
+      fetchTieredRows(
+        databaseId,
+        masterTable.name,
+        rankedWhereExport,
+        targeting,
+        fetchLimitExport,
+      ),
+      loadDoNotContactMatcher(),
+    ]);
 
   console.log("🎯 EXPORT DATABASE RESPONSE:", {
     rowsFetchedForExport: exportRows.length,
@@ -2226,10 +3531,16 @@ export async function runMarketingExportAndLogV2(
   });
 
   let suppressedIds = new Set<string>();
+  let cappedIds = new Set<string>();
   let exportRefIndex = -1;
+  const frequencyCapWarnings: string[] = [];
 
   if (historyDbId && historyTableId) {
-    exportRefIndex = findSourceRefIndex(exportCols, exportRows);
+    exportRefIndex = resolveSourceColumns(
+      exportCols,
+      exportRows,
+      mappingProfile,
+    ).ref.index;
 
     if (exportRefIndex !== -1) {
       const candidateKeys = new Set<string>();
@@ -2239,6 +3550,11 @@ export async function runMarketingExportAndLogV2(
       });
 
       if (candidateKeys.size > 0) {
+        let history: {
+          tableName: string;
+          fields: any[];
+          roles: SuppressionFieldRoles;
+        } | null = null;
         try {
           // Fetch suppression metadata in PARALLEL
           const [suppTables, suppFields] = await Promise.all([
@@ -2247,42 +3563,26 @@ export async function runMarketingExportAndLogV2(
           ]);
           const suppTable = suppTables.find((t) => t.id === historyTableId);
           if (suppTable) {
-            const refField = findSuppressionRefField(suppFields);
-
-            const dateField = suppFields.find(
-              (f: any) =>
-                f.base_type === "type/DateTime" || f.base_type === "type/Date",
+            const suppRoles = resolveSuppressionFields(
+              suppFields,
+              mappingProfile,
             );
-
-            // Detect Source_System column for source-scoped suppression
-            const sourceField =
-              findSuppressionFieldByNames(suppFields, ["Source_System"]) ||
-              suppFields.find(
-                (f: any) =>
-                  normalizeColName(f.name).includes("source") ||
-                  normalizeColName(f.name).includes("system"),
+            history = {
+              tableName: suppTable.name,
+              fields: suppFields,
+              roles: suppRoles,
+            };
+            const refField = suppRoles.ref.field;
+
+            if (refField && !suppressedSql) {
+              suppressedIds = await lookupSuppressedRefs(
+                historyDbId,
+                suppTable.name,
+                suppRoles,
+                candidateKeys,
+                excludeDays,
+                masterTable.name,
               );
-
-            if (refField) {
-              // Optimized: fetch ALL matching suppression records in a single query
-              // instead of chunked IN-clause lookups (table is small — few thousand rows)
-              let suppSql = `SELECT [${refField.name}] FROM [${suppTable.name}] WHERE 1=1`;
-              if (dateField) {
-                suppSql += ` AND [${dateField.name}] > DATEADD(day, -${excludeDays}, CAST(GETDATE() AS DATE))`;
-              }
-              if (sourceField) {
-                const safeTableName = masterTable.name.replace(/'/g, "''");
-                // Match both plain table name format ("TableName") and structured format ("db:X | table:TableName | ...")
-                suppSql += ` AND ([${sourceField.name}] = '${safeTableName}' OR [${sourceField.name}] LIKE '%table:${safeTableName}%')`;
-              }
-
-              const suppResult = await runNativeQuery(historyDbId, suppSql);
-              for (const r of suppResult.rows) {
-                const val = String(r[0]).toLowerCase().trim();
-                if (candidateKeys.has(val)) {
-                  suppressedIds.add(val);
-                }
-              }
               console.log(
                 `Exclusion lookup: Found ${suppressedIds.size} suppressed refs in [${suppTable.name}] using column [${refField.name}] (source-scoped to db:${databaseId} table:${masterTable.name})`,
               );
@@ -2291,28 +3591,86 @@ export async function runMarketingExportAndLogV2(
         } catch (e) {
           console.error("Failed to lookup suppression list for export:", e);
         }
+
+        // Outside the catch: a file that ignores the caps must not go out
+        if (frequencyCaps.length > 0) {
+          if (!history) {
+            throw new Error(
+              "Frequency caps could not be applied: the history table could not be read.",
+            );
+          }
+          const frequencyCap = await lookupFrequencyCappedRefs(
+            historyDbId,
+            history.tableName,
+            history.fields,
+            history.roles,
+            masterTable.name,
+            frequencyCaps,
+            candidateKeys,
+          );
+          cappedIds = frequencyCap.cappedIds;
+          frequencyCapWarnings.push(...frequencyCap.warnings);
+        }
       }
     }
   }
+  if (frequencyCaps.length > 0 && exportRefIndex === -1) {
+    frequencyCapWarnings.push(
+      historyDbId && historyTableId
+        ? FREQUENCY_CAPS_NEED_REF
+        : FREQUENCY_CAPS_NEED_HISTORY,
+    );
+  }
+  for (const warning of frequencyCapWarnings) {
+    console.warn(`Export ${campaignCode || "(no code)"}: ${warning}`);
+  }
+
+  // Do-not-contact applies regardless of history table or excludeDays
+  const contactColumns = findContactColumns(
+    exportCols,
+    exportRows,
+    masterFields,
+    mappingProfile,
+  );
+  let complianceExcludedCount = 0;
+  let frequencyCappedCount = 0;
 
   // Rows are pre-ranked by the DB (exact → related → any email). Single pass to fill cap.
   const finalRows = [];
   for (const row of exportRows) {
     if (finalRows.length >= contactCap) break;
-    if (exportRefIndex !== -1 && suppressedIds.size > 0) {
+    if (doNotContact.match(contactValuesAt(row, contactColumns))) {
+      complianceExcludedCount++;
+      continue;
+    }
+    if (exportRefIndex !== -1) {
       const val = String(row[exportRefIndex]).toLowerCase().trim();
-      if (val && val !== "null" && val !== "" && suppressedIds.has(val)) {
-        continue;
+      if (val && val !== "null" && val !== "") {
+        if (suppressedIds.has(val)) continue;
+        if (cappedIds.has(val)) {
+          frequencyCappedCount++;
+          continue;
+        }
       }
     }
     finalRows.push(row);
   }
 
+  const tierCounts = countTiers(finalRows, tierOf);
   console.log("🎯 EXPORT FILTERING RESULTS:", {
     rowsFetched: exportRows.length,
+    tierCounts,
+    complianceExcluded: complianceExcludedCount,
+    frequencyCapped: frequencyCappedCount,
     finalCount: finalRows.length,
     targetCap: contactCap,
   });
+  if (finalRows.length < contactCap && exportRows.length >= fetchLimitExport) {
+    console.warn(
+      `Export ${campaignCode || "(no code)"}: only ${finalRows.length} of ${contactCap} contacts selected; ` +
+        `the ${exportRows.length} rows fetched ran out after ${suppressedSql ? "do-not-contact and frequency-cap" : "suppression, do-not-contact and frequency-cap"} exclusions`,
+    );
+  }
 
   // FIXED: Push exports WITH EMAILS to the top, then sort by least nulls
   const emailIndex = exportCols.findIndex((c: any) => {
@@ -2351,6 +3709,44 @@ export async function runMarketingExportAndLogV2(
     return bPop - aPop;
   });
 
+  // Split off the control group and assign cells before anything is logged
+  if ((holdoutPercent > 0 || splitCells.length > 0) && exportRefIndex === -1) {
+    throw new Error(
+      `The ${holdoutPercent > 0 ? "holdout" : "split test"} could not be drawn: no customer reference column was found in the master table.`,
+    );
+  }
+  const holdout: HoldoutSettings = { percent: holdoutPercent, campaignCode };
+  const controlRows = new Set(
+    holdoutPercent > 0
+      ? finalRows.filter((row) =>
+          isHeldOut(String(row[exportRefIndex]), holdout),
+        )
+      : [],
+  );
+  const treatedRows = finalRows.filter((row) => !controlRows.has(row));
+  if (controlRows.size > 0) {
+    console.log(
+      `Export ${campaignCode}: ${controlRows.size} of ${finalRows.length} contacts held out (${holdoutPercent}%) as the control group`,
+    );
+  }
+  const cellOf = new Map<any[], string>();
+  let cellCounts: Record<string, number> | null = null;
+  if (splitCells.length > 0) {
+    cellCounts = Object.fromEntries(splitCells.map((cell) => [cell.name, 0]));
+    for (const row of treatedRows) {
+      const cell = assignCell(
+        String(row[exportRefIndex]),
+        campaignCode,
+        splitCells,
+      );
+      cellOf.set(row, cell);
+      cellCounts[cell]++;
+    }
+    console.log(`Export ${campaignCode}: split-test cells`, cellCounts);
+  }
+
+  let writeBack: SuppressionWriteBackReport | null = null;
+  let insertedRows: CapturedSuppressionRows | null = null;
   if (historyDbId && historyTableId && finalRows.length > 0) {
     try {
       // Fetch suppression metadata in PARALLEL (likely cached from lookup above)
@@ -2365,46 +3761,46 @@ export async function runMarketingExportAndLogV2(
         );
       }
 
-      const suppRefField = findSuppressionRefField(suppFields);
+      const suppRoles = resolveSuppressionFields(suppFields, mappingProfile);
+      const suppRefField = suppRoles.ref.field;
+      const suppDateField = suppRoles.sentDate.field;
+      const suppCodeField = suppRoles.campaignCode.field;
+      const suppSourceField = suppRoles.sourceSystem.field;
 
-      const suppDateField =
-        findSuppressionFieldByNames(suppFields, ["Sent_Date"]) ||
-        suppFields.find(
-          (f: any) =>
-            normalizeColName(f.name).includes("exportdate") ||
-            normalizeColName(f.name).includes("date") ||
-            normalizeColName(f.name).includes("sent"),
-        );
-      const suppCodeField =
-        findSuppressionFieldByNames(suppFields, ["Campaign_Code"]) ||
-        suppFields.find(
-          (f: any) =>
-            normalizeColName(f.name).includes("campaign") ||
-            normalizeColName(f.name).includes("code"),
-        );
-      const suppSourceField =
-        findSuppressionFieldByNames(suppFields, ["Source_System"]) ||
-        suppFields.find(
-          (f: any) =>
-            normalizeColName(f.name).includes("source") ||
-            normalizeColName(f.name).includes("system"),
-        );
-
-      const refSourceIndex = findSourceRefIndex(exportCols, finalRows);
-      const sourceSystemIndex = findSourceSystemIndex(exportCols);
-      const sourceSystemColName =
-        sourceSystemIndex !== -1
-          ? String(exportCols[sourceSystemIndex].name)
-          : null;
+      const sourceRoles = resolveSourceColumns(
+        exportCols,
+        finalRows,
+        mappingProfile,
+      );
+      const refSourceIndex = sourceRoles.ref.index;
+      const sourceSystemIndex = sourceRoles.sourceSystem.index;
+      const sourceSystemColName = sourceRoles.sourceSystem.columnName;
       const suppressionSourceMaxLength = suppSourceField
         ? (getFieldTextMaxLength(suppSourceField) ?? 64)
         : 64;
       if (!suppRefField || !suppDateField || refSourceIndex === -1) {
+        const missing = [
+          !suppRefField && suppRoles.ref.reason,
+          !suppDateField && suppRoles.sentDate.reason,
+          refSourceIndex === -1 && sourceRoles.ref.reason,
+        ].filter(Boolean);
         throw new Error(
-          `Suppression write-back skipped due to missing required mapping. suppRefField=${!!suppRefField}, suppDateField=${!!suppDateField}, refSourceIndex=${refSourceIndex}`,
+          `Suppression write-back skipped due to missing required mapping: ${missing.join("; ")}`,
         );
       }
 
+      const controlCode = controlCampaignCode(campaignCode);
+      if ((controlRows.size > 0 || cellOf.size > 0) && !suppCodeField) {
+        throw new Error(
+          `Suppression write-back skipped: the history table has no campaign code column to mark the ${controlRows.size > 0 ? "control group" : "split-test cells"} with.`,
+        );
+      }
+      const codeFor = (row: any[]) => {
+        if (controlRows.has(row)) return controlCode;
+        const cell = cellOf.get(row);
+        return cell ? cellCampaignCode(campaignCode, cell) : campaignCode;
+      };
+
       const logEntries = finalRows
         .map((row) => {
           const ref = String(row[refSourceIndex]).trim();
@@ -2418,6 +3814,7 @@ export async function runMarketingExportAndLogV2(
           return {
             ref,
             rowSourceRaw,
+            campaignCode: codeFor(row),
             // Use plain table name for Source_System to match existing data format
             // and ensure consistent read-back during suppression queries
             sourceValue:
@@ -2447,134 +3844,132 @@ export async function runMarketingExportAndLogV2(
         );
       }
 
-      const chunkSize = 500;
-      let totalLogged = 0;
-      let totalFailed = 0;
+      // One row per reference (SQL Server compares them case-insensitively)
+      const seenRefs = new Set<string>();
+      const uniqueEntries = logEntries.filter((entry) => {
+        const key = entry.ref.toLowerCase();
+        if (seenRefs.has(key)) return false;
+        seenRefs.add(key);
+        return true;
+      });
+
+      const target: SuppressionWriteBackTarget = {
+        tableName: suppTable.name,
+        refColumn: suppRefField.name,
+        dateColumn: suppDateField.name,
+        codeColumn: suppCodeField?.name ?? null,
+        sourceColumn: suppSourceField?.name ?? null,
+      };
 
       console.log(
-        `Suppression write-back starting: attempted=${logEntries.length}, sourceRefColumn=${exportCols[refSourceIndex].name}, sourceSystemColumn=${sourceSystemColName || "(derived)"}, targetTable=${suppTable.name}`,
+        `Suppression write-back starting: run=${exportRunId}, attempted=${uniqueEntries.length}, sourceRefColumn=${exportCols[refSourceIndex].name}, sourceSystemColumn=${sourceSystemColName || "(derived)"}, targetTable=${suppTable.name}`,
       );
 
-      for (let i = 0; i < logEntries.length; i += chunkSize) {
-        const chunk = logEntries.slice(i, i + chunkSize);
-
-        const insertCols: string[] = [`[${suppRefField.name}]`];
-        if (suppCodeField) insertCols.push(`[${suppCodeField.name}]`);
-        if (suppSourceField) insertCols.push(`[${suppSourceField.name}]`);
-        insertCols.push(`[${suppDateField.name}]`);
-
-        const values = chunk
-          .map((entry) => {
-            const parts: string[] = [
-              `'${String(entry.ref).replace(/'/g, "''")}'`,
-            ];
-            if (suppCodeField) parts.push(`'${campaignCode}'`);
-            if (suppSourceField) {
-              parts.push(`'${String(entry.sourceValue).replace(/'/g, "''")}'`);
-            }
-            parts.push(`CAST(GETDATE() AS DATE)`);
-            return `(${parts.join(", ")})`;
-          })
-          .join(",");
-
-        const insertSql =
-          `INSERT INTO [${suppTable.name}] (${insertCols.join(", ")}) ` +
-          `OUTPUT INSERTED.[${suppRefField.name}] ` +
-          `VALUES ${values};`;
-        try {
-          const insertResult = await runNativeQuery(historyDbId, insertSql);
-          const insertedCount =
-            insertResult.rows.length > 0
-              ? insertResult.rows.length
-              : chunk.length;
-          totalLogged += insertedCount;
-        } catch (e) {
-          const errMsg = e instanceof Error ? e.message : String(e);
-
-          // Safety fallback: retry once with ultra-compact Source_System values.
-          if (
-            suppSourceField &&
-            /truncated|String or binary data would be truncated/i.test(errMsg)
-          ) {
-            try {
-              const compactValues = chunk
-                .map((entry) => {
-                  const parts: string[] = [
-                    `'${String(entry.ref).replace(/'/g, "''")}'`,
-                  ];
-                  if (suppCodeField) parts.push(`'${campaignCode}'`);
-                  if (suppSourceField) {
-                    const compactSource = buildSuppressionSourceValue(
-                      entry.rowSourceRaw,
-                      databaseId,
-                      masterTable.name,
-                      String(exportCols[refSourceIndex].name),
-                      sourceSystemColName,
-                      12,
-                    );
-                    parts.push(
-                      `'${String(compactSource).replace(/'/g, "''")}'`,
-                    );
-                  }
-                  parts.push(`CAST(GETDATE() AS DATE)`);
-                  return `(${parts.join(", ")})`;
-                })
-                .join(",");
-
-              const retrySql =
-                `INSERT INTO [${suppTable.name}] (${insertCols.join(", ")}) ` +
-                `OUTPUT INSERTED.[${suppRefField.name}] ` +
-                `VALUES ${compactValues};`;
-
-              const retryResult = await runNativeQuery(historyDbId, retrySql);
-              const retryCount =
-                retryResult.rows.length > 0
-                  ? retryResult.rows.length
-                  : chunk.length;
-              totalLogged += retryCount;
-              console.warn(
-                `Suppression chunk ${i}-${i + chunk.length} retried with compact Source_System due to truncation.`,
-              );
-            } catch (retryError) {
-              totalFailed += chunk.length;
-              console.error(
-                `Failed to log suppression chunk ${i}-${i + chunk.length} after compact retry:`,
-                retryError,
-              );
-            }
-          } else {
-            totalFailed += chunk.length;
-            console.error(
-              `Failed to log suppression chunk ${i}-${i + chunk.length}:`,
-              e,
-            );
-          }
+      let result: NativeQueryResult;
+      try {
+        result = await runNativeQuery(
+          historyDbId,
+          buildSuppressionWriteBackSql(target, uniqueEntries, campaignCode),
+        );
+      } catch (e) {
+        const errMsg = e instanceof Error ? e.message : String(e);
+        // Safety fallback: the batch rolled back, so retry it once with
+        // ultra-compact Source_System values.
+        if (
+          !suppSourceField ||
+          !/truncated|String or binary data would be truncated/i.test(errMsg)
+        ) {
+          throw e;
         }
+        console.warn(
+          `Suppression write-back run=${exportRunId} retrying with compact Source_System due to truncation.`,
+        );
+        const compactEntries = uniqueEntries.map((entry) => ({
+          ...entry,
+          sourceValue: buildSuppressionSourceValue(
+            entry.rowSourceRaw,
+            databaseId,
+            masterTable.name,
+            String(exportCols[refSourceIndex].name),
+            sourceSystemColName,
+            12,
+          ),
+        }));
+        result = await runNativeQuery(
+          historyDbId,
+          buildSuppressionWriteBackSql(target, compactEntries, campaignCode),
+        );
       }
 
-      console.log(
-        `Suppression write-back summary: attempted=${logEntries.length}, logged=${totalLogged}, failed=${totalFailed}, table=${suppTable.name}, campaignCode=${campaignCode}`,
-      );
-
-      if (totalLogged !== logEntries.length) {
+      const { staged, inserted, loggedOn, refsByCode } =
+        parseSuppressionWriteBackResult(result, campaignCode);
+      if (staged !== uniqueEntries.length) {
         throw new Error(
-          `Suppression write-back incomplete: attempted=${logEntries.length}, logged=${totalLogged}, failed=${totalFailed}.`,
+          `Suppression write-back could not be verified: staged=${staged}, expected=${uniqueEntries.length}.`,
+        );
+      }
+      // The rows are committed by now, so a short OUTPUT only costs the rollback
+      const returned = Object.values(refsByCode).reduce(
+        (sum, refs) => sum + refs.length,
+        0,
+      );
+      if (inserted > 0 && returned === inserted && loggedOn) {
+        insertedRows = {
+          historyDbId,
+          tableName: target.tableName,
+          refColumn: target.refColumn,
+          codeColumn: target.codeColumn,
+          dateColumn: target.dateColumn,
+          campaignCode,
+          loggedOn,
+          refs: refsByCode,
+        };
+      } else if (inserted > 0) {
+        console.warn(
+          `Suppression write-back run=${exportRunId}: OUTPUT returned ${returned} of ${inserted} inserted references; the run cannot be rolled back.`,
         );
       }
+      writeBack = {
+        exportRunId,
+        attempted: uniqueEntries.length,
+        inserted,
+        duplicatesSkipped: uniqueEntries.length - inserted,
+        failed: 0,
+      };
+
+      console.log(
+        `Suppression write-back summary: run=${exportRunId}, attempted=${writeBack.attempted}, inserted=${writeBack.inserted}, duplicatesSkipped=${writeBack.duplicatesSkipped}, table=${suppTable.name}, campaignCode=${campaignCode}`,
+      );
     } catch (e) {
       console.error("Failed to write-back to suppression list:", e);
       const errorMessage =
         e instanceof Error ? e.message : "Unknown suppression write-back error";
-      throw new Error(`Export aborted: ${errorMessage}`);
+      // The batch is all-or-nothing, so nothing from this run was logged
+      throw new Error(
+        `Export aborted (run ${exportRunId}, nothing was logged): ${errorMessage}`,
+      );
     }
   }
 
-  const headers = exportCols.map((c: any) => c.name).join(",");
-  const rows = finalRows
-    .map((row) =>
-      row.map((val: any) => `"${String(val).replace(/"/g, '""')}"`).join(","),
-    )
-    .join("\n");
-
-  return `${headers}\n${rows}`;
+  return {
+    csv:
+      cellCounts !== null
+        ? rowsToCsv(
+            [...exportCols, { name: "cell" }],
+            treatedRows.map((row) => [...row, cellOf.get(row)]),
+          )
+        : rowsToCsv(exportCols, treatedRows),
+    controlCsv:
+      holdoutPercent > 0
+        ? rowsToCsv(exportCols, Array.from(controlRows))
+        : null,
+    writeBack,
+    insertedRows,
+    complianceExcludedCount,
+    frequencyCappedCount,
+    frequencyCapWarnings,
+    holdoutCount: controlRows.size,
+    cellCounts,
+    tierCounts,
+  };
 }
@@ -1,27 +1,33 @@
-import OpenAI from "openai";
-import type { MetabaseField, TableWithFields } from "@shared/schema";
-
-export const openai = new OpenAI({
-  apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
-  baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
-});
-
-interface AnalysisResult {
-  suggestions: Array<{
-    segment: string;
-    confidence: number;
-    reasoning: string;
-    tableId?: number;
-  }>;
-  suggestedAgeRange: string | null;
-  reasoning: string;
-}
+import {
+  analysisSummaryResultSchema,
+  conceptAnalysisResultSchema,
+  customAnalysisResultSchema,
+  sqlAnalysisResultSchema,
+  trendsICPResultSchema,
+  type AnalysisSummaryResult,
+  type ConceptAnalysisResult,
+  type CustomAnalysisResult,
+  type MetabaseField,
+  type SQLAnalysisResult,
+  type TableWithFields,
+  type TrendsICPResult,
+} from "@shared/schema";
+import { completeValidated } from "./llm";
+import {
+  ruleBasedAnalysisSql,
+  ruleBasedAnalysisSummary,
+  ruleBasedConceptAnalysis,
+  unavailableCustomAnalysis,
+  unavailableTrendsICP,
+  unchangedTargeting,
+} from "./llm-fallback";
+import { segmentToCondition } from "./targeting";
 
 // Analyze with a single table's fields
 export async function analyzeMarketingConcept(
   concept: string,
   fields: MetabaseField[],
-): Promise<AnalysisResult> {
+): Promise<ConceptAnalysisResult> {
   const fieldDescriptions = fields
     .map((f) => `- ${f.display_name || f.name} (${f.name}): ${f.base_type}`)
     .join("\n");
@@ -57,36 +63,28 @@ Examples of segment formats:
 - "location:California" for geographic targeting
 - "age:>50" for age-based targeting`;
 
-  const response = await openai.chat.completions.create({
-    model: "gpt-4o",
-    messages: [
-      { role: "system", content: systemPrompt },
-      {
-        role: "user",
-        content: `Analyze this campaign concept and suggest matching customer segments based on the available database fields:\n\n${concept}`,
-      },
-    ],
-    response_format: { type: "json_object" },
-    temperature: 0.7,
-  });
-
-  const content = response.choices[0]?.message?.content || "{}";
-  try {
-    return JSON.parse(content);
-  } catch {
-    return {
-      suggestions: [],
-      suggestedAgeRange: null,
-      reasoning: "Failed to parse AI response",
-    };
-  }
+  return completeValidated(
+    {
+      feature: "concept-analysis",
+      messages: [
+        { role: "system", content: systemPrompt },
+        {
+          role: "user",
+          content: `Analyze this campaign concept and suggest matching customer segments based on the available database fields:\n\n${concept}`,
+        },
+      ],
+      temperature: 0.7,
+      fallback: () => ruleBasedConceptAnalysis(concept, fields),
+    },
+    conceptAnalysisResultSchema,
+  );
 }
 
 // Analyze with ALL tables in a database
 export async function analyzeMarketingConceptMultiTable(
   concept: string,
   tablesWithFields: TableWithFields[],
-): Promise<AnalysisResult> {
+): Promise<ConceptAnalysisResult> {
   // Create a description of all tables and their fields
   const tableDescriptions = tablesWithFields
     .map((table) => {
@@ -162,40 +160,73 @@ Examples of segment formats:
 - "contacts.status:VIP" for filtering by customer status in contacts table
 - "orders.total:>1000" for filtering by order total`;
 
-  const response = await openai.chat.completions.create({
-    model: "gpt-4o",
-    messages: [
-      { role: "system", content: systemPrompt },
-      {
-        role: "user",
-        content: `Analyze this campaign concept and suggest matching customer segments based on ALL available database tables and fields:\n\n${concept}`,
+  return completeValidated(
+    {
+      feature: "concept-analysis",
+      messages: [
+        { role: "system", content: systemPrompt },
+        {
+          role: "user",
+          content: `Analyze this campaign concept and suggest matching customer segments based on ALL available database tables and fields:\n\n${concept}`,
+        },
+      ],
+      temperature: 0.7,
+      fallback: () => {
+        // Per table, with segments in the "table.field:value" form asked of the model
+        const results = tablesWithFields.map((table) => ({
+          table,
+          result: ruleBasedConceptAnalysis(concept, table.fields),
+        }));
+        const first = results.find((r) => r.result.suggestions.length > 0);
+        return {
+          suggestions: results.flatMap(({ table, result }) =>
+            result.suggestions.map((s) => ({
+              ...s,
+              segment: `${table.name}.${s.segment}`,
+              tableId: table.id,
+            })),
+          ),
+          suggestedAgeRange: results[0]?.result.suggestedAgeRange ?? null,
+          reasoning: (first ?? results[0])?.result.reasoning ?? "",
+        };
       },
-    ],
-    response_format: { type: "json_object" },
-    temperature: 0.7,
-  });
-
-  const content = response.choices[0]?.message?.content || "{}";
-  try {
-    return JSON.parse(content);
-  } catch {
-    return {
-      suggestions: [],
-      suggestedAgeRange: null,
-      reasoning: "Failed to parse AI response",
-    };
-  }
+    },
+    conceptAnalysisResultSchema,
+  );
 }
 
-// V2: Analyze concept against a single master table (T1)
-export async function analyzeMarketingConceptMasterTable(
-  concept: string,
+// Rule-writing instructions shared by the master-table prompts
+const TARGETING_RULE_GUIDE = `CRITICAL RULES:
+1. ONLY suggest field names that appear in the field list below — never invent field names
+2. ONLY suggest values that appear in the "known values" list for that field — never invent values. Use the EXACT value string from the known values list (e.g., if gender known values are "M  ", "F  ", use "M  " not "Male" or "M").
+3. If you cannot find a matching field for a concept, say so in the reasoning instead of hallucinating a field name
+4. Every suggestion carries a "rule" (JSON rule tree, see TARGETING RULE FORMAT) and a short "segment" label. For a single simple condition the label is "field_name:value" (no table prefix); otherwise a readable summary such as "GL or TSI buyers"
+5. Field names in rules must EXACTLY match the database field name shown in parentheses
+6. When the campaign says "aged X and above", use ">=" (NOT "="). When it says "high value buyers", use an LTV field with "> 0".
+7. Suggestions are combined with AND (equalities on the same field are combined with OR). Put alternatives that must be OR'ed across different fields, or exclusions, inside ONE suggestion's rule.
+
+TARGETING RULE FORMAT:
+- Condition: {"type": "condition", "field": "<field>", "operator": "<op>", ...}
+  - "=", "!=", ">", ">=", "<", "<=" with "value": string | number
+  - "in", "not_in" with "values": [ ... ]
+  - "between" with "value" and "valueTo" (inclusive)
+  - "like", "not_like" with "value" using SQL wildcards, e.g. "%OSL%"
+  - "is_null", "is_not_null" (no value)
+  - "within_last", "older_than" with "amount": integer and "unit": "day" | "week" | "month" | "year" (date fields, relative to today)
+- Groups: {"type": "and" | "or", "rules": [ ... ]}
+- Negation: {"type": "not", "rule": { ... }}
+Example — "(GL buyers OR TSI buyers) AND NOT mailed in 30 days" is two suggestions:
+  {"segment": "GL or TSI buyers", "rule": {"type": "or", "rules": [{"type": "condition", "field": "GL_LTV", "operator": ">", "value": 0}, {"type": "condition", "field": "TSI_LTV", "operator": ">", "value": 0}]}}
+  {"segment": "Not mailed in last 30 days", "rule": {"type": "not", "rule": {"type": "condition", "field": "LastMailed", "operator": "within_last", "amount": 30, "unit": "day"}}}`;
+
+// Domain notes, schema hints and the T1/T2 field lists for the master-table prompts
+function describeMasterTable(
   masterTableFields: MetabaseField[],
   masterTableName: string,
   historyTableFields: MetabaseField[] | null,
   historyTableName: string | null,
   fieldSampleValues?: Record<string, string[]>,
-): Promise<AnalysisResult> {
+): string {
   // Create a description of T1 fields, including real sample values where available
   const masterFieldList = masterTableFields
     .map((f) => {
@@ -271,20 +302,44 @@ When a campaign concept mentions "fortune", "luck", "astrology", "spiritual", "e
 - "After 2009" or "MD After 2009" = look for acquisition date fields or source codes with year indicators
 `;
 
-  const systemPrompt = `You are a senior marketing data analyst specializing in direct mail campaigns. Your job is to analyze campaign concepts and suggest ONLY targeting rules that use REAL field names and REAL values from the actual database.
-
-CRITICAL RULES:
-1. ONLY suggest field names that appear in the field list below — never invent field names
-2. ONLY suggest values that appear in the "known values" list for that field — never invent values. Use the EXACT value string from the known values list (e.g., if gender known values are "M  ", "F  ", use "M  " not "Male" or "M").
-3. If you cannot find a matching field for a concept, say so in the reasoning instead of hallucinating a field name
-4. Use format "field_name:value" (no table prefix) — the field_name must EXACTLY match the database field name shown in parentheses
-5. For numeric comparisons (age, LTV, etc.), use operators in the value: "field_name:>=40" or "field_name:>0" — supported operators are >=, <=, >, <, !=
-6. When the campaign says "aged X and above", output "age:>=X" (NOT "age:X"). When it says "high value buyers", output an LTV field with ">0".
-${domainGlossary}${galaxySchemaHints}
+  return `${domainGlossary}${galaxySchemaHints}
 T1: MASTER EMAIL LIST TABLE: ${masterTableName}
 This table contains the primary contact data with these fields (ONLY use these field names):
 ${masterFieldList}
-${historySection}
+${historySection}`;
+}
+
+// Suggestions without a rule tree get one parsed from their "field:value" label
+function normalizeSuggestions(
+  suggestions: ConceptAnalysisResult["suggestions"],
+): ConceptAnalysisResult["suggestions"] {
+  return suggestions.map((s) => ({
+    ...s,
+    rule: s.rule ?? segmentToCondition(s.segment) ?? undefined,
+  }));
+}
+
+// V2: Analyze concept against a single master table (T1)
+export async function analyzeMarketingConceptMasterTable(
+  concept: string,
+  masterTableFields: MetabaseField[],
+  masterTableName: string,
+  historyTableFields: MetabaseField[] | null,
+  historyTableName: string | null,
+  fieldSampleValues?: Record<string, string[]>,
+): Promise<ConceptAnalysisResult> {
+  const tableDescription = describeMasterTable(
+    masterTableFields,
+    masterTableName,
+    historyTableFields,
+    historyTableName,
+    fieldSampleValues,
+  );
+
+  const systemPrompt = `You are a senior marketing data analyst specializing in direct mail campaigns. Your job is to analyze campaign concepts and suggest ONLY targeting rules that use REAL field names and REAL values from the actual database.
+
+${TARGETING_RULE_GUIDE}
+${tableDescription}
 
 Based on the campaign description and available fields in T1:
 1. Suggest field-value combinations that would target the right customers
@@ -295,7 +350,8 @@ Respond with a JSON object:
 {
   "suggestions": [
     {
-      "segment": "field_name:value",
+      "segment": "field_name:value" or short label,
+      "rule": { targeting rule tree },
       "confidence": 0.0-1.0,
       "reasoning": "why this segment matches — if no matching field exists, explain that here"
     }
@@ -304,52 +360,118 @@ Respond with a JSON object:
   "reasoning": "overall strategy explanation, including any limitations based on available fields"
 }`;
 
-  const response = await openai.chat.completions.create({
-    model: "gpt-4o",
-    messages: [
-      { role: "system", content: systemPrompt },
-      {
-        role: "user",
-        content: `Analyze this campaign concept and suggest matching customer segments from the Master Table (T1):\n\n${concept}`,
-      },
-    ],
-    response_format: { type: "json_object" },
-    temperature: 0.7,
-  });
-
-  const content = response.choices[0]?.message?.content || "{}";
-  try {
-    return JSON.parse(content);
-  } catch {
-    return {
-      suggestions: [],
-      suggestedAgeRange: null,
-      reasoning: "Failed to parse AI response",
-    };
-  }
+  const result = await completeValidated(
+    {
+      feature: "concept-analysis",
+      messages: [
+        { role: "system", content: systemPrompt },
+        {
+          role: "user",
+          content: `Analyze this campaign concept and suggest matching customer segments from the Master Table (T1):\n\n${concept}`,
+        },
+      ],
+      temperature: 0.7,
+      fallback: () =>
+        ruleBasedConceptAnalysis(concept, masterTableFields, fieldSampleValues),
+    },
+    conceptAnalysisResultSchema,
+  );
+  return { ...result, suggestions: normalizeSuggestions(result.suggestions) };
 }
 
-interface TrendData {
-  period: string;
-  value: number;
-  change: number;
+export interface TargetingRefinementState {
+  suggestions: ConceptAnalysisResult["suggestions"];
+  suggestedAgeRange: string | null;
+  matchCounts: Record<string, number>;
+  audienceCount: number | null;
 }
 
-interface ICPSegment {
-  name: string;
-  size: number;
-  percentage: number;
-  avgValue: number;
-  characteristics: string[];
-  score: number;
+// Earlier turns of a refinement conversation, oldest first
+export interface TargetingRefinementExchange {
+  role: "user" | "assistant";
+  content: string;
 }
 
-interface TrendsICPResult {
-  trends: TrendData[];
-  icpSegments: ICPSegment[];
-  summary: string;
-  totalRecords: number;
-  mailedExcluded: number;
+// Refine: applies one plain-language instruction to the current rule set. The model
+// sees each rule's own match count and the combined audience size, so requests like
+// "too small, broaden" can be answered by relaxing the most restrictive rules.
+export async function refineMarketingTargeting(
+  concept: string,
+  current: TargetingRefinementState,
+  instruction: string,
+  history: TargetingRefinementExchange[],
+  masterTableFields: MetabaseField[],
+  masterTableName: string,
+  fieldSampleValues?: Record<string, string[]>,
+): Promise<ConceptAnalysisResult> {
+  const tableDescription = describeMasterTable(
+    masterTableFields,
+    masterTableName,
+    null,
+    null,
+    fieldSampleValues,
+  );
+
+  const systemPrompt = `You are a senior marketing data analyst refining the targeting rules for a direct mail campaign together with a marketer. The campaign concept is:
+
+${concept}
+
+Each message gives you the CURRENT targeting rules, the number of customers each rule matches on its own, the size of the combined audience, and the marketer's instruction (e.g. "drop the under-30s", "add Osaka and Kyoto", "too small, broaden"). Apply the instruction and return the COMPLETE updated rule set:
+- Keep every rule the instruction does not touch exactly as it is, with the same "segment" label
+- When you modify a rule, keep its "segment" label if it still describes the rule, so the change can be tracked
+- To broaden the audience, relax or remove the most restrictive rules (the lowest match counts); to narrow it, tighten rules or add new ones
+- A rule matching 0 customers excludes everyone; fix or remove it
+- If the instruction cannot be applied with the available fields, leave the rules unchanged and explain why in the reasoning
+
+${TARGETING_RULE_GUIDE}
+${tableDescription}
+
+Respond with a JSON object:
+{
+  "suggestions": [
+    {
+      "segment": "field_name:value" or short label,
+      "rule": { targeting rule tree },
+      "confidence": 0.0-1.0,
+      "reasoning": "why this rule is part of the targeting"
+    }
+  ],
+  "suggestedAgeRange": ">50" or "25-40" or null,
+  "reasoning": "what you changed and why, in one or two sentences"
+}`;
+
+  const currentRules = current.suggestions.map((s) => ({
+    segment: s.segment,
+    rule: s.rule,
+    matches: current.matchCounts[s.segment] ?? null,
+  }));
+  const audience =
+    current.audienceCount === null
+      ? "unknown"
+      : `${current.audienceCount} customers`;
+
+  // An invalid reply throws before anything is applied, so the rules stay as they are
+  const result = await completeValidated(
+    {
+      feature: "targeting-refinement",
+      messages: [
+        { role: "system", content: systemPrompt },
+        ...history,
+        {
+          role: "user",
+          content: `CURRENT TARGETING (combined audience: ${audience}):
+${JSON.stringify(currentRules, null, 2)}
+Suggested age range: ${current.suggestedAgeRange ?? "none"}
+
+INSTRUCTION: ${instruction}`,
+        },
+      ],
+      temperature: 0.3,
+      fallback: () => unchangedTargeting(current),
+    },
+    conceptAnalysisResultSchema,
+  );
+  return { ...result, suggestions: normalizeSuggestions(result.suggestions) };
 }
 
 export async function runTrendsICPAnalysis(
@@ -405,35 +527,25 @@ Respond with a JSON object:
 Generate realistic mock data that would make sense for a marketing database.
 The ICP segments should have actionable characteristics based on the available fields.`;
 
-  const response = await openai.chat.completions.create({
-    model: "gpt-4o",
-    messages: [
-      { role: "system", content: systemPrompt },
-      {
-        role: "user",
-        content: `Generate a comprehensive Trend & ICP Analysis for this customer database. ${excludeMailed ? "Exclude customers who have already been mailed from the analysis." : "Include all customers in the analysis."}`,
-      },
-    ],
-    response_format: { type: "json_object" },
-    temperature: 0.7,
-  });
-
-  const content = response.choices[0]?.message?.content || "{}";
-  try {
-    return JSON.parse(content);
-  } catch {
-    return {
-      trends: [],
-      icpSegments: [],
-      summary: "Failed to parse AI response",
-      totalRecords: 0,
-      mailedExcluded: 0,
-    };
-  }
+  return completeValidated(
+    {
+      feature: "trends-icp",
+      messages: [
+        { role: "system", content: systemPrompt },
+        {
+          role: "user",
+          content: `Generate a comprehensive Trend & ICP Analysis for this customer database. ${excludeMailed ? "Exclude customers who have already been mailed from the analysis." : "Include all customers in the analysis."}`,
+        },
+      ],
+      temperature: 0.7,
+      fallback: unavailableTrendsICP,
+    },
+    trendsICPResultSchema,
+  );
 }
 
 // AI Summary for Trends & ICP Analysis (uses pre-aggregated data only)
-interface SnapshotData {
+export interface SnapshotData {
   totalCustomers: number;
   glBuyers: number;
   tsiBuyers: number;
@@ -444,7 +556,7 @@ interface SnapshotData {
   syGlOverlap: number;
 }
 
-interface ICPSegmentData {
+export interface ICPSegmentData {
   gender: string;
   ageGroup: string;
   location: string;
@@ -454,12 +566,26 @@ interface ICPSegmentData {
   emailRate: number;
 }
 
-interface AnalysisSummaryResult {
-  summary: string;
-  topDemographic: string;
-  crossSellOpportunity: string;
-  contactabilityWarning: string;
-}
+// Strict JSON Schema for providers that enforce structured output
+const ANALYSIS_SUMMARY_JSON_SCHEMA = {
+  name: "analysis_summary",
+  schema: {
+    type: "object",
+    properties: {
+      summary: { type: "string" },
+      topDemographic: { type: "string" },
+      crossSellOpportunity: { type: "string" },
+      contactabilityWarning: { type: "string" },
+    },
+    required: [
+      "summary",
+      "topDemographic",
+      "crossSellOpportunity",
+      "contactabilityWarning",
+    ],
+    additionalProperties: false,
+  },
+};
 
 export async function generateAnalysisSummary(
   snapshot: SnapshotData,
@@ -507,34 +633,20 @@ ${icpSegments
   )
   .join("\n")}`;
 
-  const response = await openai.chat.completions.create({
-    model: "gpt-4o",
-    messages: [
-      { role: "system", content: systemPrompt },
-      { role: "user", content: userContent },
-    ],
-    response_format: { type: "json_object" },
-    temperature: 0.3,
-    max_tokens: 500,
-  });
-
-  const content = response.choices[0]?.message?.content || "{}";
-  try {
-    return JSON.parse(content);
-  } catch {
-    return {
-      summary: "Unable to generate summary. Please try again.",
-      topDemographic: "Analysis unavailable",
-      crossSellOpportunity: "Analysis unavailable",
-      contactabilityWarning: "Analysis unavailable",
-    };
-  }
-}
-
-interface CustomAnalysisResult {
-  query: string;
-  results: Array<Record<string, any>>;
-  summary: string;
+  return completeValidated(
+    {
+      feature: "analysis-summary",
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userContent },
+      ],
+      temperature: 0.3,
+      maxTokens: 500,
+      schema: ANALYSIS_SUMMARY_JSON_SCHEMA,
+      fallback: () => ruleBasedAnalysisSummary(snapshot, icpSegments),
+    },
+    analysisSummaryResultSchema,
+  );
 }
 
 export async function runCustomAnalysis(
@@ -607,41 +719,53 @@ Generate 5-10 example results with appropriate column names.`;
     userContent = prompt;
   }
 
-  const response = await openai.chat.completions.create({
-    model: "gpt-4o",
-    messages: [
-      { role: "system", content: systemPrompt },
-      { role: "user", content: userContent },
-    ],
-    response_format: { type: "json_object" },
-    temperature: 0.5,
-  });
-
-  const aiContent = response.choices[0]?.message?.content || "{}";
-  try {
-    return JSON.parse(aiContent);
-  } catch {
-    return {
-      query: "Failed to generate query",
-      results: [],
-      summary:
-        "Failed to parse AI response. Please try again with a different prompt.",
-    };
-  }
+  return completeValidated(
+    {
+      feature: "custom-analysis",
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userContent },
+      ],
+      temperature: 0.5,
+      fallback: () => unavailableCustomAnalysis(prompt),
+    },
+    customAnalysisResultSchema,
+  );
 }
 
 // ── AI SQL Analysis for Data Filter tool ─────────────────────────────
 
-export interface SQLAnalysisResult {
-  sql: string;
-  explanation: string;
-  chartConfig: {
-    type: "bar" | "line" | "pie" | "table_only";
-    xKey: string;
-    yKey: string;
-    title: string;
-  } | null;
-}
+const SQL_ANALYSIS_JSON_SCHEMA = {
+  name: "sql_analysis",
+  schema: {
+    type: "object",
+    properties: {
+      sql: { type: "string" },
+      explanation: { type: "string" },
+      chartConfig: {
+        anyOf: [
+          { type: "null" },
+          {
+            type: "object",
+            properties: {
+              type: {
+                type: "string",
+                enum: ["bar", "line", "pie", "table_only"],
+              },
+              xKey: { type: "string" },
+              yKey: { type: "string" },
+              title: { type: "string" },
+            },
+            required: ["type", "xKey", "yKey", "title"],
+            additionalProperties: false,
+          },
+        ],
+      },
+    },
+    required: ["sql", "explanation", "chartConfig"],
+    additionalProperties: false,
+  },
+};
 
 export async function generateAnalysisSQL(
   prompt: string,
@@ -678,7 +802,7 @@ RULES:
 5. Limit results to at most 100 rows unless the user asks for more
 6. Use TOP, GROUP BY, ORDER BY, aggregate functions as needed
 7. Do NOT use CTEs or temp tables — keep it to a single SELECT statement
-8. Do NOT include any DDL (CREATE, ALTER, DROP) or DML (INSERT, UPDATE, DELETE) statements
+8. Do NOT include any DDL (CREATE, ALTER, DROP) or DML (INSERT, UPDATE, DELETE) statements, variables, SELECT INTO, or tables outside the schema above — such queries are rejected
 9. If the question cannot be answered with the available fields, explain why in the "explanation" field and provide the closest possible query
 
 Also suggest a chart configuration if the results would benefit from visualization.
@@ -698,25 +822,17 @@ Respond with JSON:
 Set chartConfig to null if the result is best viewed as a table only (e.g., detail rows, text-heavy results).
 Use "bar" for categorical comparisons, "line" for time series, "pie" for proportions with few categories.`;
 
-  const response = await openai.chat.completions.create({
-    model: "gpt-4o",
-    messages: [
-      { role: "system", content: systemPrompt },
-      { role: "user", content: prompt },
-    ],
-    response_format: { type: "json_object" },
-    temperature: 0.3,
-  });
-
-  const content = response.choices[0]?.message?.content || "{}";
-  try {
-    return JSON.parse(content);
-  } catch {
-    return {
-      sql: "",
-      explanation:
-        "Failed to parse AI response. Please try a different prompt.",
-      chartConfig: null,
-    };
-  }
+  return completeValidated(
+    {
+      feature: "sql-analysis",
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: prompt },
+      ],
+      temperature: 0.3,
+      schema: SQL_ANALYSIS_JSON_SCHEMA,
+      fallback: () => ruleBasedAnalysisSql(prompt, allTables, primaryTableName),
+    },
+    sqlAnalysisResultSchema,
+  );
 }
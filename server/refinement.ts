@@ -0,0 +1,438 @@
+import { randomUUID } from "crypto";
+import type {
+  AudienceSizeTargetResponse,
+  AudienceSizeTargetResult,
+  MetabaseField,
+  SegmentSuggestion,
+  StartTargetingRefinementRequest,
+  SuggestionValidationReport,
+  TargetingRefinementDiff,
+  TargetingRefinementResponse,
+  TargetingRefinementTurn,
+} from "@shared/schema";
+import {
+  findDobColumn,
+  findEmailField,
+  getFields,
+  getFieldSampleValues,
+  getSegmentMatchCounts,
+  getTables,
+  getTargetingMatchCount,
+} from "./metabase";
+import {
+  analyzeMarketingConceptMasterTable,
+  refineMarketingTargeting,
+  type TargetingRefinementExchange,
+} from "./openai";
+import { validateSuggestions } from "./suggestion-validation";
+import {
+  buildDemographicClause,
+  resolveTargetingRule,
+  segmentToCondition,
+} from "./targeting";
+
+// ── Targeting refinement sessions ───────────────────────────────────
+// A session lets a marketer adjust the AI's targeting over several turns ("drop the
+// under-30s", "too small, broaden"). The rule set, the table context the prompt
+// needs and the conversation so far live in server memory, owned by the user who
+// started the session. Every turn re-counts the rules so the model sees live sizes.
+
+const SESSION_TTL_MS = 2 * 60 * 60 * 1000;
+const MAX_SESSIONS = 200;
+// Earlier turns replayed to the model; the current rules are always sent in full
+const MAX_HISTORY_TURNS = 6;
+// Model turns one audience-size request may take before settling for the closest
+const MAX_SIZE_TURNS = 4;
+
+export interface RefinementSession {
+  id: string;
+  owner: string | null;
+  concept: string;
+  databaseId: number;
+  masterTableId: number;
+  tableName: string;
+  emailColumn: string | null; // Set when only contacts with an email are counted
+  fields: MetabaseField[];
+  fieldSampleValues: Record<string, string[]>;
+  suggestions: SegmentSuggestion[];
+  suggestedAgeRange: string | null;
+  reasoning: string;
+  validation: SuggestionValidationReport | undefined; // Latest model reply's
+  matchCounts: Record<string, number>;
+  audienceCount: number | null;
+  history: TargetingRefinementExchange[];
+  turns: TargetingRefinementTurn[];
+  lastUsedAt: number;
+}
+
+// Insertion order doubles as recency: a session is re-inserted whenever it is used
+const sessions = new Map<string, RefinementSession>();
+
+function pruneSessions(now: number) {
+  sessions.forEach((session, id) => {
+    if (now - session.lastUsedAt > SESSION_TTL_MS) sessions.delete(id);
+  });
+  while (sessions.size >= MAX_SESSIONS) {
+    sessions.delete(sessions.keys().next().value!);
+  }
+}
+
+export function getRefinementSession(
+  id: string,
+  owner: string | null,
+): RefinementSession | undefined {
+  const session = sessions.get(id);
+  if (!session || session.owner !== owner) return undefined;
+  const now = Date.now();
+  if (now - session.lastUsedAt > SESSION_TTL_MS) {
+    sessions.delete(id);
+    return undefined;
+  }
+  session.lastUsedAt = now;
+  sessions.delete(id);
+  sessions.set(id, session);
+  return session;
+}
+
+// Every suggestion needs a rule to be counted and diffed, and labels key the diff
+function keepRuledSuggestions(
+  suggestions: SegmentSuggestion[],
+): SegmentSuggestion[] {
+  const seen = new Set<string>();
+  return suggestions.filter((s) => {
+    if (!s.rule || seen.has(s.segment)) return false;
+    seen.add(s.segment);
+    return true;
+  });
+}
+
+// The age range is a hard filter in the preview and export, so it narrows the
+// audience count too (the per-segment counts stay rule-only)
+async function countSuggestions(
+  databaseId: number,
+  tableName: string,
+  emailColumn: string | null,
+  fields: MetabaseField[],
+  suggestions: SegmentSuggestion[],
+  ageRange: string | null,
+): Promise<{
+  matchCounts: Record<string, number>;
+  audienceCount: number | null;
+}> {
+  const segments = suggestions.map((s) => s.segment);
+  const segmentRules = Object.fromEntries(
+    suggestions.map((s) => [s.segment, s.rule!]),
+  );
+  const [matchCounts, audienceCount] = await Promise.all([
+    getSegmentMatchCounts(databaseId, tableName, segments, segmentRules),
+    getTargetingMatchCount(
+      databaseId,
+      tableName,
+      resolveTargetingRule({ segments, segmentRules }),
+      emailColumn,
+      buildDemographicClause(findDobColumn(fields), { ageRange }).clause,
+    ).catch(() => null),
+  ]);
+  return { matchCounts, audienceCount };
+}
+
+// JSON with sorted keys, so rules that differ only in key order compare equal
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function diffSuggestions(
+  before: SegmentSuggestion[],
+  beforeAgeRange: string | null,
+  after: SegmentSuggestion[],
+  afterAgeRange: string | null,
+): TargetingRefinementDiff {
+  const previous = new Map(before.map((s) => [s.segment, s]));
+  const next = new Map(after.map((s) => [s.segment, s]));
+  const changed: TargetingRefinementDiff["changed"] = [];
+  for (const s of after) {
+    const old = previous.get(s.segment);
+    if (old && canonicalJson(old.rule) !== canonicalJson(s.rule)) {
+      changed.push({ segment: s.segment, before: old.rule!, after: s.rule! });
+    }
+  }
+  return {
+    added: after.filter((s) => !previous.has(s.segment)),
+    removed: before.filter((s) => !next.has(s.segment)),
+    changed,
+    ageRange:
+      beforeAgeRange === afterAgeRange
+        ? null
+        : { before: beforeAgeRange, after: afterAgeRange },
+  };
+}
+
+export function describeRefinementSession(
+  session: RefinementSession,
+): TargetingRefinementResponse {
+  return {
+    sessionId: session.id,
+    concept: session.concept,
+    suggestions: session.suggestions,
+    suggestedAgeRange: session.suggestedAgeRange,
+    reasoning: session.reasoning,
+    validation: session.validation,
+    matchCounts: session.matchCounts,
+    audienceCount: session.audienceCount,
+    turns: session.turns,
+  };
+}
+
+// Starts from the segments the client already has, or analyses the concept afresh
+export async function startRefinementSession(
+  owner: string | null,
+  input: StartTargetingRefinementRequest,
+): Promise<TargetingRefinementResponse> {
+  const { concept, databaseId, masterTableId } = input;
+  const [fields, tables] = await Promise.all([
+    getFields(masterTableId),
+    getTables(databaseId),
+  ]);
+  const tableName =
+    tables.find((t) => t.id === masterTableId)?.name || String(masterTableId);
+  const emailColumn = input.filterEmailsOnly
+    ? (findEmailField(fields)?.name ?? null)
+    : null;
+  const fieldSampleValues = await getFieldSampleValues(
+    databaseId,
+    masterTableId,
+    fields,
+  );
+
+  let suggestions: SegmentSuggestion[];
+  let suggestedAgeRange: string | null;
+  let reasoning: string;
+  let validation: SuggestionValidationReport | undefined;
+  if (input.segments) {
+    suggestions = input.segments.map((segment) => ({
+      segment,
+      confidence: 1,
+      reasoning: "",
+      rule:
+        input.segmentRules?.[segment] ??
+        segmentToCondition(segment) ??
+        undefined,
+    }));
+    suggestedAgeRange = input.ageRange ?? null;
+    reasoning = "";
+  } else {
+    const analysis = await analyzeMarketingConceptMasterTable(
+      concept,
+      fields,
+      tableName,
+      null,
+      null,
+      fieldSampleValues,
+    );
+    ({ suggestions, validation } = await validateSuggestions(
+      databaseId,
+      masterTableId,
+      fields,
+      analysis.suggestions,
+    ));
+    suggestedAgeRange = analysis.suggestedAgeRange ?? null;
+    reasoning = analysis.reasoning;
+  }
+  suggestions = keepRuledSuggestions(suggestions);
+
+  const now = Date.now();
+  const session: RefinementSession = {
+    id: randomUUID(),
+    owner,
+    concept,
+    databaseId,
+    masterTableId,
+    tableName,
+    emailColumn,
+    fields,
+    fieldSampleValues,
+    suggestions,
+    suggestedAgeRange,
+    reasoning,
+    validation,
+    ...(await countSuggestions(
+      databaseId,
+      tableName,
+      emailColumn,
+      fields,
+      suggestions,
+      suggestedAgeRange,
+    )),
+    history: [],
+    turns: [],
+    lastUsedAt: now,
+  };
+  pruneSessions(now);
+  sessions.set(session.id, session);
+  return describeRefinementSession(session);
+}
+
+// One turn: the session only changes once the model's reply has been counted
+export async function refineTargetingSession(
+  session: RefinementSession,
+  message: string,
+): Promise<TargetingRefinementResponse> {
+  const result = await refineMarketingTargeting(
+    session.concept,
+    session,
+    message,
+    session.history,
+    session.fields,
+    session.tableName,
+    session.fieldSampleValues,
+  );
+  const validated = await validateSuggestions(
+    session.databaseId,
+    session.masterTableId,
+    session.fields,
+    result.suggestions,
+  );
+  const { validation } = validated;
+  const suggestions = keepRuledSuggestions(validated.suggestions);
+  const counts = await countSuggestions(
+    session.databaseId,
+    session.tableName,
+    session.emailColumn,
+    session.fields,
+    suggestions,
+    result.suggestedAgeRange,
+  );
+
+  session.turns.push({
+    message,
+    reasoning: result.reasoning,
+    diff: diffSuggestions(
+      session.suggestions,
+      session.suggestedAgeRange,
+      suggestions,
+      result.suggestedAgeRange,
+    ),
+    validation,
+    createdAt: new Date().toISOString(),
+  });
+  session.history = [
+    ...session.history,
+    { role: "user" as const, content: message },
+    {
+      role: "assistant" as const,
+      content: result.reasoning || "Updated the targeting.",
+    },
+  ].slice(-MAX_HISTORY_TURNS * 2);
+  session.suggestions = suggestions;
+  session.suggestedAgeRange = result.suggestedAgeRange;
+  session.reasoning = result.reasoning;
+  session.validation = validation;
+  session.matchCounts = counts.matchCounts;
+  session.audienceCount = counts.audienceCount;
+  return describeRefinementSession(session);
+}
+
+// ── Audience size targeting ─────────────────────────────────────────
+// "I need about 20,000 contacts": rather than padding a short list with untargeted
+// fill contacts, the model is asked turn by turn to broaden or narrow the rules
+// until the combined count is within the tolerance. Each turn is an ordinary
+// refinement turn, so the conversation shows how the size was reached.
+
+type SizedState = Pick<
+  RefinementSession,
+  | "suggestions"
+  | "suggestedAgeRange"
+  | "reasoning"
+  | "validation"
+  | "matchCounts"
+  | "audienceCount"
+>;
+
+function snapshotTargeting(session: RefinementSession): SizedState {
+  return {
+    suggestions: session.suggestions,
+    suggestedAgeRange: session.suggestedAgeRange,
+    reasoning: session.reasoning,
+    validation: session.validation,
+    matchCounts: session.matchCounts,
+    audienceCount: session.audienceCount,
+  };
+}
+
+function sizeInstruction(
+  count: number,
+  targetSize: number,
+  tolerancePercent: number,
+): string {
+  const needed = `${count.toLocaleString("en-US")} contacts match, but about ${targetSize.toLocaleString("en-US")} are needed (±${tolerancePercent}%).`;
+  return count < targetSize
+    ? `${needed} Broaden the targeting: relax or remove the most restrictive rules, keeping the concept's core audience.`
+    : `${needed} Narrow the targeting: tighten a rule or add a condition that fits the concept.`;
+}
+
+/**
+ * Re-prompts the model with the live combined count until it is within
+ * `tolerancePercent` of `targetSize`, for at most MAX_SIZE_TURNS turns. Stops early
+ * when a turn changes nothing; if later turns moved away from the target, the
+ * closest rule set seen is restored.
+ */
+export async function targetAudienceSize(
+  session: RefinementSession,
+  targetSize: number,
+  tolerancePercent: number,
+): Promise<AudienceSizeTargetResponse> {
+  if (session.audienceCount === null) {
+    throw new Error("The current audience could not be counted");
+  }
+  const distance = (count: number | null) =>
+    count === null ? Infinity : Math.abs(count - targetSize);
+  const withinTolerance = (count: number | null) =>
+    distance(count) <= (targetSize * tolerancePercent) / 100;
+
+  const counts: AudienceSizeTargetResult["counts"] = [session.audienceCount];
+  let closest = snapshotTargeting(session);
+  for (
+    let turn = 0;
+    turn < MAX_SIZE_TURNS && !withinTolerance(session.audienceCount);
+    turn++
+  ) {
+    await refineTargetingSession(
+      session,
+      sizeInstruction(session.audienceCount!, targetSize, tolerancePercent),
+    );
+    counts.push(session.audienceCount);
+    if (distance(session.audienceCount) < distance(closest.audienceCount)) {
+      closest = snapshotTargeting(session);
+    }
+    const { diff } = session.turns[session.turns.length - 1];
+    const unchanged =
+      diff.added.length === 0 &&
+      diff.removed.length === 0 &&
+      diff.changed.length === 0 &&
+      !diff.ageRange;
+    // An uncountable or unchanged rule set will not improve on a repeat
+    if (session.audienceCount === null || unchanged) break;
+  }
+
+  const keptClosest = closest.suggestions !== session.suggestions;
+  if (keptClosest) Object.assign(session, closest);
+  return {
+    ...describeRefinementSession(session),
+    audienceTarget: {
+      targetSize,
+      tolerancePercent,
+      reached: withinTolerance(session.audienceCount),
+      counts,
+      keptClosest,
+    },
+  };
+}
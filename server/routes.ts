@@ -1,4 +1,4 @@
-import type { Express } from "express";
+import express, { type Express, type Response } from "express";
 import { createServer, type Server } from "http";
 import {
   getDatabases,
@@ -16,20 +16,53 @@ import {
   getTableRowCountsFast,
   getTableData,
   getSegmentMatchCounts,
+  getFieldSampleValues,
   getEmailFillRate,
   runNativeQuery,
+  prepareTableExport,
+  TableExportRequestError,
 } from "./metabase";
+import {
+  createTableExportWriter,
+  TABLE_EXPORT_CONTENT_TYPES,
+  type TableExportWriter,
+} from "./table-export";
 import {
   countQuerySchema,
   fieldOptionsQuerySchema,
   exportQuerySchema,
+  tableExportStreamSchema,
   analyzeConceptSchema,
   emailPreviewSchema,
   trendsICPAnalysisSchema,
   analyzeConceptSchemaV2,
-  emailPreviewSchemaV2,
+  brainworksAnalysisSchema,
+  icpCustomersQuerySchema,
+  icpSegmentFilterSchema,
+  analysisSummarySchema,
+  campaignRunRequestSchemaV2,
+  targetingInputSchema,
+  insertCampaignSchema,
+  updateCampaignSchema,
+  insertSuppressionMappingSchema,
+  suppressionTableQuerySchema,
+  suppressionEntriesQuerySchema,
+  suppressionCampaignsQuerySchema,
+  suppressionUploadQuerySchema,
+  addSuppressionEntriesSchema,
+  doNotContactQuerySchema,
+  addDoNotContactSchema,
+  doNotContactUploadQuerySchema,
+  startTargetingRefinementSchema,
+  targetingRefinementMessageSchema,
+  audienceSizeTargetSchema,
   type FilterValue,
+  type InsertCampaign,
+  type CampaignRunRequestV2,
+  type AudienceTierCounts,
+  type SuppressionWriteBackReport,
   type TableWithFields,
+  type AIResponseErrorBody,
 } from "@shared/schema";
 import {
   analyzeMarketingConcept,
@@ -38,43 +71,204 @@ import {
   generateAnalysisSummary,
   generateAnalysisSQL,
 } from "./openai";
+import { LlmResponseError } from "./llm";
+import { getBrainworksDatabase, runBrainworksAnalysis } from "./brainworks";
+import { resolveTargetingRule } from "./targeting";
+import {
+  SQL_ANALYSIS_ROW_LIMIT,
+  SQL_ANALYSIS_TIMEOUT_MS,
+  validateAnalysisSql,
+} from "./sql-safety";
+import { getStorage } from "./storage";
+import { validateSuggestions } from "./suggestion-validation";
+import {
+  describeRefinementSession,
+  getRefinementSession,
+  refineTargetingSession,
+  startRefinementSession,
+  targetAudienceSize,
+} from "./refinement";
+import {
+  addSuppressionEntries,
+  listSuppressionCampaigns,
+  listSuppressionEntries,
+  parseCsvColumn,
+  parseReferenceCsv,
+  getSuppressionTableMapping,
+  removeSuppressionCampaign,
+} from "./suppression";
+import {
+  addDoNotContact,
+  listDoNotContact,
+  DO_NOT_CONTACT_CSV_HEADERS,
+} from "./do-not-contact";
+import {
+  getSqlAnalysisDatabaseIds,
+  hasRole,
+  requireRole,
+  setupAuth,
+} from "./auth";
+import {
+  cloneCampaign,
+  rollbackCampaignRun,
+  runCampaignExport,
+  runCampaignPreview,
+  saveCampaignForRun,
+} from "./campaigns";
+import {
+  getCrossSellSnapshot,
+  getTopICPSegments,
+  getICPSegmentCustomers,
+  iterateICPSegmentCustomers,
+  icpCustomerToCsvRow,
+  ICP_EXPORT_HEADERS,
+} from "./trends";
+
+function sanitizeCampaignCode(code: unknown): string {
+  return code
+    ? String(code)
+        .replace(/[^a-zA-Z0-9_\-]/g, "")
+        .substring(0, 50)
+    : "";
+}
+
+// The model's reply was still invalid after the repair retry: an upstream failure,
+// with what was wrong so the client can say more than "failed"
+function sendLlmResponseError(res: Response, error: LlmResponseError) {
+  const body: AIResponseErrorBody = {
+    error: error.message,
+    code: "ai_response_invalid",
+    feature: error.feature,
+    issues: error.issues,
+  };
+  res.status(502).json(body);
+}
+
+// The CSV download plus the counts and write-back report the client shows after it
+interface CampaignExportFile {
+  csv: string;
+  fileName: string;
+  writeBack: SuppressionWriteBackReport | null;
+  complianceExcludedCount: number;
+  frequencyCappedCount: number;
+  frequencyCapWarnings: string[];
+  holdoutCount: number;
+  cellCounts: Record<string, number> | null;
+  tierCounts: AudienceTierCounts;
+}
+
+// JSON for a response header: non-ASCII (e.g. a Japanese brand name) is escaped,
+// since Node rejects header values outside Latin-1
+function headerJson(value: unknown): string {
+  return JSON.stringify(value).replace(
+    /[\u0080-\uffff]/g,
+    (ch) => `\\u${ch.charCodeAt(0).toString(16).padStart(4, "0")}`,
+  );
+}
+
+function sendCampaignExport(res: Response, file: CampaignExportFile) {
+  res.setHeader("Content-Type", "text/csv");
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename="${file.fileName}"`,
+  );
+  res.setHeader(
+    "X-Compliance-Excluded-Count",
+    String(file.complianceExcludedCount),
+  );
+  res.setHeader("X-Frequency-Capped-Count", String(file.frequencyCappedCount));
+  if (file.frequencyCapWarnings.length > 0) {
+    res.setHeader(
+      "X-Frequency-Cap-Warnings",
+      headerJson(file.frequencyCapWarnings),
+    );
+  }
+  res.setHeader("X-Holdout-Count", String(file.holdoutCount));
+  if (file.cellCounts) {
+    res.setHeader("X-Cell-Counts", JSON.stringify(file.cellCounts));
+  }
+  res.setHeader("X-Tier-Counts", JSON.stringify(file.tierCounts));
+  if (file.writeBack) {
+    res.setHeader("X-Write-Back-Report", JSON.stringify(file.writeBack));
+  }
+  res.send(file.csv);
+}
+
+// Maps the Campaign Builder's preview/export body onto a saved campaign definition
+function campaignDefinitionFromRequest(
+  body: CampaignRunRequestV2,
+): Omit<InsertCampaign, "name"> & { name?: string } {
+  return {
+    name: body.name || undefined,
+    concept: body.concept,
+    campaignCode: sanitizeCampaignCode(body.campaignCode),
+    databaseId: body.databaseId,
+    masterTableId: body.masterTableId,
+    historyDbId: body.historyDbId ?? null,
+    historyTableId: body.historyTableId ?? null,
+    segments: body.segments,
+    segmentRules: body.segmentRules ?? {},
+    rules: body.rules ?? null,
+    birthdayFilter: body.birthdayFilter ?? "",
+    ageRange: body.ageRange || null,
+    contactCap: body.contactCap,
+    excludeDays: body.excludeDays,
+    frequencyCaps: body.frequencyCaps,
+    holdoutPercent: body.holdoutPercent,
+    splitCells: body.splitCells,
+    filterEmailsOnly: body.filterEmailsOnly,
+  };
+}
 
 export async function registerRoutes(
   httpServer: Server,
   app: Express,
 ): Promise<Server> {
-  app.get("/api/metabase/databases", async (req, res) => {
-    try {
-      const databases = await getDatabases();
-      res.json(databases);
-    } catch (error) {
-      console.error("Error fetching databases:", error);
-      res.status(500).json({
-        error:
-          error instanceof Error ? error.message : "Failed to fetch databases",
-      });
-    }
-  });
+  await setupAuth(app);
 
-  app.get("/api/metabase/databases/:databaseId/tables", async (req, res) => {
-    try {
-      const databaseId = parseInt(req.params.databaseId, 10);
-      if (isNaN(databaseId)) {
-        return res.status(400).json({ error: "Invalid database ID" });
+  app.get(
+    "/api/metabase/databases",
+    requireRole("viewer"),
+    async (req, res) => {
+      try {
+        const databases = await getDatabases();
+        res.json(databases);
+      } catch (error) {
+        console.error("Error fetching databases:", error);
+        res.status(500).json({
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to fetch databases",
+        });
       }
-      const tables = await getTables(databaseId);
-      res.json(tables);
-    } catch (error) {
-      console.error("Error fetching tables:", error);
-      res.status(500).json({
-        error:
-          error instanceof Error ? error.message : "Failed to fetch tables",
-      });
-    }
-  });
+    },
+  );
+
+  app.get(
+    "/api/metabase/databases/:databaseId/tables",
+    requireRole("viewer"),
+    async (req, res) => {
+      try {
+        const databaseId = parseInt(req.params.databaseId, 10);
+        if (isNaN(databaseId)) {
+          return res.status(400).json({ error: "Invalid database ID" });
+        }
+        const tables = await getTables(databaseId);
+        res.json(tables);
+      } catch (error) {
+        console.error("Error fetching tables:", error);
+        res.status(500).json({
+          error:
+            error instanceof Error ? error.message : "Failed to fetch tables",
+        });
+      }
+    },
+  );
 
   app.get(
     "/api/metabase/databases/:databaseId/table-counts",
+    requireRole("viewer"),
     async (req, res) => {
       try {
         const databaseId = parseInt(req.params.databaseId, 10);
@@ -105,6 +299,7 @@ export async function registerRoutes(
 
   app.get(
     "/api/metabase/databases/:databaseId/tables/:tableId/rows",
+    requireRole("analyst"),
     async (req, res) => {
       const databaseId = parseInt(req.params.databaseId, 10);
       const tableId = parseInt(req.params.tableId, 10);
@@ -118,26 +313,31 @@ export async function registerRoutes(
     },
   );
 
-  app.get("/api/metabase/tables/:tableId/fields", async (req, res) => {
-    try {
-      const tableId = parseInt(req.params.tableId, 10);
-      if (isNaN(tableId)) {
-        return res.status(400).json({ error: "Invalid table ID" });
+  app.get(
+    "/api/metabase/tables/:tableId/fields",
+    requireRole("viewer"),
+    async (req, res) => {
+      try {
+        const tableId = parseInt(req.params.tableId, 10);
+        if (isNaN(tableId)) {
+          return res.status(400).json({ error: "Invalid table ID" });
+        }
+        const fields = await getFields(tableId);
+        res.json(fields);
+      } catch (error) {
+        console.error("Error fetching fields:", error);
+        res.status(500).json({
+          error:
+            error instanceof Error ? error.message : "Failed to fetch fields",
+        });
       }
-      const fields = await getFields(tableId);
-      res.json(fields);
-    } catch (error) {
-      console.error("Error fetching fields:", error);
-      res.status(500).json({
-        error:
-          error instanceof Error ? error.message : "Failed to fetch fields",
-      });
-    }
-  });
+    },
+  );
 
   // Get all tables with their fields for a database (for multi-table AI analysis)
   app.get(
     "/api/metabase/databases/:databaseId/tables-with-fields",
+    requireRole("viewer"),
     async (req, res) => {
       try {
         const databaseId = parseInt(req.params.databaseId, 10);
@@ -173,7 +373,7 @@ export async function registerRoutes(
     },
   );
 
-  app.post("/api/metabase/count", async (req, res) => {
+  app.post("/api/metabase/count", requireRole("viewer"), async (req, res) => {
     try {
       const parsed = countQuerySchema.safeParse(req.body);
       if (!parsed.success) {
@@ -197,38 +397,42 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/metabase/field-options", async (req, res) => {
-    try {
-      const parsed = fieldOptionsQuerySchema.safeParse(req.body);
-      if (!parsed.success) {
-        return res.status(400).json({
-          error: "Invalid request body",
-          details: parsed.error.errors,
-        });
-      }
+  app.post(
+    "/api/metabase/field-options",
+    requireRole("viewer"),
+    async (req, res) => {
+      try {
+        const parsed = fieldOptionsQuerySchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            error: "Invalid request body",
+            details: parsed.error.errors,
+          });
+        }
 
-      const limit = req.body.limit || 100000;
-      const { databaseId, tableId, fieldId } = parsed.data;
+        const limit = req.body.limit || 100000;
+        const { databaseId, tableId, fieldId } = parsed.data;
 
-      const options = await getFieldOptions(
-        databaseId,
-        tableId,
-        fieldId,
-        limit,
-      );
-      res.json({ fieldId, options });
-    } catch (error) {
-      console.error("Error getting field options:", error);
-      res.status(500).json({
-        error:
-          error instanceof Error
-            ? error.message
-            : "Failed to get field options",
-      });
-    }
-  });
+        const options = await getFieldOptions(
+          databaseId,
+          tableId,
+          fieldId,
+          limit,
+        );
+        res.json({ fieldId, options });
+      } catch (error) {
+        console.error("Error getting field options:", error);
+        res.status(500).json({
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to get field options",
+        });
+      }
+    },
+  );
 
-  app.post("/api/metabase/export", async (req, res) => {
+  app.post("/api/metabase/export", requireRole("analyst"), async (req, res) => {
     try {
       const parsed = exportQuerySchema.safeParse(req.body);
       if (!parsed.success) {
@@ -261,253 +465,539 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/metabase/table-data", async (req, res) => {
-    try {
-      const { databaseId, tableId, filters, limit, offset, scanLimit } =
-        req.body;
-      if (!databaseId || !tableId) {
-        return res
-          .status(400)
-          .json({ error: "databaseId and tableId are required" });
-      }
-      const result = await getTableData(
+  // Streams the filtered table straight from SQL Server in OFFSET/FETCH batches, so
+  // the download isn't bounded by browser memory or the MBQL scan limit
+  app.get(
+    "/api/metabase/export/stream",
+    requireRole("analyst"),
+    async (req, res) => {
+      const parsed = tableExportStreamSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Invalid query parameters",
+          details: parsed.error.errors,
+        });
+      }
+      const {
         databaseId,
         tableId,
-        filters || [],
-        limit || 1000,
-        offset || 0,
-        scanLimit || 100000,
-      );
-      res.json(result);
-    } catch (error) {
-      console.error("Error fetching table data:", error);
-      res.status(500).json({
-        error:
-          error instanceof Error ? error.message : "Failed to fetch table data",
-      });
-    }
-  });
+        filters,
+        columns,
+        format,
+        limit,
+        sortColumn,
+        sortDirection,
+        bom,
+      } = parsed.data;
 
-  // ... (Rest of routes for AI analysis, etc. remain unchanged) ...
-  // [Full file content for other endpoints is preserved in existing logic]
+      try {
+        const tableExport = await prepareTableExport(
+          databaseId,
+          tableId,
+          filters as FilterValue[],
+          columns,
+          limit,
+          sortColumn
+            ? { column: sortColumn, direction: sortDirection }
+            : undefined,
+        );
+        const safeName =
+          tableExport.tableName.replace(/[^a-zA-Z0-9_\-]/g, "") || "table";
+        const date = new Date().toISOString().split("T")[0];
 
-  // --- NEW V2 ROUTES FOR TWO-TABLE ARCHITECTURE ---
+        // Headers are only committed once the first batch arrives, so a failing
+        // query can still be reported as a JSON 500
+        let writer: TableExportWriter | null = null;
+        const start = async (): Promise<TableExportWriter> => {
+          if (writer) return writer;
+          res.setHeader("Content-Type", TABLE_EXPORT_CONTENT_TYPES[format]);
+          res.setHeader(
+            "Content-Disposition",
+            `attachment; filename="${safeName}-export-${date}.${format}"`,
+          );
+          writer = createTableExportWriter(format, res, {
+            bom,
+            sheetName: tableExport.tableName,
+          });
+          await writer.writeHeader(
+            tableExport.columns.map((c) => c.display_name || c.name),
+          );
+          return writer;
+        };
 
-  app.post("/api/ai/email-fill-rate", async (req, res) => {
-    try {
-      const { databaseId, masterTableId, emailColumn } = req.body;
-      if (!databaseId || !masterTableId || !emailColumn) {
-        return res.status(400).json({
-          error: "databaseId, masterTableId, and emailColumn are required",
+        for await (const rows of tableExport.batches) {
+          if (res.destroyed) break; // client went away — stop querying
+          await (await start()).writeRows(rows);
+        }
+        await (await start()).end();
+      } catch (error) {
+        console.error("Error streaming table export:", error);
+        if (error instanceof TableExportRequestError) {
+          return res.status(400).json({ error: error.message });
+        }
+        if (res.headersSent) {
+          // Mid-stream failure: the client sees a truncated file, so cut the connection
+          res.destroy(error instanceof Error ? error : undefined);
+          return;
+        }
+        res.status(500).json({
+          error:
+            error instanceof Error ? error.message : "Failed to export table",
         });
       }
-      const fillRate = await getEmailFillRate(
-        Number(databaseId),
-        Number(masterTableId),
-        String(emailColumn),
-      );
-      res.json({ fillRate });
-    } catch (error) {
-      console.error("Error checking email fill rate:", error);
-      // Return null fill rate rather than a 500 — non-fatal for the UI
-      res.json({ fillRate: null });
-    }
-  });
+    },
+  );
 
-  app.post("/api/ai/analyze-concept-v2", async (req, res) => {
-    try {
-      const parsed = analyzeConceptSchemaV2.safeParse(req.body);
-      if (!parsed.success) {
-        return res.status(400).json({
-          error: "Invalid request body",
-          details: parsed.error.errors,
+  app.post(
+    "/api/metabase/table-data",
+    requireRole("analyst"),
+    async (req, res) => {
+      try {
+        const { databaseId, tableId, filters, limit, offset, scanLimit } =
+          req.body;
+        if (!databaseId || !tableId) {
+          return res
+            .status(400)
+            .json({ error: "databaseId and tableId are required" });
+        }
+        const result = await getTableData(
+          databaseId,
+          tableId,
+          filters || [],
+          limit || 1000,
+          offset || 0,
+          scanLimit || 100000,
+        );
+        res.json(result);
+      } catch (error) {
+        console.error("Error fetching table data:", error);
+        res.status(500).json({
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to fetch table data",
         });
       }
+    },
+  );
 
-      const { concept, databaseId, masterTableId } = parsed.data;
-
-      // Fetch fields and master table name in parallel
-      const [fields, masterTables] = await Promise.all([
-        getFields(masterTableId),
-        getTables(databaseId),
-      ]);
-      const masterTable = masterTables.find((t) => t.id === masterTableId);
-      const masterTableName = masterTable?.name || String(masterTableId);
+  // ... (Rest of routes for AI analysis, etc. remain unchanged) ...
+  // [Full file content for other endpoints is preserved in existing logic]
 
-      // Fetch sample distinct values for categorical fields so the AI only suggests real values
-      const categoricalFields = fields.filter(
-        (f) =>
-          f.base_type === "type/Text" ||
-          f.semantic_type === "type/Category" ||
-          f.base_type === "type/Boolean",
-      );
-      const fieldSampleValues: Record<string, string[]> = {};
-      await Promise.all(
-        categoricalFields.slice(0, 15).map(async (f) => {
-          try {
-            const options = await getFieldOptions(
-              databaseId,
-              masterTableId,
-              f.id,
-            );
-            if (options.length > 0) {
-              fieldSampleValues[f.name] = options
-                .slice(0, 20)
-                .map((o) => o.value);
-            }
-          } catch {
-            // Non-fatal — skip if can't fetch values for this field
-          }
-        }),
-      );
+  // --- NEW V2 ROUTES FOR TWO-TABLE ARCHITECTURE ---
 
-      // Use the richer V2 function that understands table context + domain vocabulary
-      const analysis = await analyzeMarketingConceptMasterTable(
-        concept,
-        fields,
-        masterTableName,
-        null, // history table fields — system handles exclusions separately
-        null,
-        fieldSampleValues,
-      );
+  app.post(
+    "/api/ai/email-fill-rate",
+    requireRole("analyst"),
+    async (req, res) => {
+      try {
+        const { databaseId, masterTableId, emailColumn } = req.body;
+        if (!databaseId || !masterTableId || !emailColumn) {
+          return res.status(400).json({
+            error: "databaseId, masterTableId, and emailColumn are required",
+          });
+        }
+        const fillRate = await getEmailFillRate(
+          Number(databaseId),
+          Number(masterTableId),
+          String(emailColumn),
+        );
+        res.json({ fillRate });
+      } catch (error) {
+        console.error("Error checking email fill rate:", error);
+        // Return null fill rate rather than a 500 — non-fatal for the UI
+        res.json({ fillRate: null });
+      }
+    },
+  );
 
-      // Run per-segment COUNT(*) queries in parallel so the UI can show match counts per rule
-      const matchCounts = await getSegmentMatchCounts(
-        databaseId,
-        masterTableName,
-        analysis.suggestions.map((s) => s.segment),
-      );
+  app.post(
+    "/api/ai/analyze-concept-v2",
+    requireRole("analyst"),
+    async (req, res) => {
+      try {
+        const parsed = analyzeConceptSchemaV2.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            error: "Invalid request body",
+            details: parsed.error.errors,
+          });
+        }
 
-      res.json({ ...analysis, matchCounts });
-    } catch (error) {
-      console.error("Error analyzing concept v2:", error);
-      res.status(500).json({
-        error:
-          error instanceof Error ? error.message : "Failed to analyze concept",
-      });
-    }
-  });
+        const { concept, databaseId, masterTableId } = parsed.data;
 
-  app.post("/api/ai/preview-v2", async (req, res) => {
-    try {
-      // NOTE: Ensure your emailPreviewSchemaV2 in shared/schema.ts allows campaignCode
-      const {
-        databaseId,
-        masterTableId,
-        historyDbId,
-        historyTableId,
-        segments,
-        contactCap,
-        excludeDays,
-        filterEmailsOnly,
-      } = req.body;
-
-      // We'll create this function in metabase.ts next
-      const result = await getMarketingPreviewV2(
-        databaseId,
-        masterTableId,
-        historyDbId || null,
-        historyTableId || null,
-        segments,
-        contactCap || 5000,
-        excludeDays || 7,
-        filterEmailsOnly !== false,
-      );
+        // Fetch fields and master table name in parallel
+        const [fields, masterTables] = await Promise.all([
+          getFields(masterTableId),
+          getTables(databaseId),
+        ]);
+        const masterTable = masterTables.find((t) => t.id === masterTableId);
+        const masterTableName = masterTable?.name || String(masterTableId);
 
-      res.json(result);
-    } catch (error) {
-      console.error("Error generating preview v2:", error);
-      res.status(500).json({
-        error:
-          error instanceof Error ? error.message : "Failed to generate preview",
-      });
-    }
-  });
+        // Fetch sample distinct values for categorical fields so the AI only suggests real values
+        const fieldSampleValues = await getFieldSampleValues(
+          databaseId,
+          masterTableId,
+          fields,
+        );
 
-  app.post("/api/ai/export-mapping-v2", async (req, res) => {
-    try {
-      const {
-        databaseId,
-        masterTableId,
-        historyDbId,
-        historyTableId,
-        segments,
-      } = req.body;
+        // Use the richer V2 function that understands table context + domain vocabulary
+        const analysis = await analyzeMarketingConceptMasterTable(
+          concept,
+          fields,
+          masterTableName,
+          null, // history table fields — system handles exclusions separately
+          null,
+          fieldSampleValues,
+        );
 
-      const mapping = await getExportMappingV2(
-        databaseId,
-        masterTableId,
-        historyDbId || null,
-        historyTableId || null,
-        segments || [],
-      );
+        // Fix or drop suggestions that don't fit the table's fields and values
+        const { suggestions, validation } = await validateSuggestions(
+          databaseId,
+          masterTableId,
+          fields,
+          analysis.suggestions,
+        );
 
-      res.json(mapping);
-    } catch (error) {
-      console.error("Error building export mapping v2:", error);
-      res.status(500).json({
-        error:
-          error instanceof Error
-            ? error.message
-            : "Failed to build export mapping",
-      });
-    }
-  });
+        // Run per-segment COUNT(*) queries in parallel so the UI can show match counts per rule
+        const segmentRules = Object.fromEntries(
+          suggestions.map((s) => [s.segment, s.rule!]),
+        );
+        const matchCounts = await getSegmentMatchCounts(
+          databaseId,
+          masterTableName,
+          suggestions.map((s) => s.segment),
+          segmentRules,
+        );
 
-  app.post("/api/ai/export-v2", async (req, res) => {
-    try {
-      const {
-        databaseId,
-        masterTableId,
-        historyDbId,
-        historyTableId,
-        segments,
-        contactCap,
-        excludeDays,
-        campaignCode,
-        filterEmailsOnly,
-      } = req.body;
-
-      if (!campaignCode && historyTableId) {
-        return res.status(400).json({
-          error: "Campaign code is required when using a suppression list.",
+        res.json({ ...analysis, suggestions, validation, matchCounts });
+      } catch (error) {
+        console.error("Error analyzing concept v2:", error);
+        if (error instanceof LlmResponseError) {
+          return sendLlmResponseError(res, error);
+        }
+        res.status(500).json({
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to analyze concept",
         });
       }
+    },
+  );
 
-      const sanitizedCampaignCode = campaignCode
-        ? String(campaignCode)
-            .replace(/[^a-zA-Z0-9_\-]/g, "")
-            .substring(0, 50)
-        : "";
-
-      const csvString = await runMarketingExportAndLogV2(
-        databaseId,
-        masterTableId,
-        historyDbId || null,
-        historyTableId || null,
-        segments,
-        contactCap || 5000,
-        excludeDays || 7,
-        sanitizedCampaignCode,
-        filterEmailsOnly !== false,
-      );
-
-      res.setHeader("Content-Type", "text/csv");
-      res.setHeader(
-        "Content-Disposition",
-        `attachment; filename="campaign-${campaignCode || "export"}.csv"`,
-      );
-      res.send(csvString);
-    } catch (error) {
-      console.error("Error exporting v2:", error);
-      res.status(500).json({
-        error: error instanceof Error ? error.message : "Failed to export list",
+  // ── Conversational targeting refinement ─────────────────────────────
+  // Sessions are kept in memory and visible only to the user who started them
+  app.post(
+    "/api/ai/refinement-sessions",
+    requireRole("analyst"),
+    async (req, res) => {
+      try {
+        const parsed = startTargetingRefinementSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            error: "Invalid request body",
+            details: parsed.error.errors,
+          });
+        }
+        res
+          .status(201)
+          .json(
+            await startRefinementSession(
+              req.user?.username ?? null,
+              parsed.data,
+            ),
+          );
+      } catch (error) {
+        console.error("Error starting targeting refinement:", error);
+        if (error instanceof LlmResponseError) {
+          return sendLlmResponseError(res, error);
+        }
+        res.status(500).json({
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to start targeting refinement",
+        });
+      }
+    },
+  );
+
+  app.get(
+    "/api/ai/refinement-sessions/:id",
+    requireRole("analyst"),
+    async (req, res) => {
+      const session = getRefinementSession(
+        req.params.id,
+        req.user?.username ?? null,
+      );
+      if (!session) {
+        return res.status(404).json({ error: "Refinement session not found" });
+      }
+      res.json(describeRefinementSession(session));
+    },
+  );
+
+  app.post(
+    "/api/ai/refinement-sessions/:id/messages",
+    requireRole("analyst"),
+    async (req, res) => {
+      try {
+        const parsed = targetingRefinementMessageSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            error: "Invalid request body",
+            details: parsed.error.errors,
+          });
+        }
+        const session = getRefinementSession(
+          req.params.id,
+          req.user?.username ?? null,
+        );
+        if (!session) {
+          return res
+            .status(404)
+            .json({ error: "Refinement session not found" });
+        }
+        res.json(await refineTargetingSession(session, parsed.data.message));
+      } catch (error) {
+        console.error("Error refining targeting:", error);
+        if (error instanceof LlmResponseError) {
+          return sendLlmResponseError(res, error);
+        }
+        res.status(500).json({
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to refine targeting",
+        });
+      }
+    },
+  );
+
+  // Re-prompts until the combined audience is close to the requested size
+  app.post(
+    "/api/ai/refinement-sessions/:id/audience-size",
+    requireRole("analyst"),
+    async (req, res) => {
+      try {
+        const parsed = audienceSizeTargetSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            error: "Invalid request body",
+            details: parsed.error.errors,
+          });
+        }
+        const session = getRefinementSession(
+          req.params.id,
+          req.user?.username ?? null,
+        );
+        if (!session) {
+          return res
+            .status(404)
+            .json({ error: "Refinement session not found" });
+        }
+        res.json(
+          await targetAudienceSize(
+            session,
+            parsed.data.targetSize,
+            parsed.data.tolerancePercent,
+          ),
+        );
+      } catch (error) {
+        console.error("Error targeting audience size:", error);
+        if (error instanceof LlmResponseError) {
+          return sendLlmResponseError(res, error);
+        }
+        res.status(500).json({
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to target the audience size",
+        });
+      }
+    },
+  );
+
+  app.post("/api/ai/preview-v2", requireRole("analyst"), async (req, res) => {
+    try {
+      const parsed = campaignRunRequestSchemaV2.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Invalid request body",
+          details: parsed.error.errors,
+        });
+      }
+      const body = parsed.data;
+      if (
+        body.campaignId &&
+        !(await getStorage().getCampaign(body.campaignId))
+      ) {
+        return res.status(404).json({ error: "Campaign not found" });
+      }
+
+      // Previews of a saved campaign update its definition and are recorded as a run
+      if (body.campaignId) {
+        const campaign = await saveCampaignForRun(
+          body.campaignId,
+          campaignDefinitionFromRequest(body),
+        );
+        const { run, preview } = await runCampaignPreview(
+          campaign,
+          req.user?.username ?? null,
+        );
+        return res.json({
+          ...preview,
+          campaignId: campaign.id,
+          campaignRunId: run.id,
+        });
+      }
+
+      const result = await getMarketingPreviewV2(
+        body.databaseId,
+        body.masterTableId,
+        body.historyDbId || null,
+        body.historyTableId || null,
+        resolveTargetingRule(body),
+        body.contactCap,
+        body.excludeDays,
+        body.frequencyCaps,
+        {
+          percent: body.holdoutPercent,
+          campaignCode: sanitizeCampaignCode(body.campaignCode),
+        },
+        body.filterEmailsOnly,
+        { birthdayFilter: body.birthdayFilter, ageRange: body.ageRange },
+      );
+
+      res.json(result);
+    } catch (error) {
+      console.error("Error generating preview v2:", error);
+      res.status(500).json({
+        error:
+          error instanceof Error ? error.message : "Failed to generate preview",
+      });
+    }
+  });
+
+  app.post(
+    "/api/ai/export-mapping-v2",
+    requireRole("analyst"),
+    async (req, res) => {
+      try {
+        const { databaseId, masterTableId, historyDbId, historyTableId } =
+          req.body;
+        const targeting = targetingInputSchema.safeParse(req.body);
+        if (!targeting.success) {
+          return res.status(400).json({
+            error: "Invalid targeting rules",
+            details: targeting.error.errors,
+          });
+        }
+
+        const mapping = await getExportMappingV2(
+          databaseId,
+          masterTableId,
+          historyDbId || null,
+          historyTableId || null,
+          resolveTargetingRule(targeting.data),
+        );
+
+        res.json(mapping);
+      } catch (error) {
+        console.error("Error building export mapping v2:", error);
+        res.status(500).json({
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to build export mapping",
+        });
+      }
+    },
+  );
+
+  app.post("/api/ai/export-v2", requireRole("analyst"), async (req, res) => {
+    try {
+      const parsed = campaignRunRequestSchemaV2.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Invalid request body",
+          details: parsed.error.errors,
+        });
+      }
+      const body = parsed.data;
+
+      if (
+        body.campaignId &&
+        !(await getStorage().getCampaign(body.campaignId))
+      ) {
+        return res.status(404).json({ error: "Campaign not found" });
+      }
+      if (!body.campaignCode && body.historyTableId) {
+        return res.status(400).json({
+          error: "Campaign code is required when using a suppression list.",
+        });
+      }
+      if (body.historyTableId && !hasRole(req.user, "operator")) {
+        return res.status(403).json({
+          error: "Only campaign operators may write to the suppression list",
+        });
+      }
+
+      // Saved exports are recorded as a run, which keeps the control group's file
+      // and lets the write-back be rolled back
+      if (body.campaignId || body.saveCampaign) {
+        const campaign = await saveCampaignForRun(
+          body.campaignId,
+          campaignDefinitionFromRequest(body),
+        );
+        const { run, ...file } = await runCampaignExport(
+          campaign,
+          req.user?.username ?? null,
+        );
+        res.setHeader("X-Campaign-Id", String(campaign.id));
+        res.setHeader("X-Campaign-Run-Id", String(run.id));
+        return sendCampaignExport(res, file);
+      }
+
+      if (body.holdoutPercent > 0) {
+        return res.status(400).json({
+          error:
+            "Save the campaign to export a holdout: its control group file is kept on the campaign run.",
+        });
+      }
+      const campaignCode = sanitizeCampaignCode(body.campaignCode);
+      // No run to attach the write-back log to, so it can't be rolled back
+      const { controlCsv, insertedRows, ...file } =
+        await runMarketingExportAndLogV2(
+          body.databaseId,
+          body.masterTableId,
+          body.historyDbId || null,
+          body.historyTableId || null,
+          resolveTargetingRule(body),
+          body.contactCap,
+          body.excludeDays,
+          body.frequencyCaps,
+          body.holdoutPercent,
+          body.splitCells,
+          campaignCode,
+          body.filterEmailsOnly,
+          { birthdayFilter: body.birthdayFilter, ageRange: body.ageRange },
+        );
+      sendCampaignExport(res, {
+        ...file,
+        fileName: `campaign-${campaignCode || "export"}.csv`,
+      });
+    } catch (error) {
+      console.error("Error exporting v2:", error);
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to export list",
       });
     }
   });
 
   // ── AI SQL Analysis for Data Filter tool ────────────────────────────
-  app.post("/api/ai/sql-analysis", async (req, res) => {
+  app.post("/api/ai/sql-analysis", requireRole("analyst"), async (req, res) => {
     try {
       const { prompt, databaseId, tableId } = req.body;
       if (!prompt || !databaseId || !tableId) {
@@ -515,6 +1005,15 @@ export async function registerRoutes(
           error: "prompt, databaseId, and tableId are required",
         });
       }
+      // Arbitrary SQL is admin-only outside the databases allowed for analysis
+      if (
+        !hasRole(req.user, "admin") &&
+        !getSqlAnalysisDatabaseIds().includes(Number(databaseId))
+      ) {
+        return res.status(403).json({
+          error: "SQL analysis on this database requires the admin role",
+        });
+      }
 
       // Fetch all tables + fields for the database so AI can suggest JOINs
       const allTables = await getTables(databaseId);
@@ -555,22 +1054,25 @@ export async function registerRoutes(
         });
       }
 
-      // Safety: block any non-SELECT statements
-      const sqlTrimmed = analysis.sql.trim().toUpperCase();
-      if (
-        !sqlTrimmed.startsWith("SELECT") ||
-        /\b(INSERT|UPDATE|DELETE|DROP|ALTER|CREATE|TRUNCATE|EXEC|EXECUTE|MERGE)\b/.test(
-          sqlTrimmed,
-        )
-      ) {
+      // Safety: a single read-only SELECT over this database's tables, row-capped
+      const safety = validateAnalysisSql(
+        analysis.sql,
+        allTables.map((t) => ({ name: t.name, schema: t.schema })),
+        SQL_ANALYSIS_ROW_LIMIT,
+      );
+      if (!safety.ok) {
         return res.status(400).json({
-          error: "Only SELECT queries are allowed.",
+          error: "The generated SQL failed safety checks",
           sql: analysis.sql,
+          explanation: analysis.explanation,
+          violations: safety.violations,
         });
       }
 
-      // Step 2: Execute the SQL against Metabase
-      const result = await runNativeQuery(databaseId, analysis.sql);
+      // Step 2: Execute the SQL
+      const result = await runNativeQuery(databaseId, safety.sql, [], {
+        timeoutMs: SQL_ANALYSIS_TIMEOUT_MS,
+      });
 
       const columns = (result.cols || []).map((c: any) => ({
         name: c.name,
@@ -578,24 +1080,32 @@ export async function registerRoutes(
         base_type: c.base_type || "type/Text",
       }));
 
-      const rows = (result.rows || []).map((row: any[]) => {
-        const record: Record<string, any> = {};
-        columns.forEach((col: any, i: number) => {
-          record[col.name] = row[i];
+      // Each branch of a UNION gets its own TOP, so cap the combined result too
+      const rows = (result.rows || [])
+        .slice(0, SQL_ANALYSIS_ROW_LIMIT)
+        .map((row: any[]) => {
+          const record: Record<string, any> = {};
+          columns.forEach((col: any, i: number) => {
+            record[col.name] = row[i];
+          });
+          return record;
         });
-        return record;
-      });
 
       res.json({
-        sql: analysis.sql,
+        sql: safety.sql,
         explanation: analysis.explanation,
         columns,
         rows,
         chartConfig: analysis.chartConfig,
         rowCount: rows.length,
+        rowLimit: SQL_ANALYSIS_ROW_LIMIT,
+        rowLimitApplied: safety.rowLimitApplied,
       });
     } catch (error) {
       console.error("Error running AI SQL analysis:", error);
+      if (error instanceof LlmResponseError) {
+        return sendLlmResponseError(res, error);
+      }
       const errMsg =
         error instanceof Error ? error.message : "Failed to run analysis";
       // Return the error but also the SQL so the user can see what failed
@@ -603,50 +1113,925 @@ export async function registerRoutes(
     }
   });
 
-  // Email Marketing Tool - AI Routes
-  app.post("/api/ai/analyze-concept", async (req, res) => {
+  // ── Campaign Registry ───────────────────────────────────────────────
+  app.get("/api/campaigns", requireRole("viewer"), async (req, res) => {
     try {
-      const parsed = analyzeConceptSchema.safeParse(req.body);
+      res.json(await getStorage().listCampaigns());
+    } catch (error) {
+      console.error("Error listing campaigns:", error);
+      res.status(500).json({
+        error:
+          error instanceof Error ? error.message : "Failed to list campaigns",
+      });
+    }
+  });
+
+  app.post("/api/campaigns", requireRole("analyst"), async (req, res) => {
+    try {
+      const parsed = insertCampaignSchema.safeParse(req.body);
       if (!parsed.success) {
         return res.status(400).json({
           error: "Invalid request body",
           details: parsed.error.errors,
         });
       }
+      res.status(201).json(await getStorage().createCampaign(parsed.data));
+    } catch (error) {
+      console.error("Error creating campaign:", error);
+      res.status(500).json({
+        error:
+          error instanceof Error ? error.message : "Failed to create campaign",
+      });
+    }
+  });
 
-      const { concept, databaseId, tableId } = parsed.data;
+  // Re-open: the saved definition plus its run history (newest first)
+  app.get("/api/campaigns/:id", requireRole("viewer"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid campaign ID" });
+      }
+      const campaign = await getStorage().getCampaign(id);
+      if (!campaign) {
+        return res.status(404).json({ error: "Campaign not found" });
+      }
+      const runs = await getStorage().listCampaignRuns(id);
+      res.json({ ...campaign, runs });
+    } catch (error) {
+      console.error("Error fetching campaign:", error);
+      res.status(500).json({
+        error:
+          error instanceof Error ? error.message : "Failed to fetch campaign",
+      });
+    }
+  });
 
-      if (tableId) {
-        const fields = await getFields(tableId);
-        const analysis = await analyzeMarketingConcept(concept, fields);
-        res.json(analysis);
-      } else {
-        const tables = await getTables(databaseId);
-        const tablesWithFields: TableWithFields[] = await Promise.all(
-          tables.map(async (table) => {
-            const fields = await getFields(table.id);
-            return {
-              id: table.id,
-              name: table.name,
-              display_name: table.display_name,
-              fields,
-            };
-          }),
-        );
-        const analysis = await analyzeMarketingConceptMultiTable(
-          concept,
-          tablesWithFields,
-        );
-        res.json(analysis);
+  app.patch("/api/campaigns/:id", requireRole("analyst"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid campaign ID" });
+      }
+      const parsed = updateCampaignSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Invalid request body",
+          details: parsed.error.errors,
+        });
+      }
+      const campaign = await getStorage().updateCampaign(id, parsed.data);
+      if (!campaign) {
+        return res.status(404).json({ error: "Campaign not found" });
       }
+      res.json(campaign);
     } catch (error) {
-      console.error("Error analyzing concept:", error);
+      console.error("Error updating campaign:", error);
       res.status(500).json({
         error:
-          error instanceof Error ? error.message : "Failed to analyze concept",
+          error instanceof Error ? error.message : "Failed to update campaign",
       });
     }
   });
 
+  app.post(
+    "/api/campaigns/:id/clone",
+    requireRole("analyst"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id, 10);
+        if (isNaN(id)) {
+          return res.status(400).json({ error: "Invalid campaign ID" });
+        }
+        const source = await getStorage().getCampaign(id);
+        if (!source) {
+          return res.status(404).json({ error: "Campaign not found" });
+        }
+        const name =
+          typeof req.body?.name === "string" ? req.body.name : undefined;
+        res.status(201).json(await cloneCampaign(source, name));
+      } catch (error) {
+        console.error("Error cloning campaign:", error);
+        res.status(500).json({
+          error:
+            error instanceof Error ? error.message : "Failed to clone campaign",
+        });
+      }
+    },
+  );
+
+  app.post(
+    "/api/campaigns/:id/preview",
+    requireRole("analyst"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id, 10);
+        if (isNaN(id)) {
+          return res.status(400).json({ error: "Invalid campaign ID" });
+        }
+        const campaign = await getStorage().getCampaign(id);
+        if (!campaign) {
+          return res.status(404).json({ error: "Campaign not found" });
+        }
+        const { run, preview } = await runCampaignPreview(
+          campaign,
+          req.user?.username ?? null,
+        );
+        res.json({
+          ...preview,
+          campaignId: campaign.id,
+          campaignRunId: run.id,
+        });
+      } catch (error) {
+        console.error("Error previewing campaign:", error);
+        res.status(500).json({
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to preview campaign",
+        });
+      }
+    },
+  );
+
+  // Re-run: exports the saved definition again and logs it to suppression
+  app.post(
+    "/api/campaigns/:id/run",
+    requireRole("analyst"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id, 10);
+        if (isNaN(id)) {
+          return res.status(400).json({ error: "Invalid campaign ID" });
+        }
+        const campaign = await getStorage().getCampaign(id);
+        if (!campaign) {
+          return res.status(404).json({ error: "Campaign not found" });
+        }
+        if (!campaign.campaignCode && campaign.historyTableId) {
+          return res.status(400).json({
+            error: "Campaign code is required when using a suppression list.",
+          });
+        }
+        if (campaign.historyTableId && !hasRole(req.user, "operator")) {
+          return res.status(403).json({
+            error: "Only campaign operators may write to the suppression list",
+          });
+        }
+        const { run, ...file } = await runCampaignExport(
+          campaign,
+          req.user?.username ?? null,
+        );
+        res.setHeader("X-Campaign-Id", String(campaign.id));
+        res.setHeader("X-Campaign-Run-Id", String(run.id));
+        sendCampaignExport(res, file);
+      } catch (error) {
+        console.error("Error running campaign:", error);
+        res.status(500).json({
+          error:
+            error instanceof Error ? error.message : "Failed to run campaign",
+        });
+      }
+    },
+  );
+
+  // Files an export run kept besides the download, e.g. the holdout's control group
+  app.get(
+    "/api/campaigns/:id/runs/:runId/files/:name",
+    requireRole("analyst"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id, 10);
+        const runId = parseInt(req.params.runId, 10);
+        if (isNaN(id) || isNaN(runId)) {
+          return res.status(400).json({ error: "Invalid campaign or run ID" });
+        }
+        const runs = await getStorage().listCampaignRuns(id);
+        const file = runs.some((r) => r.id === runId)
+          ? await getStorage().getCampaignRunFile(runId, req.params.name)
+          : undefined;
+        if (!file) {
+          return res.status(404).json({ error: "Run file not found" });
+        }
+        res.setHeader("Content-Type", "text/csv");
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="${file.fileName}"`,
+        );
+        res.send(file.content);
+      } catch (error) {
+        console.error("Error fetching campaign run file:", error);
+        res.status(500).json({
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to fetch campaign run file",
+        });
+      }
+    },
+  );
+
+  // Rollback: deletes exactly the suppression rows one export run logged
+  app.post(
+    "/api/campaigns/:id/runs/:runId/rollback",
+    requireRole("operator"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id, 10);
+        const runId = parseInt(req.params.runId, 10);
+        if (isNaN(id) || isNaN(runId)) {
+          return res.status(400).json({ error: "Invalid campaign or run ID" });
+        }
+        const runs = await getStorage().listCampaignRuns(id);
+        const run = runs.find((r) => r.id === runId);
+        if (!run) {
+          return res.status(404).json({ error: "Campaign run not found" });
+        }
+        if (run.rolledBackAt) {
+          return res.status(400).json({
+            error: `Run ${run.id} was already rolled back by ${run.rolledBackBy ?? "an unknown user"}`,
+          });
+        }
+        const log = await getStorage().getSuppressionWriteBackLog(run.id);
+        if (!log) {
+          return res.status(400).json({
+            error:
+              "This run did not log any rows to the suppression list that can be rolled back",
+          });
+        }
+        res.json(
+          await rollbackCampaignRun(run, log, req.user?.username ?? null),
+        );
+      } catch (error) {
+        console.error("Error rolling back campaign run:", error);
+        res.status(500).json({
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to roll back campaign run",
+        });
+      }
+    },
+  );
+
+  // ── Suppression mapping profiles ────────────────────────────────────
+  app.get(
+    "/api/suppression-mappings",
+    requireRole("analyst"),
+    async (req, res) => {
+      try {
+        res.json(await getStorage().listSuppressionMappings());
+      } catch (error) {
+        console.error("Error listing suppression mappings:", error);
+        res.status(500).json({
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to list suppression mappings",
+        });
+      }
+    },
+  );
+
+  // One profile per (master table, history table) pair; saving replaces it
+  app.put(
+    "/api/suppression-mappings",
+    requireRole("operator"),
+    async (req, res) => {
+      try {
+        const parsed = insertSuppressionMappingSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            error: "Invalid request body",
+            details: parsed.error.errors,
+          });
+        }
+        const mapping = parsed.data;
+
+        const [masterFields, historyFields] = await Promise.all([
+          getFields(mapping.masterTableId),
+          getFields(mapping.historyTableId),
+        ]);
+        const masterColumns = new Set(masterFields.map((f) => f.name));
+        const historyColumns = new Set(historyFields.map((f) => f.name));
+        const unknown = [
+          ...[mapping.sourceRefColumn, mapping.sourceSystemColumn].filter(
+            (c): c is string => !!c && !masterColumns.has(c),
+          ),
+          ...[
+            mapping.historyRefColumn,
+            mapping.historyCampaignCodeColumn,
+            mapping.historySourceSystemColumn,
+            mapping.historySentDateColumn,
+          ].filter((c): c is string => !!c && !historyColumns.has(c)),
+        ];
+        if (unknown.length > 0) {
+          return res.status(400).json({
+            error: `Unknown column(s): ${unknown.join(", ")}`,
+          });
+        }
+
+        res.json(
+          await getStorage().saveSuppressionMapping(
+            mapping,
+            req.user?.username ?? null,
+          ),
+        );
+      } catch (error) {
+        console.error("Error saving suppression mapping:", error);
+        res.status(500).json({
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to save suppression mapping",
+        });
+      }
+    },
+  );
+
+  // Removing a profile returns the pair to column detection
+  app.delete(
+    "/api/suppression-mappings/:id",
+    requireRole("operator"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id, 10);
+        if (isNaN(id)) {
+          return res.status(400).json({ error: "Invalid mapping ID" });
+        }
+        if (!(await getStorage().deleteSuppressionMapping(id))) {
+          return res.status(404).json({ error: "Mapping not found" });
+        }
+        res.status(204).end();
+      } catch (error) {
+        console.error("Error deleting suppression mapping:", error);
+        res.status(500).json({
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to delete suppression mapping",
+        });
+      }
+    },
+  );
+
+  // ── Suppression list management ─────────────────────────────────────
+  // Query params: historyDbId, historyTableId, and optionally databaseId +
+  // masterTableId to use that pair's saved mapping profile
+  app.get(
+    "/api/suppression/entries",
+    requireRole("analyst"),
+    async (req, res) => {
+      try {
+        const parsed = suppressionEntriesQuerySchema.safeParse(req.query);
+        if (!parsed.success) {
+          return res.status(400).json({
+            error: "Invalid query parameters",
+            details: parsed.error.errors,
+          });
+        }
+        res.json(await listSuppressionEntries(parsed.data));
+      } catch (error) {
+        console.error("Error listing suppression entries:", error);
+        res.status(500).json({
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to list suppression entries",
+        });
+      }
+    },
+  );
+
+  // Per-campaign counts (filtered by source system / date range when given)
+  app.get(
+    "/api/suppression/campaigns",
+    requireRole("analyst"),
+    async (req, res) => {
+      try {
+        const parsed = suppressionCampaignsQuerySchema.safeParse(req.query);
+        if (!parsed.success) {
+          return res.status(400).json({
+            error: "Invalid query parameters",
+            details: parsed.error.errors,
+          });
+        }
+        res.json(await listSuppressionCampaigns(parsed.data));
+      } catch (error) {
+        console.error("Error listing suppression campaigns:", error);
+        res.status(500).json({
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to list suppression campaigns",
+        });
+      }
+    },
+  );
+
+  // Removes every entry logged under a campaign code (e.g. an accidental export)
+  app.delete(
+    "/api/suppression/campaigns/:code",
+    requireRole("operator"),
+    async (req, res) => {
+      try {
+        const parsed = suppressionTableQuerySchema.safeParse(req.query);
+        if (!parsed.success) {
+          return res.status(400).json({
+            error: "Invalid query parameters",
+            details: parsed.error.errors,
+          });
+        }
+        const { deleted } = await removeSuppressionCampaign(
+          parsed.data,
+          req.params.code,
+        );
+        if (deleted === 0) {
+          return res
+            .status(404)
+            .json({ error: "No suppression entries for this campaign code" });
+        }
+        res.json({ campaignCode: req.params.code, deleted });
+      } catch (error) {
+        console.error("Error removing suppression campaign:", error);
+        res.status(500).json({
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to remove suppression campaign",
+        });
+      }
+    },
+  );
+
+  app.post(
+    "/api/suppression/entries",
+    requireRole("operator"),
+    async (req, res) => {
+      try {
+        const parsed = addSuppressionEntriesSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            error: "Invalid request body",
+            details: parsed.error.errors,
+          });
+        }
+        const { refs, ...target } = parsed.data;
+        res.json(await addSuppressionEntries(target, refs));
+      } catch (error) {
+        console.error("Error adding suppression entries:", error);
+        res.status(500).json({
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to add suppression entries",
+        });
+      }
+    },
+  );
+
+  // Bulk upload: the body is the CSV itself (text/csv), target and campaign code
+  // in the query string, so large files aren't limited by the JSON body size
+  app.post(
+    "/api/suppression/upload",
+    requireRole("operator"),
+    express.text({ type: ["text/csv", "text/plain"], limit: "20mb" }),
+    async (req, res) => {
+      try {
+        const parsed = suppressionUploadQuerySchema.safeParse(req.query);
+        if (!parsed.success) {
+          return res.status(400).json({
+            error: "Invalid query parameters",
+            details: parsed.error.errors,
+          });
+        }
+        if (typeof req.body !== "string" || req.body.trim() === "") {
+          return res
+            .status(400)
+            .json({ error: "Upload a CSV file with Content-Type text/csv" });
+        }
+        const mapping = await getSuppressionTableMapping(parsed.data);
+        const refs = parseReferenceCsv(req.body, mapping.refColumn);
+        if (refs.length === 0) {
+          return res
+            .status(400)
+            .json({ error: "The file contains no references" });
+        }
+        res.json(await addSuppressionEntries(parsed.data, refs));
+      } catch (error) {
+        console.error("Error uploading suppression entries:", error);
+        res.status(500).json({
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to upload suppression entries",
+        });
+      }
+    },
+  );
+
+  // ── Do-not-contact list ─────────────────────────────────────────────
+  // Permanent opt-outs, removed from every preview and export (see do-not-contact.ts)
+  app.get("/api/do-not-contact", requireRole("analyst"), async (req, res) => {
+    try {
+      const parsed = doNotContactQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Invalid query parameters",
+          details: parsed.error.errors,
+        });
+      }
+      res.json(await listDoNotContact(parsed.data));
+    } catch (error) {
+      console.error("Error listing do-not-contact entries:", error);
+      res.status(500).json({
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to list do-not-contact entries",
+      });
+    }
+  });
+
+  app.post("/api/do-not-contact", requireRole("operator"), async (req, res) => {
+    try {
+      const parsed = addDoNotContactSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Invalid request body",
+          details: parsed.error.errors,
+        });
+      }
+      res.json(await addDoNotContact(parsed.data, req.user?.username ?? null));
+    } catch (error) {
+      console.error("Error adding do-not-contact entries:", error);
+      res.status(500).json({
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to add do-not-contact entries",
+      });
+    }
+  });
+
+  // Same body convention as /api/suppression/upload: the CSV itself as text/csv
+  app.post(
+    "/api/do-not-contact/upload",
+    requireRole("operator"),
+    express.text({ type: ["text/csv", "text/plain"], limit: "20mb" }),
+    async (req, res) => {
+      try {
+        const parsed = doNotContactUploadQuerySchema.safeParse(req.query);
+        if (!parsed.success) {
+          return res.status(400).json({
+            error: "Invalid query parameters",
+            details: parsed.error.errors,
+          });
+        }
+        if (typeof req.body !== "string" || req.body.trim() === "") {
+          return res
+            .status(400)
+            .json({ error: "Upload a CSV file with Content-Type text/csv" });
+        }
+        const values = parseCsvColumn(
+          req.body,
+          DO_NOT_CONTACT_CSV_HEADERS[parsed.data.type],
+        );
+        if (values.length === 0) {
+          return res.status(400).json({ error: "The file contains no values" });
+        }
+        res.json(
+          await addDoNotContact(
+            { ...parsed.data, values },
+            req.user?.username ?? null,
+          ),
+        );
+      } catch (error) {
+        console.error("Error uploading do-not-contact entries:", error);
+        res.status(500).json({
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to upload do-not-contact entries",
+        });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/do-not-contact/:id",
+    requireRole("operator"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id, 10);
+        if (isNaN(id)) {
+          return res.status(400).json({ error: "Invalid entry ID" });
+        }
+        if (!(await getStorage().deleteDoNotContact(id))) {
+          return res.status(404).json({ error: "Entry not found" });
+        }
+        console.log(
+          `Do-not-contact entry ${id} removed by ${req.user?.username ?? "(unknown)"}`,
+        );
+        res.status(204).end();
+      } catch (error) {
+        console.error("Error deleting do-not-contact entry:", error);
+        res.status(500).json({
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to delete do-not-contact entry",
+        });
+      }
+    },
+  );
+
+  // ── BrainWorks Analysis Tool ────────────────────────────────────────
+  app.get(
+    "/api/brainworks/database",
+    requireRole("viewer"),
+    async (req, res) => {
+      try {
+        const result = await getBrainworksDatabase();
+        res.json(result);
+      } catch (error) {
+        console.error("Error fetching BrainWorks database:", error);
+        res.status(500).json({
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to fetch BrainWorks database",
+        });
+      }
+    },
+  );
+
+  app.post(
+    "/api/brainworks/analysis",
+    requireRole("analyst"),
+    async (req, res) => {
+      try {
+        const parsed = brainworksAnalysisSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            error: "Invalid request body",
+            details: parsed.error.errors,
+          });
+        }
+
+        const { modelId, databaseId, tableId } = parsed.data;
+        const result = await runBrainworksAnalysis(
+          databaseId,
+          tableId,
+          modelId,
+        );
+        res.json(result);
+      } catch (error) {
+        console.error("Error running BrainWorks analysis:", error);
+        res.status(500).json({
+          error:
+            error instanceof Error ? error.message : "Failed to run analysis",
+        });
+      }
+    },
+  );
+
+  // ── Trends & ICP SQL Analysis (database-driven, no AI counting) ──────
+  app.get("/api/analysis/snapshot", requireRole("viewer"), async (req, res) => {
+    try {
+      const snapshot = await getCrossSellSnapshot();
+      res.json(snapshot);
+    } catch (error) {
+      console.error("Error fetching cross-sell snapshot:", error);
+      res.status(500).json({
+        error:
+          error instanceof Error ? error.message : "Failed to fetch snapshot",
+      });
+    }
+  });
+
+  app.get("/api/analysis/icp", requireRole("viewer"), async (req, res) => {
+    try {
+      const icp = await getTopICPSegments();
+      res.json(icp);
+    } catch (error) {
+      console.error("Error fetching ICP segments:", error);
+      res.status(500).json({
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to fetch ICP segments",
+      });
+    }
+  });
+
+  app.post(
+    "/api/analysis/ai-summary",
+    requireRole("analyst"),
+    async (req, res) => {
+      try {
+        const parsed = analysisSummarySchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            error: "Invalid request body",
+            details: parsed.error.errors,
+          });
+        }
+
+        const { snapshot, icpSegments } = parsed.data;
+
+        // Only pre-aggregated numbers are sent to the model, never raw rows
+        const summary = await generateAnalysisSummary(
+          {
+            totalCustomers: snapshot.totalCustomers,
+            glBuyers: snapshot.buyers.GL,
+            tsiBuyers: snapshot.buyers.TSI,
+            syBuyers: snapshot.buyers.SY,
+            mdBuyers: snapshot.buyers.MD,
+            glTsiOverlap: snapshot.overlap.GL_TSI,
+            glMdOverlap: snapshot.overlap.GL_MD,
+            syGlOverlap: snapshot.overlap.SY_GL,
+          },
+          icpSegments.map((s) => ({
+            gender: s.gender,
+            ageGroup: s.ageGroup,
+            location: s.location,
+            customerCount: s.customerCount,
+            avgTotalLtv: s.avgTotalLTV,
+            // The page reports rates as percentages; the summary expects 0..1
+            mobileRate: s.mobileRate / 100,
+            emailRate: s.emailRate / 100,
+          })),
+        );
+        res.json(summary);
+      } catch (error) {
+        console.error("Error generating analysis summary:", error);
+        if (error instanceof LlmResponseError) {
+          return sendLlmResponseError(res, error);
+        }
+        res.status(500).json({
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to generate analysis summary",
+        });
+      }
+    },
+  );
+
+  app.post(
+    "/api/analysis/icp/customers",
+    requireRole("analyst"),
+    async (req, res) => {
+      try {
+        const parsed = icpCustomersQuerySchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            error: "Invalid request body",
+            details: parsed.error.errors,
+          });
+        }
+
+        const { page, ...filter } = parsed.data;
+        const result = await getICPSegmentCustomers(filter, page);
+        res.json(result);
+      } catch (error) {
+        console.error("Error fetching ICP segment customers:", error);
+        res.status(500).json({
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to fetch segment customers",
+        });
+      }
+    },
+  );
+
+  app.get(
+    "/api/analysis/icp/export",
+    requireRole("analyst"),
+    async (req, res) => {
+      const parsed = icpSegmentFilterSchema.safeParse({
+        gender: req.query.gender,
+        ageGroup: req.query.ageGroup,
+        location: req.query.location,
+        excludeMailed: req.query.excludeMailed === "true",
+      });
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Invalid query parameters",
+          details: parsed.error.errors,
+        });
+      }
+
+      const filter = parsed.data;
+      const safeName = [filter.gender, filter.ageGroup, filter.location]
+        .join("_")
+        .replace(/[^a-zA-Z0-9_\-]/g, "");
+
+      try {
+        // Headers are only committed once the first batch arrives, so a failing
+        // query can still be reported as a JSON 500
+        const startCsv = () => {
+          if (res.headersSent) return;
+          res.setHeader("Content-Type", "text/csv; charset=utf-8");
+          res.setHeader(
+            "Content-Disposition",
+            `attachment; filename="icp-segment-${safeName || "export"}.csv"`,
+          );
+          // The do-not-contact count is only known once every batch is written
+          res.setHeader("Trailer", "X-Compliance-Excluded-Count");
+          res.write(ICP_EXPORT_HEADERS.join(",") + "\n");
+        };
+
+        const exclusions = { complianceExcluded: 0 };
+        for await (const batch of iterateICPSegmentCustomers(
+          filter,
+          exclusions,
+        )) {
+          startCsv();
+          for (const customer of batch) {
+            res.write(icpCustomerToCsvRow(customer) + "\n");
+          }
+        }
+        startCsv();
+        res.addTrailers({
+          "X-Compliance-Excluded-Count": String(exclusions.complianceExcluded),
+        });
+        res.end();
+        if (exclusions.complianceExcluded > 0) {
+          console.log(
+            `ICP export ${safeName}: ${exclusions.complianceExcluded} customer(s) left out by the do-not-contact list`,
+          );
+        }
+      } catch (error) {
+        console.error("Error exporting ICP segment:", error);
+        if (res.headersSent) {
+          // Mid-stream failure: the client sees a truncated file, so cut the connection
+          res.destroy(error instanceof Error ? error : undefined);
+          return;
+        }
+        res.status(500).json({
+          error:
+            error instanceof Error ? error.message : "Failed to export segment",
+        });
+      }
+    },
+  );
+
+  // Email Marketing Tool - AI Routes
+  app.post(
+    "/api/ai/analyze-concept",
+    requireRole("analyst"),
+    async (req, res) => {
+      try {
+        const parsed = analyzeConceptSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            error: "Invalid request body",
+            details: parsed.error.errors,
+          });
+        }
+
+        const { concept, databaseId, tableId } = parsed.data;
+
+        if (tableId) {
+          const fields = await getFields(tableId);
+          const analysis = await analyzeMarketingConcept(concept, fields);
+          res.json(analysis);
+        } else {
+          const tables = await getTables(databaseId);
+          const tablesWithFields: TableWithFields[] = await Promise.all(
+            tables.map(async (table) => {
+              const fields = await getFields(table.id);
+              return {
+                id: table.id,
+                name: table.name,
+                display_name: table.display_name,
+                fields,
+              };
+            }),
+          );
+          const analysis = await analyzeMarketingConceptMultiTable(
+            concept,
+            tablesWithFields,
+          );
+          res.json(analysis);
+        }
+      } catch (error) {
+        console.error("Error analyzing concept:", error);
+        if (error instanceof LlmResponseError) {
+          return sendLlmResponseError(res, error);
+        }
+        res.status(500).json({
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to analyze concept",
+        });
+      }
+    },
+  );
+
   return httpServer;
 }
@@ -0,0 +1,734 @@
+// ── SQL safety for AI-generated analysis queries ─────────────────────
+// AI-written T-SQL is tokenized (so keywords inside strings, comments and bracketed
+// names are never mistaken for statements) and must be a single read-only SELECT
+// over tables of the selected database. The outermost SELECTs get a row limit
+// (TOP / FETCH) before the query is run.
+
+// Row cap and run time for AI analysis queries
+export const SQL_ANALYSIS_ROW_LIMIT = 2000;
+export const SQL_ANALYSIS_TIMEOUT_MS = 30 * 1000;
+
+export type SqlTokenType =
+  | "word"
+  | "quoted_identifier"
+  | "string"
+  | "number"
+  | "variable"
+  | "temp_name"
+  | "operator"
+  | "punct";
+
+export interface SqlToken {
+  type: SqlTokenType;
+  value: string; // identifier text without brackets/quotes; raw text otherwise
+  start: number;
+  end: number;
+  depth: number; // parenthesis depth the token sits at
+}
+
+export type SqlViolationCode =
+  | "parse_error"
+  | "empty"
+  | "not_select"
+  | "multiple_statements"
+  | "forbidden_keyword"
+  | "select_into"
+  | "external_data"
+  | "variable_not_allowed"
+  | "temp_table"
+  | "function_not_allowed"
+  | "cross_database"
+  | "table_not_allowed";
+
+export interface SqlViolation {
+  code: SqlViolationCode;
+  message: string;
+  token?: string;
+  position?: number;
+}
+
+export interface AllowedTable {
+  name: string;
+  schema?: string | null;
+}
+
+export type SqlSafetyResult =
+  | {
+      ok: true;
+      sql: string; // with the row limit applied
+      tables: string[]; // referenced tables, as named in the database
+      rowLimitApplied: boolean;
+    }
+  | { ok: false; violations: SqlViolation[] };
+
+// ── Tokenizer ───────────────────────────────────────────────────────
+
+// Identifiers may contain any non-ASCII letters (Japanese column names etc.)
+const WORD_RE = /^[A-Za-z_\u00C0-\uFFFF][\w@$#\u00C0-\uFFFF]*/;
+const NUMBER_RE = /^(?:0x[0-9a-f]*|(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)/i;
+const VARIABLE_RE = /^@@?[\w@$#\u00C0-\uFFFF]*/;
+const TEMP_RE = /^##?[\w@$#\u00C0-\uFFFF]*/;
+const TWO_CHAR_OPERATORS = ["<>", "!=", "<=", ">=", "!<", "!>", "::"];
+const OPERATOR_CHARS = "+-*/%=<>&|^~!";
+const PUNCT_CHARS = "(),.;";
+
+function matchAt(re: RegExp, text: string, pos: number): string | null {
+  const m = re.exec(text.slice(pos));
+  return m ? m[0] : null;
+}
+
+// Scans a delimited literal/identifier where a doubled closer escapes itself
+function scanDelimited(
+  text: string,
+  from: number,
+  closer: string,
+): { value: string; end: number } | null {
+  let value = "";
+  let i = from;
+  while (i < text.length) {
+    if (text[i] === closer) {
+      if (text[i + 1] === closer) {
+        value += closer;
+        i += 2;
+        continue;
+      }
+      return { value, end: i + 1 };
+    }
+    value += text[i];
+    i++;
+  }
+  return null;
+}
+
+export function tokenizeSql(text: string): {
+  tokens: SqlToken[];
+  error: SqlViolation | null;
+} {
+  const tokens: SqlToken[] = [];
+  let depth = 0;
+  let i = 0;
+
+  const fail = (message: string, position: number) => ({
+    tokens,
+    error: { code: "parse_error" as const, message, position },
+  });
+  const push = (
+    type: SqlTokenType,
+    value: string,
+    start: number,
+    end: number,
+  ) => tokens.push({ type, value, start, end, depth });
+
+  while (i < text.length) {
+    const ch = text[i];
+    const next = text[i + 1];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === "-" && next === "-") {
+      const newline = text.indexOf("\n", i);
+      i = newline === -1 ? text.length : newline + 1;
+      continue;
+    }
+
+    // T-SQL block comments nest
+    if (ch === "/" && next === "*") {
+      let nesting = 0;
+      let j = i;
+      while (j < text.length) {
+        if (text[j] === "/" && text[j + 1] === "*") {
+          nesting++;
+          j += 2;
+        } else if (text[j] === "*" && text[j + 1] === "/") {
+          nesting--;
+          j += 2;
+          if (nesting === 0) break;
+        } else {
+          j++;
+        }
+      }
+      if (nesting !== 0) return fail("Unterminated block comment", i);
+      i = j;
+      continue;
+    }
+
+    if (ch === "'" || ((ch === "N" || ch === "n") && next === "'")) {
+      const open = ch === "'" ? i : i + 1;
+      const scanned = scanDelimited(text, open + 1, "'");
+      if (!scanned) return fail("Unterminated string literal", i);
+      push("string", text.slice(i, scanned.end), i, scanned.end);
+      i = scanned.end;
+      continue;
+    }
+
+    if (ch === "[" || ch === '"') {
+      const scanned = scanDelimited(text, i + 1, ch === "[" ? "]" : '"');
+      if (!scanned) return fail("Unterminated quoted identifier", i);
+      push("quoted_identifier", scanned.value, i, scanned.end);
+      i = scanned.end;
+      continue;
+    }
+
+    if (/\d/.test(ch) || (ch === "." && /\d/.test(next ?? ""))) {
+      const num = matchAt(NUMBER_RE, text, i)!;
+      push("number", num, i, i + num.length);
+      i += num.length;
+      continue;
+    }
+
+    if (ch === "@") {
+      const v = matchAt(VARIABLE_RE, text, i)!;
+      push("variable", v, i, i + v.length);
+      i += v.length;
+      continue;
+    }
+
+    if (ch === "#") {
+      const t = matchAt(TEMP_RE, text, i)!;
+      push("temp_name", t, i, i + t.length);
+      i += t.length;
+      continue;
+    }
+
+    const word = matchAt(WORD_RE, text, i);
+    if (word) {
+      push("word", word, i, i + word.length);
+      i += word.length;
+      continue;
+    }
+
+    if (PUNCT_CHARS.includes(ch)) {
+      if (ch === ")") {
+        depth--;
+        if (depth < 0) return fail("Unbalanced closing parenthesis", i);
+      }
+      push("punct", ch, i, i + 1);
+      if (ch === "(") depth++;
+      i++;
+      continue;
+    }
+
+    const two = text.slice(i, i + 2);
+    if (TWO_CHAR_OPERATORS.includes(two)) {
+      push("operator", two, i, i + 2);
+      i += 2;
+      continue;
+    }
+    if (OPERATOR_CHARS.includes(ch)) {
+      push("operator", ch, i, i + 1);
+      i++;
+      continue;
+    }
+
+    return fail(`Unexpected character "${ch}"`, i);
+  }
+
+  if (depth !== 0) return fail("Unbalanced parentheses", text.length);
+  return { tokens, error: null };
+}
+
+// ── Validation ──────────────────────────────────────────────────────
+
+// Statements and options that change data, schema, permissions or server state
+const FORBIDDEN_KEYWORDS = new Set([
+  "INSERT",
+  "UPDATE",
+  "DELETE",
+  "MERGE",
+  "DROP",
+  "ALTER",
+  "CREATE",
+  "TRUNCATE",
+  "EXEC",
+  "EXECUTE",
+  "GRANT",
+  "REVOKE",
+  "DENY",
+  "BACKUP",
+  "RESTORE",
+  "DBCC",
+  "SHUTDOWN",
+  "KILL",
+  "USE",
+  "DECLARE",
+  "SET",
+  "BEGIN",
+  "COMMIT",
+  "ROLLBACK",
+  "SAVE",
+  "RECONFIGURE",
+  "WAITFOR",
+  "BULK",
+  "READTEXT",
+  "WRITETEXT",
+  "UPDATETEXT",
+  "CHECKPOINT",
+  "ENABLE",
+  "DISABLE",
+]);
+
+// Rowset functions that read outside the database (files, linked servers)
+const EXTERNAL_DATA_KEYWORDS = new Set([
+  "OPENROWSET",
+  "OPENQUERY",
+  "OPENDATASOURCE",
+  "OPENXML",
+]);
+
+// Built-in table-valued functions that only transform their arguments
+const SAFE_TABLE_FUNCTIONS = new Set([
+  "STRING_SPLIT",
+  "OPENJSON",
+  "GENERATE_SERIES",
+]);
+
+// "FROM ( ... )" opening with one of these is a derived table or row constructor
+const DERIVED_TABLE_STARTS = new Set(["SELECT", "WITH", "VALUES"]);
+
+// Words that end a table source (so they are never read as an alias)
+const TABLE_SOURCE_TERMINATORS = new Set([
+  "WHERE",
+  "GROUP",
+  "ORDER",
+  "HAVING",
+  "JOIN",
+  "INNER",
+  "LEFT",
+  "RIGHT",
+  "FULL",
+  "CROSS",
+  "OUTER",
+  "ON",
+  "UNION",
+  "EXCEPT",
+  "INTERSECT",
+  "OPTION",
+  "FOR",
+  "WITH",
+  "PIVOT",
+  "UNPIVOT",
+  "TABLESAMPLE",
+  "OFFSET",
+  "FETCH",
+  "WINDOW",
+]);
+
+const SET_OPERATORS = new Set(["UNION", "EXCEPT", "INTERSECT"]);
+
+function upper(token: SqlToken | undefined): string {
+  return token && token.type === "word" ? token.value.toUpperCase() : "";
+}
+
+function isPunct(token: SqlToken | undefined, ch: string): boolean {
+  return !!token && token.type === "punct" && token.value === ch;
+}
+
+function isName(token: SqlToken | undefined): boolean {
+  return (
+    !!token && (token.type === "word" || token.type === "quoted_identifier")
+  );
+}
+
+// Index just past the ")" matching the "(" at `openIdx`
+function skipParens(tokens: SqlToken[], openIdx: number): number {
+  const depth = tokens[openIdx].depth;
+  let i = openIdx + 1;
+  while (
+    i < tokens.length &&
+    !(isPunct(tokens[i], ")") && tokens[i].depth === depth)
+  ) {
+    i++;
+  }
+  return i + 1;
+}
+
+class SelectValidator {
+  violations: SqlViolation[] = [];
+  tables = new Set<string>();
+  private cteNames = new Set<string>();
+
+  constructor(
+    private tokens: SqlToken[],
+    private allowedTables: AllowedTable[],
+  ) {}
+
+  private add(code: SqlViolationCode, message: string, token?: SqlToken) {
+    this.violations.push({
+      code,
+      message,
+      ...(token ? { token: token.value, position: token.start } : {}),
+    });
+  }
+
+  // Index of the main statement's first SELECT (after any CTE list), or -1
+  parseHead(): number {
+    const t = this.tokens;
+    if (upper(t[0]) === "SELECT") return 0;
+    if (upper(t[0]) !== "WITH") {
+      this.add("not_select", "Query must start with SELECT or WITH", t[0]);
+      return -1;
+    }
+
+    let i = 1;
+    while (true) {
+      if (!isName(t[i])) {
+        this.add("not_select", "Expected a CTE name after WITH", t[i]);
+        return -1;
+      }
+      this.cteNames.add(t[i].value.toLowerCase());
+      i++;
+      if (isPunct(t[i], "(")) i = skipParens(t, i); // column list
+      if (upper(t[i]) !== "AS" || !isPunct(t[i + 1], "(")) {
+        this.add("not_select", "Expected AS ( ... ) in CTE definition", t[i]);
+        return -1;
+      }
+      i = skipParens(t, i + 1);
+      if (isPunct(t[i], ",")) {
+        i++;
+        continue;
+      }
+      break;
+    }
+    if (upper(t[i]) !== "SELECT") {
+      this.add("not_select", "A WITH clause must be followed by SELECT", t[i]);
+      return -1;
+    }
+    return i;
+  }
+
+  checkTokens(mainStart: number) {
+    const t = this.tokens;
+    for (let i = 0; i < t.length; i++) {
+      const tok = t[i];
+      const word = upper(tok);
+
+      if (tok.type === "punct" && tok.value === ";") {
+        if (i !== t.length - 1) {
+          this.add(
+            "multiple_statements",
+            "Only a single statement is allowed",
+            tok,
+          );
+        }
+        continue;
+      }
+      if (tok.type === "variable") {
+        this.add("variable_not_allowed", "Variables are not allowed", tok);
+        continue;
+      }
+      if (tok.type === "temp_name") {
+        this.add("temp_table", "Temporary tables are not allowed", tok);
+        continue;
+      }
+      if (tok.type !== "word") continue;
+
+      if (word === "INTO") {
+        this.add("select_into", "SELECT ... INTO is not allowed", tok);
+      } else if (FORBIDDEN_KEYWORDS.has(word)) {
+        this.add("forbidden_keyword", `${word} is not allowed`, tok);
+      } else if (EXTERNAL_DATA_KEYWORDS.has(word)) {
+        this.add("external_data", `${word} is not allowed`, tok);
+      } else if (/^(SP|XP)_/.test(word)) {
+        this.add("forbidden_keyword", "System procedures are not allowed", tok);
+      } else if (
+        word === "SELECT" &&
+        tok.depth === 0 &&
+        i > mainStart &&
+        !SET_OPERATORS.has(upper(t[i - 1])) &&
+        !(upper(t[i - 1]) === "ALL" && SET_OPERATORS.has(upper(t[i - 2])))
+      ) {
+        // Two SELECTs back to back without a set operator are two statements
+        this.add(
+          "multiple_statements",
+          "Only a single statement is allowed",
+          tok,
+        );
+      } else if (word === "FROM" || word === "JOIN" || word === "APPLY") {
+        if (word === "FROM" && this.isNonTableFrom(i)) continue;
+        this.checkTableSources(i + 1, word === "FROM");
+      }
+    }
+  }
+
+  // FROM inside TRIM(' ' FROM x) or "IS [NOT] DISTINCT FROM" isn't a table source
+  private isNonTableFrom(i: number): boolean {
+    const t = this.tokens;
+    if (
+      upper(t[i - 1]) === "DISTINCT" &&
+      (upper(t[i - 2]) === "IS" || upper(t[i - 2]) === "NOT")
+    ) {
+      return true;
+    }
+    for (let j = i - 1; j >= 0; j--) {
+      if (isPunct(t[j], "(") && t[j].depth === t[i].depth - 1) {
+        return upper(t[j - 1]) === "TRIM";
+      }
+    }
+    return false;
+  }
+
+  private checkTableSources(start: number, allowList: boolean) {
+    const t = this.tokens;
+    let i = start;
+    while (i < t.length) {
+      if (isPunct(t[i], "(")) {
+        const close = skipParens(t, i);
+        if (!DERIVED_TABLE_STARTS.has(upper(t[i + 1]))) {
+          // Parenthesised join: "FROM (a JOIN b)" — its tables need the same checks
+          this.checkTableSources(i + 1, allowList);
+        }
+        // A derived table's own FROM is checked separately
+        i = close;
+      } else if (isName(t[i])) {
+        i = this.checkTableName(i);
+      } else {
+        return;
+      }
+
+      // Alias: [AS] name [(column list)]
+      if (upper(t[i]) === "AS") i++;
+      if (isName(t[i]) && !TABLE_SOURCE_TERMINATORS.has(upper(t[i]))) {
+        i++;
+        if (isPunct(t[i], "(")) i = skipParens(t, i);
+      }
+      // Table hints: WITH (NOLOCK)
+      if (upper(t[i]) === "WITH" && isPunct(t[i + 1], "(")) {
+        i = skipParens(t, i + 1);
+      }
+
+      if (allowList && isPunct(t[i], ",")) {
+        i++;
+        continue;
+      }
+      return;
+    }
+  }
+
+  // Validates a (possibly multi-part) table name; returns the index after it
+  private checkTableName(start: number): number {
+    const t = this.tokens;
+    const parts: SqlToken[] = [t[start]];
+    let i = start + 1;
+    while (isPunct(t[i], ".")) {
+      if (isPunct(t[i + 1], ".")) {
+        // db..table
+        parts.push({ ...t[i], type: "word", value: "" });
+        i++;
+        continue;
+      }
+      if (!isName(t[i + 1])) break;
+      parts.push(t[i + 1]);
+      i += 2;
+    }
+
+    const nameToken = parts[parts.length - 1];
+    const name = nameToken.value;
+    const display = parts.map((p) => p.value).join(".");
+
+    if (parts.length >= 3) {
+      this.add(
+        "cross_database",
+        `${display} refers to another database or server`,
+        parts[0],
+      );
+      return isPunct(t[i], "(") ? skipParens(t, i) : i;
+    }
+
+    const isCte = parts.length === 1 && this.cteNames.has(name.toLowerCase());
+    const allowed = isCte
+      ? null
+      : this.allowedTables.find(
+          (tbl) =>
+            tbl.name.toLowerCase() === name.toLowerCase() &&
+            (parts.length === 1 ||
+              !tbl.schema ||
+              tbl.schema.toLowerCase() === parts[0].value.toLowerCase()),
+        );
+
+    if (isPunct(t[i], "(")) {
+      // Legacy hint syntax "FROM t (NOLOCK)" is fine on a real table; anything
+      // else followed by "(" is a table-valued function
+      // (external rowset functions are already reported by checkTokens)
+      const knownFunction =
+        parts.length === 1 &&
+        (SAFE_TABLE_FUNCTIONS.has(name.toUpperCase()) ||
+          EXTERNAL_DATA_KEYWORDS.has(name.toUpperCase()));
+      if (!allowed && !isCte && !knownFunction) {
+        this.add(
+          "function_not_allowed",
+          `Table-valued function ${display} is not allowed`,
+          parts[0],
+        );
+      }
+      return skipParens(t, i);
+    }
+
+    if (allowed) {
+      this.tables.add(allowed.name);
+    } else if (!isCte) {
+      this.add(
+        "table_not_allowed",
+        `Table ${display} is not in the selected database`,
+        parts[0],
+      );
+    }
+    return i;
+  }
+}
+
+// ── Row limit ───────────────────────────────────────────────────────
+
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Caps every top-level SELECT of the main query at `limit` rows: an existing TOP is
+ * clamped, OFFSET/FETCH gets its FETCH clamped (TOP can't be combined with OFFSET),
+ * otherwise TOP (limit) is inserted. Set-operation branches are each capped, so the
+ * caller should still truncate the result to `limit`.
+ */
+function buildRowLimitEdits(
+  tokens: SqlToken[],
+  mainStart: number,
+  limit: number,
+): TextEdit[] {
+  const edits: TextEdit[] = [];
+  const topLevel = tokens.filter(
+    (tok, idx) => idx >= mainStart && tok.depth === 0,
+  );
+
+  const offsetIdx = topLevel.findIndex((tok) => upper(tok) === "OFFSET");
+  if (offsetIdx !== -1) {
+    const fetchIdx = topLevel.findIndex(
+      (tok, idx) => idx > offsetIdx && upper(tok) === "FETCH",
+    );
+    if (fetchIdx === -1) {
+      // OFFSET n ROWS → OFFSET n ROWS FETCH NEXT limit ROWS ONLY
+      const rowsTok = topLevel.find(
+        (tok, idx) => idx > offsetIdx && /^ROWS?$/.test(upper(tok)),
+      );
+      if (rowsTok) {
+        edits.push({
+          start: rowsTok.end,
+          end: rowsTok.end,
+          text: ` FETCH NEXT ${limit} ROWS ONLY`,
+        });
+      }
+    } else {
+      // FETCH { FIRST | NEXT } <count> { ROW | ROWS } ONLY
+      const countTok = topLevel[fetchIdx + 2];
+      const countValue =
+        countTok?.type === "number" ? Number(countTok.value) : NaN;
+      if (countTok && !(countValue <= limit)) {
+        const endTok =
+          countTok.type === "number"
+            ? countTok
+            : // parenthesised expression: (…) spans into deeper tokens
+              tokens[skipParens(tokens, tokens.indexOf(countTok)) - 1];
+        edits.push({
+          start: countTok.start,
+          end: endTok.end,
+          text: String(limit),
+        });
+      }
+    }
+    return edits;
+  }
+
+  for (let k = 0; k < topLevel.length; k++) {
+    if (upper(topLevel[k]) !== "SELECT") continue;
+    let idx = tokens.indexOf(topLevel[k]) + 1;
+    if (upper(tokens[idx]) === "DISTINCT" || upper(tokens[idx]) === "ALL")
+      idx++;
+
+    if (upper(tokens[idx]) !== "TOP") {
+      edits.push({
+        start: tokens[idx - 1].end,
+        end: tokens[idx - 1].end,
+        text: ` TOP (${limit})`,
+      });
+      continue;
+    }
+
+    // TOP n | TOP (expr) [PERCENT] [WITH TIES]
+    const topTok = tokens[idx];
+    let endIdx = idx + 1;
+    let literal: number | null = null;
+    if (isPunct(tokens[endIdx], "(")) {
+      const close = skipParens(tokens, endIdx);
+      const inner = tokens.slice(endIdx + 1, close - 1);
+      if (inner.length === 1 && inner[0].type === "number") {
+        literal = Number(inner[0].value);
+      }
+      endIdx = close;
+    } else if (tokens[endIdx]?.type === "number") {
+      literal = Number(tokens[endIdx].value);
+      endIdx++;
+    }
+    const percent = upper(tokens[endIdx]) === "PERCENT";
+    if (percent) endIdx++;
+
+    if (percent || literal === null || !(literal <= limit)) {
+      edits.push({
+        start: topTok.start,
+        end: tokens[endIdx - 1].end,
+        text: `TOP (${limit})`,
+      });
+    }
+  }
+  return edits;
+}
+
+function applyEdits(text: string, edits: TextEdit[]): string {
+  return [...edits]
+    .sort((a, b) => b.start - a.start)
+    .reduce(
+      (out, edit) => out.slice(0, edit.start) + edit.text + out.slice(edit.end),
+      text,
+    );
+}
+
+/**
+ * Validates that `sql` is a single read-only SELECT over `allowedTables` and returns
+ * it with the row limit applied, or every violation found.
+ */
+export function validateAnalysisSql(
+  sql: string,
+  allowedTables: AllowedTable[],
+  rowLimit: number,
+): SqlSafetyResult {
+  const { tokens, error } = tokenizeSql(sql);
+  if (error) return { ok: false, violations: [error] };
+  if (tokens.length === 0) {
+    return {
+      ok: false,
+      violations: [{ code: "empty", message: "The query is empty" }],
+    };
+  }
+
+  const validator = new SelectValidator(tokens, allowedTables);
+  const mainStart = validator.parseHead();
+  validator.checkTokens(Math.max(mainStart, 0));
+  if (mainStart === -1 || validator.violations.length > 0) {
+    return { ok: false, violations: validator.violations };
+  }
+
+  // Drop the trailing ";" so the statement can be limited and run as-is
+  const last = tokens[tokens.length - 1];
+  const body = isPunct(last, ";") ? sql.slice(0, last.start) : sql;
+  const bodyTokens = isPunct(last, ";") ? tokens.slice(0, -1) : tokens;
+  const edits = buildRowLimitEdits(bodyTokens, mainStart, rowLimit);
+
+  return {
+    ok: true,
+    sql: applyEdits(body, edits).trim(),
+    tables: Array.from(validator.tables),
+    rowLimitApplied: edits.length > 0,
+  };
+}
@@ -1,5 +1,32 @@
-import { type User, type InsertUser } from "@shared/schema";
+import {
+  campaigns,
+  campaignRuns,
+  campaignRunFiles,
+  suppressionWriteBackLogs,
+  suppressionMappings,
+  doNotContact,
+  users,
+  type User,
+  type InsertUser,
+  type Campaign,
+  type InsertCampaign,
+  type CampaignRun,
+  type InsertCampaignRun,
+  type CampaignSummary,
+  type CampaignRunFile,
+  type InsertCampaignRunFile,
+  type SuppressionWriteBackLog,
+  type InsertSuppressionWriteBackLog,
+  type SuppressionMapping,
+  type InsertSuppressionMapping,
+  type SuppressionTablePair,
+  type DoNotContactEntry,
+  type DoNotContactType,
+  type InsertDoNotContactEntry,
+} from "@shared/schema";
 import { randomUUID } from "crypto";
+import { and, desc, eq, ilike, inArray, sql, type SQL } from "drizzle-orm";
+import { getDb, hasAppDatabase } from "./db";
 
 // modify the interface with any CRUD methods
 // you might need
@@ -8,13 +35,128 @@ export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  listUsers(): Promise<User[]>;
+  updateUser(
+    id: string,
+    patch: Partial<Pick<User, "role" | "password">>,
+  ): Promise<User | undefined>;
+
+  listCampaigns(): Promise<CampaignSummary[]>;
+  getCampaign(id: number): Promise<Campaign | undefined>;
+  createCampaign(
+    campaign: InsertCampaign,
+    clonedFromId?: number | null,
+  ): Promise<Campaign>;
+  updateCampaign(
+    id: number,
+    patch: Partial<InsertCampaign>,
+  ): Promise<Campaign | undefined>;
+  listCampaignRuns(campaignId: number): Promise<CampaignRun[]>;
+  createCampaignRun(run: InsertCampaignRun): Promise<CampaignRun>;
+  updateCampaignRun(
+    id: number,
+    patch: Partial<InsertCampaignRun>,
+  ): Promise<CampaignRun | undefined>;
+  saveSuppressionWriteBackLog(
+    log: InsertSuppressionWriteBackLog,
+  ): Promise<SuppressionWriteBackLog>;
+  getSuppressionWriteBackLog(
+    campaignRunId: number,
+  ): Promise<SuppressionWriteBackLog | undefined>;
+  saveCampaignRunFile(file: InsertCampaignRunFile): Promise<CampaignRunFile>;
+  getCampaignRunFile(
+    campaignRunId: number,
+    name: string,
+  ): Promise<CampaignRunFile | undefined>;
+
+  listSuppressionMappings(): Promise<SuppressionMapping[]>;
+  getSuppressionMapping(
+    pair: SuppressionTablePair,
+  ): Promise<SuppressionMapping | undefined>;
+  /** Creates or replaces the profile for the mapping's table pair. */
+  saveSuppressionMapping(
+    mapping: InsertSuppressionMapping,
+    updatedBy: string | null,
+  ): Promise<SuppressionMapping>;
+  deleteSuppressionMapping(id: number): Promise<boolean>;
+
+  listDoNotContact(
+    filter: DoNotContactFilter,
+    limit: number,
+    offset: number,
+  ): Promise<{ entries: DoNotContactEntry[]; total: number }>;
+  /** Every listed value, for matching preview/export rows. */
+  listDoNotContactValues(): Promise<
+    Pick<DoNotContactEntry, "type" | "value">[]
+  >;
+  /** Skips values that are already listed; returns only the rows added. */
+  addDoNotContact(
+    entries: InsertDoNotContactEntry[],
+    createdBy: string | null,
+  ): Promise<DoNotContactEntry[]>;
+  deleteDoNotContact(id: number): Promise<boolean>;
+}
+
+export interface DoNotContactFilter {
+  type?: DoNotContactType;
+  search?: string; // substring of the normalised value
+}
+
+// Fills the column defaults so MemStorage rows look like the ones Postgres returns
+function campaignWithDefaults(
+  campaign: InsertCampaign,
+): Omit<Campaign, "id" | "clonedFromId" | "createdAt" | "updatedAt"> {
+  return {
+    concept: "",
+    campaignCode: "",
+    historyDbId: null,
+    historyTableId: null,
+    segments: [],
+    segmentRules: {},
+    rules: null,
+    birthdayFilter: "",
+    ageRange: null,
+    contactCap: 5000,
+    excludeDays: 7,
+    frequencyCaps: [],
+    holdoutPercent: 0,
+    splitCells: [],
+    filterEmailsOnly: true,
+    ...campaign,
+  };
+}
+
+function isSamePair(a: SuppressionTablePair, b: SuppressionTablePair) {
+  return (
+    a.databaseId === b.databaseId &&
+    a.masterTableId === b.masterTableId &&
+    a.historyDbId === b.historyDbId &&
+    a.historyTableId === b.historyTableId
+  );
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
+  private campaigns: Map<number, Campaign>;
+  private campaignRuns: Map<number, CampaignRun>;
+  private writeBackLogs: Map<number, SuppressionWriteBackLog>;
+  private runFiles: Map<number, CampaignRunFile>;
+  private suppressionMappings: Map<number, SuppressionMapping>;
+  private doNotContact: Map<number, DoNotContactEntry>;
+  private nextCampaignId = 1;
+  private nextRunId = 1;
+  private nextRunFileId = 1;
+  private nextMappingId = 1;
+  private nextDoNotContactId = 1;
 
   constructor() {
     this.users = new Map();
+    this.campaigns = new Map();
+    this.campaignRuns = new Map();
+    this.writeBackLogs = new Map();
+    this.runFiles = new Map();
+    this.suppressionMappings = new Map();
+    this.doNotContact = new Map();
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -29,10 +171,557 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = randomUUID();
-    const user: User = { ...insertUser, id };
+    const user: User = { role: "viewer", ...insertUser, id };
     this.users.set(id, user);
     return user;
   }
+
+  async listUsers(): Promise<User[]> {
+    return Array.from(this.users.values()).sort((a, b) =>
+      a.username.localeCompare(b.username),
+    );
+  }
+
+  async updateUser(
+    id: string,
+    patch: Partial<Pick<User, "role" | "password">>,
+  ): Promise<User | undefined> {
+    const existing = this.users.get(id);
+    if (!existing) return undefined;
+    const updated: User = { ...existing, ...patch };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async listCampaigns(): Promise<CampaignSummary[]> {
+    const all = Array.from(this.campaigns.values()).sort(
+      (a, b) => b.updatedAt.getTime() - a.updatedAt.getTime(),
+    );
+    return Promise.all(
+      all.map(async (campaign) => {
+        const runs = await this.listCampaignRuns(campaign.id);
+        return { ...campaign, lastRun: runs[0] ?? null, runCount: runs.length };
+      }),
+    );
+  }
+
+  async getCampaign(id: number): Promise<Campaign | undefined> {
+    return this.campaigns.get(id);
+  }
+
+  async createCampaign(
+    insertCampaign: InsertCampaign,
+    clonedFromId: number | null = null,
+  ): Promise<Campaign> {
+    const now = new Date();
+    const campaign: Campaign = {
+      ...campaignWithDefaults(insertCampaign),
+      id: this.nextCampaignId++,
+      clonedFromId,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.campaigns.set(campaign.id, campaign);
+    return campaign;
+  }
+
+  async updateCampaign(
+    id: number,
+    patch: Partial<InsertCampaign>,
+  ): Promise<Campaign | undefined> {
+    const existing = this.campaigns.get(id);
+    if (!existing) return undefined;
+    const updated: Campaign = { ...existing, ...patch, updatedAt: new Date() };
+    this.campaigns.set(id, updated);
+    return updated;
+  }
+
+  async listCampaignRuns(campaignId: number): Promise<CampaignRun[]> {
+    return Array.from(this.campaignRuns.values())
+      .filter((run) => run.campaignId === campaignId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async createCampaignRun(insertRun: InsertCampaignRun): Promise<CampaignRun> {
+    const run: CampaignRun = {
+      totalCandidates: null,
+      excludedCount: null,
+      complianceExcludedCount: null,
+      frequencyCappedCount: null,
+      holdoutCount: null,
+      cellCounts: null,
+      exactMatchCount: null,
+      contactCount: null,
+      fileName: null,
+      fileChecksum: null,
+      writeBack: null,
+      error: null,
+      triggeredBy: null,
+      completedAt: null,
+      rolledBackAt: null,
+      rolledBackBy: null,
+      rolledBackCount: null,
+      ...insertRun,
+      id: this.nextRunId++,
+      startedAt: insertRun.startedAt ?? new Date(),
+    };
+    this.campaignRuns.set(run.id, run);
+    return run;
+  }
+
+  async updateCampaignRun(
+    id: number,
+    patch: Partial<InsertCampaignRun>,
+  ): Promise<CampaignRun | undefined> {
+    const existing = this.campaignRuns.get(id);
+    if (!existing) return undefined;
+    const updated: CampaignRun = { ...existing, ...patch, id };
+    this.campaignRuns.set(id, updated);
+    return updated;
+  }
+
+  async saveSuppressionWriteBackLog(
+    insertLog: InsertSuppressionWriteBackLog,
+  ): Promise<SuppressionWriteBackLog> {
+    const log: SuppressionWriteBackLog = {
+      codeColumn: null,
+      ...insertLog,
+      createdAt: insertLog.createdAt ?? new Date(),
+    };
+    this.writeBackLogs.set(log.campaignRunId, log);
+    return log;
+  }
+
+  async getSuppressionWriteBackLog(
+    campaignRunId: number,
+  ): Promise<SuppressionWriteBackLog | undefined> {
+    return this.writeBackLogs.get(campaignRunId);
+  }
+
+  async saveCampaignRunFile(
+    insertFile: InsertCampaignRunFile,
+  ): Promise<CampaignRunFile> {
+    const file: CampaignRunFile = {
+      ...insertFile,
+      id: this.nextRunFileId++,
+      createdAt: insertFile.createdAt ?? new Date(),
+    };
+    this.runFiles.set(file.id, file);
+    return file;
+  }
+
+  async getCampaignRunFile(
+    campaignRunId: number,
+    name: string,
+  ): Promise<CampaignRunFile | undefined> {
+    return Array.from(this.runFiles.values()).find(
+      (file) => file.campaignRunId === campaignRunId && file.name === name,
+    );
+  }
+
+  async listSuppressionMappings(): Promise<SuppressionMapping[]> {
+    return Array.from(this.suppressionMappings.values()).sort(
+      (a, b) => b.updatedAt.getTime() - a.updatedAt.getTime(),
+    );
+  }
+
+  async getSuppressionMapping(
+    pair: SuppressionTablePair,
+  ): Promise<SuppressionMapping | undefined> {
+    return Array.from(this.suppressionMappings.values()).find((m) =>
+      isSamePair(m, pair),
+    );
+  }
+
+  async saveSuppressionMapping(
+    insertMapping: InsertSuppressionMapping,
+    updatedBy: string | null,
+  ): Promise<SuppressionMapping> {
+    const existing = await this.getSuppressionMapping(insertMapping);
+    const now = new Date();
+    const mapping: SuppressionMapping = {
+      ...insertMapping,
+      sourceSystemColumn: insertMapping.sourceSystemColumn ?? null,
+      historyCampaignCodeColumn:
+        insertMapping.historyCampaignCodeColumn ?? null,
+      historySourceSystemColumn:
+        insertMapping.historySourceSystemColumn ?? null,
+      id: existing?.id ?? this.nextMappingId++,
+      updatedBy,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.suppressionMappings.set(mapping.id, mapping);
+    return mapping;
+  }
+
+  async deleteSuppressionMapping(id: number): Promise<boolean> {
+    return this.suppressionMappings.delete(id);
+  }
+
+  async listDoNotContact(
+    filter: DoNotContactFilter,
+    limit: number,
+    offset: number,
+  ): Promise<{ entries: DoNotContactEntry[]; total: number }> {
+    const search = filter.search?.toLowerCase();
+    const matching = Array.from(this.doNotContact.values())
+      .filter(
+        (entry) =>
+          (!filter.type || entry.type === filter.type) &&
+          (!search || entry.value.includes(search)),
+      )
+      .sort((a, b) => b.id - a.id);
+    return {
+      entries: matching.slice(offset, offset + limit),
+      total: matching.length,
+    };
+  }
+
+  async listDoNotContactValues(): Promise<
+    Pick<DoNotContactEntry, "type" | "value">[]
+  > {
+    return Array.from(this.doNotContact.values());
+  }
+
+  async addDoNotContact(
+    entries: InsertDoNotContactEntry[],
+    createdBy: string | null,
+  ): Promise<DoNotContactEntry[]> {
+    const listed = new Set(
+      Array.from(this.doNotContact.values()).map((e) => `${e.type}:${e.value}`),
+    );
+    const added: DoNotContactEntry[] = [];
+    for (const entry of entries) {
+      const key = `${entry.type}:${entry.value}`;
+      if (listed.has(key)) continue;
+      listed.add(key);
+      const row: DoNotContactEntry = {
+        ...entry,
+        id: this.nextDoNotContactId++,
+        createdBy,
+        createdAt: new Date(),
+      };
+      this.doNotContact.set(row.id, row);
+      added.push(row);
+    }
+    return added;
+  }
+
+  async deleteDoNotContact(id: number): Promise<boolean> {
+    return this.doNotContact.delete(id);
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await getDb().select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await getDb()
+      .select()
+      .from(users)
+      .where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await getDb().insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async listUsers(): Promise<User[]> {
+    return getDb().select().from(users).orderBy(users.username);
+  }
+
+  async updateUser(
+    id: string,
+    patch: Partial<Pick<User, "role" | "password">>,
+  ): Promise<User | undefined> {
+    const [user] = await getDb()
+      .update(users)
+      .set(patch)
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async listCampaigns(): Promise<CampaignSummary[]> {
+    const db = getDb();
+    const rows = await db
+      .select()
+      .from(campaigns)
+      .orderBy(desc(campaigns.updatedAt));
+    if (rows.length === 0) return [];
+
+    // One query for run counts + one for the latest run of every campaign
+    const counts = await db
+      .select({
+        campaignId: campaignRuns.campaignId,
+        runCount: sql<number>`count(*)::int`,
+        lastRunId: sql<number>`max(${campaignRuns.id})`,
+      })
+      .from(campaignRuns)
+      .groupBy(campaignRuns.campaignId);
+    const lastRunIds = counts.map((c) => c.lastRunId);
+    const lastRuns =
+      lastRunIds.length > 0
+        ? await db
+            .select()
+            .from(campaignRuns)
+            .where(inArray(campaignRuns.id, lastRunIds))
+        : [];
+
+    return rows.map((campaign) => {
+      const count = counts.find((c) => c.campaignId === campaign.id);
+      return {
+        ...campaign,
+        runCount: count?.runCount ?? 0,
+        lastRun: lastRuns.find((run) => run.id === count?.lastRunId) ?? null,
+      };
+    });
+  }
+
+  async getCampaign(id: number): Promise<Campaign | undefined> {
+    const [campaign] = await getDb()
+      .select()
+      .from(campaigns)
+      .where(eq(campaigns.id, id));
+    return campaign;
+  }
+
+  async createCampaign(
+    insertCampaign: InsertCampaign,
+    clonedFromId: number | null = null,
+  ): Promise<Campaign> {
+    const [campaign] = await getDb()
+      .insert(campaigns)
+      .values({ ...insertCampaign, clonedFromId })
+      .returning();
+    return campaign;
+  }
+
+  async updateCampaign(
+    id: number,
+    patch: Partial<InsertCampaign>,
+  ): Promise<Campaign | undefined> {
+    const [campaign] = await getDb()
+      .update(campaigns)
+      .set({ ...patch, updatedAt: new Date() })
+      .where(eq(campaigns.id, id))
+      .returning();
+    return campaign;
+  }
+
+  async listCampaignRuns(campaignId: number): Promise<CampaignRun[]> {
+    return getDb()
+      .select()
+      .from(campaignRuns)
+      .where(eq(campaignRuns.campaignId, campaignId))
+      .orderBy(desc(campaignRuns.id));
+  }
+
+  async createCampaignRun(insertRun: InsertCampaignRun): Promise<CampaignRun> {
+    const [run] = await getDb()
+      .insert(campaignRuns)
+      .values(insertRun)
+      .returning();
+    return run;
+  }
+
+  async updateCampaignRun(
+    id: number,
+    patch: Partial<InsertCampaignRun>,
+  ): Promise<CampaignRun | undefined> {
+    const [run] = await getDb()
+      .update(campaignRuns)
+      .set(patch)
+      .where(eq(campaignRuns.id, id))
+      .returning();
+    return run;
+  }
+
+  async saveSuppressionWriteBackLog(
+    insertLog: InsertSuppressionWriteBackLog,
+  ): Promise<SuppressionWriteBackLog> {
+    const [log] = await getDb()
+      .insert(suppressionWriteBackLogs)
+      .values(insertLog)
+      .returning();
+    return log;
+  }
+
+  async getSuppressionWriteBackLog(
+    campaignRunId: number,
+  ): Promise<SuppressionWriteBackLog | undefined> {
+    const [log] = await getDb()
+      .select()
+      .from(suppressionWriteBackLogs)
+      .where(eq(suppressionWriteBackLogs.campaignRunId, campaignRunId));
+    return log;
+  }
+
+  async saveCampaignRunFile(
+    insertFile: InsertCampaignRunFile,
+  ): Promise<CampaignRunFile> {
+    const [file] = await getDb()
+      .insert(campaignRunFiles)
+      .values(insertFile)
+      .returning();
+    return file;
+  }
+
+  async getCampaignRunFile(
+    campaignRunId: number,
+    name: string,
+  ): Promise<CampaignRunFile | undefined> {
+    const [file] = await getDb()
+      .select()
+      .from(campaignRunFiles)
+      .where(
+        and(
+          eq(campaignRunFiles.campaignRunId, campaignRunId),
+          eq(campaignRunFiles.name, name),
+        ),
+      );
+    return file;
+  }
+
+  async listSuppressionMappings(): Promise<SuppressionMapping[]> {
+    return getDb()
+      .select()
+      .from(suppressionMappings)
+      .orderBy(desc(suppressionMappings.updatedAt));
+  }
+
+  async getSuppressionMapping(
+    pair: SuppressionTablePair,
+  ): Promise<SuppressionMapping | undefined> {
+    const [mapping] = await getDb()
+      .select()
+      .from(suppressionMappings)
+      .where(
+        and(
+          eq(suppressionMappings.databaseId, pair.databaseId),
+          eq(suppressionMappings.masterTableId, pair.masterTableId),
+          eq(suppressionMappings.historyDbId, pair.historyDbId),
+          eq(suppressionMappings.historyTableId, pair.historyTableId),
+        ),
+      );
+    return mapping;
+  }
+
+  async saveSuppressionMapping(
+    insertMapping: InsertSuppressionMapping,
+    updatedBy: string | null,
+  ): Promise<SuppressionMapping> {
+    const [mapping] = await getDb()
+      .insert(suppressionMappings)
+      .values({ ...insertMapping, updatedBy })
+      .onConflictDoUpdate({
+        target: [
+          suppressionMappings.databaseId,
+          suppressionMappings.masterTableId,
+          suppressionMappings.historyDbId,
+          suppressionMappings.historyTableId,
+        ],
+        set: { ...insertMapping, updatedBy, updatedAt: new Date() },
+      })
+      .returning();
+    return mapping;
+  }
+
+  async deleteSuppressionMapping(id: number): Promise<boolean> {
+    const deleted = await getDb()
+      .delete(suppressionMappings)
+      .where(eq(suppressionMappings.id, id))
+      .returning({ id: suppressionMappings.id });
+    return deleted.length > 0;
+  }
+
+  async listDoNotContact(
+    filter: DoNotContactFilter,
+    limit: number,
+    offset: number,
+  ): Promise<{ entries: DoNotContactEntry[]; total: number }> {
+    const conditions: SQL[] = [];
+    if (filter.type) conditions.push(eq(doNotContact.type, filter.type));
+    if (filter.search) {
+      conditions.push(
+        ilike(
+          doNotContact.value,
+          `%${filter.search.replace(/[\\%_]/g, "\\$&")}%`,
+        ),
+      );
+    }
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const db = getDb();
+    const [entries, [{ total }]] = await Promise.all([
+      db
+        .select()
+        .from(doNotContact)
+        .where(where)
+        .orderBy(desc(doNotContact.id))
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ total: sql<number>`count(*)::int` })
+        .from(doNotContact)
+        .where(where),
+    ]);
+    return { entries, total };
+  }
+
+  async listDoNotContactValues(): Promise<
+    Pick<DoNotContactEntry, "type" | "value">[]
+  > {
+    return getDb()
+      .select({ type: doNotContact.type, value: doNotContact.value })
+      .from(doNotContact);
+  }
+
+  async addDoNotContact(
+    entries: InsertDoNotContactEntry[],
+    createdBy: string | null,
+  ): Promise<DoNotContactEntry[]> {
+    const added: DoNotContactEntry[] = [];
+    // Postgres caps a statement at 65535 parameters
+    for (let i = 0; i < entries.length; i += 1000) {
+      const rows = await getDb()
+        .insert(doNotContact)
+        .values(
+          entries.slice(i, i + 1000).map((entry) => ({ ...entry, createdBy })),
+        )
+        .onConflictDoNothing({
+          target: [doNotContact.type, doNotContact.value],
+        })
+        .returning();
+      added.push(...rows);
+    }
+    return added;
+  }
+
+  async deleteDoNotContact(id: number): Promise<boolean> {
+    const deleted = await getDb()
+      .delete(doNotContact)
+      .where(eq(doNotContact.id, id))
+      .returning({ id: doNotContact.id });
+    return deleted.length > 0;
+  }
 }
 
-export const storage = new MemStorage();
+// Postgres when DATABASE_URL is configured, otherwise in-memory (lost on restart).
+// Resolved on first use so the .env loader in index.ts has run.
+let storageInstance: IStorage | null = null;
+
+export function getStorage(): IStorage {
+  if (!storageInstance) {
+    storageInstance = hasAppDatabase()
+      ? new DatabaseStorage()
+      : new MemStorage();
+  }
+  return storageInstance;
+}
@@ -0,0 +1,333 @@
+import type {
+  MetabaseField,
+  SegmentSuggestion,
+  SuggestionValidationReport,
+  TargetingCondition,
+  TargetingRule,
+  TargetingValue,
+} from "@shared/schema";
+import { FIELD_OPTIONS_LIMIT, getFieldOptions } from "./metabase";
+import { collectRuleFields } from "./targeting";
+
+// ── AI suggestion validation ────────────────────────────────────────
+// The model is shown the table's fields and sample values, but nothing binds its
+// reply to them. Every suggested rule is checked against the field metadata and
+// the field's distinct values before it reaches the client: near misses (case,
+// whitespace, full-width vs half-width characters) are corrected to the real
+// name or value, and conditions that cannot match as written are removed, so a
+// bad suggestion is reported here instead of surfacing as a 0 count or SQL error.
+
+const NUMERIC_TYPES = [
+  "type/Integer",
+  "type/BigInteger",
+  "type/Float",
+  "type/Decimal",
+  "type/Number",
+];
+const DATE_TYPES = ["type/Date", "type/DateTime"];
+
+// Distinct values of one field; `complete` is false when getFieldOptions hit its cap
+interface KnownValues {
+  values: string[];
+  complete: boolean;
+}
+
+/** Case-, whitespace- and width-insensitive form (ＧＬ and "gl " both become "gl"). */
+export function normalizeForMatch(value: string): string {
+  return value.normalize("NFKC").replace(/\s+/g, "").toLowerCase();
+}
+
+function toNumber(value: TargetingValue): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  const text = value.normalize("NFKC").trim();
+  return text !== "" && Number.isFinite(Number(text)) ? Number(text) : null;
+}
+
+function isNumeric(field: MetabaseField): boolean {
+  return NUMERIC_TYPES.includes(field.base_type);
+}
+
+// The field a suggestion names, matched exactly or by its normalised name / display name
+function findField(
+  fields: MetabaseField[],
+  name: string,
+): MetabaseField | undefined {
+  const exact = fields.find((f) => f.name === name);
+  if (exact) return exact;
+  const wanted = normalizeForMatch(name);
+  return fields.find(
+    (f) =>
+      normalizeForMatch(f.name) === wanted ||
+      normalizeForMatch(f.display_name || "") === wanted,
+  );
+}
+
+function formatValue(value: TargetingValue): string {
+  return typeof value === "string" ? `"${value}"` : String(value);
+}
+
+// Checks one suggestion's rule tree. Returns the corrected rule, or null when it
+// cannot match anything; `fixes` collects what was changed along the way.
+// `negated` is true under an odd number of "not"s: there a value the field does not
+// have makes a condition match everything rather than nothing, and AND and OR swap
+// roles when deciding whether an impossible branch can be dropped.
+class RuleValidator {
+  fixes: string[] = [];
+  problem: string | null = null;
+
+  constructor(
+    private fields: MetabaseField[],
+    private knownValues: Map<string, KnownValues>,
+  ) {}
+
+  private fail(message: string): null {
+    this.problem ??= message;
+    return null;
+  }
+
+  rule(rule: TargetingRule, negated = false): TargetingRule | null {
+    switch (rule.type) {
+      case "condition":
+        return this.condition(rule, negated);
+      case "not": {
+        const inner = this.rule(rule.rule, !negated);
+        return inner ? { type: "not", rule: inner } : null;
+      }
+      case "and":
+      case "or": {
+        // Under negation an AND acts as an OR of the negated branches, and vice versa
+        const alternatives = (rule.type === "or") !== negated;
+        const rules: TargetingRule[] = [];
+        for (const child of rule.rules) {
+          const before = this.problem;
+          const checked = this.rule(child, negated);
+          if (checked) {
+            rules.push(checked);
+          } else if (alternatives) {
+            // An alternative that can never match adds nothing to an OR
+            this.fixes.push(`Removed an alternative: ${this.problem}`);
+            this.problem = before;
+          } else {
+            // Dropping an AND branch would silently broaden the targeting
+            return null;
+          }
+        }
+        if (rules.length === 0) return this.fail("No alternative can match");
+        return rules.length === 1 ? rules[0] : { type: rule.type, rules };
+      }
+    }
+  }
+
+  // A value for an equality test, matched against the field's known values. A value
+  // the field does not have only fails when it makes the condition impossible (`=`,
+  // `in`); for `!=` and `not_in` it excludes nothing, so it is kept as written.
+  private value(
+    field: MetabaseField,
+    value: TargetingValue,
+    mustExist: boolean,
+  ): TargetingValue | null {
+    if (isNumeric(field)) {
+      const number = toNumber(value);
+      if (number === null) {
+        return this.fail(
+          `${field.name} is numeric but the value is ${formatValue(value)}`,
+        );
+      }
+      if (number !== value) {
+        this.fixes.push(`${field.name}: ${formatValue(value)} → ${number}`);
+      }
+      return number;
+    }
+    const known = this.knownValues.get(field.name);
+    if (!known || typeof value === "boolean") return value;
+    const text = String(value);
+    if (known.values.includes(text)) return text;
+    const wanted = normalizeForMatch(text);
+    const match = known.values.find((v) => normalizeForMatch(v) === wanted);
+    if (match !== undefined) {
+      this.fixes.push(`${field.name}: ${formatValue(value)} → "${match}"`);
+      return match;
+    }
+    // Only a complete list proves the value does not occur
+    if (mustExist && known.complete) {
+      return this.fail(`${field.name} has no value ${formatValue(value)}`);
+    }
+    return value;
+  }
+
+  private condition(
+    cond: TargetingCondition,
+    negated: boolean,
+  ): TargetingRule | null {
+    const field = findField(this.fields, cond.field);
+    if (!field) return this.fail(`Unknown field "${cond.field}"`);
+    const name = field.name;
+    if (name !== cond.field) {
+      this.fixes.push(`Field "${cond.field}" → "${name}"`);
+    }
+
+    switch (cond.operator) {
+      case "is_null":
+      case "is_not_null":
+      case "like":
+      case "not_like":
+        return { ...cond, field: name };
+      case "within_last":
+      case "older_than":
+        if (isNumeric(field) || field.base_type === "type/Boolean") {
+          return this.fail(`${name} is not a date field`);
+        }
+        return { ...cond, field: name };
+      case "=":
+      case "!=": {
+        const mustExist = (cond.operator === "=") !== negated;
+        const value = this.value(field, cond.value, mustExist);
+        return value === null ? null : { ...cond, field: name, value };
+      }
+      case "in":
+      case "not_in": {
+        const mustExist = (cond.operator === "in") !== negated;
+        const values: TargetingValue[] = [];
+        for (const v of cond.values) {
+          const before = this.problem;
+          const checked = this.value(field, v, mustExist);
+          if (checked === null) {
+            this.fixes.push(`Removed a value: ${this.problem}`);
+            this.problem = before;
+          } else {
+            values.push(checked);
+          }
+        }
+        if (values.length === 0) {
+          return this.fail(`None of the ${name} values exist`);
+        }
+        return { ...cond, field: name, values };
+      }
+      case ">":
+      case ">=":
+      case "<":
+      case "<=":
+      case "between": {
+        const bounds =
+          cond.operator === "between"
+            ? [cond.value, cond.valueTo]
+            : [cond.value];
+        if (isNumeric(field)) {
+          const numbers = bounds.map(toNumber);
+          if (numbers.some((n) => n === null)) {
+            return this.fail(
+              `${name} is numeric but is compared with ${bounds.map(formatValue).join(" and ")}`,
+            );
+          }
+          numbers.forEach((n, i) => {
+            if (n !== bounds[i]) {
+              this.fixes.push(`${name}: ${formatValue(bounds[i])} → ${n}`);
+            }
+          });
+          return cond.operator === "between"
+            ? { ...cond, field: name, value: numbers[0]!, valueTo: numbers[1]! }
+            : { ...cond, field: name, value: numbers[0]! };
+        }
+        // A numeric bound makes SQL Server convert every row of a text column,
+        // which fails unless all of its values are numbers
+        const known = this.knownValues.get(name);
+        const numericText =
+          known !== undefined &&
+          known.values.length > 0 &&
+          known.values.every((v) => toNumber(v) !== null);
+        if (
+          !DATE_TYPES.includes(field.base_type) &&
+          !numericText &&
+          bounds.some((b) => typeof b === "number")
+        ) {
+          return this.fail(`Numeric comparison on text field ${name}`);
+        }
+        return { ...cond, field: name };
+      }
+    }
+  }
+}
+
+async function loadKnownValues(
+  databaseId: number,
+  tableId: number,
+  fields: MetabaseField[],
+  suggestions: SegmentSuggestion[],
+): Promise<Map<string, KnownValues>> {
+  // Values are fetched once per text field the suggestions name
+  const textFields = new Map<string, MetabaseField>();
+  for (const s of suggestions) {
+    for (const name of collectRuleFields(s.rule ?? null)) {
+      const field = findField(fields, name);
+      if (field && !isNumeric(field) && !DATE_TYPES.includes(field.base_type)) {
+        textFields.set(field.name, field);
+      }
+    }
+  }
+
+  const known = new Map<string, KnownValues>();
+  await Promise.all(
+    Array.from(textFields.values()).map(async (field) => {
+      try {
+        const options = await getFieldOptions(databaseId, tableId, field.id);
+        known.set(field.name, {
+          values: options.map((o) => o.value),
+          complete: options.length < FIELD_OPTIONS_LIMIT,
+        });
+      } catch {
+        // Non-fatal — values on this field are passed through unchecked
+      }
+    }),
+  );
+  return known;
+}
+
+/**
+ * Checks AI suggestions against the master table: returns the suggestions that
+ * can match, with corrected field names and values, and a report of every fix and
+ * every suggestion dropped.
+ */
+export async function validateSuggestions(
+  databaseId: number,
+  tableId: number,
+  fields: MetabaseField[],
+  suggestions: SegmentSuggestion[],
+): Promise<{
+  suggestions: SegmentSuggestion[];
+  validation: SuggestionValidationReport;
+}> {
+  const knownValues = await loadKnownValues(
+    databaseId,
+    tableId,
+    fields,
+    suggestions,
+  );
+  const validation: SuggestionValidationReport = { corrected: [], dropped: [] };
+  const valid: SegmentSuggestion[] = [];
+
+  for (const suggestion of suggestions) {
+    if (!suggestion.rule) {
+      validation.dropped.push({
+        segment: suggestion.segment,
+        message: "No targeting rule",
+      });
+      continue;
+    }
+    const validator = new RuleValidator(fields, knownValues);
+    const rule = validator.rule(suggestion.rule);
+    if (!rule) {
+      validation.dropped.push({
+        segment: suggestion.segment,
+        message: validator.problem ?? "Cannot match any customer",
+      });
+      continue;
+    }
+    for (const message of validator.fixes) {
+      validation.corrected.push({ segment: suggestion.segment, message });
+    }
+    valid.push({ ...suggestion, rule });
+  }
+
+  return { suggestions: valid, validation };
+}
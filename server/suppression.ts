@@ -0,0 +1,366 @@
+import { randomUUID } from "crypto";
+import type {
+  SuppressionAddResult,
+  SuppressionCampaignsQuery,
+  SuppressionCampaignsResponse,
+  SuppressionEntriesQuery,
+  SuppressionEntriesResponse,
+  SuppressionTableMapping,
+  SuppressionTableQuery,
+  SuppressionUploadQuery,
+} from "@shared/schema";
+import {
+  buildSuppressionWriteBackSql,
+  parseSuppressionWriteBackResult,
+  getFields,
+  getTables,
+  loadSuppressionMapping,
+  normalizeColName,
+  resolveSuppressionFields,
+  runNativeQuery,
+} from "./metabase";
+import { quoteIdentifier, type CompiledSql, type SqlParam } from "./targeting";
+
+// ── Suppression list management ─────────────────────────────────────
+// Browse and edit the history (suppression) table outside of an export. Columns
+// come from the same mapping preview/export use, so what is shown or added here
+// is exactly what the next export will suppress.
+
+const SUPPRESSION_PAGE_SIZE = 50;
+// Matches the staging table's Ref NVARCHAR(450)
+const MAX_REFERENCE_LENGTH = 450;
+const MAX_SOURCE_SYSTEMS = 200;
+
+export async function getSuppressionTableMapping(
+  query: SuppressionTableQuery,
+): Promise<SuppressionTableMapping> {
+  const { historyDbId, historyTableId, databaseId, masterTableId } = query;
+  const [tables, fields, profile] = await Promise.all([
+    getTables(historyDbId),
+    getFields(historyTableId),
+    databaseId && masterTableId
+      ? loadSuppressionMapping(
+          databaseId,
+          masterTableId,
+          historyDbId,
+          historyTableId,
+        )
+      : Promise.resolve(null),
+  ]);
+  const table = tables.find((t) => t.id === historyTableId);
+  if (!table) {
+    throw new Error(
+      `Suppression table ${historyTableId} was not found in database ${historyDbId}`,
+    );
+  }
+
+  const roles = resolveSuppressionFields(fields, profile);
+  // Every screen here is organised by campaign, so the code column is required
+  const missing = [roles.ref, roles.campaignCode, roles.sentDate]
+    .filter((role) => !role.field)
+    .map((role) => role.reason);
+  if (missing.length > 0) {
+    throw new Error(
+      `Suppression table ${table.name} cannot be managed: ${missing.join("; ")}`,
+    );
+  }
+
+  return {
+    databaseId: historyDbId,
+    tableName: table.name,
+    refColumn: roles.ref.field.name,
+    campaignCodeColumn: roles.campaignCode.field.name,
+    sourceSystemColumn: roles.sourceSystem.field?.name ?? null,
+    sentDateColumn: roles.sentDate.field.name,
+    mappingSource: profile ? "profile" : "detected",
+  };
+}
+
+function buildEntryFilter(
+  mapping: SuppressionTableMapping,
+  filter: Partial<
+    Pick<
+      SuppressionEntriesQuery,
+      "campaignCode" | "sourceSystem" | "from" | "to"
+    >
+  >,
+): CompiledSql {
+  const conditions: string[] = [];
+  const params: SqlParam[] = [];
+  const bind = (value: string) => {
+    const name = `p${params.length}`;
+    params.push({ name, value });
+    return `@${name}`;
+  };
+
+  const dateCol = quoteIdentifier(mapping.sentDateColumn);
+  if (filter.campaignCode) {
+    conditions.push(
+      `${quoteIdentifier(mapping.campaignCodeColumn)} = ${bind(filter.campaignCode)}`,
+    );
+  }
+  if (filter.sourceSystem) {
+    if (!mapping.sourceSystemColumn) {
+      throw new Error(
+        `Suppression table ${mapping.tableName} has no source system column to filter on`,
+      );
+    }
+    conditions.push(
+      `${quoteIdentifier(mapping.sourceSystemColumn)} = ${bind(filter.sourceSystem)}`,
+    );
+  }
+  if (filter.from) {
+    conditions.push(`${dateCol} >= CAST(${bind(filter.from)} AS DATE)`);
+  }
+  if (filter.to) {
+    conditions.push(
+      `${dateCol} < DATEADD(day, 1, CAST(${bind(filter.to)} AS DATE))`,
+    );
+  }
+
+  return {
+    sql: conditions.length > 0 ? conditions.join(" AND ") : "1=1",
+    params,
+  };
+}
+
+// Drivers return dates as Date objects or ISO strings; the UI only needs the day
+function formatDateValue(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return text.slice(0, 10);
+}
+
+function textValue(value: unknown): string | null {
+  return value === null || value === undefined ? null : String(value);
+}
+
+export async function listSuppressionEntries(
+  query: SuppressionEntriesQuery,
+): Promise<SuppressionEntriesResponse> {
+  const mapping = await getSuppressionTableMapping(query);
+  const where = buildEntryFilter(mapping, query);
+  const table = quoteIdentifier(mapping.tableName);
+  const refCol = quoteIdentifier(mapping.refColumn);
+  const dateCol = quoteIdentifier(mapping.sentDateColumn);
+  const sourceCol = mapping.sourceSystemColumn
+    ? quoteIdentifier(mapping.sourceSystemColumn)
+    : "NULL";
+  const offset = (query.page - 1) * SUPPRESSION_PAGE_SIZE;
+
+  const pageSql =
+    `SELECT ${refCol}, ${quoteIdentifier(mapping.campaignCodeColumn)}, ${sourceCol}, ${dateCol} ` +
+    `FROM ${table} WHERE ${where.sql} ` +
+    `ORDER BY ${dateCol} DESC, ${refCol} ` +
+    `OFFSET ${offset} ROWS FETCH NEXT ${SUPPRESSION_PAGE_SIZE} ROWS ONLY;`;
+  const countSql = `SELECT COUNT(*) FROM ${table} WHERE ${where.sql};`;
+
+  const [pageResult, countResult] = await Promise.all([
+    runNativeQuery(mapping.databaseId, pageSql, where.params),
+    runNativeQuery(mapping.databaseId, countSql, where.params),
+  ]);
+
+  const totalCount = Number(countResult.rows[0]?.[0] ?? 0);
+  const totalPages = Math.ceil(totalCount / SUPPRESSION_PAGE_SIZE);
+
+  return {
+    mapping,
+    entries: pageResult.rows.map((row) => ({
+      ref: String(row[0] ?? ""),
+      campaignCode: textValue(row[1]),
+      sourceSystem: textValue(row[2]),
+      sentDate: formatDateValue(row[3]),
+    })),
+    pagination: {
+      page: query.page,
+      pageSize: SUPPRESSION_PAGE_SIZE,
+      totalCount,
+      totalPages,
+      hasMore: query.page < totalPages,
+    },
+  };
+}
+
+export async function listSuppressionCampaigns(
+  query: SuppressionCampaignsQuery,
+): Promise<SuppressionCampaignsResponse> {
+  const mapping = await getSuppressionTableMapping(query);
+  const where = buildEntryFilter(mapping, query);
+  const table = quoteIdentifier(mapping.tableName);
+  const codeCol = quoteIdentifier(mapping.campaignCodeColumn);
+  const dateCol = quoteIdentifier(mapping.sentDateColumn);
+
+  const campaignsSql =
+    `SELECT ${codeCol}, COUNT(*), MIN(${dateCol}), MAX(${dateCol}) ` +
+    `FROM ${table} WHERE ${where.sql} ` +
+    `GROUP BY ${codeCol} ORDER BY MAX(${dateCol}) DESC, ${codeCol};`;
+  const sourceCol = mapping.sourceSystemColumn
+    ? quoteIdentifier(mapping.sourceSystemColumn)
+    : null;
+
+  const [campaignsResult, sourcesResult] = await Promise.all([
+    runNativeQuery(mapping.databaseId, campaignsSql, where.params),
+    sourceCol
+      ? runNativeQuery(
+          mapping.databaseId,
+          `SELECT DISTINCT TOP ${MAX_SOURCE_SYSTEMS} ${sourceCol} FROM ${table} ` +
+            `WHERE ${sourceCol} IS NOT NULL ORDER BY ${sourceCol};`,
+        )
+      : Promise.resolve(null),
+  ]);
+
+  return {
+    mapping,
+    campaigns: campaignsResult.rows.map((row) => ({
+      campaignCode: textValue(row[0]),
+      count: Number(row[1] ?? 0),
+      firstSent: formatDateValue(row[2]),
+      lastSent: formatDateValue(row[3]),
+    })),
+    sourceSystems: (sourcesResult?.rows ?? []).map((row) => String(row[0])),
+  };
+}
+
+/**
+ * Deletes every history row logged under `campaignCode`, e.g. a campaign that was
+ * exported by mistake. Counted and deleted in one transaction so the returned
+ * count is exactly what was removed.
+ */
+export async function removeSuppressionCampaign(
+  query: SuppressionTableQuery,
+  campaignCode: string,
+): Promise<{ mapping: SuppressionTableMapping; deleted: number }> {
+  const mapping = await getSuppressionTableMapping(query);
+  const table = quoteIdentifier(mapping.tableName);
+  const match = `${quoteIdentifier(mapping.campaignCodeColumn)} = @p0`;
+
+  const result = await runNativeQuery(
+    mapping.databaseId,
+    [
+      "SET NOCOUNT ON;",
+      "SET XACT_ABORT ON;",
+      "BEGIN TRANSACTION;",
+      `SELECT COUNT(*) AS deleted FROM ${table} WITH (UPDLOCK, HOLDLOCK) WHERE ${match};`,
+      `DELETE FROM ${table} WHERE ${match};`,
+      "COMMIT;",
+    ].join("\n"),
+    [{ name: "p0", value: campaignCode }],
+  );
+
+  const deleted = Number(result.rows[0]?.[0] ?? 0);
+  console.log(
+    `Suppression campaign removed: table=${mapping.tableName}, campaignCode=${campaignCode}, deleted=${deleted}`,
+  );
+  return { mapping, deleted };
+}
+
+/**
+ * Reads one column from an uploaded CSV/TSV. A header row is recognised when a
+ * cell matches one of `headerNames` (compared normalised) and that column is used;
+ * otherwise every line's first cell is taken.
+ */
+export function parseCsvColumn(csv: string, headerNames: string[]): string[] {
+  const lines = csv
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .filter((line) => line.trim().length > 0);
+  if (lines.length === 0) return [];
+
+  const delimiter = lines[0].includes("\t")
+    ? "\t"
+    : lines[0].includes(";") && !lines[0].includes(",")
+      ? ";"
+      : ",";
+  const splitLine = (line: string) =>
+    line.split(delimiter).map((cell) => cell.trim().replace(/^"(.*)"$/, "$1"));
+
+  const header = splitLine(lines[0]).map(normalizeColName);
+  const names = headerNames.map(normalizeColName);
+  const column = header.findIndex((name) => names.includes(name));
+
+  const dataLines = column !== -1 ? lines.slice(1) : lines;
+  return dataLines.map((line) => splitLine(line)[Math.max(column, 0)] ?? "");
+}
+
+/**
+ * Reads references from an uploaded CSV/TSV, using the column headed by the history
+ * table's reference column (or a customer id header) when there is one.
+ */
+export function parseReferenceCsv(csv: string, refColumn: string): string[] {
+  return parseCsvColumn(csv, [
+    refColumn,
+    "ref",
+    "reference",
+    "customerid",
+    "customerrefid",
+  ]);
+}
+
+/**
+ * Manually suppresses references under `campaignCode`, logged today through the
+ * same all-or-nothing write-back as an export (references already logged for
+ * the code today are skipped).
+ */
+export async function addSuppressionEntries(
+  input: SuppressionUploadQuery,
+  refs: string[],
+): Promise<SuppressionAddResult> {
+  const mapping = await getSuppressionTableMapping(input);
+
+  const seen = new Set<string>();
+  let rejected = 0;
+  const entries: { ref: string; sourceValue: string }[] = [];
+  for (const raw of refs) {
+    const ref = raw.trim();
+    if (!ref || ref.length > MAX_REFERENCE_LENGTH) {
+      rejected++;
+      continue;
+    }
+    // SQL Server compares references case-insensitively
+    const key = ref.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    entries.push({ ref, sourceValue: input.sourceSystem });
+  }
+  if (entries.length === 0) {
+    throw new Error("No valid references to add");
+  }
+
+  const batchId = randomUUID();
+  const result = await runNativeQuery(
+    mapping.databaseId,
+    buildSuppressionWriteBackSql(
+      {
+        tableName: mapping.tableName,
+        refColumn: mapping.refColumn,
+        dateColumn: mapping.sentDateColumn,
+        codeColumn: mapping.campaignCodeColumn,
+        sourceColumn: mapping.sourceSystemColumn,
+      },
+      entries,
+      input.campaignCode,
+    ),
+  );
+
+  const { staged, inserted } = parseSuppressionWriteBackResult(
+    result,
+    input.campaignCode,
+  );
+  if (staged !== entries.length) {
+    throw new Error(
+      `Suppression upload could not be verified: staged=${staged}, expected=${entries.length}`,
+    );
+  }
+
+  console.log(
+    `Suppression entries added: batch=${batchId}, table=${mapping.tableName}, campaignCode=${input.campaignCode}, attempted=${entries.length}, inserted=${inserted}, rejected=${rejected}`,
+  );
+  return {
+    exportRunId: batchId,
+    attempted: entries.length,
+    inserted,
+    duplicatesSkipped: entries.length - inserted,
+    failed: 0,
+    rejected,
+  };
+}
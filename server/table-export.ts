@@ -0,0 +1,131 @@
+import type { Writable } from "stream";
+import ExcelJS from "exceljs";
+import type { TableExportFormat } from "@shared/schema";
+
+// Row writers for the streaming Data Filter export. Each writer pushes rows to the
+// response as batches arrive, so memory stays flat regardless of table size.
+
+const UTF8_BOM = "\uFEFF";
+
+export const TABLE_EXPORT_CONTENT_TYPES: Record<TableExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  tsv: "text/tab-separated-values; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+export interface TableExportWriter {
+  writeHeader(columns: string[]): Promise<void>;
+  writeRows(rows: unknown[][]): Promise<void>;
+  end(): Promise<void>;
+}
+
+// Metabase returns some missing values as the literal string "null"
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const s = String(value);
+  return s.toLowerCase() === "null" ? "" : s;
+}
+
+// Resolves once the stream can take more data, so a slow client throttles the queries
+function write(out: Writable, chunk: string): Promise<void> {
+  // A closed stream never emits drain/close again, so waiting on it would hang
+  if (out.destroyed || out.writableEnded) {
+    return Promise.reject(new Error("Export stream closed before completion"));
+  }
+  if (out.write(chunk)) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      out.off("drain", onDrain);
+      out.off("error", onError);
+      out.off("close", onClose);
+    };
+    const onDrain = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = (err: Error) => {
+      cleanup();
+      reject(err);
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new Error("Export stream closed before completion"));
+    };
+    out.once("drain", onDrain);
+    out.once("error", onError);
+    out.once("close", onClose);
+  });
+}
+
+function createDelimitedWriter(
+  out: Writable,
+  format: "csv" | "tsv",
+  bom: boolean,
+): TableExportWriter {
+  const formatLine =
+    format === "csv"
+      ? (values: unknown[]) =>
+          values.map((v) => `"${cellText(v).replace(/"/g, '""')}"`).join(",")
+      : // TSV has no quoting — tabs and line breaks inside values become spaces
+        (values: unknown[]) =>
+          values.map((v) => cellText(v).replace(/[\t\r\n]+/g, " ")).join("\t");
+
+  return {
+    // Excel only detects UTF-8 (and so shows Japanese text correctly) with a BOM
+    writeHeader: (columns) =>
+      write(out, (bom ? UTF8_BOM : "") + formatLine(columns) + "\n"),
+    writeRows: async (rows) => {
+      if (rows.length === 0) return;
+      await write(out, rows.map((row) => formatLine(row) + "\n").join(""));
+    },
+    end: async () => {
+      out.end();
+    },
+  };
+}
+
+function toXlsxValue(value: unknown): ExcelJS.CellValue {
+  if (typeof value === "number" || typeof value === "boolean") return value;
+  const text = cellText(value);
+  return text === "" ? null : text;
+}
+
+// Excel sheet names: max 31 chars, none of : \ / ? * [ ]
+function safeSheetName(name: string): string {
+  const cleaned = name.replace(/[:\\/?*[\]]/g, "_").slice(0, 31);
+  return cleaned || "Export";
+}
+
+function createXlsxWriter(out: Writable, sheetName: string): TableExportWriter {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+    stream: out,
+    useStyles: false,
+    useSharedStrings: false,
+  });
+  const sheet = workbook.addWorksheet(safeSheetName(sheetName));
+
+  return {
+    writeHeader: async (columns) => {
+      sheet.addRow(columns).commit();
+    },
+    writeRows: async (rows) => {
+      for (const row of rows) {
+        sheet.addRow(row.map(toXlsxValue)).commit();
+      }
+    },
+    end: async () => {
+      sheet.commit();
+      await workbook.commit();
+    },
+  };
+}
+
+export function createTableExportWriter(
+  format: TableExportFormat,
+  out: Writable,
+  options: { bom: boolean; sheetName: string },
+): TableExportWriter {
+  return format === "xlsx"
+    ? createXlsxWriter(out, options.sheetName)
+    : createDelimitedWriter(out, format, options.bom);
+}
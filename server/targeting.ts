@@ -0,0 +1,724 @@
+import type {
+  FilterValue,
+  TargetingCondition,
+  TargetingRule,
+  TargetingValue,
+} from "@shared/schema";
+
+// ── Compiled SQL ────────────────────────────────────────────────────
+
+export type SqlParamValue = string | number | boolean | null;
+
+export interface SqlParam {
+  name: string; // placeholder name without "@", e.g. "p0"
+  value: SqlParamValue;
+}
+
+// WHERE-clause fragment with @p0, @p1... placeholders. Values never appear in `sql`.
+export interface CompiledSql {
+  sql: string;
+  params: SqlParam[];
+}
+
+export function quoteIdentifier(name: string): string {
+  return `[${name.replace(/\]/g, "]]")}]`;
+}
+
+export function renderLiteral(value: SqlParamValue): string {
+  if (value === null) return "NULL";
+  if (typeof value === "boolean") return value ? "1" : "0";
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Invalid numeric parameter: ${value}`);
+    }
+    return String(value);
+  }
+  return `N'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Substitutes typed literals for the @pN placeholders. Metabase's /api/dataset
+ * endpoint has no bind-parameter support for ad-hoc native SQL, so this is the
+ * single place where rule values are rendered into query text.
+ */
+export function inlineSqlParams(compiled: CompiledSql): string {
+  const byName = new Map(compiled.params.map((p) => [p.name, p.value]));
+  return compiled.sql.replace(/@(p\d+)\b/g, (match, name: string) =>
+    byName.has(name) ? renderLiteral(byName.get(name)!) : match,
+  );
+}
+
+// ── Compiler ────────────────────────────────────────────────────────
+
+class RuleCompiler {
+  params: SqlParam[] = [];
+
+  private bind(value: TargetingValue): string {
+    const name = `p${this.params.length}`;
+    this.params.push({ name, value });
+    return `@${name}`;
+  }
+
+  // Text equality trims padding — char(n) columns like gender come back as "M  "
+  private comparable(field: string, value: TargetingValue): string {
+    return typeof value === "string"
+      ? `LTRIM(RTRIM(${quoteIdentifier(field)}))`
+      : quoteIdentifier(field);
+  }
+
+  compile(rule: TargetingRule): string {
+    switch (rule.type) {
+      case "and":
+      case "or": {
+        const parts = rule.rules.map((r) => this.compile(r));
+        if (parts.length === 1) return parts[0];
+        return `(${parts.join(rule.type === "and" ? " AND " : " OR ")})`;
+      }
+      // Two-valued NOT: a plain NOT over a NULL comparison is UNKNOWN, which would
+      // drop never-mailed contacts from "NOT mailed within 30 days"
+      case "not":
+        return `(CASE WHEN ${this.compile(rule.rule)} THEN 1 ELSE 0 END) = 0`;
+      case "condition":
+        return this.compileCondition(rule);
+    }
+  }
+
+  private compileCondition(cond: TargetingCondition): string {
+    const col = quoteIdentifier(cond.field);
+    switch (cond.operator) {
+      case "=":
+      case "!=":
+        return `${this.comparable(cond.field, cond.value)} ${cond.operator === "=" ? "=" : "<>"} ${this.bind(cond.value)}`;
+      case ">":
+      case ">=":
+      case "<":
+      case "<=":
+        return `${col} ${cond.operator} ${this.bind(cond.value)}`;
+      case "in":
+      case "not_in": {
+        const lhs = this.comparable(cond.field, cond.values[0]);
+        const list = cond.values.map((v) => this.bind(v)).join(", ");
+        return `${lhs} ${cond.operator === "in" ? "IN" : "NOT IN"} (${list})`;
+      }
+      case "between":
+        return `${col} BETWEEN ${this.bind(cond.value)} AND ${this.bind(cond.valueTo)}`;
+      case "like":
+        return `${col} LIKE ${this.bind(cond.value)}`;
+      case "not_like":
+        return `${col} NOT LIKE ${this.bind(cond.value)}`;
+      case "is_null":
+        return `${col} IS NULL`;
+      case "is_not_null":
+        return `${col} IS NOT NULL`;
+      case "within_last":
+      case "older_than": {
+        // unit is a closed enum (day/week/month/year), valid as a DATEADD datepart
+        const amount = Math.max(0, Math.floor(cond.amount));
+        const boundary = `DATEADD(${cond.unit}, -${amount}, CAST(GETDATE() AS DATE))`;
+        return cond.operator === "within_last"
+          ? `${col} >= ${boundary}`
+          : `${col} < ${boundary}`;
+      }
+    }
+  }
+}
+
+/** Compiles a rule tree to a parameterised condition. `null` compiles to `fallback`. */
+export function compileTargetingRule(
+  rule: TargetingRule | null,
+  fallback: "1=1" | "1=0" = "1=1",
+): CompiledSql {
+  if (!rule) return { sql: fallback, params: [] };
+  const compiler = new RuleCompiler();
+  const sql = compiler.compile(rule);
+  return { sql, params: compiler.params };
+}
+
+// Convenience for the Metabase native path: compile + inline in one step
+export function targetingRuleToSql(
+  rule: TargetingRule | null,
+  fallback: "1=1" | "1=0" = "1=1",
+): string {
+  return inlineSqlParams(compileTargetingRule(rule, fallback));
+}
+
+// ── Legacy "field:value" segments ───────────────────────────────────
+
+/**
+ * Parses a legacy segment string ("gender:F", "GL_LTV:>0", "pref:!=Tokyo") into a
+ * condition. Returns null when the string has no "field:" prefix.
+ */
+export function segmentToCondition(segment: string): TargetingCondition | null {
+  const colonIdx = segment.indexOf(":");
+  if (colonIdx === -1) return null;
+  const field = segment.substring(0, colonIdx).trim();
+  if (!field) return null;
+  let val = segment.substring(colonIdx + 1);
+  val = val.replace(/^["']+|["']+$/g, "").trim();
+
+  let operator: "=" | "!=" | ">" | ">=" | "<" | "<=" = "=";
+  for (const op of [">=", "<=", "!=", ">", "<"] as const) {
+    if (val.startsWith(op)) {
+      operator = op;
+      val = val.substring(op.length).trim();
+      break;
+    }
+  }
+  val = val.replace(/^["']+|["']+$/g, "").trim();
+
+  let value: TargetingValue;
+  if (!isNaN(Number(val)) && val !== "") {
+    value = Number(val);
+  } else if (val.toLowerCase() === "true") {
+    value = 1;
+  } else if (val.toLowerCase() === "false") {
+    value = 0;
+  } else {
+    value = val;
+  }
+
+  return { type: "condition", field, operator, value };
+}
+
+/**
+ * Combines independently-selected rules the way the Campaign Builder always has:
+ * plain equalities on the same field are OR'ed (gender:M + gender:F = either),
+ * everything else is AND'ed. Returns null when there is nothing to combine.
+ */
+export function combineTargetingRules(
+  rules: TargetingRule[],
+): TargetingRule | null {
+  if (rules.length === 0) return null;
+
+  const equalityGroups = new Map<string, TargetingRule[]>();
+  const clauses: Array<TargetingRule | string> = [];
+  for (const rule of rules) {
+    if (rule.type === "condition" && rule.operator === "=") {
+      if (!equalityGroups.has(rule.field)) {
+        equalityGroups.set(rule.field, []);
+        clauses.push(rule.field); // keeps first-seen position
+      }
+      equalityGroups.get(rule.field)!.push(rule);
+    } else {
+      clauses.push(rule);
+    }
+  }
+
+  const combined: TargetingRule[] = clauses.map((c) => {
+    if (typeof c !== "string") return c;
+    const group = equalityGroups.get(c)!;
+    return group.length === 1 ? group[0] : { type: "or", rules: group };
+  });
+
+  return combined.length === 1 ? combined[0] : { type: "and", rules: combined };
+}
+
+/**
+ * Resolves what the client sent into a single rule tree. An explicit `rules` tree
+ * wins; otherwise each segment label maps to its AI rule (if supplied) or is parsed
+ * as a legacy "field:value" string.
+ */
+export function resolveTargetingRule(input: {
+  segments?: string[];
+  segmentRules?: Record<string, TargetingRule>;
+  rules?: TargetingRule | null;
+}): TargetingRule | null {
+  if (input.rules) return input.rules;
+  const resolved: TargetingRule[] = [];
+  for (const seg of input.segments ?? []) {
+    const rule = input.segmentRules?.[seg] ?? segmentToCondition(seg);
+    if (rule) resolved.push(rule);
+  }
+  return combineTargetingRules(resolved);
+}
+
+// ── Data Filter conditions ──────────────────────────────────────────
+
+// Literal text inside a LIKE pattern: %, _ and [ are wildcards in T-SQL
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[%_[]/g, "[$&]");
+}
+
+/**
+ * Converts one Data Filter condition (the MBQL-oriented `FilterValue` the filter
+ * cards produce) into a rule so it can run as native SQL. Values on numeric
+ * columns are coerced to numbers; returns null for an incomplete filter.
+ */
+export function filterValueToRule(
+  filter: FilterValue,
+  numeric: boolean,
+): TargetingRule | null {
+  const field = filter.fieldName;
+  const coerce = (v: string | number): TargetingValue =>
+    numeric && v !== "" && Number.isFinite(Number(v)) ? Number(v) : v;
+  const values = (filter.values ?? []).map(coerce);
+  const text =
+    filter.value === null || filter.value === undefined
+      ? ""
+      : String(filter.value);
+
+  switch (filter.operator) {
+    case "equals":
+    case "not_equals": {
+      const negate = filter.operator === "not_equals";
+      if (values.length > 1) {
+        return {
+          type: "condition",
+          field,
+          operator: negate ? "not_in" : "in",
+          values,
+        };
+      }
+      const value =
+        values.length === 1
+          ? values[0]
+          : filter.value === null || filter.value === undefined
+            ? null
+            : coerce(filter.value);
+      if (value === null) {
+        return {
+          type: "condition",
+          field,
+          operator: negate ? "is_not_null" : "is_null",
+        };
+      }
+      return {
+        type: "condition",
+        field,
+        operator: negate ? "!=" : "=",
+        value,
+      };
+    }
+    case "contains":
+    case "starts_with":
+    case "ends_with": {
+      if (!text) return null;
+      const literal = escapeLikePattern(text);
+      const pattern =
+        filter.operator === "contains"
+          ? `%${literal}%`
+          : filter.operator === "starts_with"
+            ? `${literal}%`
+            : `%${literal}`;
+      return { type: "condition", field, operator: "like", value: pattern };
+    }
+    case "greater_than":
+    case "less_than":
+      if (!text) return null;
+      return {
+        type: "condition",
+        field,
+        operator: filter.operator === "greater_than" ? ">" : "<",
+        value: coerce(filter.value!),
+      };
+    case "between": {
+      const from = text ? coerce(filter.value!) : null;
+      const to =
+        filter.valueTo !== null &&
+        filter.valueTo !== undefined &&
+        filter.valueTo !== ""
+          ? coerce(filter.valueTo)
+          : null;
+      if (from !== null && to !== null) {
+        return {
+          type: "condition",
+          field,
+          operator: "between",
+          value: from,
+          valueTo: to,
+        };
+      }
+      if (from !== null) {
+        return { type: "condition", field, operator: ">=", value: from };
+      }
+      if (to !== null) {
+        return { type: "condition", field, operator: "<=", value: to };
+      }
+      return null;
+    }
+    case "is_null":
+    case "is_not_null":
+      return { type: "condition", field, operator: filter.operator };
+  }
+}
+
+// Data Filter cards are always AND'ed together
+export function filterValuesToRule(
+  filters: FilterValue[],
+  numericFields: ReadonlySet<string>,
+): TargetingRule | null {
+  const rules = filters
+    .map((f) => filterValueToRule(f, numericFields.has(f.fieldName)))
+    .filter((r): r is TargetingRule => r !== null);
+  if (rules.length === 0) return null;
+  return rules.length === 1 ? rules[0] : { type: "and", rules };
+}
+
+// ── Inspection helpers ──────────────────────────────────────────────
+
+export function collectRuleFields(rule: TargetingRule | null): string[] {
+  if (!rule) return [];
+  const fields = new Set<string>();
+  const walk = (r: TargetingRule) => {
+    if (r.type === "condition") fields.add(r.field);
+    else if (r.type === "not") walk(r.rule);
+    else r.rules.forEach(walk);
+  };
+  walk(rule);
+  return Array.from(fields);
+}
+
+const CORE_FIELD_PATTERN =
+  /^(gender|sex|age|ddob|dob|birth|birthdate|pref|prefecture|country|nation|nationality)/i;
+
+/**
+ * Keeps the "core" part of a rule for the relaxed (tier 2) fallback: demographic
+ * conditions and range comparisons (e.g. GL_LTV > 0 anchors the concept). Product,
+ * channel and source equalities are dropped. Groups survive only if every condition
+ * inside them is core, so an OR/NOT is never half-applied.
+ */
+export function relaxTargetingRule(
+  rule: TargetingRule | null,
+): TargetingRule | null {
+  if (!rule) return null;
+
+  const isCore = (r: TargetingRule): boolean => {
+    if (r.type === "not") return isCore(r.rule);
+    if (r.type !== "condition") return r.rules.every(isCore);
+    if (CORE_FIELD_PATTERN.test(r.field)) return true;
+    return ["!=", ">", ">=", "<", "<="].includes(r.operator);
+  };
+
+  if (rule.type === "and") {
+    const kept = rule.rules.filter(isCore);
+    if (kept.length === 0) return null;
+    return kept.length === 1 ? kept[0] : { type: "and", rules: kept };
+  }
+  return isCore(rule) ? rule : null;
+}
+
+function formatValue(value: TargetingValue): string {
+  return typeof value === "string" ? `"${value}"` : String(value);
+}
+
+/** Human-readable rendering for warnings and logs, e.g. (GL_LTV > 0 OR TSI_LTV > 0) AND NOT (...) */
+export function describeTargetingRule(rule: TargetingRule | null): string {
+  if (!rule) return "(no targeting rules)";
+  switch (rule.type) {
+    case "and":
+    case "or": {
+      const parts = rule.rules.map(describeTargetingRule);
+      if (parts.length === 1) return parts[0];
+      return `(${parts.join(rule.type === "and" ? " AND " : " OR ")})`;
+    }
+    case "not":
+      return `NOT ${describeTargetingRule(rule.rule)}`;
+    case "condition":
+      switch (rule.operator) {
+        case "in":
+        case "not_in":
+          return `${rule.field} ${rule.operator === "in" ? "IN" : "NOT IN"} (${rule.values.map(formatValue).join(", ")})`;
+        case "between":
+          return `${rule.field} BETWEEN ${formatValue(rule.value)} AND ${formatValue(rule.valueTo)}`;
+        case "like":
+        case "not_like":
+          return `${rule.field} ${rule.operator === "like" ? "LIKE" : "NOT LIKE"} ${formatValue(rule.value)}`;
+        case "is_null":
+          return `${rule.field} IS NULL`;
+        case "is_not_null":
+          return `${rule.field} IS NOT NULL`;
+        case "within_last":
+          return `${rule.field} within last ${rule.amount} ${rule.unit}(s)`;
+        case "older_than":
+          return `${rule.field} older than ${rule.amount} ${rule.unit}(s)`;
+        default:
+          return `${rule.field} ${rule.operator} ${formatValue(rule.value)}`;
+      }
+  }
+}
+
+// ── Birthday & age filters ──────────────────────────────────────────
+
+export interface DobColumn {
+  name: string;
+  isDate: boolean; // false → stored as text (e.g. "19650312"), converted with TRY_CONVERT
+}
+
+export type BirthdayWindow =
+  | { kind: "months"; months: number[]; label: string }
+  // Month-day span (inclusive) as MMDD numbers; from > to means it wraps the year end
+  | { kind: "days"; from: number; to: number; label: string };
+
+export interface AgeBounds {
+  min: number | null;
+  max: number | null;
+  label: string;
+}
+
+const MONTH_NAMES = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+function monthDay(d: Date): number {
+  return (d.getMonth() + 1) * 100 + d.getDate();
+}
+
+function addDays(d: Date, days: number): Date {
+  const next = new Date(d);
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+function dayWindow(from: Date, to: Date, label: string): BirthdayWindow {
+  return { kind: "days", from: monthDay(from), to: monthDay(to), label };
+}
+
+function findMonth(token: string): number | null {
+  const t = token.toLowerCase().replace(/\.$/, "");
+  const jp = t.match(/^(\d{1,2})月$/);
+  if (jp) {
+    const m = Number(jp[1]);
+    return m >= 1 && m <= 12 ? m : null;
+  }
+  if (t.length < 3) return null;
+  const idx = MONTH_NAMES.findIndex((name) => name.startsWith(t));
+  return idx === -1 ? null : idx + 1;
+}
+
+/**
+ * Parses the Campaign Builder's free-text birthday filter: relative phrases
+ * ("this month", "next week", "next 14 days", 今月/来月), single months
+ * ("March", "3月") and month lists or spans ("March, May", "Mar-May").
+ * Returns null when nothing recognisable is found.
+ */
+export function parseBirthdayFilter(
+  text: string,
+  today: Date = new Date(),
+): BirthdayWindow | null {
+  const t = text.trim().toLowerCase();
+  if (!t) return null;
+  const month = today.getMonth() + 1;
+  const shiftMonth = (delta: number) => ((month - 1 + delta + 12) % 12) + 1;
+
+  if (/\b(this|current) month\b|今月/.test(t)) {
+    return { kind: "months", months: [month], label: "this month" };
+  }
+  if (/\bnext month\b|来月/.test(t)) {
+    return { kind: "months", months: [shiftMonth(1)], label: "next month" };
+  }
+  if (/\b(last|previous) month\b|先月/.test(t)) {
+    return { kind: "months", months: [shiftMonth(-1)], label: "last month" };
+  }
+
+  // Weeks run Monday–Sunday
+  const weekStart = addDays(today, -((today.getDay() + 6) % 7));
+  if (/\b(this|current) week\b|今週/.test(t)) {
+    return dayWindow(weekStart, addDays(weekStart, 6), "this week");
+  }
+  if (/\bnext week\b|来週/.test(t)) {
+    const start = addDays(weekStart, 7);
+    return dayWindow(start, addDays(start, 6), "next week");
+  }
+  if (/\btoday\b|今日|本日/.test(t)) {
+    return dayWindow(today, today, "today");
+  }
+  if (/\btomorrow\b|明日/.test(t)) {
+    const tomorrow = addDays(today, 1);
+    return dayWindow(tomorrow, tomorrow, "tomorrow");
+  }
+  const nextDays = t.match(/\b(?:next|within|coming)\s+(\d{1,3})\s+days?\b/);
+  if (nextDays) {
+    const days = Math.min(Number(nextDays[1]), 366);
+    if (days >= 1) {
+      return dayWindow(
+        today,
+        addDays(today, days - 1),
+        `next ${days} day${days === 1 ? "" : "s"}`,
+      );
+    }
+  }
+
+  // Month names: "March", "Mar-May", "March to May", "3月〜5月", "March, June"
+  const tokens =
+    t.match(/[a-z]+\.?|\d{1,2}月|[-~〜]|\bto\b|\bthrough\b/g) ?? [];
+  const months: number[] = [];
+  let pendingSpan = false;
+  for (const token of tokens) {
+    if (/^([-~〜]|to|through)$/.test(token)) {
+      pendingSpan = months.length > 0;
+      continue;
+    }
+    const m = findMonth(token);
+    if (m === null) continue;
+    if (pendingSpan) {
+      const from = months[months.length - 1];
+      for (let step = 1; step <= 11; step++) {
+        const next = ((from - 1 + step) % 12) + 1;
+        months.push(next);
+        if (next === m) break;
+      }
+    } else {
+      months.push(m);
+    }
+    pendingSpan = false;
+  }
+  const unique = Array.from(new Set(months));
+  if (unique.length === 0) return null;
+  return {
+    kind: "months",
+    months: unique,
+    label: unique
+      .map(
+        (m) =>
+          MONTH_NAMES[m - 1][0].toUpperCase() + MONTH_NAMES[m - 1].slice(1),
+      )
+      .join(", "),
+  };
+}
+
+/**
+ * Parses an age range: ">50", ">=50", "<30", "25-40", "50+", "over 60",
+ * "under 30", "40s", "50代" or a single age. Returns null when unrecognised.
+ */
+export function parseAgeRange(text: string): AgeBounds | null {
+  const t = text.trim().toLowerCase();
+  if (!t) return null;
+  const bounds = (min: number | null, max: number | null): AgeBounds | null => {
+    if (min !== null && max !== null && min > max) return null;
+    const label =
+      min !== null && max !== null
+        ? min === max
+          ? `age ${min}`
+          : `age ${min}–${max}`
+        : min !== null
+          ? `age ${min}+`
+          : `age ≤${max}`;
+    return { min, max, label };
+  };
+
+  let m = t.match(/^(>=|<=|>|<)\s*(\d{1,3})$/);
+  if (m) {
+    const n = Number(m[2]);
+    if (m[1] === ">") return bounds(n + 1, null);
+    if (m[1] === ">=") return bounds(n, null);
+    if (m[1] === "<") return bounds(null, n - 1);
+    return bounds(null, n);
+  }
+  m = t.match(/^(\d{1,3})\s*(?:-|–|~|〜|to)\s*(\d{1,3})$/);
+  if (m) return bounds(Number(m[1]), Number(m[2]));
+  m = t.match(
+    /^(\d{1,3})\s*(?:\+|and (?:above|over|older)|or (?:above|over|older)|歳以上)$/,
+  );
+  if (m) return bounds(Number(m[1]), null);
+  m = t.match(/^(?:over|above|older than)\s+(\d{1,3})$/);
+  if (m) return bounds(Number(m[1]) + 1, null);
+  m = t.match(/^(?:under|below|younger than)\s+(\d{1,3})$/);
+  if (m) return bounds(null, Number(m[1]) - 1);
+  m = t.match(/^(\d)0(?:s|'s|代)$/);
+  if (m) return bounds(Number(m[1]) * 10, Number(m[1]) * 10 + 9);
+  m = t.match(/^(\d{1,3})$/);
+  if (m) return bounds(Number(m[1]), Number(m[1]));
+  return null;
+}
+
+function dobExpression(dob: DobColumn): string {
+  const col = quoteIdentifier(dob.name);
+  return dob.isDate ? col : `TRY_CONVERT(date, ${col})`;
+}
+
+export function birthdayWindowToSql(
+  dob: DobColumn,
+  window: BirthdayWindow,
+): string {
+  const d = dobExpression(dob);
+  if (window.kind === "months") {
+    return `DATEPART(month, ${d}) IN (${window.months.join(", ")})`;
+  }
+  const md = `(DATEPART(month, ${d}) * 100 + DATEPART(day, ${d}))`;
+  if (window.from <= window.to) {
+    return `${md} BETWEEN ${window.from} AND ${window.to}`;
+  }
+  return `(${md} >= ${window.from} OR ${md} <= ${window.to})`;
+}
+
+// Exact age via date bounds rather than DATEDIFF(year, ...), which counts year
+// boundaries crossed and would age everyone up on January 1st
+export function ageBoundsToSql(dob: DobColumn, age: AgeBounds): string {
+  const d = dobExpression(dob);
+  const today = "CAST(GETDATE() AS DATE)";
+  const parts: string[] = [];
+  if (age.min !== null) {
+    parts.push(`${d} <= DATEADD(year, -${age.min}, ${today})`);
+  }
+  if (age.max !== null) {
+    parts.push(`${d} > DATEADD(year, -${age.max + 1}, ${today})`);
+  }
+  return parts.join(" AND ");
+}
+
+export interface DemographicFilterResult {
+  clause: string | null; // bare condition, AND-ed onto the count and ranked fetch
+  applied: string[];
+  warnings: string[];
+}
+
+/** Builds the birthday / age predicates for the V2 preview and export. */
+export function buildDemographicClause(
+  dob: DobColumn | null,
+  input: { birthdayFilter?: string | null; ageRange?: string | null },
+  today: Date = new Date(),
+): DemographicFilterResult {
+  const clauses: string[] = [];
+  const applied: string[] = [];
+  const warnings: string[] = [];
+
+  const birthdayText = input.birthdayFilter?.trim();
+  const ageText = input.ageRange?.trim();
+  if ((birthdayText || ageText) && !dob) {
+    warnings.push(
+      "No date-of-birth column was found in this table, so the birthday and age filters were not applied.",
+    );
+    return { clause: null, applied, warnings };
+  }
+
+  if (birthdayText && dob) {
+    const window = parseBirthdayFilter(birthdayText, today);
+    if (window) {
+      clauses.push(birthdayWindowToSql(dob, window));
+      applied.push(`birthday ${window.label}`);
+    } else {
+      warnings.push(
+        `Birthday filter "${birthdayText}" was not recognised and was not applied. Try "this month", "next week" or a month name.`,
+      );
+    }
+  }
+
+  if (ageText && dob) {
+    const age = parseAgeRange(ageText);
+    if (age) {
+      clauses.push(ageBoundsToSql(dob, age));
+      applied.push(age.label);
+    } else {
+      warnings.push(
+        `Age range "${ageText}" was not recognised and was not applied.`,
+      );
+    }
+  }
+
+  return {
+    clause: clauses.length > 0 ? clauses.join(" AND ") : null,
+    applied,
+    warnings,
+  };
+}
@@ -0,0 +1,419 @@
+import type { ICPSegmentFilter, MetabaseField } from "@shared/schema";
+import {
+  getDatabases,
+  getTables,
+  getFields,
+  runNativeQuery,
+  getQueryExecutor,
+  cacheGet,
+  cacheSet,
+  detectSourceRef,
+  findEmailField,
+  findPhoneField,
+  normalizeColName,
+} from "./metabase";
+import { loadDoNotContactMatcher } from "./do-not-contact";
+
+// ── Trends & ICP SQL analysis (GalaxyMaster / Astro) ─────────────────
+// All counting happens in SQL Server — the galaxy_individual table has
+// 17M+ rows, so nothing here ever pulls unaggregated data except the
+// paginated customer view and the batched CSV export.
+
+const CACHE_TTL_ANALYSIS = 5 * 60 * 1000; // 5 min, matches the page's staleTime
+const CUSTOMERS_PAGE_SIZE = 50;
+
+const AGE_EXPR = "DATEDIFF(year, ddob, GETDATE())";
+
+const AGE_GROUP_CASE = `CASE
+    WHEN ddob IS NULL THEN 'Unknown'
+    WHEN ${AGE_EXPR} < 30 THEN 'Under 30'
+    WHEN ${AGE_EXPR} BETWEEN 30 AND 39 THEN '30-39'
+    WHEN ${AGE_EXPR} BETWEEN 40 AND 49 THEN '40-49'
+    WHEN ${AGE_EXPR} BETWEEN 50 AND 59 THEN '50-59'
+    WHEN ${AGE_EXPR} BETWEEN 60 AND 69 THEN '60-69'
+    WHEN ${AGE_EXPR} >= 70 THEN '70+'
+    ELSE 'Unknown'
+  END`;
+
+const AGE_GROUP_CONDITIONS: Record<ICPSegmentFilter["ageGroup"], string> = {
+  "Under 30": `${AGE_EXPR} < 30`,
+  "30-39": `${AGE_EXPR} BETWEEN 30 AND 39`,
+  "40-49": `${AGE_EXPR} BETWEEN 40 AND 49`,
+  "50-59": `${AGE_EXPR} BETWEEN 50 AND 59`,
+  "60-69": `${AGE_EXPR} BETWEEN 60 AND 69`,
+  "70+": `${AGE_EXPR} >= 70`,
+  Unknown: "ddob IS NULL",
+};
+
+const TOTAL_LTV_EXPR =
+  "ISNULL(CAST(GL_LTV AS MONEY), 0) + ISNULL(CAST(TSI_LTV AS MONEY), 0) + " +
+  "ISNULL(CAST(SY_LTV AS MONEY), 0) + ISNULL(CAST(MD_LTV AS MONEY), 0)";
+
+export const ICP_EXPORT_HEADERS = [
+  "Customer ID",
+  "Gender",
+  "Date of Birth",
+  "Prefecture",
+  "GL LTV",
+  "TSI LTV",
+  "SY LTV",
+  "MD LTV",
+  "Total LTV",
+  "Has Mobile",
+  "Has Email",
+];
+
+interface GalaxyTarget {
+  databaseId: number;
+  tableName: string;
+  fields: MetabaseField[];
+}
+
+export interface ICPCustomer {
+  customerId: string;
+  gender: string;
+  dateOfBirth: string | null;
+  prefecture: string;
+  glLtv: number;
+  tsiLtv: number;
+  syLtv: number;
+  mdLtv: number;
+  totalLtv: number;
+  hasMobile: boolean;
+  hasEmail: boolean;
+}
+
+function sqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+async function getGalaxyTarget(): Promise<GalaxyTarget> {
+  const cacheKey = "galaxyTarget";
+  const cached = cacheGet<GalaxyTarget>(cacheKey);
+  if (cached) return cached;
+
+  const databases = await getDatabases();
+  const database = databases.find((db) => {
+    const n = db.name.toLowerCase();
+    return n.includes("galaxy") || n.includes("astro");
+  });
+  if (!database) {
+    throw new Error("GalaxyMaster or Astro database was not found in Metabase");
+  }
+
+  const tables = await getTables(database.id);
+  const table = tables.find((t) => {
+    const n = t.name.toLowerCase();
+    return n.includes("galaxy_individual") || n.includes("galaxy individual");
+  });
+  if (!table) {
+    throw new Error(
+      `galaxy_individual table was not found in database ${database.name}`,
+    );
+  }
+
+  const fields = await getFields(table.id);
+  const target = { databaseId: database.id, tableName: table.name, fields };
+  cacheSet(cacheKey, target, CACHE_TTL_ANALYSIS);
+  return target;
+}
+
+// "Mailed" is tracked per-row on the master table (flag or last-mailed date)
+function findMailedField(fields: MetabaseField[]): MetabaseField | null {
+  return (
+    fields.find((f) => {
+      const n = normalizeColName(f.name);
+      return n.includes("mailed") || n.includes("lastmail");
+    }) ?? null
+  );
+}
+
+// The ICP query groups blank values with NULL as "Unknown"; match them the same way
+function segmentValueCondition(column: string, value: string): string {
+  return value === "Unknown"
+    ? `(${column} IS NULL OR LTRIM(RTRIM(${column})) = '')`
+    : `LTRIM(RTRIM(${column})) = ${sqlString(value.trim())}`;
+}
+
+function buildSegmentWhere(
+  target: GalaxyTarget,
+  filter: ICPSegmentFilter,
+): { whereClause: string; mailedFilterApplied: boolean } {
+  const conditions: string[] = [AGE_GROUP_CONDITIONS[filter.ageGroup]];
+
+  conditions.push(segmentValueCondition("gender", filter.gender));
+  conditions.push(segmentValueCondition("prefecture", filter.location));
+
+  let mailedFilterApplied = false;
+  if (filter.excludeMailed) {
+    const mailedField = findMailedField(target.fields);
+    if (mailedField) {
+      const isDate =
+        mailedField.base_type === "type/Date" ||
+        mailedField.base_type.startsWith("type/DateTime");
+      conditions.push(
+        isDate
+          ? `[${mailedField.name}] IS NULL`
+          : `ISNULL([${mailedField.name}], 0) = 0`,
+      );
+      mailedFilterApplied = true;
+    } else {
+      console.warn(
+        `excludeMailed requested but no mailed column exists on [${target.tableName}]`,
+      );
+    }
+  }
+
+  return { whereClause: conditions.join(" AND "), mailedFilterApplied };
+}
+
+function getCustomerIdColumn(target: GalaxyTarget): string {
+  const detection = detectSourceRef(target.fields);
+  if (detection.index === -1 || !detection.columnName) {
+    throw new Error(
+      `No customer reference column could be detected on [${target.tableName}]`,
+    );
+  }
+  return detection.columnName;
+}
+
+function buildCustomerSelect(idColumn: string): string {
+  return (
+    `[${idColumn}] AS customer_id, gender, ddob, prefecture, ` +
+    `ISNULL(CAST(GL_LTV AS MONEY), 0) AS gl_ltv, ` +
+    `ISNULL(CAST(TSI_LTV AS MONEY), 0) AS tsi_ltv, ` +
+    `ISNULL(CAST(SY_LTV AS MONEY), 0) AS sy_ltv, ` +
+    `ISNULL(CAST(MD_LTV AS MONEY), 0) AS md_ltv, ` +
+    `${TOTAL_LTV_EXPR} AS total_ltv, ` +
+    `CASE WHEN Mobile = 1 THEN 1 ELSE 0 END AS has_mobile, ` +
+    `CASE WHEN Email = 1 THEN 1 ELSE 0 END AS has_email`
+  );
+}
+
+// Email / Mobile on galaxy_individual are 0/1 flags; address columns (if the table
+// has any) are selected after the customer columns for the do-not-contact check only
+function buildContactSelect(target: GalaxyTarget): {
+  sql: string;
+  emailIndex: number;
+  phoneIndex: number;
+} {
+  const textOnly = (field: MetabaseField | null) =>
+    field && field.base_type === "type/Text" ? field : null;
+  const email = textOnly(findEmailField(target.fields));
+  const phone = findPhoneField(target.fields);
+  const customerColumnCount = ICP_EXPORT_HEADERS.length;
+  return {
+    sql:
+      (email ? `, [${email.name}] AS contact_email` : "") +
+      (phone ? `, [${phone.name}] AS contact_phone` : ""),
+    emailIndex: email ? customerColumnCount : -1,
+    phoneIndex: phone ? customerColumnCount + (email ? 1 : 0) : -1,
+  };
+}
+
+function mapCustomerRow(row: any[]): ICPCustomer {
+  return {
+    customerId: String(row[0] ?? ""),
+    gender: String(row[1] ?? "").trim() || "Unknown",
+    dateOfBirth: row[2] !== null ? String(row[2]) : null,
+    prefecture: String(row[3] ?? "").trim() || "Unknown",
+    glLtv: Number(row[4] ?? 0),
+    tsiLtv: Number(row[5] ?? 0),
+    syLtv: Number(row[6] ?? 0),
+    mdLtv: Number(row[7] ?? 0),
+    totalLtv: Number(row[8] ?? 0),
+    hasMobile: Number(row[9]) === 1,
+    hasEmail: Number(row[10]) === 1,
+  };
+}
+
+export async function getCrossSellSnapshot() {
+  const cacheKey = "analysis:snapshot";
+  const cached = cacheGet<any>(cacheKey);
+  if (cached) return cached;
+
+  const target = await getGalaxyTarget();
+  const sql = `SELECT
+    COUNT(*) AS Total_Customers,
+    SUM(CASE WHEN GL_LTV > 0 THEN 1 ELSE 0 END) AS GL_Buyers,
+    SUM(CASE WHEN TSI_LTV > 0 THEN 1 ELSE 0 END) AS TSI_Buyers,
+    SUM(CASE WHEN SY_LTV > 0 THEN 1 ELSE 0 END) AS SY_Buyers,
+    SUM(CASE WHEN MD_LTV > 0 THEN 1 ELSE 0 END) AS MD_Buyers,
+    SUM(CASE WHEN GL_LTV > 0 AND TSI_LTV > 0 THEN 1 ELSE 0 END) AS GL_and_TSI_Overlap,
+    SUM(CASE WHEN GL_LTV > 0 AND MD_LTV > 0 THEN 1 ELSE 0 END) AS GL_and_MD_Overlap,
+    SUM(CASE WHEN SY_LTV > 0 AND GL_LTV > 0 THEN 1 ELSE 0 END) AS SY_and_GL_Overlap
+  FROM [${target.tableName}];`;
+
+  const result = await runNativeQuery(target.databaseId, sql);
+  const row = result.rows[0] ?? [];
+  const snapshot = {
+    totalCustomers: Number(row[0] ?? 0),
+    buyers: {
+      GL: Number(row[1] ?? 0),
+      TSI: Number(row[2] ?? 0),
+      SY: Number(row[3] ?? 0),
+      MD: Number(row[4] ?? 0),
+    },
+    overlap: {
+      GL_TSI: Number(row[5] ?? 0),
+      GL_MD: Number(row[6] ?? 0),
+      SY_GL: Number(row[7] ?? 0),
+    },
+    queryTime: new Date().toISOString(),
+  };
+
+  cacheSet(cacheKey, snapshot, CACHE_TTL_ANALYSIS);
+  return snapshot;
+}
+
+export async function getTopICPSegments() {
+  const cacheKey = "analysis:icp";
+  const cached = cacheGet<any>(cacheKey);
+  if (cached) return cached;
+
+  const target = await getGalaxyTarget();
+  const sql = `SELECT TOP 50
+    ISNULL(NULLIF(LTRIM(RTRIM(gender)), ''), 'Unknown') AS Gender,
+    ${AGE_GROUP_CASE} AS AgeGroup,
+    ISNULL(NULLIF(LTRIM(RTRIM(prefecture)), ''), 'Unknown') AS Location,
+    COUNT(*) AS CustomerCount,
+    AVG(${TOTAL_LTV_EXPR}) AS Avg_Total_LTV,
+    SUM(CASE WHEN Mobile = 1 THEN 1 ELSE 0 END) AS Has_Mobile,
+    SUM(CASE WHEN Email = 1 THEN 1 ELSE 0 END) AS Has_Email
+  FROM [${target.tableName}]
+  WHERE ddob IS NOT NULL
+  GROUP BY NULLIF(LTRIM(RTRIM(gender)), ''), NULLIF(LTRIM(RTRIM(prefecture)), ''), ${AGE_GROUP_CASE}
+  ORDER BY Avg_Total_LTV DESC;`;
+
+  const result = await runNativeQuery(target.databaseId, sql);
+  const segments = result.rows.map((row: any[], i: number) => {
+    const customerCount = Number(row[3] ?? 0);
+    const hasMobile = Number(row[5] ?? 0);
+    const hasEmail = Number(row[6] ?? 0);
+    return {
+      rank: i + 1,
+      gender: String(row[0]).trim() || "Unknown",
+      ageGroup: String(row[1]),
+      location: String(row[2]).trim() || "Unknown",
+      customerCount,
+      avgTotalLTV: Math.round(Number(row[4] ?? 0)),
+      hasMobile,
+      hasEmail,
+      mobileRate:
+        customerCount > 0
+          ? Math.round((hasMobile / customerCount) * 1000) / 10
+          : 0,
+      emailRate:
+        customerCount > 0
+          ? Math.round((hasEmail / customerCount) * 1000) / 10
+          : 0,
+    };
+  });
+
+  const icp = {
+    segments,
+    totalSegments: segments.length,
+    queryTime: new Date().toISOString(),
+  };
+  cacheSet(cacheKey, icp, CACHE_TTL_ANALYSIS);
+  return icp;
+}
+
+export async function getICPSegmentCustomers(
+  filter: ICPSegmentFilter,
+  page: number,
+) {
+  const target = await getGalaxyTarget();
+  const idColumn = getCustomerIdColumn(target);
+  const { whereClause, mailedFilterApplied } = buildSegmentWhere(
+    target,
+    filter,
+  );
+  const offset = (page - 1) * CUSTOMERS_PAGE_SIZE;
+
+  const pageSql =
+    `SELECT ${buildCustomerSelect(idColumn)} FROM [${target.tableName}] ` +
+    `WHERE ${whereClause} ` +
+    `ORDER BY total_ltv DESC, [${idColumn}] ` +
+    `OFFSET ${offset} ROWS FETCH NEXT ${CUSTOMERS_PAGE_SIZE} ROWS ONLY;`;
+  const countSql = `SELECT COUNT(*) FROM [${target.tableName}] WHERE ${whereClause};`;
+
+  const [pageResult, countResult] = await Promise.all([
+    runNativeQuery(target.databaseId, pageSql),
+    runNativeQuery(target.databaseId, countSql),
+  ]);
+
+  const totalCount = Number(countResult.rows[0]?.[0] ?? 0);
+  const totalPages = Math.ceil(totalCount / CUSTOMERS_PAGE_SIZE);
+
+  return {
+    customers: pageResult.rows.map(mapCustomerRow),
+    pagination: {
+      page,
+      pageSize: CUSTOMERS_PAGE_SIZE,
+      totalCount,
+      totalPages,
+      hasMore: page < totalPages,
+    },
+    segment: {
+      gender: filter.gender,
+      ageGroup: filter.ageGroup,
+      location: filter.location,
+    },
+    mailedFilterApplied,
+  };
+}
+
+// Yields the segment's customers batch by batch (OFFSET/FETCH pages via Metabase,
+// one streamed query on a direct connection) so the export route never holds the
+// whole segment in memory. Customers on the do-not-contact list are left out and
+// counted in `exclusions`, which is final once the iteration completes.
+export async function* iterateICPSegmentCustomers(
+  filter: ICPSegmentFilter,
+  exclusions: { complianceExcluded: number } = { complianceExcluded: 0 },
+): AsyncGenerator<ICPCustomer[]> {
+  const [target, doNotContact] = await Promise.all([
+    getGalaxyTarget(),
+    loadDoNotContactMatcher(),
+  ]);
+  const idColumn = getCustomerIdColumn(target);
+  const { whereClause } = buildSegmentWhere(target, filter);
+  const contact = buildContactSelect(target);
+
+  for await (const batch of getQueryExecutor(target.databaseId).iterateRows({
+    tableName: target.tableName,
+    selectList: buildCustomerSelect(idColumn) + contact.sql,
+    where: { sql: whereClause, params: [] },
+    orderBy: `[${idColumn}]`,
+  })) {
+    const customers: ICPCustomer[] = [];
+    for (const row of batch.rows) {
+      const listed = doNotContact.match({
+        ref: row[0],
+        email: contact.emailIndex !== -1 ? row[contact.emailIndex] : undefined,
+        phone: contact.phoneIndex !== -1 ? row[contact.phoneIndex] : undefined,
+      });
+      if (listed) exclusions.complianceExcluded++;
+      else customers.push(mapCustomerRow(row));
+    }
+    yield customers;
+  }
+}
+
+export function icpCustomerToCsvRow(customer: ICPCustomer): string {
+  return [
+    customer.customerId,
+    customer.gender,
+    customer.dateOfBirth ?? "",
+    customer.prefecture,
+    customer.glLtv,
+    customer.tsiLtv,
+    customer.syLtv,
+    customer.mdLtv,
+    customer.totalLtv,
+    customer.hasMobile ? 1 : 0,
+    customer.hasEmail ? 1 : 0,
+  ]
+    .map((val) => `"${String(val).replace(/"/g, '""')}"`)
+    .join(",");
+}
@@ -1,23 +1,58 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar } from "drizzle-orm/pg-core";
+import {
+  pgTable,
+  text,
+  varchar,
+  serial,
+  integer,
+  boolean,
+  jsonb,
+  timestamp,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Ordered lowest → highest; each role includes the permissions of the ones before it
+export const userRoles = ["viewer", "analyst", "operator", "admin"] as const;
+export type UserRole = (typeof userRoles)[number];
+
 export const users = pgTable("users", {
   id: varchar("id")
     .primaryKey()
     .default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  role: text("role").$type<UserRole>().notNull().default("viewer"),
 });
 
-export const insertUserSchema = createInsertSchema(users).pick({
+export const insertUserSchema = createInsertSchema(users, {
+  role: () => z.enum(userRoles).optional(),
+}).pick({
   username: true,
   password: true,
+  role: true,
+});
+
+export const loginSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+export const createUserSchema = z.object({
+  username: z.string().min(3, "Username must be at least 3 characters"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  role: z.enum(userRoles).default("viewer"),
+});
+
+export const updateUserSchema = z.object({
+  role: z.enum(userRoles).optional(),
+  password: z.string().min(8, "Password must be at least 8 characters").optional(),
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "password">;
 
 // Metabase Database Types
 export interface MetabaseDatabase {
@@ -105,7 +140,10 @@ export interface FieldOptionsResponse {
 
 export interface MailingListResponse {
   entries: MailingListEntry[];
-  total: number;
+  total: number; // matching rows less the do-not-contact rows this page skipped
+  totalIsEstimate: boolean; // other do-not-contact rows may still be counted in total
+  nextOffset: number | null; // offset of the next page, null after the last one
+  complianceExcludedCount: number; // rows skipped for this page as on the do-not-contact list
 }
 
 // Filter Schema for API validation
@@ -153,17 +191,230 @@ export const exportQuerySchema = z.object({
 
 export type FiltersQuery = z.infer<typeof countQuerySchema>;
 
+// Streaming table export — a GET, so filters and columns arrive as JSON strings
+export const tableExportFormats = ["csv", "tsv", "xlsx"] as const;
+export type TableExportFormat = (typeof tableExportFormats)[number];
+
+const jsonQueryParam = <T extends z.ZodTypeAny>(schema: T) =>
+  z
+    .string()
+    .transform((raw, ctx) => {
+      try {
+        return JSON.parse(raw);
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid JSON" });
+        return z.NEVER;
+      }
+    })
+    .pipe(schema);
+
+export const tableExportStreamSchema = z.object({
+  databaseId: z.coerce.number().int().positive(),
+  tableId: z.coerce.number().int().positive(),
+  filters: jsonQueryParam(z.array(filterValueSchema)).default("[]"),
+  columns: jsonQueryParam(z.array(z.string().min(1))).optional(), // omitted = all columns
+  format: z.enum(tableExportFormats).default("csv"),
+  limit: z.coerce.number().int().positive().optional(),
+  // The preview's current sort; omitted = primary-key order
+  sortColumn: z.string().min(1).optional(),
+  sortDirection: z.enum(["asc", "desc"]).default("asc"),
+  bom: z
+    .enum(["true", "false"])
+    .default("true")
+    .transform((v) => v === "true"),
+});
+
+// Targeting Rules — composable rule tree compiled to T-SQL on the server
+export const targetingDateUnits = ["day", "week", "month", "year"] as const;
+export type TargetingDateUnit = (typeof targetingDateUnits)[number];
+
+export type TargetingValue = string | number | boolean;
+
+export type TargetingCondition =
+  | {
+      type: "condition";
+      field: string;
+      operator: "=" | "!=" | ">" | ">=" | "<" | "<=";
+      value: TargetingValue;
+    }
+  | {
+      type: "condition";
+      field: string;
+      operator: "in" | "not_in";
+      values: TargetingValue[];
+    }
+  | {
+      type: "condition";
+      field: string;
+      operator: "between";
+      value: TargetingValue;
+      valueTo: TargetingValue;
+    }
+  | {
+      type: "condition";
+      field: string;
+      operator: "like" | "not_like"; // SQL wildcards: % and _
+      value: string;
+    }
+  | {
+      type: "condition";
+      field: string;
+      operator: "is_null" | "is_not_null";
+    }
+  | {
+      type: "condition";
+      field: string;
+      operator: "within_last" | "older_than"; // relative to today
+      amount: number;
+      unit: TargetingDateUnit;
+    };
+
+export type TargetingRule =
+  | TargetingCondition
+  | { type: "and" | "or"; rules: TargetingRule[] }
+  | { type: "not"; rule: TargetingRule };
+
+const targetingValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+const targetingFieldSchema = z.string().min(1, "Field name is required");
+
+export const targetingConditionSchema: z.ZodType<TargetingCondition> = z.union(
+  [
+    z.object({
+      type: z.literal("condition"),
+      field: targetingFieldSchema,
+      operator: z.enum(["=", "!=", ">", ">=", "<", "<="]),
+      value: targetingValueSchema,
+    }),
+    z.object({
+      type: z.literal("condition"),
+      field: targetingFieldSchema,
+      operator: z.enum(["in", "not_in"]),
+      values: z.array(targetingValueSchema).min(1),
+    }),
+    z.object({
+      type: z.literal("condition"),
+      field: targetingFieldSchema,
+      operator: z.literal("between"),
+      value: targetingValueSchema,
+      valueTo: targetingValueSchema,
+    }),
+    z.object({
+      type: z.literal("condition"),
+      field: targetingFieldSchema,
+      operator: z.enum(["like", "not_like"]),
+      value: z.string(),
+    }),
+    z.object({
+      type: z.literal("condition"),
+      field: targetingFieldSchema,
+      operator: z.enum(["is_null", "is_not_null"]),
+    }),
+    z.object({
+      type: z.literal("condition"),
+      field: targetingFieldSchema,
+      operator: z.enum(["within_last", "older_than"]),
+      amount: z.number().int().min(0),
+      unit: z.enum(targetingDateUnits),
+    }),
+  ],
+);
+
+export const targetingRuleSchema: z.ZodType<TargetingRule> = z.lazy(() =>
+  z.union([
+    targetingConditionSchema,
+    z.object({
+      type: z.enum(["and", "or"]),
+      rules: z.array(targetingRuleSchema).min(1),
+    }),
+    z.object({
+      type: z.literal("not"),
+      rule: targetingRuleSchema,
+    }),
+  ]),
+);
+
+// Accepted by preview / export / mapping: either an explicit rule tree, or legacy
+// "field:value" segments optionally paired with the AI's rule for each segment.
+export const targetingInputSchema = z.object({
+  segments: z.array(z.string()).default([]),
+  segmentRules: z.record(targetingRuleSchema).optional(),
+  rules: targetingRuleSchema.nullable().optional(),
+});
+
+export type TargetingInput = z.infer<typeof targetingInputSchema>;
+
 // Email Marketing Tool Types
 export interface SegmentSuggestion {
   segment: string;
   confidence: number;
   reasoning: string;
+  rule?: TargetingRule;
+}
+
+// What the check of AI suggestions against the table's fields and values did
+export interface SuggestionValidationNote {
+  segment: string;
+  message: string;
+}
+
+export interface SuggestionValidationReport {
+  corrected: SuggestionValidationNote[]; // Kept after fixing a field name or value
+  dropped: SuggestionValidationNote[]; // Could not match anything as written
 }
 
 export interface AIAnalysisResponse {
   suggestions: SegmentSuggestion[];
   suggestedAgeRange: string | null;
   reasoning: string;
+  validation?: SuggestionValidationReport;
+}
+
+// What one refinement turn did to the rule set; suggestions are matched by label
+export interface TargetingRefinementDiff {
+  added: SegmentSuggestion[];
+  removed: SegmentSuggestion[];
+  changed: Array<{
+    segment: string;
+    before: TargetingRule;
+    after: TargetingRule;
+  }>;
+  ageRange: { before: string | null; after: string | null } | null;
+}
+
+export interface TargetingRefinementTurn {
+  message: string;
+  reasoning: string;
+  diff: TargetingRefinementDiff;
+  validation: SuggestionValidationReport;
+  createdAt: string;
+}
+
+export interface TargetingRefinementResponse extends AIAnalysisResponse {
+  sessionId: string;
+  concept: string;
+  matchCounts: Record<string, number>;
+  audienceCount: number | null; // All rules combined; null if the count failed
+  turns: TargetingRefinementTurn[];
+}
+
+// How close the audience-size loop got to the requested number of contacts
+export interface AudienceSizeTargetResult {
+  targetSize: number;
+  tolerancePercent: number;
+  reached: boolean;
+  counts: Array<number | null>; // Combined audience before the loop and after each turn
+  keptClosest: boolean; // A later turn moved away, so the closest rules were restored
+}
+
+export interface AudienceSizeTargetResponse extends TargetingRefinementResponse {
+  audienceTarget: AudienceSizeTargetResult;
+}
+
+// What a capped contact list is made of, by ranking tier
+export interface AudienceTierCounts {
+  exact: number; // Match the targeting
+  relaxed: number; // Match only its core conditions
+  fill: number; // Any other contact, added to reach the cap
 }
 
 export interface EmailMarketingPreviewContact {
@@ -210,6 +461,58 @@ export const emailPreviewSchema = z.object({
 export type AnalyzeConceptRequest = z.infer<typeof analyzeConceptSchema>;
 export type EmailPreviewRequest = z.infer<typeof emailPreviewSchema>;
 
+// Frequency cap: skip contacts already mailed maxMailings times within windowDays
+// (counted in the suppression history). A brand cap only counts that brand's mailings.
+export const frequencyCapRuleSchema = z.object({
+  maxMailings: z.number().int().min(1).max(100),
+  windowDays: z.number().int().min(1).max(365),
+  brand: z.string().trim().max(50).nullable().optional(),
+});
+export const frequencyCapsSchema = z.array(frequencyCapRuleSchema).max(10);
+
+export type FrequencyCapRule = z.infer<typeof frequencyCapRuleSchema>;
+
+// Holdout: share of the selected contacts kept out of the file as a control group
+export const MAX_HOLDOUT_PERCENT = 50;
+export const holdoutPercentSchema = z
+  .number()
+  .int()
+  .min(0)
+  .max(MAX_HOLDOUT_PERCENT);
+
+// Split test (A/B/n): mailed contacts are divided between named cells by weight
+export const splitCellSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1)
+    .max(20)
+    .regex(
+      /^[A-Za-z0-9_]+$/,
+      "Cell names may only contain letters, digits and _",
+    )
+    // Logged as <code>-<cell>, so CTRL would read as the holdout's control group
+    .refine(
+      (name) => name.toUpperCase() !== "CTRL",
+      "CTRL is reserved for the control group",
+    ),
+  weight: z.number().positive().max(1000),
+});
+export const splitCellsSchema = z
+  .array(splitCellSchema)
+  .max(10)
+  .refine(
+    (cells) => cells.length !== 1,
+    "A split test needs at least two cells",
+  )
+  .refine(
+    (cells) =>
+      new Set(cells.map((c) => c.name.toUpperCase())).size === cells.length,
+    "Cell names must be unique",
+  );
+
+export type SplitCell = z.infer<typeof splitCellSchema>;
+
 // Add the Campaign Code to the V2 schemas
 export const analyzeConceptSchemaV2 = z.object({
   concept: z.string().min(1, "Campaign concept is required"),
@@ -222,19 +525,68 @@ export const analyzeConceptSchemaV2 = z.object({
   contactCap: z.number().min(1).default(5000),
 });
 
+// Free-text demographic phrases ("next month", "25-40"), parsed on the server;
+// phrases it doesn't recognise are reported as warnings rather than rejected
+export const birthdayFilterSchema = z.string().trim().max(50);
+export const ageRangeSchema = z.string().trim().max(50);
+
 export const emailPreviewSchemaV2 = z.object({
-  databaseId: z.number(),
-  masterTableId: z.number(), // T1: Master Email List (required)
-  historyTableId: z.number().nullable().optional(), // T2: History/Behavior Log (optional)
-  segments: z.array(z.string()), // Format: "field_name:value"
-  ageRange: z.string().nullable().optional(),
-  birthdayFilter: z.string().optional(),
-  excludeDays: z.number().min(0).default(7),
-  contactCap: z.number().min(1).default(5000),
+  databaseId: z.number().int().positive(),
+  masterTableId: z.number().int().positive(), // T1: Master Email List (required)
+  historyDbId: z.number().int().positive().nullable().optional(), // T2's database
+  historyTableId: z.number().int().positive().nullable().optional(), // T2: History/Behavior Log (optional)
+  campaignCode: z.string().optional(), // Sanitized by the route; names the holdout's control code
+  segments: z.array(z.string()).default([]), // Format: "field_name:value"
+  segmentRules: z.record(targetingRuleSchema).optional(), // Rule tree per segment label
+  rules: targetingRuleSchema.nullable().optional(), // Explicit rule tree, overrides segments
+  ageRange: ageRangeSchema.nullable().optional(),
+  birthdayFilter: birthdayFilterSchema.optional(),
+  excludeDays: z.number().int().min(0).default(7),
+  frequencyCaps: frequencyCapsSchema.default([]),
+  holdoutPercent: holdoutPercentSchema.default(0),
+  splitCells: splitCellsSchema.default([]),
+  contactCap: z.number().int().min(1).default(5000),
+  filterEmailsOnly: z.boolean().default(true),
+});
+
+// Campaign Builder preview / export body: the preview plus the fields a saved
+// campaign keeps. A campaignId runs (and updates) that saved campaign; without one,
+// an export only registers a new campaign when saveCampaign is set.
+export const campaignRunRequestSchemaV2 = emailPreviewSchemaV2.extend({
+  campaignId: z.number().int().positive().optional(),
+  saveCampaign: z.boolean().default(false),
+  name: z.string().trim().max(200).optional(),
+  concept: z.string().default(""),
 });
 
 export type AnalyzeConceptRequestV2 = z.infer<typeof analyzeConceptSchemaV2>;
 export type EmailPreviewRequestV2 = z.infer<typeof emailPreviewSchemaV2>;
+export type CampaignRunRequestV2 = z.infer<typeof campaignRunRequestSchemaV2>;
+
+// Conversational refinement starts from the current targeting, or from a fresh
+// analysis of the concept when no segments are sent
+export const startTargetingRefinementSchema = z.object({
+  concept: z.string().min(1, "Campaign concept is required"),
+  databaseId: z.number(),
+  masterTableId: z.number(),
+  segments: z.array(z.string()).optional(),
+  segmentRules: z.record(targetingRuleSchema).optional(),
+  ageRange: z.string().nullable().optional(),
+  filterEmailsOnly: z.boolean().optional(), // Count only contacts with an email
+});
+
+export const targetingRefinementMessageSchema = z.object({
+  message: z.string().trim().min(1, "Message is required").max(1000),
+});
+
+export const audienceSizeTargetSchema = z.object({
+  targetSize: z.number().int().min(1),
+  tolerancePercent: z.number().min(1).max(50).default(10),
+});
+
+export type StartTargetingRefinementRequest = z.infer<
+  typeof startTargetingRefinementSchema
+>;
 
 // Trend & ICP Analysis Schema
 export const trendsICPAnalysisSchema = z.object({
@@ -252,5 +604,632 @@ export const exportMarketingSchema = z.object({
   historyTableId: z.number(), // Required for write-back
   campaignCode: z.string().min(1, "Campaign code is required for logging"), // e.g., "L003"
   segments: z.array(z.string()),
+  segmentRules: z.record(targetingRuleSchema).optional(),
+  rules: targetingRuleSchema.nullable().optional(),
   contactCap: z.number().default(5000),
 });
+
+// BrainWorks Analysis Schema
+export const brainworksModelIds = [
+  "rfm",
+  "campaign-response",
+  "propensity",
+  "reactivation",
+  "lookalike",
+  "product-affinity",
+  "roi-optimization",
+] as const;
+
+export type BrainworksModelId = (typeof brainworksModelIds)[number];
+
+export const brainworksAnalysisSchema = z.object({
+  modelId: z.string().min(1),
+  databaseId: z.number(),
+  tableId: z.number(),
+});
+
+export type BrainworksAnalysisRequest = z.infer<
+  typeof brainworksAnalysisSchema
+>;
+
+// 'real' = aggregated from numeric/date columns, 'estimated' = counts only,
+// 'insufficient' = the table has no columns the model can use
+export type AnalysisDataQuality = "real" | "estimated" | "insufficient";
+
+export interface BrainworksAnalysisResponse {
+  modelId: string;
+  tableName: string;
+  totalCount: number;
+  dataQuality: AnalysisDataQuality;
+  fieldsUsed: string[];
+  fields: MetabaseField[];
+  data: Record<string, any>;
+}
+
+// Trends & ICP SQL Analysis Schemas
+export const icpAgeGroups = [
+  "Under 30",
+  "30-39",
+  "40-49",
+  "50-59",
+  "60-69",
+  "70+",
+  "Unknown",
+] as const;
+
+export const icpSegmentFilterSchema = z.object({
+  gender: z.string(),
+  ageGroup: z.enum(icpAgeGroups),
+  location: z.string(),
+  excludeMailed: z.boolean().default(false),
+});
+
+export const icpCustomersQuerySchema = icpSegmentFilterSchema.extend({
+  page: z.number().int().min(1).default(1),
+});
+
+export const analysisSummarySchema = z.object({
+  snapshot: z.object({
+    totalCustomers: z.number(),
+    buyers: z.object({
+      GL: z.number(),
+      TSI: z.number(),
+      SY: z.number(),
+      MD: z.number(),
+    }),
+    overlap: z.object({
+      GL_TSI: z.number(),
+      GL_MD: z.number(),
+      SY_GL: z.number(),
+    }),
+  }),
+  icpSegments: z.array(
+    z.object({
+      gender: z.string(),
+      ageGroup: z.string(),
+      location: z.string(),
+      customerCount: z.number(),
+      avgTotalLTV: z.number(),
+      mobileRate: z.number(),
+      emailRate: z.number(),
+    }),
+  ),
+});
+
+export type ICPSegmentFilter = z.infer<typeof icpSegmentFilterSchema>;
+export type ICPCustomersQuery = z.infer<typeof icpCustomersQuerySchema>;
+
+// AI response schemas — every model reply is checked against one of these before it
+// is used. Descriptive text the prompts ask for but nothing depends on has a default.
+export const aiSegmentSuggestionSchema = z.object({
+  segment: z.string().min(1),
+  confidence: z.number().min(0).max(1).default(0.5),
+  reasoning: z.string().default(""),
+  tableId: z.number().int().optional(), // Multi-table analysis only
+  rule: targetingRuleSchema.optional(),
+});
+
+export const conceptAnalysisResultSchema = z.object({
+  suggestions: z.array(aiSegmentSuggestionSchema),
+  suggestedAgeRange: z.string().nullable().default(null),
+  reasoning: z.string(),
+});
+
+export const trendsICPResultSchema = z.object({
+  trends: z.array(
+    z.object({
+      period: z.string(),
+      value: z.number(),
+      change: z.number(),
+    }),
+  ),
+  icpSegments: z.array(
+    z.object({
+      name: z.string().min(1),
+      size: z.number().min(0),
+      percentage: z.number().min(0).max(100),
+      avgValue: z.number(),
+      characteristics: z.array(z.string()),
+      score: z.number().min(0).max(100),
+    }),
+  ),
+  summary: z.string(),
+  totalRecords: z.number().int().min(0),
+  mailedExcluded: z.number().int().min(0).default(0),
+});
+
+export const analysisSummaryResultSchema = z.object({
+  summary: z.string().min(1),
+  topDemographic: z.string().min(1),
+  crossSellOpportunity: z.string().min(1),
+  contactabilityWarning: z.string().min(1),
+});
+
+export const customAnalysisResultSchema = z.object({
+  query: z.string(),
+  results: z.array(z.record(z.unknown())),
+  summary: z.string(),
+  dataSource: z.enum(["real", "example"]).optional(),
+});
+
+export const sqlAnalysisResultSchema = z.object({
+  sql: z.string(), // Empty when the question cannot be answered
+  explanation: z.string(),
+  chartConfig: z
+    .object({
+      type: z.enum(["bar", "line", "pie", "table_only"]),
+      xKey: z.string(),
+      yKey: z.string(),
+      title: z.string(),
+    })
+    .nullable()
+    .default(null),
+});
+
+export type ConceptAnalysisResult = z.infer<typeof conceptAnalysisResultSchema>;
+export type TrendsICPResult = z.infer<typeof trendsICPResultSchema>;
+export type AnalysisSummaryResult = z.infer<typeof analysisSummaryResultSchema>;
+export type CustomAnalysisResult = z.infer<typeof customAnalysisResultSchema>;
+export type SQLAnalysisResult = z.infer<typeof sqlAnalysisResultSchema>;
+
+// Sent with a 502 when a model reply still failed its schema after the repair retry
+export interface AIResponseErrorBody {
+  error: string;
+  code: "ai_response_invalid";
+  feature: string;
+  issues: string[]; // "path: problem", from the last reply
+}
+
+// Campaign Registry — saved campaign definitions and their preview/export runs
+export const campaigns = pgTable("campaigns", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  concept: text("concept").notNull().default(""),
+  campaignCode: text("campaign_code").notNull().default(""),
+  databaseId: integer("database_id").notNull(),
+  masterTableId: integer("master_table_id").notNull(),
+  historyDbId: integer("history_db_id"),
+  historyTableId: integer("history_table_id"),
+  segments: jsonb("segments").$type<string[]>().notNull().default([]),
+  segmentRules: jsonb("segment_rules")
+    .$type<Record<string, TargetingRule>>()
+    .notNull()
+    .default({}),
+  rules: jsonb("rules").$type<TargetingRule | null>(),
+  birthdayFilter: text("birthday_filter").notNull().default(""),
+  ageRange: text("age_range"),
+  contactCap: integer("contact_cap").notNull().default(5000),
+  excludeDays: integer("exclude_days").notNull().default(7),
+  frequencyCaps: jsonb("frequency_caps")
+    .$type<FrequencyCapRule[]>()
+    .notNull()
+    .default([]),
+  holdoutPercent: integer("holdout_percent").notNull().default(0),
+  splitCells: jsonb("split_cells").$type<SplitCell[]>().notNull().default([]),
+  filterEmailsOnly: boolean("filter_emails_only").notNull().default(true),
+  clonedFromId: integer("cloned_from_id"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+export const campaignRunKinds = ["preview", "export"] as const;
+export const campaignRunStatuses = ["running", "completed", "failed"] as const;
+export type CampaignRunKind = (typeof campaignRunKinds)[number];
+export type CampaignRunStatus = (typeof campaignRunStatuses)[number];
+
+// Outcome of logging an export to the suppression (history) table
+export interface SuppressionWriteBackReport {
+  exportRunId: string;
+  attempted: number; // distinct customer references in the file
+  inserted: number;
+  duplicatesSkipped: number; // already logged for the same code and day
+  failed: number;
+}
+
+export const campaignRuns = pgTable("campaign_runs", {
+  id: serial("id").primaryKey(),
+  campaignId: integer("campaign_id")
+    .notNull()
+    .references(() => campaigns.id, { onDelete: "cascade" }),
+  kind: text("kind").$type<CampaignRunKind>().notNull(),
+  status: text("status").$type<CampaignRunStatus>().notNull(),
+  // Snapshot of the definition the run used, so later edits don't rewrite history
+  definition: jsonb("definition").$type<CampaignDefinition>().notNull(),
+  totalCandidates: integer("total_candidates"),
+  excludedCount: integer("excluded_count"),
+  complianceExcludedCount: integer("compliance_excluded_count"), // do-not-contact matches
+  frequencyCappedCount: integer("frequency_capped_count"),
+  holdoutCount: integer("holdout_count"), // control group kept out of the file
+  cellCounts: jsonb("cell_counts").$type<Record<string, number> | null>(), // contacts per split-test cell
+  exactMatchCount: integer("exact_match_count"),
+  contactCount: integer("contact_count"),
+  fileName: text("file_name"),
+  fileChecksum: text("file_checksum"), // sha256 of the exported CSV
+  writeBack: jsonb("write_back").$type<SuppressionWriteBackReport | null>(),
+  error: text("error"),
+  triggeredBy: text("triggered_by"), // username, null for runs before login existed
+  startedAt: timestamp("started_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  completedAt: timestamp("completed_at"),
+  // Rollback audit: who deleted the run's suppression rows, when, and how many
+  rolledBackAt: timestamp("rolled_back_at"),
+  rolledBackBy: text("rolled_back_by"),
+  rolledBackCount: integer("rolled_back_count"),
+});
+
+// The history rows an export run logged, as returned by the write-back's OUTPUT
+// INSERTED, kept so the run can be rolled back. The write-back logs a reference at
+// most once per campaign code and day, so reference + code + day pick out exactly
+// these rows. `refs` is keyed by the code each reference was logged under (a
+// holdout logs its control group under its own code). Kept out of campaign_runs
+// because `refs` can hold the whole list.
+export const suppressionWriteBackLogs = pgTable("suppression_write_back_logs", {
+  campaignRunId: integer("campaign_run_id")
+    .primaryKey()
+    .references(() => campaignRuns.id, { onDelete: "cascade" }),
+  historyDbId: integer("history_db_id").notNull(),
+  tableName: text("table_name").notNull(),
+  refColumn: text("ref_column").notNull(),
+  codeColumn: text("code_column"),
+  dateColumn: text("date_column").notNull(),
+  campaignCode: text("campaign_code").notNull(),
+  loggedOn: text("logged_on").notNull(), // YYYY-MM-DD
+  refs: jsonb("refs").$type<Record<string, string[]>>().notNull(),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+// Files an export run produced besides the download, e.g. the holdout's control
+// group, kept so they can be fetched after the export response
+export const campaignRunFiles = pgTable(
+  "campaign_run_files",
+  {
+    id: serial("id").primaryKey(),
+    campaignRunId: integer("campaign_run_id")
+      .notNull()
+      .references(() => campaignRuns.id, { onDelete: "cascade" }),
+    name: text("name").notNull(), // e.g. "control"
+    fileName: text("file_name").notNull(),
+    content: text("content").notNull(),
+    checksum: text("checksum").notNull(), // sha256 of content
+    rowCount: integer("row_count").notNull(),
+    createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => [
+    uniqueIndex("campaign_run_files_run_name_idx").on(
+      table.campaignRunId,
+      table.name,
+    ),
+  ],
+);
+
+// Refinements replace drizzle-zod's column schema, so defaulted columns re-add .optional()
+export const insertCampaignSchema = createInsertSchema(campaigns, {
+  name: (schema) => schema.min(1, "Campaign name is required"),
+  campaignCode: (schema) =>
+    schema
+      .max(50)
+      .regex(
+        /^[a-zA-Z0-9_\-]*$/,
+        "Campaign code may only contain letters, digits, _ and -",
+      )
+      .optional(),
+  segments: () => z.array(z.string()).optional(),
+  segmentRules: () => z.record(targetingRuleSchema).optional(),
+  rules: () => targetingRuleSchema.nullable().optional(),
+  birthdayFilter: () => birthdayFilterSchema.optional(),
+  ageRange: () => ageRangeSchema.nullable().optional(),
+  contactCap: (schema) => schema.int().min(1).optional(),
+  excludeDays: (schema) => schema.int().min(0).optional(),
+  frequencyCaps: () => frequencyCapsSchema.optional(),
+  holdoutPercent: () => holdoutPercentSchema.optional(),
+  splitCells: () => splitCellsSchema.optional(),
+}).omit({
+  id: true,
+  clonedFromId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const updateCampaignSchema = insertCampaignSchema.partial();
+
+export type Campaign = typeof campaigns.$inferSelect;
+export type InsertCampaign = z.infer<typeof insertCampaignSchema>;
+export type CampaignRun = typeof campaignRuns.$inferSelect;
+export type InsertCampaignRun = typeof campaignRuns.$inferInsert;
+export type SuppressionWriteBackLog =
+  typeof suppressionWriteBackLogs.$inferSelect;
+export type InsertSuppressionWriteBackLog =
+  typeof suppressionWriteBackLogs.$inferInsert;
+export type CampaignRunFile = typeof campaignRunFiles.$inferSelect;
+export type InsertCampaignRunFile = typeof campaignRunFiles.$inferInsert;
+// What the write-back captures, before it is attached to a campaign run
+export type CapturedSuppressionRows = Omit<
+  InsertSuppressionWriteBackLog,
+  "campaignRunId" | "createdAt"
+>;
+
+// The subset of a campaign that determines who gets selected
+export type CampaignDefinition = Omit<
+  Campaign,
+  "id" | "name" | "clonedFromId" | "createdAt" | "updatedAt"
+>;
+
+export interface CampaignWithRuns extends Campaign {
+  runs: CampaignRun[];
+}
+
+export interface CampaignSummary extends Campaign {
+  lastRun: CampaignRun | null;
+  runCount: number;
+}
+
+// POST /api/campaigns/:id/runs/:runId/rollback
+export interface CampaignRollbackResponse {
+  run: CampaignRun;
+  deleted: number;
+  logged: number; // rows the export inserted, some may have been removed since
+}
+
+// Suppression mapping profiles — column roles confirmed once per (master table,
+// history table) pair, used by preview/export instead of name-based detection
+export const suppressionMappings = pgTable(
+  "suppression_mappings",
+  {
+    id: serial("id").primaryKey(),
+    databaseId: integer("database_id").notNull(),
+    masterTableId: integer("master_table_id").notNull(),
+    historyDbId: integer("history_db_id").notNull(),
+    historyTableId: integer("history_table_id").notNull(),
+    // Master table: customer reference written to / matched against the history table
+    sourceRefColumn: text("source_ref_column").notNull(),
+    sourceSystemColumn: text("source_system_column"),
+    // History (suppression) table
+    historyRefColumn: text("history_ref_column").notNull(),
+    historyCampaignCodeColumn: text("history_campaign_code_column"),
+    historySourceSystemColumn: text("history_source_system_column"),
+    historySentDateColumn: text("history_sent_date_column").notNull(),
+    updatedBy: text("updated_by"),
+    createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+    updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => [
+    uniqueIndex("suppression_mappings_pair_idx").on(
+      table.databaseId,
+      table.masterTableId,
+      table.historyDbId,
+      table.historyTableId,
+    ),
+  ],
+);
+
+const mappingColumnSchema = z.string().min(1, "Column is required");
+
+export const insertSuppressionMappingSchema = createInsertSchema(
+  suppressionMappings,
+  {
+    sourceRefColumn: () => mappingColumnSchema,
+    sourceSystemColumn: () => mappingColumnSchema.nullable().optional(),
+    historyRefColumn: () => mappingColumnSchema,
+    historyCampaignCodeColumn: () => mappingColumnSchema.nullable().optional(),
+    historySourceSystemColumn: () => mappingColumnSchema.nullable().optional(),
+    historySentDateColumn: () => mappingColumnSchema,
+  },
+).omit({
+  id: true,
+  updatedBy: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type SuppressionMapping = typeof suppressionMappings.$inferSelect;
+export type InsertSuppressionMapping = z.infer<
+  typeof insertSuppressionMappingSchema
+>;
+export type SuppressionTablePair = Pick<
+  SuppressionMapping,
+  "databaseId" | "masterTableId" | "historyDbId" | "historyTableId"
+>;
+
+// GET/POST /api/ai/export-mapping-v2 — the column roles preview/export will use
+export type SuppressionMappingSource = "profile" | "detected";
+
+export interface ExportMappingResponse {
+  ready: boolean;
+  issues: string[];
+  mappingSource: SuppressionMappingSource;
+  profile: SuppressionMapping | null;
+  availableColumns: {
+    source: string[];
+    suppression: string[];
+  };
+  source: {
+    databaseId: number;
+    tableName: string;
+    refColumn: string | null;
+    refConfidence: number;
+    refReason: string;
+    sourceSystemColumn: string | null;
+    sourceSystemConfidence: number;
+    sourceSystemReason: string;
+    sourceSystemSample: string | null;
+  };
+  suppression: {
+    databaseId: number | null;
+    tableName: string | null;
+    refColumn: string | null;
+    refReason: string;
+    refConfidence: number;
+    campaignCodeColumn: string | null;
+    campaignCodeReason: string;
+    campaignCodeConfidence: number;
+    sourceSystemColumn: string | null;
+    sourceSystemReason: string;
+    sourceSystemConfidence: number;
+    sentDateColumn: string | null;
+    sentDateReason: string;
+    sentDateConfidence: number;
+  };
+}
+
+// Suppression list management — the history table browsed and edited through the
+// column mapping export uses (saved profile for the master table, else detection)
+const isoDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date");
+
+export const suppressionTableQuerySchema = z.object({
+  historyDbId: z.coerce.number().int().positive(),
+  historyTableId: z.coerce.number().int().positive(),
+  // Optional master table, so its saved mapping profile applies
+  databaseId: z.coerce.number().int().positive().optional(),
+  masterTableId: z.coerce.number().int().positive().optional(),
+});
+
+export const suppressionEntriesQuerySchema = suppressionTableQuerySchema.extend(
+  {
+    campaignCode: z.string().trim().min(1).optional(),
+    sourceSystem: z.string().trim().min(1).optional(),
+    from: isoDateSchema.optional(), // inclusive
+    to: isoDateSchema.optional(), // inclusive
+    page: z.coerce.number().int().min(1).default(1),
+  },
+);
+
+export const suppressionCampaignsQuerySchema =
+  suppressionEntriesQuerySchema.omit({ campaignCode: true, page: true });
+
+export const suppressionUploadQuerySchema = suppressionTableQuerySchema.extend({
+  campaignCode: z.string().trim().min(1, "Campaign code is required"),
+  sourceSystem: z.string().trim().min(1).default("Manual"),
+});
+
+export const addSuppressionEntriesSchema = suppressionUploadQuerySchema.extend({
+  refs: z.array(z.string()).min(1, "At least one reference is required"),
+});
+
+export type SuppressionTableQuery = z.infer<typeof suppressionTableQuerySchema>;
+export type SuppressionEntriesQuery = z.infer<
+  typeof suppressionEntriesQuerySchema
+>;
+export type SuppressionCampaignsQuery = z.infer<
+  typeof suppressionCampaignsQuerySchema
+>;
+export type SuppressionUploadQuery = z.infer<
+  typeof suppressionUploadQuerySchema
+>;
+
+export interface SuppressionTableMapping {
+  databaseId: number;
+  tableName: string;
+  refColumn: string;
+  campaignCodeColumn: string;
+  sourceSystemColumn: string | null;
+  sentDateColumn: string;
+  mappingSource: SuppressionMappingSource;
+}
+
+export interface SuppressionEntry {
+  ref: string;
+  campaignCode: string | null;
+  sourceSystem: string | null;
+  sentDate: string | null;
+}
+
+export interface SuppressionEntriesResponse {
+  mapping: SuppressionTableMapping;
+  entries: SuppressionEntry[];
+  pagination: {
+    page: number;
+    pageSize: number;
+    totalCount: number;
+    totalPages: number;
+    hasMore: boolean;
+  };
+}
+
+export interface SuppressionCampaignSummary {
+  campaignCode: string | null;
+  count: number;
+  firstSent: string | null;
+  lastSent: string | null;
+}
+
+export interface SuppressionCampaignsResponse {
+  mapping: SuppressionTableMapping;
+  campaigns: SuppressionCampaignSummary[];
+  sourceSystems: string[];
+}
+
+// Manual additions reuse the export write-back, so the report has the same shape;
+// `rejected` counts blank or over-long references that were dropped
+export interface SuppressionAddResult extends SuppressionWriteBackReport {
+  rejected: number;
+}
+
+// Do-not-contact list — permanent opt-outs removed from every preview and export,
+// whatever the suppression window. Values are stored normalised, so matching is a
+// plain lookup (see server/do-not-contact.ts for the rules per type)
+export const doNotContactTypes = [
+  "email",
+  "phone",
+  "customer_ref",
+  "domain",
+] as const;
+export type DoNotContactType = (typeof doNotContactTypes)[number];
+
+export const doNotContact = pgTable(
+  "do_not_contact",
+  {
+    id: serial("id").primaryKey(),
+    type: text("type").$type<DoNotContactType>().notNull(),
+    value: text("value").notNull(),
+    reason: text("reason"),
+    createdBy: text("created_by"),
+    createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => [
+    uniqueIndex("do_not_contact_value_idx").on(table.type, table.value),
+  ],
+);
+
+export type DoNotContactEntry = typeof doNotContact.$inferSelect;
+export type InsertDoNotContactEntry = Pick<
+  DoNotContactEntry,
+  "type" | "value" | "reason"
+>;
+
+export const doNotContactQuerySchema = z.object({
+  type: z.enum(doNotContactTypes).optional(),
+  search: z.string().trim().min(1).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+});
+
+export const addDoNotContactSchema = z.object({
+  type: z.enum(doNotContactTypes),
+  values: z.array(z.string()).min(1, "At least one value is required"),
+  reason: z.string().trim().max(200).optional(),
+});
+
+// Bulk upload: the CSV is the body, type and reason are query parameters
+export const doNotContactUploadQuerySchema = addDoNotContactSchema.omit({
+  values: true,
+});
+
+export type DoNotContactQuery = z.infer<typeof doNotContactQuerySchema>;
+export type AddDoNotContactRequest = z.infer<typeof addDoNotContactSchema>;
+
+export interface DoNotContactListResponse {
+  entries: DoNotContactEntry[];
+  pagination: {
+    page: number;
+    pageSize: number;
+    totalCount: number;
+    totalPages: number;
+    hasMore: boolean;
+  };
+}
+
+export interface DoNotContactAddResult {
+  added: number;
+  alreadyListed: number;
+  rejected: string[]; // values that do not normalise to a valid email, phone, etc.
+}
@@ -0,0 +1,130 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { AIAnalysisResponse, AIResponseErrorBody } from "@shared/schema";
+import { startTestApp, type ApiClient, type TestApp } from "./harness";
+import { CRM_DATABASE_ID, CUSTOMER_TABLE_ID } from "../mock-metabase/seed";
+
+describe("AI response validation", () => {
+  let app: TestApp;
+  let analyst: ApiClient;
+  let admin: ApiClient;
+
+  const sqlAnalysis = () =>
+    admin.request("POST", "/api/ai/sql-analysis", {
+      prompt: "Customers per prefecture",
+      databaseId: CRM_DATABASE_ID,
+      tableId: CUSTOMER_TABLE_ID,
+    });
+
+  before(async () => {
+    app = await startTestApp();
+    analyst = await app.clientFor("analyst");
+    admin = await app.clientFor("admin");
+  });
+
+  after(() => app.close());
+
+  it("sends an invalid reply back with the errors and uses the repaired one", async () => {
+    const replies: unknown[] = [
+      {
+        suggestions: [
+          {
+            segment: "Tokyo",
+            rule: { type: "condition", field: "Prefecture", value: "東京都" },
+            confidence: "high",
+          },
+        ],
+        reasoning: "Tokyo customers",
+      },
+      {
+        suggestions: [
+          {
+            segment: "Tokyo",
+            rule: {
+              type: "condition",
+              field: "Prefecture",
+              operator: "=",
+              value: "東京都",
+            },
+            confidence: 0.9,
+          },
+        ],
+        reasoning: "Tokyo customers",
+      },
+    ];
+    app.llm.respondWith(() => replies.shift());
+    const calls = app.llm.calls.length;
+
+    const result = await analyst.json<AIAnalysisResponse>(
+      "POST",
+      "/api/ai/analyze-concept-v2",
+      {
+        concept: "Spring offer for Tokyo",
+        databaseId: CRM_DATABASE_ID,
+        masterTableId: CUSTOMER_TABLE_ID,
+      },
+    );
+    assert.equal(app.llm.calls.length, calls + 2);
+    assert.deepEqual(
+      result.suggestions.map((s) => [s.segment, s.confidence, s.reasoning]),
+      [["Tokyo", 0.9, ""]],
+    );
+    assert.equal(result.suggestedAgeRange, null);
+
+    // The repair turn carries the rejected reply and what was wrong with it
+    const repair = app.llm.calls[calls + 1].messages;
+    assert.equal(repair.length, 4);
+    assert.equal(repair[2].role, "assistant");
+    assert.match(repair[2].content, /"confidence":"high"/);
+    assert.match(
+      repair[3].content,
+      /- suggestions\.0\.rule\.operator: Required/,
+    );
+    assert.match(
+      repair[3].content,
+      /- suggestions\.0\.confidence: Expected number, received string/,
+    );
+  });
+
+  it("fills descriptive fields the reply left out", async () => {
+    app.llm.respondWith(() => ({
+      sql: "SELECT COUNT(*) AS [customers] FROM [Customer_Master]",
+      explanation: "Counts customers",
+    }));
+    const calls = app.llm.calls.length;
+
+    const res = await sqlAnalysis();
+    assert.equal(res.status, 200);
+    const result = await res.json();
+    assert.equal(app.llm.calls.length, calls + 1);
+    assert.equal(result.chartConfig, null);
+    assert.deepEqual(result.rows, [{ customers: 40 }]);
+  });
+
+  it("returns a typed error when the repaired reply is still invalid", async () => {
+    app.llm.respondWith(() => ({
+      sql: 42,
+      explanation: "Counts customers",
+      chartConfig: { type: "scatter", xKey: "a", yKey: "b", title: "" },
+    }));
+    const calls = app.llm.calls.length;
+
+    const res = await sqlAnalysis();
+    assert.equal(res.status, 502);
+    const body: AIResponseErrorBody = await res.json();
+    assert.equal(app.llm.calls.length, calls + 2);
+    assert.equal(body.code, "ai_response_invalid");
+    assert.equal(body.feature, "sql-analysis");
+    assert.equal(body.issues[0], "sql: Expected string, received number");
+    assert.match(body.issues[1], /^chartConfig\.type: Invalid enum value/);
+    assert.match(body.error, /sql-analysis was invalid after 2 attempts/);
+  });
+
+  it("rejects a reply that is not JSON", async () => {
+    app.llm.respondWith(() => "Sure! Here is the query you asked for.");
+    const res = await sqlAnalysis();
+    assert.equal(res.status, 502);
+    const body: AIResponseErrorBody = await res.json();
+    assert.match(body.issues[0], /^Not valid JSON: /);
+  });
+});
@@ -0,0 +1,138 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type {
+  AudienceSizeTargetResponse,
+  TargetingRefinementResponse,
+  TargetingRule,
+} from "@shared/schema";
+import { startTestApp, type ApiClient, type TestApp } from "./harness";
+import { CRM_DATABASE_ID, CUSTOMER_TABLE_ID } from "../mock-metabase/seed";
+
+const prefectures = (...values: string[]): TargetingRule => ({
+  type: "condition",
+  field: "Prefecture",
+  operator: "in",
+  values,
+});
+const reply = (rule: TargetingRule) => ({
+  suggestions: [{ segment: "Region", rule, confidence: 0.9 }],
+  suggestedAgeRange: null,
+  reasoning: "Adjusted the region.",
+});
+
+// Each prefecture has 7 customers with a usable email address in the seed
+describe("Audience size targeting", () => {
+  let app: TestApp;
+  let analyst: ApiClient;
+
+  const start = (rule: TargetingRule) =>
+    analyst.json<TargetingRefinementResponse>(
+      "POST",
+      "/api/ai/refinement-sessions",
+      {
+        concept: "Spring offer",
+        databaseId: CRM_DATABASE_ID,
+        masterTableId: CUSTOMER_TABLE_ID,
+        segments: ["Region"],
+        segmentRules: { Region: rule },
+        filterEmailsOnly: true,
+      },
+    );
+  const fitToSize = (sessionId: string, body: object) =>
+    analyst.request(
+      "POST",
+      `/api/ai/refinement-sessions/${sessionId}/audience-size`,
+      body,
+    );
+
+  before(async () => {
+    app = await startTestApp();
+    analyst = await app.clientFor("analyst");
+  });
+
+  after(() => app.close());
+
+  it("broadens turn by turn until the audience is close to the target", async () => {
+    const session = await start(prefectures("東京都"));
+    assert.equal(session.audienceCount, 7);
+
+    const replies = [
+      reply(prefectures("東京都", "大阪府")),
+      reply(prefectures("東京都", "大阪府", "神奈川県")),
+    ];
+    app.llm.respondWith(() => replies.shift() ?? {});
+    const res = await fitToSize(session.sessionId, { targetSize: 20 });
+    assert.equal(res.status, 200);
+    const result: AudienceSizeTargetResponse = await res.json();
+
+    assert.deepEqual(result.audienceTarget, {
+      targetSize: 20,
+      tolerancePercent: 10,
+      reached: true,
+      counts: [7, 14, 21],
+      keptClosest: false,
+    });
+    assert.equal(result.audienceCount, 21);
+    assert.equal(result.turns.length, 2);
+    assert.match(
+      result.turns[0].message,
+      /7 contacts match, but about 20 are needed \(±10%\)\. Broaden/,
+    );
+    // The second prompt carries the new live count
+    const last = app.llm.calls[1].messages.slice(-1)[0].content;
+    assert.match(last, /combined audience: 14 customers/);
+    assert.match(last, /14 contacts match, but about 20/);
+  });
+
+  it("keeps the closest rules when the model overshoots and then stalls", async () => {
+    const session = await start(prefectures("東京都", "大阪府"));
+    const calls = app.llm.calls.length;
+    const all = prefectures("東京都", "大阪府", "神奈川県", "愛知県");
+    app.llm.respondWith(() => reply(all));
+
+    const result = await analyst.json<AudienceSizeTargetResponse>(
+      "POST",
+      `/api/ai/refinement-sessions/${session.sessionId}/audience-size`,
+      { targetSize: 10, tolerancePercent: 20 },
+    );
+    // 14 → 28 moves away; the repeated reply changes nothing, so the loop stops
+    assert.deepEqual(result.audienceTarget.counts, [14, 28, 28]);
+    assert.equal(result.audienceTarget.reached, false);
+    assert.equal(result.audienceTarget.keptClosest, true);
+    assert.equal(result.audienceCount, 14);
+    assert.deepEqual(
+      result.suggestions[0].rule,
+      prefectures("東京都", "大阪府"),
+    );
+    assert.match(result.turns[0].message, /Narrow/);
+    assert.equal(app.llm.calls.length - calls, 2);
+  });
+
+  it("does not call the model when the audience is already within tolerance", async () => {
+    const session = await start(prefectures("東京都"));
+    const calls = app.llm.calls.length;
+    const result = await analyst.json<AudienceSizeTargetResponse>(
+      "POST",
+      `/api/ai/refinement-sessions/${session.sessionId}/audience-size`,
+      { targetSize: 8, tolerancePercent: 15 },
+    );
+    assert.equal(result.audienceTarget.reached, true);
+    assert.deepEqual(result.audienceTarget.counts, [7]);
+    assert.equal(app.llm.calls.length, calls);
+  });
+
+  it("checks the target and the session owner", async () => {
+    const session = await start(prefectures("東京都"));
+    assert.equal(
+      (await fitToSize(session.sessionId, { targetSize: 0 })).status,
+      400,
+    );
+    const admin = await app.clientFor("admin");
+    const res = await admin.request(
+      "POST",
+      `/api/ai/refinement-sessions/${session.sessionId}/audience-size`,
+      { targetSize: 20 },
+    );
+    assert.equal(res.status, 404);
+  });
+});
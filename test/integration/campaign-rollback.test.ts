@@ -0,0 +1,130 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type {
+  CampaignRollbackResponse,
+  CampaignWithRuns,
+  SuppressionWriteBackReport,
+  TargetingRule,
+} from "@shared/schema";
+import { startTestApp, type ApiClient, type TestApp } from "./harness";
+import {
+  CRM_DATABASE_ID,
+  CUSTOMER_TABLE,
+  CUSTOMER_TABLE_ID,
+  HISTORY_TABLE,
+  HISTORY_TABLE_ID,
+  MARKETING_DATABASE_ID,
+} from "../mock-metabase/seed";
+import { formatSqlDate, sqlNow } from "../mock-metabase/sql-engine";
+
+function daysAgo(days: number): string {
+  const d = sqlNow();
+  d.setUTCDate(d.getUTCDate() - days);
+  return formatSqlDate(d);
+}
+
+const tokyo: TargetingRule = {
+  type: "condition",
+  field: "Prefecture",
+  operator: "=",
+  value: "東京都",
+};
+
+describe("Campaign run rollback", () => {
+  let app: TestApp;
+  let analyst: ApiClient;
+  let operator: ApiClient;
+  let campaignId: string;
+  let runId: string;
+
+  const history = () =>
+    app.mock
+      .engine(MARKETING_DATABASE_ID)
+      .tableRows(HISTORY_TABLE)
+      .map((h) => `${h.Customer_Ref_ID}/${h.Campaign_Code}`)
+      .sort();
+  const logRow = (ref: string, sent: string) =>
+    app.mock
+      .engine(MARKETING_DATABASE_ID)
+      .runSqlite(
+        `INSERT INTO ${HISTORY_TABLE} (Customer_Ref_ID, Campaign_Code, Source_System, Sent_Date) VALUES (?, 'ROLL1', ?, ?)`,
+        [ref, CUSTOMER_TABLE, sent],
+      );
+  const rollback = (client: ApiClient, run = runId) =>
+    client.request("POST", `/api/campaigns/${campaignId}/runs/${run}/rollback`);
+
+  before(async () => {
+    app = await startTestApp();
+    analyst = await app.clientFor("analyst");
+    operator = await app.clientFor("operator");
+
+    // 12 was mailed under the same code last month, outside the window
+    logRow("12", daysAgo(30));
+  });
+
+  after(() => app.close());
+
+  it("deletes only the rows the export inserted", async () => {
+    const before = history();
+    const res = await operator.request("POST", "/api/ai/export-v2", {
+      databaseId: CRM_DATABASE_ID,
+      masterTableId: CUSTOMER_TABLE_ID,
+      historyDbId: MARKETING_DATABASE_ID,
+      historyTableId: HISTORY_TABLE_ID,
+      segments: [],
+      rules: tokyo,
+      contactCap: 3,
+      excludeDays: 7,
+      campaignCode: "ROLL1",
+      saveCampaign: true,
+    });
+    assert.equal(res.status, 200);
+    campaignId = res.headers.get("X-Campaign-Id")!;
+    runId = res.headers.get("X-Campaign-Run-Id")!;
+    const writeBack: SuppressionWriteBackReport = JSON.parse(
+      res.headers.get("X-Write-Back-Report") ?? "null",
+    );
+    assert.equal(writeBack.inserted, 3);
+    const exported = [...before, "12/ROLL1", "4/ROLL1", "8/ROLL1"].sort();
+    assert.deepEqual(history(), exported);
+
+    // Logged by hand after the export, under the same code and day
+    logRow("36", daysAgo(0));
+
+    const result = await operator.json<CampaignRollbackResponse>(
+      "POST",
+      `/api/campaigns/${campaignId}/runs/${runId}/rollback`,
+    );
+    assert.equal(result.deleted, 3);
+    assert.equal(result.logged, 3);
+    assert.deepEqual(history(), [...before, "36/ROLL1"].sort());
+
+    const campaign = await analyst.json<CampaignWithRuns>(
+      "GET",
+      `/api/campaigns/${campaignId}`,
+    );
+    const run = campaign.runs.find((r) => String(r.id) === runId)!;
+    assert.equal(run.rolledBackBy, "operator-user");
+    assert.equal(run.rolledBackCount, 3);
+    assert.ok(run.rolledBackAt);
+  });
+
+  it("refuses a second rollback and runs that logged nothing", async () => {
+    const again = await rollback(operator);
+    assert.equal(again.status, 400);
+    assert.match((await again.json()).error, /already rolled back/);
+
+    const preview = await analyst.json<{ campaignRunId: number }>(
+      "POST",
+      `/api/campaigns/${campaignId}/preview`,
+    );
+    const res = await rollback(operator, String(preview.campaignRunId));
+    assert.equal(res.status, 400);
+
+    assert.equal((await rollback(operator, "9999")).status, 404);
+  });
+
+  it("is limited to operators", async () => {
+    assert.equal((await rollback(analyst)).status, 403);
+  });
+});
@@ -0,0 +1,86 @@
+import { after, before, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import sql from "mssql";
+import { runDirectQuery, streamDirectQuery } from "../../server/db";
+
+// SELECT AVG(CAST(r AS FLOAT)), AVG(CAST(f AS FLOAT)), Segment, Segment
+const COLUMNS = [
+  { index: 0, name: "", type: sql.Float },
+  { index: 1, name: "", type: sql.Float },
+  { index: 2, name: "Segment", type: sql.NVarChar },
+  { index: 3, name: "Segment", type: sql.NVarChar },
+];
+const ROWS = [
+  [4.5, 2.25, "Champions", "VIP"],
+  [1.5, 1, "At risk", null],
+];
+
+// Stands in for the tedious driver: the result shapes follow mssql's, which keys a
+// row by column name (merging repeats into an array) unless arrayRowMode is set
+function fakeQuery(
+  this: sql.Request & { stream: boolean; emit: Function },
+  _command: string,
+  callback: Function,
+) {
+  const columns = this.arrayRowMode
+    ? COLUMNS
+    : Object.fromEntries(COLUMNS.map((col) => [col.name, col]));
+  const rows = ROWS.map((values) => {
+    if (this.arrayRowMode) return values;
+    const row: Record<string, any> = {};
+    COLUMNS.forEach(({ name }, i) => {
+      const existing = row[name];
+      if (existing === undefined) row[name] = values[i];
+      else if (Array.isArray(existing)) existing.push(values[i]);
+      else row[name] = [existing, values[i]];
+    });
+    return row;
+  });
+
+  if (this.stream) {
+    this.emit("recordset", columns);
+    for (const row of rows) this.emit("row", row);
+    callback(null, [], {}, [rows.length], [columns]);
+    return;
+  }
+  Object.defineProperty(rows, "columns", { value: columns });
+  callback(null, [rows], {}, [rows.length], [columns]);
+}
+
+describe("Direct SQL Server queries", () => {
+  before(() => {
+    mock.method(
+      sql.ConnectionPool.prototype,
+      "connect",
+      async function (this: sql.ConnectionPool) {
+        return this;
+      },
+    );
+    mock.method(sql.Request.prototype as any, "_query", fakeQuery);
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  it("keeps unnamed and repeated columns apart", async () => {
+    const result = await runDirectQuery("SELECT ...");
+    assert.deepEqual(
+      result.columns.map((col) => col.name),
+      ["", "", "Segment", "Segment"],
+    );
+    assert.equal(result.columns[0].type, "float");
+    assert.deepEqual(result.rows, ROWS);
+    assert.equal(result.rowCount, 2);
+  });
+
+  it("streams them the same way", async () => {
+    const batches = [];
+    for await (const batch of streamDirectQuery("SELECT ...")) {
+      batches.push(batch);
+    }
+    assert.equal(batches.length, 1);
+    assert.equal(batches[0].columns.length, 4);
+    assert.deepEqual(batches[0].rows, ROWS);
+  });
+});
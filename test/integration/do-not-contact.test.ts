@@ -0,0 +1,210 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type {
+  DoNotContactAddResult,
+  DoNotContactListResponse,
+  MailingListResponse,
+  TargetingRule,
+} from "@shared/schema";
+import { startTestApp, type ApiClient, type TestApp } from "./harness";
+import {
+  CRM_DATABASE_ID,
+  CUSTOMER_COUNT,
+  CUSTOMER_TABLE_ID,
+  HISTORY_TABLE_ID,
+  MARKETING_DATABASE_ID,
+} from "../mock-metabase/seed";
+
+const tokyo: TargetingRule = {
+  type: "condition",
+  field: "Prefecture",
+  operator: "=",
+  value: "東京都",
+};
+
+describe("Do-not-contact list", () => {
+  let app: TestApp;
+  let analyst: ApiClient;
+  let operator: ApiClient;
+
+  const body = (extra: Record<string, unknown> = {}) => ({
+    databaseId: CRM_DATABASE_ID,
+    masterTableId: CUSTOMER_TABLE_ID,
+    segments: [],
+    rules: tokyo,
+    contactCap: 100,
+    excludeDays: 7,
+    ...extra,
+  });
+  const preview = (extra: Record<string, unknown> = {}) =>
+    analyst.json<{
+      records: Record<string, any>[];
+      complianceExcludedCount: number;
+      filterWarning: string | null;
+    }>("POST", "/api/ai/preview-v2", body(extra));
+  const previewIds = async (extra: Record<string, unknown> = {}) =>
+    (await preview(extra)).records.map((r) => Number(r.Customer_ID));
+  const add = (type: string, values: string[]) =>
+    operator.json<DoNotContactAddResult>("POST", "/api/do-not-contact", {
+      type,
+      values,
+      reason: "Unsubscribed",
+    });
+
+  before(async () => {
+    app = await startTestApp();
+    analyst = await app.clientFor("analyst");
+    operator = await app.clientFor("operator");
+  });
+
+  after(() => app.close());
+
+  it("only lets operators change the list", async () => {
+    const res = await analyst.request("POST", "/api/do-not-contact", {
+      type: "email",
+      values: ["customer8@example.jp"],
+    });
+    assert.equal(res.status, 403);
+  });
+
+  it("stores normalised values and reports rejects and repeats", async () => {
+    const first = await add("email", [
+      " Customer8+Newsletter@EXAMPLE.jp ",
+      "customer8@example.jp",
+      "not-an-email",
+    ]);
+    assert.deepEqual(first, {
+      added: 1,
+      alreadyListed: 0,
+      rejected: ["not-an-email"],
+    });
+    assert.equal(
+      (await add("email", ["CUSTOMER8@example.jp"])).alreadyListed,
+      1,
+    );
+
+    const list = await analyst.json<DoNotContactListResponse>(
+      "GET",
+      "/api/do-not-contact?type=email",
+    );
+    assert.equal(list.pagination.totalCount, 1);
+    assert.equal(list.entries[0].value, "customer8@example.jp");
+    assert.equal(list.entries[0].reason, "Unsubscribed");
+    assert.equal(list.entries[0].createdBy, "operator-user");
+  });
+
+  it("removes listed contacts from previews without a suppression table", async () => {
+    await add("customer_ref", ["12"]);
+
+    const result = await preview();
+    const ids = result.records.map((r) => Number(r.Customer_ID));
+    assert.ok(!ids.includes(8));
+    assert.ok(!ids.includes(12));
+    assert.ok(ids.includes(4));
+    assert.equal(result.complianceExcludedCount, 2);
+  });
+
+  it("applies whatever the suppression window", async () => {
+    const ids = await previewIds({
+      historyDbId: MARKETING_DATABASE_ID,
+      historyTableId: HISTORY_TABLE_ID,
+      excludeDays: 0,
+    });
+    assert.ok(!ids.includes(8));
+    assert.ok(!ids.includes(12));
+  });
+
+  it("keeps listed contacts out of exports and reports the count", async () => {
+    const res = await analyst.request("POST", "/api/ai/export-v2", body());
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.get("X-Compliance-Excluded-Count"), "2");
+    const csv = await res.text();
+    assert.ok(!csv.includes("customer8@example.jp"));
+    assert.ok(!/^"12",/m.test(csv));
+  });
+
+  it("filters the mailing list export", async () => {
+    const list = await analyst.json<MailingListResponse>(
+      "POST",
+      "/api/metabase/export",
+      {
+        databaseId: CRM_DATABASE_ID,
+        tableId: CUSTOMER_TABLE_ID,
+        filters: [],
+        limit: 100,
+      },
+    );
+    const emails = list.entries.map((e) => e.email);
+    assert.ok(emails.includes("customer4@example.jp"));
+    assert.ok(!emails.includes("customer8@example.jp"));
+    assert.ok(!emails.includes("customer12@example.jp"));
+    assert.equal(list.complianceExcludedCount, 2);
+    assert.equal(list.total, CUSTOMER_COUNT - 2);
+    assert.equal(list.totalIsEstimate, false);
+    assert.equal(list.nextOffset, null);
+  });
+
+  it("fills mailing list pages past do-not-contact rows", async () => {
+    const page = (offset: number) =>
+      analyst.json<MailingListResponse>("POST", "/api/metabase/export", {
+        databaseId: CRM_DATABASE_ID,
+        tableId: CUSTOMER_TABLE_ID,
+        filters: [],
+        limit: 10,
+        offset,
+      });
+
+    // Customer 8 is listed: the first page reads one row further to stay full
+    const first = await page(0);
+    assert.equal(first.entries.length, 10);
+    assert.equal(first.complianceExcludedCount, 1);
+    assert.equal(first.nextOffset, 11);
+    assert.equal(first.total, CUSTOMER_COUNT - 1);
+    assert.equal(first.totalIsEstimate, true);
+
+    // ...and customer 12 on the second
+    const second = await page(first.nextOffset!);
+    assert.equal(second.entries.length, 10);
+    assert.equal(second.complianceExcludedCount, 1);
+    assert.equal(second.nextOffset, 22);
+
+    const names = [...first.entries, ...second.entries].map((e) => e.name);
+    assert.equal(new Set(names).size, 20);
+  });
+
+  it("adds references from an uploaded CSV", async () => {
+    const res = await operator.send(
+      "POST",
+      "/api/do-not-contact/upload?type=customer_ref",
+      "\uFEFFName,Customer_ID\r\nA,16\r\nB,24\r\n",
+      "text/csv",
+    );
+    assert.equal(res.status, 200);
+    const result: DoNotContactAddResult = await res.json();
+    assert.equal(result.added, 2);
+
+    const ids = await previewIds();
+    assert.ok(!ids.includes(16));
+    assert.ok(!ids.includes(24));
+  });
+
+  it("blocks whole domains and explains an empty preview", async () => {
+    const { added } = await add("domain", ["@Example.JP"]);
+    assert.equal(added, 1);
+
+    const result = await preview();
+    assert.equal(result.records.length, 0);
+    assert.match(result.filterWarning ?? "", /do-not-contact/);
+
+    const list = await analyst.json<DoNotContactListResponse>(
+      "GET",
+      "/api/do-not-contact?type=domain",
+    );
+    const removed = await operator.request(
+      "DELETE",
+      `/api/do-not-contact/${list.entries[0].id}`,
+    );
+    assert.equal(removed.status, 204);
+    assert.ok((await previewIds()).includes(4));
+  });
+});
@@ -0,0 +1,248 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { TargetingRule } from "@shared/schema";
+import { startTestApp, type ApiClient, type TestApp } from "./harness";
+import {
+  CRM_DATABASE_ID,
+  CUSTOMER_COUNT,
+  CUSTOMER_TABLE,
+  CUSTOMER_TABLE_ID,
+  HISTORY_TABLE,
+  HISTORY_TABLE_ID,
+  MARKETING_DATABASE_ID,
+  RECENTLY_MAILED_IDS,
+  customerRow,
+} from "../mock-metabase/seed";
+import { formatSqlDate, sqlNow } from "../mock-metabase/sql-engine";
+
+type Customer = ReturnType<typeof customerRow>;
+
+const customers: Customer[] = Array.from({ length: CUSTOMER_COUNT }, (_, i) =>
+  customerRow(i + 1),
+);
+const hasEmail = (c: Customer) => !!c.Email && c.Email.trim().length > 0;
+
+const osaka: TargetingRule = {
+  type: "condition",
+  field: "Prefecture",
+  operator: "=",
+  value: "大阪府",
+};
+
+// The export writes a bare header line followed by fully quoted values
+function parseCsv(csv: string): Record<string, string>[] {
+  const [header, ...lines] = csv.split("\n").filter((l) => l.length > 0);
+  const columns = header.split(",");
+  return lines.map((line) => {
+    const values = line.slice(1, -1).split('","');
+    return Object.fromEntries(columns.map((c, i) => [c, values[i]]));
+  });
+}
+
+describe("Campaign export with suppression write-back (v2)", () => {
+  let app: TestApp;
+  let analyst: ApiClient;
+  let operator: ApiClient;
+
+  const exportBody = (body: Record<string, unknown>) => ({
+    databaseId: CRM_DATABASE_ID,
+    masterTableId: CUSTOMER_TABLE_ID,
+    historyDbId: MARKETING_DATABASE_ID,
+    historyTableId: HISTORY_TABLE_ID,
+    segments: [],
+    rules: osaka,
+    contactCap: 5,
+    excludeDays: 7,
+    saveCampaign: true,
+    ...body,
+  });
+  const exportList = async (
+    client: ApiClient,
+    body: Record<string, unknown>,
+  ) => {
+    const res = await client.request(
+      "POST",
+      "/api/ai/export-v2",
+      exportBody(body),
+    );
+    assert.equal(res.status, 200, await res.clone().text());
+    return { res, rows: parseCsv(await res.text()) };
+  };
+  const history = () =>
+    app.mock.engine(MARKETING_DATABASE_ID).tableRows(HISTORY_TABLE);
+
+  before(async () => {
+    app = await startTestApp();
+    analyst = await app.clientFor("analyst");
+    operator = await app.clientFor("operator");
+  });
+
+  after(() => app.close());
+
+  it("only lets operators write to the suppression list", async () => {
+    const before = history().length;
+    const res = await analyst.request(
+      "POST",
+      "/api/ai/export-v2",
+      exportBody({ campaignCode: "AUTUMN26" }),
+    );
+    assert.equal(res.status, 403);
+    assert.equal(history().length, before);
+  });
+
+  it("requires a campaign code when writing back", async () => {
+    const res = await operator.request(
+      "POST",
+      "/api/ai/export-v2",
+      exportBody({}),
+    );
+    assert.equal(res.status, 400);
+  });
+
+  it("rejects a malformed birthday filter or age range", async () => {
+    for (const body of [
+      { birthdayFilter: "this month ".repeat(10) },
+      { ageRange: { min: 25 } },
+    ]) {
+      const res = await analyst.request(
+        "POST",
+        "/api/ai/export-v2",
+        exportBody({ historyDbId: null, historyTableId: null, ...body }),
+      );
+      assert.equal(res.status, 400, JSON.stringify(body));
+    }
+  });
+
+  it("exports without touching the history table when none is selected", async () => {
+    const before = history().length;
+    const { res, rows } = await exportList(analyst, {
+      historyDbId: null,
+      historyTableId: null,
+    });
+    assert.equal(rows.length, 5);
+    assert.equal(history().length, before);
+    // Enough Osaka contacts to fill the cap, and no ranking column in the file
+    assert.deepEqual(JSON.parse(res.headers.get("x-tier-counts") ?? "null"), {
+      exact: 5,
+      relaxed: 0,
+      fill: 0,
+    });
+    assert.ok(rows.every((r) => !("__match_tier" in r)));
+  });
+
+  it("only saves a campaign when asked", async () => {
+    const saved = async () =>
+      (await analyst.json<unknown[]>("GET", "/api/campaigns")).length;
+    const before = await saved();
+    const { res, rows } = await exportList(analyst, {
+      historyDbId: null,
+      historyTableId: null,
+      saveCampaign: false,
+    });
+    assert.equal(rows.length, 5);
+    assert.equal(res.headers.get("x-campaign-id"), null);
+    assert.equal(await saved(), before);
+  });
+
+  it("needs a saved campaign to keep a holdout's control group", async () => {
+    const before = history().length;
+    const res = await operator.request(
+      "POST",
+      "/api/ai/export-v2",
+      exportBody({
+        campaignCode: "UNSAVED1",
+        holdoutPercent: 20,
+        saveCampaign: false,
+      }),
+    );
+    assert.equal(res.status, 400);
+    assert.match((await res.json()).error, /Save the campaign/);
+    assert.equal(history().length, before);
+  });
+
+  it("returns 404 for a campaign that doesn't exist", async () => {
+    const before = history().length;
+    const exported = await operator.request(
+      "POST",
+      "/api/ai/export-v2",
+      exportBody({ campaignId: 9999, campaignCode: "GONE1" }),
+    );
+    assert.equal(exported.status, 404);
+    assert.equal(history().length, before);
+
+    const previewed = await analyst.request(
+      "POST",
+      "/api/ai/preview-v2",
+      exportBody({ campaignId: 9999 }),
+    );
+    assert.equal(previewed.status, 404);
+  });
+
+  let firstExport: number[] = [];
+
+  it("exports matching, unsuppressed contacts and logs them", async () => {
+    const before = history();
+    const { res, rows } = await exportList(operator, {
+      campaignCode: "AUTUMN26",
+    });
+
+    assert.ok(res.headers.get("x-campaign-id"));
+    assert.ok(res.headers.get("x-campaign-run-id"));
+    assert.match(
+      res.headers.get("content-disposition") ?? "",
+      /campaign-AUTUMN26\.csv/,
+    );
+
+    firstExport = rows.map((r) => Number(r.Customer_ID));
+    assert.equal(firstExport.length, 5);
+    for (const row of rows) {
+      assert.equal(row.Prefecture, "大阪府");
+      assert.ok(row.Email.trim().length > 0);
+    }
+    for (const id of RECENTLY_MAILED_IDS) assert.ok(!firstExport.includes(id));
+
+    const logged = history().slice(before.length);
+    assert.equal(logged.length, 5);
+    assert.deepEqual(
+      logged.map((h) => Number(h.Customer_Ref_ID)).sort((a, b) => a - b),
+      [...firstExport].sort((a, b) => a - b),
+    );
+    for (const entry of logged) {
+      assert.equal(entry.Campaign_Code, "AUTUMN26");
+      assert.equal(entry.Source_System, CUSTOMER_TABLE);
+      assert.equal(entry.Sent_Date, formatSqlDate(sqlNow()));
+    }
+  });
+
+  it("suppresses the previous export on the next run", async () => {
+    const { rows } = await exportList(operator, { campaignCode: "AUTUMN26B" });
+    const secondExport = rows.map((r) => Number(r.Customer_ID));
+    assert.equal(secondExport.length, 5);
+    assert.deepEqual(
+      secondExport.filter((id) => firstExport.includes(id)),
+      [],
+    );
+
+    // The remaining Osaka contacts with an email come first
+    const remaining = customers
+      .filter((c) => c.Prefecture === "大阪府" && hasEmail(c))
+      .map((c) => c.Customer_ID)
+      .filter(
+        (id) => !firstExport.includes(id) && !RECENTLY_MAILED_IDS.includes(id),
+      );
+    for (const id of remaining) assert.ok(secondExport.includes(id));
+  });
+
+  it("reflects the write-back in the preview", async () => {
+    const preview = await analyst.json<{
+      excludedCount: number;
+      records: Record<string, any>[];
+    }>("POST", "/api/ai/preview-v2", {
+      ...exportBody({}),
+      contactCap: 100,
+    });
+    const previewIds = preview.records.map((r) => Number(r.Customer_ID));
+    for (const id of firstExport) assert.ok(!previewIds.includes(id));
+    assert.ok(preview.excludedCount >= RECENTLY_MAILED_IDS.length + 10);
+  });
+});
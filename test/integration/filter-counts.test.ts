@@ -0,0 +1,158 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { FilterValue } from "@shared/schema";
+import { startTestApp, type ApiClient, type TestApp } from "./harness";
+import {
+  CRM_DATABASE_ID,
+  CUSTOMER_COUNT,
+  CUSTOMER_TABLE_ID,
+  customerRow,
+  fieldId,
+  type MockTable,
+} from "../mock-metabase/seed";
+
+type Customer = ReturnType<typeof customerRow>;
+
+const customers: Customer[] = Array.from({ length: CUSTOMER_COUNT }, (_, i) =>
+  customerRow(i + 1),
+);
+const expectedCount = (match: (c: Customer) => boolean) =>
+  customers.filter(match).length;
+
+describe("Data Filter counts", () => {
+  let app: TestApp;
+  let viewer: ApiClient;
+  let table: MockTable;
+
+  const filter = (
+    column: keyof Customer,
+    operator: FilterValue["operator"],
+    value: FilterValue["value"],
+    extra: Partial<FilterValue> = {},
+  ): FilterValue => ({
+    fieldId: fieldId(table, column),
+    fieldName: column,
+    fieldDisplayName: column,
+    operator,
+    value,
+    ...extra,
+  });
+
+  const count = (filters: FilterValue[]) =>
+    viewer.json<{ count: number; total: number; percentage: number }>(
+      "POST",
+      "/api/metabase/count",
+      { databaseId: CRM_DATABASE_ID, tableId: CUSTOMER_TABLE_ID, filters },
+    );
+
+  before(async () => {
+    app = await startTestApp();
+    viewer = await app.clientFor("viewer");
+    table = app.mock.databases
+      .flatMap((db) => db.tables)
+      .find((t) => t.id === CUSTOMER_TABLE_ID)!;
+  });
+
+  after(() => app.close());
+
+  it("requires a session", async () => {
+    const res = await fetch(`${app.baseUrl}/api/metabase/count`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        databaseId: CRM_DATABASE_ID,
+        tableId: CUSTOMER_TABLE_ID,
+        filters: [],
+      }),
+    });
+    assert.equal(res.status, 401);
+  });
+
+  it("returns the table total without filters", async () => {
+    const result = await count([]);
+    assert.deepEqual(result, {
+      count: CUSTOMER_COUNT,
+      total: CUSTOMER_COUNT,
+      percentage: 100,
+    });
+  });
+
+  it("counts a single equals filter", async () => {
+    const result = await count([filter("Prefecture", "equals", "東京都")]);
+    assert.equal(
+      result.count,
+      expectedCount((c) => c.Prefecture === "東京都"),
+    );
+    assert.equal(result.total, CUSTOMER_COUNT);
+    assert.equal(result.percentage, (result.count / CUSTOMER_COUNT) * 100);
+  });
+
+  it("treats multiple equals values as OR", async () => {
+    const result = await count([
+      filter("Prefecture", "equals", null, { values: ["東京都", "大阪府"] }),
+    ]);
+    assert.equal(
+      result.count,
+      expectedCount(
+        (c) => c.Prefecture === "東京都" || c.Prefecture === "大阪府",
+      ),
+    );
+  });
+
+  it("combines filters with AND", async () => {
+    const result = await count([
+      filter("Gender", "equals", "F"),
+      filter("Total_LTV", "greater_than", 20000),
+    ]);
+    assert.equal(
+      result.count,
+      expectedCount((c) => c.Gender === "F" && c.Total_LTV > 20000),
+    );
+  });
+
+  it("supports between, contains and null checks", async () => {
+    const between = await count([
+      filter("Total_LTV", "between", 5000, { valueTo: 10000 }),
+    ]);
+    assert.equal(
+      between.count,
+      expectedCount((c) => c.Total_LTV >= 5000 && c.Total_LTV <= 10000),
+    );
+
+    const contains = await count([filter("Customer_Name", "contains", "1")]);
+    assert.equal(
+      contains.count,
+      expectedCount((c) => c.Customer_Name.includes("1")),
+    );
+
+    const withEmail = await count([filter("Email", "is_not_null", null)]);
+    assert.equal(
+      withEmail.count,
+      expectedCount((c) => c.Email !== null),
+    );
+  });
+
+  it("lists field options with their counts", async () => {
+    const { options } = await viewer.json<{
+      options: Array<{ value: string; count: number }>;
+    }>("POST", "/api/metabase/field-options", {
+      databaseId: CRM_DATABASE_ID,
+      tableId: CUSTOMER_TABLE_ID,
+      fieldId: fieldId(table, "Prefecture"),
+    });
+    const expected = new Map<string, number>();
+    for (const c of customers) {
+      expected.set(c.Prefecture, (expected.get(c.Prefecture) ?? 0) + 1);
+    }
+    assert.deepEqual(new Map(options.map((o) => [o.value, o.count])), expected);
+  });
+
+  it("logs in to Metabase again when the session expires", async () => {
+    app.mock.expireSessions();
+    const result = await count([filter("Gender", "equals", "M")]);
+    assert.equal(
+      result.count,
+      expectedCount((c) => c.Gender === "M"),
+    );
+  });
+});
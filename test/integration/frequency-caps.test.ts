@@ -0,0 +1,210 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type {
+  CampaignWithRuns,
+  FrequencyCapRule,
+  TargetingRule,
+} from "@shared/schema";
+import { startTestApp, type ApiClient, type TestApp } from "./harness";
+import {
+  CRM_DATABASE_ID,
+  CUSTOMER_TABLE,
+  CUSTOMER_TABLE_ID,
+  HISTORY_TABLE,
+  HISTORY_TABLE_ID,
+  MARKETING_DATABASE_ID,
+} from "../mock-metabase/seed";
+import { formatSqlDate, sqlNow } from "../mock-metabase/sql-engine";
+
+const tokyo: TargetingRule = {
+  type: "condition",
+  field: "Prefecture",
+  operator: "=",
+  value: "東京都",
+};
+
+function daysAgo(days: number): string {
+  const d = sqlNow();
+  d.setUTCDate(d.getUTCDate() - days);
+  return formatSqlDate(d);
+}
+
+// Customer 4: three mailings this month, none this week. Customer 8: one GL
+// mailing this week. Customer 12: one TS mailing this week.
+const MAILINGS: [number, string, number][] = [
+  [4, "GL-APR", 10],
+  [4, "GL-MAY", 15],
+  [4, "TS-MAY", 20],
+  [8, "GL-JUN", 3],
+  [12, "TS-JUN", 3],
+];
+
+const monthlyCap: FrequencyCapRule = { maxMailings: 3, windowDays: 30 };
+const weeklyGlCap: FrequencyCapRule = {
+  maxMailings: 1,
+  windowDays: 7,
+  brand: "GL",
+};
+
+describe("Frequency caps", () => {
+  let app: TestApp;
+  let analyst: ApiClient;
+  let operator: ApiClient;
+
+  // excludeDays 1 keeps the regular suppression window out of the way
+  const body = (frequencyCaps: FrequencyCapRule[], withHistory = true) => ({
+    databaseId: CRM_DATABASE_ID,
+    masterTableId: CUSTOMER_TABLE_ID,
+    ...(withHistory
+      ? { historyDbId: MARKETING_DATABASE_ID, historyTableId: HISTORY_TABLE_ID }
+      : {}),
+    segments: [],
+    rules: tokyo,
+    contactCap: 100,
+    excludeDays: 1,
+    frequencyCaps,
+  });
+  const preview = (frequencyCaps: FrequencyCapRule[], withHistory = true) =>
+    analyst.json<{
+      records: Record<string, any>[];
+      excludedCount: number;
+      frequencyCappedCount: number;
+      frequencyCapWarnings: string[];
+    }>("POST", "/api/ai/preview-v2", body(frequencyCaps, withHistory));
+  const ids = (records: Record<string, any>[]) =>
+    records.map((r) => Number(r.Customer_ID));
+
+  before(async () => {
+    app = await startTestApp();
+    analyst = await app.clientFor("analyst");
+    operator = await app.clientFor("operator");
+
+    const values = MAILINGS.map(
+      ([ref, code, days]) =>
+        `('${ref}', '${code}', '${CUSTOMER_TABLE}', '${daysAgo(days)}')`,
+    ).join(", ");
+    app.mock
+      .engine(MARKETING_DATABASE_ID)
+      .runSqlite(
+        `INSERT INTO ${HISTORY_TABLE} (Customer_Ref_ID, Campaign_Code, Source_System, Sent_Date) VALUES ${values}`,
+      );
+  });
+
+  after(() => app.close());
+
+  it("skips contacts that reached a cap across campaigns", async () => {
+    const result = await preview([monthlyCap]);
+    assert.ok(!ids(result.records).includes(4));
+    assert.ok(ids(result.records).includes(8));
+    assert.equal(result.frequencyCappedCount, 1);
+    assert.equal(result.excludedCount, 0);
+  });
+
+  it("counts only the brand's mailings for a brand cap", async () => {
+    const result = await preview([weeklyGlCap]);
+    const found = ids(result.records);
+    assert.ok(!found.includes(8));
+    assert.ok(found.includes(12));
+    assert.ok(found.includes(4));
+    assert.equal(result.frequencyCappedCount, 1);
+
+    const both = await preview([monthlyCap, weeklyGlCap]);
+    assert.equal(both.frequencyCappedCount, 2);
+    assert.deepEqual(both.frequencyCapWarnings, []);
+  });
+
+  it("warns instead of capping without a history table", async () => {
+    const result = await preview([monthlyCap], false);
+    assert.ok(ids(result.records).includes(4));
+    assert.equal(result.frequencyCappedCount, 0);
+    assert.match(result.frequencyCapWarnings[0], /no history table/);
+  });
+
+  it("finds capped candidates among more references than one response holds", async () => {
+    // 2,100 other references over the monthly cap, all grouped before customer 4
+    const values = Array.from({ length: 2100 }, (_, i) =>
+      [10, 15, 20].map(
+        (days) =>
+          `('0${String(i).padStart(4, "0")}', 'GL-BULK', '${CUSTOMER_TABLE}', '${daysAgo(days)}')`,
+      ),
+    )
+      .flat()
+      .join(", ");
+    app.mock
+      .engine(MARKETING_DATABASE_ID)
+      .runSqlite(
+        `INSERT INTO ${HISTORY_TABLE} (Customer_Ref_ID, Campaign_Code, Source_System, Sent_Date) VALUES ${values}`,
+      );
+
+    const result = await preview([monthlyCap]);
+    assert.ok(!ids(result.records).includes(4));
+    assert.equal(result.frequencyCappedCount, 1);
+  });
+
+  it("rejects invalid caps", async () => {
+    const res = await analyst.request(
+      "POST",
+      "/api/ai/preview-v2",
+      body([{ maxMailings: 0, windowDays: 7 }]),
+    );
+    assert.equal(res.status, 400);
+  });
+
+  it("applies the caps to the export and records them on the campaign", async () => {
+    const res = await operator.request("POST", "/api/ai/export-v2", {
+      ...body([monthlyCap, weeklyGlCap]),
+      campaignCode: "CAPPED1",
+      saveCampaign: true,
+    });
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.get("X-Frequency-Capped-Count"), "2");
+    assert.equal(res.headers.get("X-Frequency-Cap-Warnings"), null);
+    const csv = await res.text();
+    assert.ok(!csv.includes("customer4@example.jp"));
+    assert.ok(!csv.includes("customer8@example.jp"));
+    assert.ok(csv.includes("customer12@example.jp"));
+
+    const campaign = await analyst.json<CampaignWithRuns>(
+      "GET",
+      `/api/campaigns/${res.headers.get("X-Campaign-Id")}`,
+    );
+    assert.deepEqual(campaign.frequencyCaps, [monthlyCap, weeklyGlCap]);
+    assert.equal(campaign.runs[0].frequencyCappedCount, 2);
+  });
+
+  it("returns the warnings with an export that could not apply the caps", async () => {
+    const res = await operator.request("POST", "/api/ai/export-v2", {
+      ...body([monthlyCap], false),
+      campaignCode: "UNCAPPED1",
+    });
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.get("X-Frequency-Capped-Count"), "0");
+    const warnings = JSON.parse(
+      res.headers.get("X-Frequency-Cap-Warnings") ?? "[]",
+    ) as string[];
+    assert.equal(warnings.length, 1);
+    assert.match(warnings[0], /no history table/);
+    assert.ok((await res.text()).includes("customer4@example.jp"));
+  });
+
+  it("fails the export when the caps can't be looked up", async () => {
+    const history = app.mock.engine(MARKETING_DATABASE_ID);
+    history.runSqlite(`ALTER TABLE ${HISTORY_TABLE} RENAME TO History_Offline`);
+    try {
+      const res = await operator.request("POST", "/api/ai/export-v2", {
+        ...body([monthlyCap]),
+        campaignCode: "CAPFAIL1",
+      });
+      assert.equal(res.status, 500);
+      // It stopped at the cap lookup, before anything was written back
+      assert.match(
+        app.mock.datasetCalls[app.mock.datasetCalls.length - 1].sql ?? "",
+        /#frequency_cap_candidates/,
+      );
+    } finally {
+      history.runSqlite(
+        `ALTER TABLE History_Offline RENAME TO ${HISTORY_TABLE}`,
+      );
+    }
+  });
+});
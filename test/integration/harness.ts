@@ -0,0 +1,151 @@
+import express from "express";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import type { UserRole } from "@shared/schema";
+import {
+  startMockMetabase,
+  type MockMetabase,
+  type MockMetabaseOptions,
+} from "../mock-metabase/server";
+import { startMockLlm, type MockLlm } from "../mock-llm/server";
+
+// Boots the real Express app against the Metabase and model stand-ins. The app
+// reads its configuration from the environment at import time, so routes are
+// imported only after the environment points at the mocks. Each test file runs
+// in its own process, so every file gets a fresh app, cache and seeded database.
+
+const ADMIN_USERNAME = "admin";
+const ADMIN_PASSWORD = "admin-password";
+
+export interface ApiClient {
+  request(method: string, path: string, body?: unknown): Promise<Response>;
+  /** Sends a raw (non-JSON) body, e.g. a CSV upload. */
+  send(
+    method: string,
+    path: string,
+    body: string,
+    contentType: string,
+  ): Promise<Response>;
+  /** Like request(), but throws on a non-2xx status and parses the JSON body. */
+  json<T = any>(method: string, path: string, body?: unknown): Promise<T>;
+}
+
+export interface TestApp {
+  baseUrl: string;
+  mock: MockMetabase;
+  llm: MockLlm;
+  /** A logged-in client for a user with `role` (created on first use). */
+  clientFor(role: UserRole): Promise<ApiClient>;
+  close(): Promise<void>;
+}
+
+function createClient(baseUrl: string): ApiClient & { cookie: string | null } {
+  const client = {
+    cookie: null as string | null,
+    async request(method: string, path: string, body?: unknown) {
+      return body !== undefined
+        ? client.send(method, path, JSON.stringify(body), "application/json")
+        : client.send(method, path, undefined, undefined);
+    },
+    async send(
+      method: string,
+      path: string,
+      body: string | undefined,
+      contentType: string | undefined,
+    ) {
+      const res = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers: {
+          ...(contentType ? { "Content-Type": contentType } : {}),
+          ...(client.cookie ? { Cookie: client.cookie } : {}),
+        },
+        body,
+      });
+      const setCookie = res.headers.get("set-cookie");
+      if (setCookie) client.cookie = setCookie.split(";")[0];
+      return res;
+    },
+    async json(method: string, path: string, body?: unknown) {
+      const res = await client.request(method, path, body);
+      if (!res.ok) {
+        throw new Error(
+          `${method} ${path} → ${res.status}: ${await res.text()}`,
+        );
+      }
+      return res.json();
+    },
+  };
+  return client;
+}
+
+async function login(
+  baseUrl: string,
+  username: string,
+  password: string,
+): Promise<ApiClient> {
+  const client = createClient(baseUrl);
+  await client.json("POST", "/api/auth/login", { username, password });
+  return client;
+}
+
+export async function startTestApp(
+  mockOptions: MockMetabaseOptions = {},
+): Promise<TestApp> {
+  // The app logs every query; keep the test report readable (errors still print)
+  if (!process.env.TEST_VERBOSE) {
+    console.log = () => {};
+    console.warn = () => {};
+  }
+
+  const mock = await startMockMetabase(mockOptions);
+  const llm = await startMockLlm();
+
+  process.env.NODE_ENV = "test";
+  process.env.METABASE_URL = mock.url;
+  process.env.METABASE_EMAIL = mock.email;
+  process.env.METABASE_PASSWORD = mock.password;
+  process.env.ADMIN_USERNAME = ADMIN_USERNAME;
+  process.env.ADMIN_PASSWORD = ADMIN_PASSWORD;
+  process.env.SESSION_SECRET = "integration-test-secret";
+  process.env.AI_INTEGRATIONS_OPENAI_API_KEY ??= "not-used-in-tests";
+  process.env.AI_INTEGRATIONS_OPENAI_BASE_URL = llm.url;
+  // In-memory app storage and sessions; every query goes through (mock) Metabase
+  delete process.env.DATABASE_URL;
+  delete process.env.MSSQL_DATABASE_MAP;
+
+  const { registerRoutes } = await import("../../server/routes");
+  const app = express();
+  app.use(express.json());
+  const httpServer: Server = createServer(app);
+  await registerRoutes(httpServer, app);
+  await new Promise<void>((resolve) =>
+    httpServer.listen(0, "127.0.0.1", resolve),
+  );
+  const { port } = httpServer.address() as AddressInfo;
+  const baseUrl = `http://127.0.0.1:${port}`;
+
+  const admin = await login(baseUrl, ADMIN_USERNAME, ADMIN_PASSWORD);
+  const clients = new Map<UserRole, ApiClient>([["admin", admin]]);
+
+  return {
+    baseUrl,
+    mock,
+    llm,
+    async clientFor(role) {
+      const existing = clients.get(role);
+      if (existing) return existing;
+      const username = `${role}-user`;
+      const password = `${role}-password`;
+      await admin.json("POST", "/api/users", { username, password, role });
+      const client = await login(baseUrl, username, password);
+      clients.set(role, client);
+      return client;
+    },
+    async close() {
+      httpServer.closeAllConnections();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+      await mock.close();
+      await llm.close();
+    },
+  };
+}
@@ -0,0 +1,197 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type {
+  CampaignRollbackResponse,
+  CampaignWithRuns,
+  SuppressionWriteBackReport,
+  TargetingRule,
+} from "@shared/schema";
+import { startTestApp, type ApiClient, type TestApp } from "./harness";
+import {
+  CRM_DATABASE_ID,
+  CUSTOMER_TABLE_ID,
+  HISTORY_TABLE,
+  HISTORY_TABLE_ID,
+  MARKETING_DATABASE_ID,
+} from "../mock-metabase/seed";
+import { isHeldOut } from "../../server/holdout";
+
+const tokyo: TargetingRule = {
+  type: "condition",
+  field: "Prefecture",
+  operator: "=",
+  value: "東京都",
+};
+
+// Tokyo customers with an email; 4 was last mailed long ago, so none are suppressed
+const TOKYO_WITH_EMAIL = [4, 8, 12, 16, 24, 32, 36];
+const HOLDOUT = { percent: 50, campaignCode: "HOLD1" };
+const CONTROL = TOKYO_WITH_EMAIL.filter((id) => isHeldOut(String(id), HOLDOUT));
+const TREATED = TOKYO_WITH_EMAIL.filter((id) => !CONTROL.includes(id));
+
+const emails = (csv: string) =>
+  Array.from(csv.matchAll(/customer(\d+)@example\.jp/g), (m) =>
+    Number(m[1]),
+  ).sort((a, b) => a - b);
+
+describe("Holdout groups", () => {
+  let app: TestApp;
+  let analyst: ApiClient;
+  let operator: ApiClient;
+
+  const body = (holdoutPercent: number, withHistory = true) => ({
+    databaseId: CRM_DATABASE_ID,
+    masterTableId: CUSTOMER_TABLE_ID,
+    ...(withHistory
+      ? { historyDbId: MARKETING_DATABASE_ID, historyTableId: HISTORY_TABLE_ID }
+      : {}),
+    segments: [],
+    rules: tokyo,
+    contactCap: TOKYO_WITH_EMAIL.length,
+    excludeDays: 7,
+    campaignCode: HOLDOUT.campaignCode,
+    holdoutPercent,
+    saveCampaign: true,
+  });
+  const logged = (code: string) =>
+    app.mock
+      .engine(MARKETING_DATABASE_ID)
+      .tableRows(HISTORY_TABLE)
+      .filter((h) => h.Campaign_Code === code)
+      .map((h) => Number(h.Customer_Ref_ID))
+      .sort((a, b) => a - b);
+
+  before(async () => {
+    app = await startTestApp();
+    analyst = await app.clientFor("analyst");
+    operator = await app.clientFor("operator");
+  });
+
+  after(() => app.close());
+
+  it("draws both groups from the seed", () => {
+    assert.ok(CONTROL.length > 0 && TREATED.length > 0);
+  });
+
+  it("previews the control group size", async () => {
+    const result = await analyst.json<{
+      count: number;
+      holdoutCount: number;
+      holdoutWarning: string | null;
+    }>("POST", "/api/ai/preview-v2", body(HOLDOUT.percent));
+    assert.equal(result.count, TOKYO_WITH_EMAIL.length);
+    assert.equal(result.holdoutCount, CONTROL.length);
+    assert.equal(result.holdoutWarning, null);
+
+    const noHistory = await analyst.json<{
+      holdoutCount: number;
+      holdoutWarning: string | null;
+    }>("POST", "/api/ai/preview-v2", body(HOLDOUT.percent, false));
+    assert.equal(noHistory.holdoutCount, 0);
+    assert.match(noHistory.holdoutWarning ?? "", /history table/);
+  });
+
+  it("rejects holdouts outside 0-50%", async () => {
+    for (const percent of [51, -1, 12.5]) {
+      const res = await analyst.request(
+        "POST",
+        "/api/ai/preview-v2",
+        body(percent),
+      );
+      assert.equal(res.status, 400);
+    }
+  });
+
+  it("exports the treated group and logs the control group apart", async () => {
+    const res = await operator.request(
+      "POST",
+      "/api/ai/export-v2",
+      body(HOLDOUT.percent),
+    );
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.get("X-Holdout-Count"), String(CONTROL.length));
+    assert.deepEqual(emails(await res.text()), TREATED);
+
+    const writeBack: SuppressionWriteBackReport = JSON.parse(
+      res.headers.get("X-Write-Back-Report") ?? "null",
+    );
+    assert.equal(writeBack.inserted, TOKYO_WITH_EMAIL.length);
+    assert.deepEqual(logged("HOLD1"), TREATED);
+    assert.deepEqual(logged("HOLD1-CTRL"), CONTROL);
+
+    const campaignId = res.headers.get("X-Campaign-Id");
+    const runId = res.headers.get("X-Campaign-Run-Id");
+    const control = await analyst.request(
+      "GET",
+      `/api/campaigns/${campaignId}/runs/${runId}/files/control`,
+    );
+    assert.equal(control.status, 200);
+    assert.match(
+      control.headers.get("Content-Disposition") ?? "",
+      /campaign-HOLD1-control\.csv/,
+    );
+    assert.deepEqual(emails(await control.text()), CONTROL);
+
+    const campaign = await analyst.json<CampaignWithRuns>(
+      "GET",
+      `/api/campaigns/${campaignId}`,
+    );
+    assert.equal(campaign.holdoutPercent, HOLDOUT.percent);
+    assert.equal(campaign.runs[0].holdoutCount, CONTROL.length);
+
+    // Rolling back removes both groups' rows
+    const rollback = await operator.json<CampaignRollbackResponse>(
+      "POST",
+      `/api/campaigns/${campaignId}/runs/${runId}/rollback`,
+    );
+    assert.equal(rollback.deleted, TOKYO_WITH_EMAIL.length);
+    assert.deepEqual(logged("HOLD1"), []);
+    assert.deepEqual(logged("HOLD1-CTRL"), []);
+  });
+
+  it("does not suppress the control group from the next campaign", async () => {
+    const res = await operator.request("POST", "/api/ai/export-v2", {
+      ...body(HOLDOUT.percent),
+      campaignCode: "HOLD2",
+    });
+    assert.equal(res.status, 200);
+    await res.text();
+    const control = logged("HOLD2-CTRL");
+    assert.ok(control.length > 0);
+
+    // Only the mailed group is suppressed, whichever way the lookup runs
+    try {
+      for (const mode of ["staged", "in-memory"]) {
+        process.env.SUPPRESSION_LOOKUP_MODE = mode;
+        const next = await analyst.json<{
+          records: Record<string, any>[];
+          excludedCount: number;
+        }>("POST", "/api/ai/preview-v2", {
+          ...body(0),
+          contactCap: control.length,
+          campaignCode: "NEXT1",
+        });
+        assert.deepEqual(
+          next.records.map((r) => Number(r.Customer_ID)).sort((a, b) => a - b),
+          control,
+        );
+        assert.equal(
+          next.excludedCount,
+          TOKYO_WITH_EMAIL.length - control.length,
+        );
+      }
+    } finally {
+      delete process.env.SUPPRESSION_LOOKUP_MODE;
+    }
+  });
+
+  it("refuses a holdout export without a history table", async () => {
+    const res = await operator.request(
+      "POST",
+      "/api/ai/export-v2",
+      body(HOLDOUT.percent, false),
+    );
+    assert.equal(res.status, 500);
+    assert.match((await res.json()).error, /history table/);
+  });
+});
@@ -0,0 +1,173 @@
+import { after, afterEach, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type {
+  AIAnalysisResponse,
+  MetabaseField,
+  TargetingRefinementResponse,
+  TargetingRule,
+} from "@shared/schema";
+import { startTestApp, type ApiClient, type TestApp } from "./harness";
+import { CRM_DATABASE_ID, CUSTOMER_TABLE_ID } from "../mock-metabase/seed";
+
+const tokyo: TargetingRule = {
+  type: "condition",
+  field: "Prefecture",
+  operator: "=",
+  value: "東京都",
+};
+
+describe("LLM provider selection", () => {
+  let app: TestApp;
+  let analyst: ApiClient;
+  let admin: ApiClient;
+
+  const analyze = (concept: string) =>
+    analyst.json<AIAnalysisResponse & { matchCounts: Record<string, number> }>(
+      "POST",
+      "/api/ai/analyze-concept-v2",
+      {
+        concept,
+        databaseId: CRM_DATABASE_ID,
+        masterTableId: CUSTOMER_TABLE_ID,
+      },
+    );
+
+  before(async () => {
+    app = await startTestApp();
+    analyst = await app.clientFor("analyst");
+    admin = await app.clientFor("admin");
+  });
+
+  afterEach(() => {
+    delete process.env.LLM_PROVIDER;
+    delete process.env.LLM_PROVIDER_CONCEPT_ANALYSIS;
+    delete process.env.LLM_PROVIDER_SQL_ANALYSIS;
+    delete process.env.LLM_PROVIDER_TARGETING_REFINEMENT;
+  });
+
+  after(() => app.close());
+
+  it("analyses a concept with rules when the feature uses the fallback", async () => {
+    process.env.LLM_PROVIDER_CONCEPT_ANALYSIS = "fallback";
+    const calls = app.llm.calls.length;
+
+    const result = await analyze("Spring offer for women in 東京 over 50");
+    assert.equal(app.llm.calls.length, calls);
+    assert.deepEqual(
+      result.suggestions.map((s) => s.rule),
+      [
+        tokyo,
+        { type: "condition", field: "Gender", operator: "=", value: "F" },
+      ],
+    );
+    assert.deepEqual(result.matchCounts, {
+      "Prefecture:東京都": 10,
+      "Gender:F": 20,
+    });
+    assert.equal(result.suggestedAgeRange, "over 50");
+    assert.match(result.reasoning, /^Rule-based analysis/);
+  });
+
+  it("keeps other features on the model", async () => {
+    process.env.LLM_PROVIDER_SQL_ANALYSIS = "fallback";
+    app.llm.respondWith(() => ({
+      suggestions: [{ segment: "Tokyo", rule: tokyo, confidence: 0.9 }],
+      suggestedAgeRange: null,
+      reasoning: "Tokyo customers",
+    }));
+    const calls = app.llm.calls.length;
+
+    const result = await analyze("Spring offer for Tokyo");
+    assert.equal(app.llm.calls.length, calls + 1);
+    assert.equal(result.reasoning, "Tokyo customers");
+  });
+
+  it("writes and runs a grouped query without a model", async () => {
+    process.env.LLM_PROVIDER = "fallback";
+    const calls = app.llm.calls.length;
+
+    const result = await admin.json("POST", "/api/ai/sql-analysis", {
+      prompt: "Average Total_LTV by prefecture",
+      databaseId: CRM_DATABASE_ID,
+      tableId: CUSTOMER_TABLE_ID,
+    });
+    assert.equal(app.llm.calls.length, calls);
+    assert.match(result.sql, /GROUP BY \[Prefecture\]/);
+    assert.equal(result.rows.length, 4);
+    assert.ok(result.rows.every((r: any) => r.customers === 10));
+    assert.deepEqual(result.chartConfig, {
+      type: "bar",
+      xKey: "Prefecture",
+      yKey: "avg_Total_LTV",
+      title: "Average Total_LTV by Prefecture",
+    });
+  });
+
+  it("leaves the targeting unchanged when refinement has no model", async () => {
+    process.env.LLM_PROVIDER_TARGETING_REFINEMENT = "fallback";
+    const session = await analyst.json<TargetingRefinementResponse>(
+      "POST",
+      "/api/ai/refinement-sessions",
+      {
+        concept: "Spring offer",
+        databaseId: CRM_DATABASE_ID,
+        masterTableId: CUSTOMER_TABLE_ID,
+        segments: ["Tokyo"],
+        segmentRules: { Tokyo: tokyo },
+      },
+    );
+    const result = await analyst.json<TargetingRefinementResponse>(
+      "POST",
+      `/api/ai/refinement-sessions/${session.sessionId}/messages`,
+      { message: "add Osaka" },
+    );
+    assert.deepEqual(result.suggestions, session.suggestions);
+    assert.deepEqual(result.turns[0].diff, {
+      added: [],
+      removed: [],
+      changed: [],
+      ageRange: null,
+    });
+  });
+
+  it("rejects an unknown provider name", async () => {
+    process.env.LLM_PROVIDER_CONCEPT_ANALYSIS = "gpt";
+    const res = await analyst.request("POST", "/api/ai/analyze-concept-v2", {
+      concept: "Spring offer",
+      databaseId: CRM_DATABASE_ID,
+      masterTableId: CUSTOMER_TABLE_ID,
+    });
+    assert.equal(res.status, 500);
+    assert.match(
+      (await res.json()).error,
+      /Unknown LLM provider "gpt" in LLM_PROVIDER_CONCEPT_ANALYSIS/,
+    );
+  });
+
+  it("matches brand names with regex characters literally", async () => {
+    // Loaded once the app has read its environment
+    const { ruleBasedConceptAnalysis } =
+      await import("../../server/llm-fallback");
+    const ltv = (id: number, name: string): MetabaseField => ({
+      id,
+      name,
+      display_name: name,
+      base_type: "type/Float",
+      semantic_type: null,
+      table_id: CUSTOMER_TABLE_ID,
+    });
+    const fields = [ltv(1, "A+B_LTV"), ltv(2, "(X)_LTV"), ltv(3, "A.B_LTV")];
+
+    const result = ruleBasedConceptAnalysis("Offer for A+B buyers", fields);
+    assert.deepEqual(
+      result.suggestions.map((s) => s.rule),
+      [{ type: "condition", field: "A+B_LTV", operator: ">", value: 0 }],
+    );
+    assert.deepEqual(
+      ruleBasedConceptAnalysis("Offer for (x) buyers", fields).suggestions.map(
+        (s) => s.segment,
+      ),
+      ["(X)_LTV:>0"],
+    );
+  });
+});
@@ -0,0 +1,219 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { TargetingRule } from "@shared/schema";
+import { startTestApp, type ApiClient, type TestApp } from "./harness";
+import {
+  CRM_DATABASE_ID,
+  CUSTOMER_COUNT,
+  CUSTOMER_TABLE_ID,
+  HISTORY_TABLE_ID,
+  MARKETING_DATABASE_ID,
+  RECENTLY_MAILED_IDS,
+  customerRow,
+} from "../mock-metabase/seed";
+
+type Customer = ReturnType<typeof customerRow>;
+
+const customers: Customer[] = Array.from({ length: CUSTOMER_COUNT }, (_, i) =>
+  customerRow(i + 1),
+);
+const hasEmail = (c: Customer) => !!c.Email && c.Email.trim().length > 0;
+
+const prefecture = (value: string): TargetingRule => ({
+  type: "condition",
+  field: "Prefecture",
+  operator: "=",
+  value,
+});
+
+interface PreviewResponse {
+  count: number;
+  records: Record<string, any>[];
+  excludedCount: number;
+  totalCandidates: number;
+  historyTableUsed: boolean;
+  emailColumn: string | null;
+  emailFilterApplied: boolean;
+  totalWithEmail?: number;
+  filterWarning: string | null;
+  exactMatchCount: number;
+  relaxedCount: number;
+  fillCount: number;
+}
+
+describe("Campaign preview (v2)", () => {
+  let app: TestApp;
+  let analyst: ApiClient;
+
+  const preview = (body: Record<string, unknown>) =>
+    analyst.json<PreviewResponse>("POST", "/api/ai/preview-v2", {
+      databaseId: CRM_DATABASE_ID,
+      masterTableId: CUSTOMER_TABLE_ID,
+      segments: [],
+      ...body,
+    });
+  const ids = (result: PreviewResponse) =>
+    result.records.map((r) => Number(r.Customer_ID));
+
+  before(async () => {
+    app = await startTestApp();
+    analyst = await app.clientFor("analyst");
+  });
+
+  after(() => app.close());
+
+  it("is not available to viewers", async () => {
+    const viewer = await app.clientFor("viewer");
+    const res = await viewer.request("POST", "/api/ai/preview-v2", {
+      databaseId: CRM_DATABASE_ID,
+      masterTableId: CUSTOMER_TABLE_ID,
+      segments: [],
+    });
+    assert.equal(res.status, 403);
+  });
+
+  it("counts candidates that match the rules and have an email", async () => {
+    const result = await preview({
+      rules: prefecture("東京都"),
+      contactCap: 100,
+    });
+    const expected = customers.filter(
+      (c) => c.Prefecture === "東京都" && hasEmail(c),
+    );
+    assert.equal(result.emailColumn, "Email");
+    assert.equal(result.emailFilterApplied, true);
+    assert.equal(result.totalCandidates, expected.length);
+    // Without suppression the list fills to the cap from every contact with an email
+    assert.equal(result.count, customers.filter(hasEmail).length);
+    assert.ok(result.records.every((r) => r.Email && r.Email.trim()));
+  });
+
+  it("ranks exact matches first when the cap is reached", async () => {
+    const tokyo = customers.filter(
+      (c) => c.Prefecture === "東京都" && hasEmail(c),
+    );
+    const result = await preview({
+      rules: prefecture("東京都"),
+      contactCap: tokyo.length,
+    });
+    assert.equal(result.count, tokyo.length);
+    assert.deepEqual(
+      ids(result).sort((a, b) => a - b),
+      tokyo.map((c) => c.Customer_ID),
+    );
+  });
+
+  it("reports how many contacts match exactly, loosely or only fill the cap", async () => {
+    // Gender is a core field, so the relaxed rule keeps it and drops the city
+    const result = await preview({
+      rules: {
+        type: "and",
+        rules: [
+          { type: "condition", field: "Gender", operator: "=", value: "F" },
+          { type: "condition", field: "City", operator: "=", value: "新宿区" },
+        ],
+      },
+      contactCap: 20,
+    });
+    const withEmail = customers.filter(hasEmail);
+    const exact = withEmail.filter(
+      (c) => c.Gender === "F" && c.City === "新宿区",
+    ).length;
+    const relaxed = withEmail.filter((c) => c.Gender === "F").length - exact;
+    assert.equal(result.count, 20);
+    assert.equal(result.exactMatchCount, exact);
+    assert.equal(result.relaxedCount, relaxed);
+    assert.equal(result.fillCount, 20 - exact - relaxed);
+    assert.ok(result.fillCount > 0);
+    // The tier column used for ranking is not part of the list
+    assert.ok(result.records.every((r) => !("__match_tier" in r)));
+  });
+
+  it("excludes contacts mailed from this table within the window", async () => {
+    const result = await preview({
+      historyDbId: MARKETING_DATABASE_ID,
+      historyTableId: HISTORY_TABLE_ID,
+      contactCap: 100,
+      excludeDays: 7,
+    });
+    assert.equal(result.historyTableUsed, true);
+    assert.equal(result.excludedCount, RECENTLY_MAILED_IDS.length);
+    const included = new Set(ids(result));
+    for (const id of RECENTLY_MAILED_IDS) assert.ok(!included.has(id));
+    // Mailed 30 days ago, and mailed recently but from another source table
+    assert.ok(included.has(4));
+    assert.ok(included.has(6));
+  });
+
+  it("widens the suppression window with excludeDays", async () => {
+    const result = await preview({
+      historyDbId: MARKETING_DATABASE_ID,
+      historyTableId: HISTORY_TABLE_ID,
+      contactCap: 100,
+      excludeDays: 60,
+    });
+    assert.equal(result.excludedCount, RECENTLY_MAILED_IDS.length + 1);
+    assert.ok(!ids(result).includes(4));
+  });
+
+  it("turns suppression off with an excludeDays of 0", async () => {
+    const result = await preview({
+      historyDbId: MARKETING_DATABASE_ID,
+      historyTableId: HISTORY_TABLE_ID,
+      contactCap: 100,
+      excludeDays: 0,
+    });
+    assert.equal(result.excludedCount, 0);
+    for (const id of RECENTLY_MAILED_IDS) assert.ok(ids(result).includes(id));
+  });
+
+  it("rejects a malformed body", async () => {
+    for (const body of [
+      { databaseId: "CRM" },
+      { contactCap: 0 },
+      { contactCap: "all" },
+      { excludeDays: -1 },
+      { excludeDays: 1.5 },
+      { frequencyCaps: [{ maxMailings: 0, windowDays: 30 }] },
+      { holdoutPercent: 90 },
+      { campaignId: "latest" },
+      { birthdayFilter: 3 },
+      { birthdayFilter: "next month ".repeat(10) },
+      { ageRange: ["25", "40"] },
+      { ageRange: "25-40 ".repeat(10) },
+    ]) {
+      const res = await analyst.request("POST", "/api/ai/preview-v2", {
+        databaseId: CRM_DATABASE_ID,
+        masterTableId: CUSTOMER_TABLE_ID,
+        segments: [],
+        ...body,
+      });
+      assert.equal(res.status, 400, JSON.stringify(body));
+      const error = await res.json();
+      assert.equal(error.error, "Invalid request body");
+    }
+  });
+
+  it("reports contacts with an email when the email filter is off", async () => {
+    const result = await preview({
+      rules: prefecture("東京都"),
+      contactCap: 100,
+      filterEmailsOnly: false,
+    });
+    const tokyo = customers.filter((c) => c.Prefecture === "東京都");
+    assert.equal(result.emailFilterApplied, false);
+    assert.equal(result.totalCandidates, tokyo.length);
+    assert.equal(result.totalWithEmail, tokyo.filter(hasEmail).length);
+    assert.equal(result.count, CUSTOMER_COUNT);
+  });
+
+  it("fills the list from other contacts when the rules match nothing", async () => {
+    const result = await preview({
+      rules: prefecture("北海道"),
+      contactCap: 100,
+    });
+    assert.equal(result.totalCandidates, 0);
+    assert.ok(result.count > 0);
+    assert.equal(result.filterWarning, null);
+  });
+});
@@ -0,0 +1,198 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { SuppressionWriteBackReport, TargetingRule } from "@shared/schema";
+import { startTestApp, type ApiClient, type TestApp } from "./harness";
+import {
+  CRM_DATABASE_ID,
+  CUSTOMER_TABLE,
+  CUSTOMER_TABLE_ID,
+  HISTORY_TABLE,
+  HISTORY_TABLE_ID,
+  MARKETING_DATABASE_ID,
+  createSeedDatabases,
+} from "../mock-metabase/seed";
+import { formatSqlDate, sqlNow } from "../mock-metabase/sql-engine";
+
+// A copy of the history table inside the CRM database, next to the master table
+const LOCAL_HISTORY_TABLE_ID = 13;
+
+// Tokyo customers with an email, in table order; all but 36 were mailed yesterday
+const TOKYO_WITH_EMAIL = [4, 8, 12, 16, 24, 32, 36];
+const MAILED_YESTERDAY = [4, 8, 12, 16, 24, 32];
+
+const tokyo: TargetingRule = {
+  type: "condition",
+  field: "Prefecture",
+  operator: "=",
+  value: "東京都",
+};
+
+function seedDatabases() {
+  const databases = createSeedDatabases();
+  const [crm, marketing] = databases;
+  const history = marketing.tables.find((t) => t.id === HISTORY_TABLE_ID)!;
+  const yesterday = sqlNow();
+  yesterday.setUTCDate(yesterday.getUTCDate() - 1);
+  for (const ref of MAILED_YESTERDAY) {
+    history.rows.push({
+      History_ID: history.rows.length + 1,
+      Customer_Ref_ID: String(ref),
+      Campaign_Code: "TOKYO1",
+      Source_System: CUSTOMER_TABLE,
+      Sent_Date: formatSqlDate(yesterday),
+    });
+  }
+  crm.tables.push({
+    ...history,
+    id: LOCAL_HISTORY_TABLE_ID,
+    rows: history.rows.map((r) => ({ ...r })),
+  });
+  return databases;
+}
+
+interface PreviewResponse {
+  records: Record<string, any>[];
+  totalCandidates: number;
+  excludedCount: number;
+  suppressionInQuery: boolean;
+  fillWarning: string | null;
+}
+
+describe("Suppression inside the ranked query", () => {
+  let app: TestApp;
+  let analyst: ApiClient;
+  let operator: ApiClient;
+
+  const local = {
+    historyDbId: CRM_DATABASE_ID,
+    historyTableId: LOCAL_HISTORY_TABLE_ID,
+  };
+  const remote = {
+    historyDbId: MARKETING_DATABASE_ID,
+    historyTableId: HISTORY_TABLE_ID,
+  };
+  const body = (history: object, contactCap: number) => ({
+    databaseId: CRM_DATABASE_ID,
+    masterTableId: CUSTOMER_TABLE_ID,
+    ...history,
+    segments: [],
+    rules: tokyo,
+    contactCap,
+    excludeDays: 7,
+  });
+  const preview = (history: object, contactCap: number) =>
+    analyst.json<PreviewResponse>(
+      "POST",
+      "/api/ai/preview-v2",
+      body(history, contactCap),
+    );
+  const ids = (result: PreviewResponse) =>
+    result.records.map((r) => Number(r.Customer_ID));
+
+  before(async () => {
+    app = await startTestApp({ databases: seedDatabases() });
+    analyst = await app.clientFor("analyst");
+    operator = await app.clientFor("operator");
+  });
+
+  after(() => app.close());
+
+  it("fills the cap past suppressed top-ranked rows", async () => {
+    const calls = app.mock.datasetCalls.length;
+    const result = await preview(local, 2);
+
+    assert.equal(result.suppressionInQuery, true);
+    // 36 is the only Tokyo match left; 1-3 were mailed by SPRING24, so 6 fills
+    assert.deepEqual(ids(result), [36, 6]);
+    assert.equal(result.totalCandidates, TOKYO_WITH_EMAIL.length);
+    assert.equal(result.excludedCount, MAILED_YESTERDAY.length);
+    assert.equal(result.fillWarning, null);
+
+    const sql = app.mock.datasetCalls
+      .slice(calls)
+      .map((c) => c.sql ?? "")
+      .filter((s) => s.includes(`FROM [${CUSTOMER_TABLE}]`));
+    assert.ok(sql.some((s) => s.includes("NOT EXISTS (SELECT 1 FROM")));
+    // The history column is compared as stored so an index on it can be used
+    assert.ok(
+      sql.some((s) =>
+        s.includes(`[${HISTORY_TABLE}].[Customer_Ref_ID] = LTRIM(RTRIM(`),
+      ),
+    );
+  });
+
+  it("reports a short list when suppression runs after the fetch", async () => {
+    const result = await preview(remote, 2);
+
+    assert.equal(result.suppressionInQuery, false);
+    // The 10 rows fetched are the 7 Tokyo matches and 1-3, all but 36 suppressed
+    assert.deepEqual(ids(result), [36]);
+    assert.match(result.fillWarning ?? "", /Only 1 of 2 contacts/);
+    assert.match(result.fillWarning ?? "", /another database/);
+  });
+
+  it("exports and logs the filled list", async () => {
+    const res = await operator.request("POST", "/api/ai/export-v2", {
+      ...body(local, 2),
+      campaignCode: "LOCAL1",
+    });
+    assert.equal(res.status, 200);
+    const csv = await res.text();
+    assert.ok(csv.includes("customer36@example.jp"));
+    assert.ok(csv.includes("customer6@example.jp"));
+    for (const id of MAILED_YESTERDAY) {
+      assert.ok(!csv.includes(`customer${id}@example.jp`));
+    }
+
+    const writeBack: SuppressionWriteBackReport = JSON.parse(
+      res.headers.get("X-Write-Back-Report") ?? "null",
+    );
+    assert.equal(writeBack.inserted, 2);
+    const logged = app.mock
+      .engine(CRM_DATABASE_ID)
+      .tableRows(HISTORY_TABLE)
+      .filter((h) => h.Campaign_Code === "LOCAL1")
+      .map((h) => h.Customer_Ref_ID)
+      .sort();
+    assert.deepEqual(logged, ["36", "6"]);
+  });
+
+  it("does not suppress a holdout's control group", async () => {
+    const osaka: TargetingRule = {
+      type: "condition",
+      field: "Prefecture",
+      operator: "=",
+      value: "大阪府",
+    };
+    const res = await operator.request("POST", "/api/ai/export-v2", {
+      ...body(local, 10),
+      rules: osaka,
+      campaignCode: "LOCAL2",
+      holdoutPercent: 50,
+      saveCampaign: true,
+    });
+    assert.equal(res.status, 200);
+    await res.text();
+    const control = app.mock
+      .engine(CRM_DATABASE_ID)
+      .tableRows(HISTORY_TABLE)
+      .filter((h) => h.Campaign_Code === "LOCAL2-CTRL")
+      .map((h) => Number(h.Customer_Ref_ID))
+      .sort((a, b) => a - b);
+    assert.ok(control.length > 0);
+
+    const next = await analyst.json<PreviewResponse>(
+      "POST",
+      "/api/ai/preview-v2",
+      {
+        ...body(local, control.length),
+        rules: osaka,
+      },
+    );
+    assert.equal(next.suppressionInQuery, true);
+    assert.deepEqual(
+      ids(next).sort((a, b) => a - b),
+      control,
+    );
+  });
+});
@@ -0,0 +1,171 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type {
+  CampaignWithRuns,
+  SplitCell,
+  TargetingRule,
+} from "@shared/schema";
+import { startTestApp, type ApiClient, type TestApp } from "./harness";
+import {
+  CRM_DATABASE_ID,
+  CUSTOMER_TABLE_ID,
+  HISTORY_TABLE,
+  HISTORY_TABLE_ID,
+  MARKETING_DATABASE_ID,
+} from "../mock-metabase/seed";
+import { assignCell, isHeldOut } from "../../server/holdout";
+
+const tokyo: TargetingRule = {
+  type: "condition",
+  field: "Prefecture",
+  operator: "=",
+  value: "東京都",
+};
+
+// Tokyo customers with an email, none of them recently mailed
+const TOKYO_WITH_EMAIL = [4, 8, 12, 16, 24, 32, 36];
+const CELLS: SplitCell[] = [
+  { name: "A", weight: 1 },
+  { name: "B", weight: 1 },
+];
+
+// Customer id -> cell, read from the CSV's trailing cell column
+function cellsInCsv(csv: string): Map<number, string> {
+  const [header, ...lines] = csv.split("\n");
+  assert.ok(header.endsWith(",cell"));
+  return new Map(
+    lines.map((line) => [
+      Number(/customer(\d+)@example\.jp/.exec(line)![1]),
+      line.slice(line.lastIndexOf(",") + 1).replace(/"/g, ""),
+    ]),
+  );
+}
+
+describe("Split-test cells", () => {
+  let app: TestApp;
+  let analyst: ApiClient;
+  let operator: ApiClient;
+
+  const body = (campaignCode: string, splitCells: unknown, extra = {}) => ({
+    databaseId: CRM_DATABASE_ID,
+    masterTableId: CUSTOMER_TABLE_ID,
+    historyDbId: MARKETING_DATABASE_ID,
+    historyTableId: HISTORY_TABLE_ID,
+    segments: [],
+    rules: tokyo,
+    contactCap: TOKYO_WITH_EMAIL.length,
+    excludeDays: 7,
+    campaignCode,
+    splitCells,
+    saveCampaign: true,
+    ...extra,
+  });
+  const logged = () =>
+    app.mock
+      .engine(MARKETING_DATABASE_ID)
+      .tableRows(HISTORY_TABLE)
+      .map((h) => `${h.Customer_Ref_ID}/${h.Campaign_Code}`)
+      .sort();
+
+  before(async () => {
+    app = await startTestApp();
+    analyst = await app.clientFor("analyst");
+    operator = await app.clientFor("operator");
+  });
+
+  after(() => app.close());
+
+  it("adds a cell column and logs each contact under its cell", async () => {
+    const expected = new Map(
+      TOKYO_WITH_EMAIL.map((id) => [id, assignCell(String(id), "AB1", CELLS)]),
+    );
+    assert.equal(new Set(expected.values()).size, 2);
+
+    const before = logged();
+    const res = await operator.request(
+      "POST",
+      "/api/ai/export-v2",
+      body("AB1", CELLS),
+    );
+    assert.equal(res.status, 200);
+    assert.deepEqual(cellsInCsv(await res.text()), expected);
+
+    const counts = { A: 0, B: 0 };
+    for (const cell of expected.values()) counts[cell as "A" | "B"]++;
+    assert.deepEqual(JSON.parse(res.headers.get("X-Cell-Counts")!), counts);
+    assert.deepEqual(
+      logged(),
+      [
+        ...before,
+        ...Array.from(expected, ([id, cell]) => `${id}/AB1-${cell}`),
+      ].sort(),
+    );
+
+    const campaign = await analyst.json<CampaignWithRuns>(
+      "GET",
+      `/api/campaigns/${res.headers.get("X-Campaign-Id")}`,
+    );
+    assert.deepEqual(campaign.splitCells, CELLS);
+    assert.deepEqual(campaign.runs[0].cellCounts, counts);
+  });
+
+  it("follows the weights and leaves the control group out", async () => {
+    const cells: SplitCell[] = [
+      { name: "OFFER1", weight: 3 },
+      { name: "OFFER2", weight: 1 },
+      { name: "OFFER3", weight: 0.001 },
+    ];
+    const holdout = { percent: 30, campaignCode: "ABN1" };
+    const res = await operator.request(
+      "POST",
+      "/api/ai/export-v2",
+      body("ABN1", cells, { holdoutPercent: holdout.percent }),
+    );
+    assert.equal(res.status, 200);
+    const found = cellsInCsv(await res.text());
+
+    // The Tokyo contacts were logged by the first export, so the fill differs
+    const heldOut = Number(res.headers.get("X-Holdout-Count"));
+    assert.ok(heldOut > 0);
+    assert.equal(found.size + heldOut, TOKYO_WITH_EMAIL.length);
+    for (const [id, cell] of found) {
+      assert.ok(!isHeldOut(String(id), holdout));
+      assert.equal(cell, assignCell(String(id), "ABN1", cells));
+    }
+    const counts = JSON.parse(res.headers.get("X-Cell-Counts")!);
+    assert.deepEqual(Object.keys(counts), ["OFFER1", "OFFER2", "OFFER3"]);
+    assert.equal(
+      Object.values<number>(counts).reduce((a, b) => a + b, 0),
+      found.size,
+    );
+  });
+
+  it("rejects invalid cells", async () => {
+    for (const splitCells of [
+      [{ name: "A", weight: 1 }],
+      [
+        { name: "A", weight: 1 },
+        { name: "a", weight: 1 },
+      ],
+      [
+        { name: "A", weight: 1 },
+        { name: "ctrl", weight: 1 },
+      ],
+      [
+        { name: "A", weight: 1 },
+        { name: "B", weight: 0 },
+      ],
+      [
+        { name: "A-1", weight: 1 },
+        { name: "B", weight: 1 },
+      ],
+    ]) {
+      const res = await operator.request(
+        "POST",
+        "/api/ai/export-v2",
+        body("BAD1", splitCells),
+      );
+      assert.equal(res.status, 400, JSON.stringify(splitCells));
+    }
+  });
+});
@@ -0,0 +1,292 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  validateAnalysisSql,
+  type AllowedTable,
+  type SqlViolationCode,
+} from "../../server/sql-safety";
+
+const TABLES: AllowedTable[] = [
+  { name: "Customer_Master", schema: "dbo" },
+  { name: "Orders", schema: "dbo" },
+];
+const LIMIT = 100;
+
+function violations(sql: string): SqlViolationCode[] {
+  const result = validateAnalysisSql(sql, TABLES, LIMIT);
+  assert.equal(result.ok, false, `expected ${sql} to be rejected`);
+  return result.ok ? [] : result.violations.map((v) => v.code);
+}
+
+function limited(sql: string): string {
+  const result = validateAnalysisSql(sql, TABLES, LIMIT);
+  assert.ok(
+    result.ok,
+    `expected ${sql} to pass: ${JSON.stringify(!result.ok && result.violations)}`,
+  );
+  return result.sql;
+}
+
+describe("Analysis SQL safety", () => {
+  it("accepts a single SELECT over the selected database", () => {
+    const result = validateAnalysisSql(
+      "SELECT c.Prefecture, COUNT(*) AS n FROM dbo.Customer_Master c " +
+        "JOIN Orders o ON o.Customer_ID = c.Customer_ID GROUP BY c.Prefecture;",
+      TABLES,
+      LIMIT,
+    );
+    assert.ok(result.ok);
+    assert.deepEqual(result.tables.sort(), ["Customer_Master", "Orders"]);
+    assert.equal(
+      result.sql,
+      "SELECT TOP (100) c.Prefecture, COUNT(*) AS n FROM dbo.Customer_Master c " +
+        "JOIN Orders o ON o.Customer_ID = c.Customer_ID GROUP BY c.Prefecture",
+    );
+  });
+
+  it("rejects multiple statements", () => {
+    assert.ok(violations("SELECT 1; SELECT 2").includes("multiple_statements"));
+    assert.deepEqual(
+      violations("SELECT * FROM Customer_Master; DROP TABLE Customer_Master"),
+      ["multiple_statements", "forbidden_keyword"],
+    );
+    // T-SQL needs no separator: two SELECTs back to back are two statements
+    assert.deepEqual(
+      violations("SELECT * FROM Customer_Master SELECT * FROM Orders"),
+      ["multiple_statements"],
+    );
+    assert.ok(violations("SELECT 1;;").includes("multiple_statements"));
+  });
+
+  it("rejects statements that change data or run code", () => {
+    for (const sql of [
+      "INSERT INTO Orders (Order_ID) VALUES (1)",
+      "UPDATE Customer_Master SET Email = NULL",
+      "DELETE FROM Customer_Master",
+      "DROP TABLE Orders",
+      "EXEC sp_who",
+      "EXECUTE ('SELECT 1')",
+    ]) {
+      const codes = violations(sql);
+      assert.equal(codes[0], "not_select", sql);
+      assert.ok(codes.includes("forbidden_keyword"), sql);
+    }
+  });
+
+  it("rejects data-changing keywords inside an otherwise valid SELECT", () => {
+    assert.deepEqual(
+      violations(
+        "SELECT * FROM Customer_Master WHERE Customer_ID IN " +
+          "(SELECT Customer_ID FROM Orders) OR EXISTS (EXEC sp_who)",
+      ),
+      ["forbidden_keyword", "forbidden_keyword"], // EXEC, then the sp_ procedure
+    );
+    assert.deepEqual(violations("SELECT xp_cmdshell('dir')"), [
+      "forbidden_keyword",
+    ]);
+  });
+
+  it("rejects SELECT ... INTO", () => {
+    assert.deepEqual(
+      violations("SELECT * INTO Customer_Copy FROM Customer_Master"),
+      ["select_into"],
+    );
+    assert.deepEqual(violations("SELECT * INTO #copy FROM Customer_Master"), [
+      "select_into",
+      "temp_table",
+    ]);
+  });
+
+  it("ignores keywords inside comments and string literals", () => {
+    assert.equal(
+      limited("SELECT * FROM Customer_Master /* ; DROP TABLE Orders */"),
+      "SELECT TOP (100) * FROM Customer_Master /* ; DROP TABLE Orders */",
+    );
+    assert.equal(
+      limited("SELECT * FROM Customer_Master -- ; DELETE FROM Orders"),
+      "SELECT TOP (100) * FROM Customer_Master -- ; DELETE FROM Orders",
+    );
+    assert.equal(
+      limited(
+        "SELECT '; DELETE FROM Orders' AS note, N'it''s; DROP' FROM Customer_Master",
+      ),
+      "SELECT TOP (100) '; DELETE FROM Orders' AS note, N'it''s; DROP' FROM Customer_Master",
+    );
+    assert.equal(
+      limited("SELECT [DROP], [a;b] FROM Customer_Master"),
+      "SELECT TOP (100) [DROP], [a;b] FROM Customer_Master",
+    );
+  });
+
+  it("does not let a comment or string hide a second statement", () => {
+    // Block comments nest in T-SQL: the first */ only closes the inner comment
+    assert.equal(
+      limited("SELECT * FROM Customer_Master /* /* */ ; DROP TABLE Orders */"),
+      "SELECT TOP (100) * FROM Customer_Master /* /* */ ; DROP TABLE Orders */",
+    );
+    assert.deepEqual(
+      violations("SELECT * FROM Customer_Master /* /* */ ; DROP TABLE Orders"),
+      ["parse_error"],
+    );
+    assert.deepEqual(
+      violations("SELECT * FROM Customer_Master /* */; DROP TABLE Orders"),
+      ["multiple_statements", "forbidden_keyword"],
+    );
+    // An escaped quote doesn't end the literal; the one after it does
+    assert.deepEqual(violations("SELECT 'a'''; DELETE FROM Orders --'"), [
+      "multiple_statements",
+      "forbidden_keyword",
+    ]);
+    assert.deepEqual(violations("SELECT 'unterminated; DELETE FROM Orders"), [
+      "parse_error",
+    ]);
+    assert.deepEqual(violations("SELECT 1 /* unterminated"), ["parse_error"]);
+  });
+
+  it("rejects DML wrapped in a CTE", () => {
+    for (const sql of [
+      "WITH c AS (SELECT * FROM Customer_Master) DELETE FROM c",
+      "WITH c AS (SELECT * FROM Customer_Master) UPDATE c SET Email = NULL",
+      "WITH c AS (SELECT * FROM Customer_Master) " +
+        "INSERT INTO Orders (Order_ID) SELECT Customer_ID FROM c",
+    ]) {
+      const codes = violations(sql);
+      assert.equal(codes[0], "not_select", sql);
+      assert.ok(codes.includes("forbidden_keyword"), sql);
+    }
+    assert.deepEqual(
+      violations(
+        "WITH c AS (DELETE FROM Orders OUTPUT DELETED.*) SELECT * FROM c",
+      ),
+      ["forbidden_keyword"],
+    );
+  });
+
+  it("limits only the main query of a CTE", () => {
+    assert.equal(
+      limited(
+        "WITH big AS (SELECT Customer_ID FROM Customer_Master WHERE Total_LTV > 1000) " +
+          "SELECT * FROM big",
+      ),
+      "WITH big AS (SELECT Customer_ID FROM Customer_Master WHERE Total_LTV > 1000) " +
+        "SELECT TOP (100) * FROM big",
+    );
+  });
+
+  it("rejects tables outside the selected database", () => {
+    assert.deepEqual(violations("SELECT * FROM Suppliers"), [
+      "table_not_allowed",
+    ]);
+    assert.deepEqual(violations("SELECT * FROM OtherDb.dbo.Customer_Master"), [
+      "cross_database",
+    ]);
+    assert.deepEqual(violations("SELECT * FROM sales.Customer_Master"), [
+      "table_not_allowed",
+    ]);
+  });
+
+  it("checks the tables inside a parenthesised join", () => {
+    assert.deepEqual(
+      violations("SELECT * FROM (sys.objects o CROSS JOIN Customer_Master c)"),
+      ["table_not_allowed"],
+    );
+    assert.deepEqual(
+      violations(
+        "SELECT Email FROM Customer_Master UNION SELECT name FROM (sys.databases)",
+      ),
+      ["table_not_allowed"],
+    );
+    assert.equal(
+      limited(
+        "SELECT * FROM (Customer_Master c JOIN Orders o ON o.Customer_ID = c.Customer_ID)",
+      ),
+      "SELECT TOP (100) * FROM (Customer_Master c JOIN Orders o ON o.Customer_ID = c.Customer_ID)",
+    );
+  });
+
+  it("caps every branch of a UNION", () => {
+    assert.equal(
+      limited(
+        "SELECT Customer_ID FROM Customer_Master UNION ALL SELECT DISTINCT Customer_ID FROM Orders",
+      ),
+      "SELECT TOP (100) Customer_ID FROM Customer_Master UNION ALL " +
+        "SELECT DISTINCT TOP (100) Customer_ID FROM Orders",
+    );
+    assert.equal(
+      limited(
+        "SELECT TOP 10 Customer_ID FROM Customer_Master UNION SELECT TOP 500 Customer_ID FROM Orders",
+      ),
+      "SELECT TOP 10 Customer_ID FROM Customer_Master UNION " +
+        "SELECT TOP (100) Customer_ID FROM Orders",
+    );
+  });
+
+  it("leaves subqueries unlimited", () => {
+    assert.equal(
+      limited(
+        "SELECT * FROM Customer_Master WHERE Customer_ID IN (SELECT Customer_ID FROM Orders)",
+      ),
+      "SELECT TOP (100) * FROM Customer_Master WHERE Customer_ID IN (SELECT Customer_ID FROM Orders)",
+    );
+  });
+
+  it("caps ORDER BY queries with TOP, clamping a larger or PERCENT TOP", () => {
+    assert.equal(
+      limited("SELECT * FROM Customer_Master ORDER BY Total_LTV DESC"),
+      "SELECT TOP (100) * FROM Customer_Master ORDER BY Total_LTV DESC",
+    );
+    assert.equal(
+      limited(
+        "SELECT TOP 5000 WITH TIES * FROM Customer_Master ORDER BY Total_LTV",
+      ),
+      "SELECT TOP (100) WITH TIES * FROM Customer_Master ORDER BY Total_LTV",
+    );
+    assert.equal(
+      limited("SELECT TOP (50) PERCENT * FROM Customer_Master ORDER BY 1"),
+      "SELECT TOP (100) * FROM Customer_Master ORDER BY 1",
+    );
+
+    const small = validateAnalysisSql(
+      "SELECT TOP (5) * FROM Customer_Master ORDER BY Total_LTV",
+      TABLES,
+      LIMIT,
+    );
+    assert.ok(small.ok);
+    assert.equal(small.rowLimitApplied, false);
+  });
+
+  it("caps OFFSET paging with FETCH instead of TOP", () => {
+    assert.equal(
+      limited(
+        "SELECT * FROM Customer_Master ORDER BY Customer_ID OFFSET 10 ROWS",
+      ),
+      "SELECT * FROM Customer_Master ORDER BY Customer_ID OFFSET 10 ROWS FETCH NEXT 100 ROWS ONLY",
+    );
+    assert.equal(
+      limited(
+        "SELECT * FROM Customer_Master ORDER BY Customer_ID " +
+          "OFFSET 0 ROWS FETCH NEXT (5000) ROWS ONLY",
+      ),
+      "SELECT * FROM Customer_Master ORDER BY Customer_ID " +
+        "OFFSET 0 ROWS FETCH NEXT 100 ROWS ONLY",
+    );
+    assert.equal(
+      limited(
+        "SELECT * FROM Customer_Master ORDER BY Customer_ID " +
+          "OFFSET 0 ROWS FETCH FIRST 20 ROWS ONLY",
+      ),
+      "SELECT * FROM Customer_Master ORDER BY Customer_ID " +
+        "OFFSET 0 ROWS FETCH FIRST 20 ROWS ONLY",
+    );
+  });
+
+  it("caps a UNION that is ordered as a whole", () => {
+    assert.equal(
+      limited(
+        "SELECT Customer_ID FROM Customer_Master UNION SELECT Customer_ID FROM Orders ORDER BY 1",
+      ),
+      "SELECT TOP (100) Customer_ID FROM Customer_Master UNION " +
+        "SELECT TOP (100) Customer_ID FROM Orders ORDER BY 1",
+    );
+  });
+});
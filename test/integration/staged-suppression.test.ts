@@ -0,0 +1,124 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { startTestApp, type ApiClient, type TestApp } from "./harness";
+import {
+  CRM_DATABASE_ID,
+  CUSTOMER_COUNT,
+  CUSTOMER_TABLE,
+  CUSTOMER_TABLE_ID,
+  HISTORY_TABLE_ID,
+  MARKETING_DATABASE_ID,
+  RECENTLY_MAILED_IDS,
+  createSeedDatabases,
+  customerEmail,
+  customerRow,
+} from "../mock-metabase/seed";
+import { formatSqlDate, sqlNow } from "../mock-metabase/sql-engine";
+
+// Enough customers with an email that the candidate references need two staging calls
+const LARGE_CUSTOMER_COUNT = 3500;
+const MAILED_YESTERDAY = Array.from({ length: 500 }, (_, i) => 3001 + i);
+
+const hasEmail = (id: number) => !!customerEmail(id)?.trim();
+
+function seedDatabases() {
+  const databases = createSeedDatabases();
+  const [crm, marketing] = databases;
+  const customers = crm.tables.find((t) => t.id === CUSTOMER_TABLE_ID)!;
+  for (let id = CUSTOMER_COUNT + 1; id <= LARGE_CUSTOMER_COUNT; id++) {
+    customers.rows.push(customerRow(id));
+  }
+  const history = marketing.tables.find((t) => t.id === HISTORY_TABLE_ID)!;
+  const yesterday = sqlNow();
+  yesterday.setUTCDate(yesterday.getUTCDate() - 1);
+  for (const ref of MAILED_YESTERDAY) {
+    history.rows.push({
+      History_ID: history.rows.length + 1,
+      Customer_Ref_ID: String(ref),
+      Campaign_Code: "BULK1",
+      Source_System: CUSTOMER_TABLE,
+      Sent_Date: formatSqlDate(yesterday),
+    });
+  }
+  return databases;
+}
+
+describe("Cross-database suppression lookup", () => {
+  let app: TestApp;
+  let analyst: ApiClient;
+
+  const preview = () =>
+    analyst.json<{ records: Record<string, any>[]; excludedCount: number }>(
+      "POST",
+      "/api/ai/preview-v2",
+      {
+        databaseId: CRM_DATABASE_ID,
+        masterTableId: CUSTOMER_TABLE_ID,
+        historyDbId: MARKETING_DATABASE_ID,
+        historyTableId: HISTORY_TABLE_ID,
+        segments: [],
+        contactCap: LARGE_CUSTOMER_COUNT,
+        excludeDays: 7,
+      },
+    );
+  const historyCalls = async (run: () => Promise<unknown>) => {
+    const from = app.mock.datasetCalls.length;
+    await run();
+    return app.mock.datasetCalls
+      .slice(from)
+      .filter((c) => c.databaseId === MARKETING_DATABASE_ID)
+      .map((c) => c.sql ?? "");
+  };
+
+  const withEmail = Array.from(
+    { length: LARGE_CUSTOMER_COUNT },
+    (_, i) => i + 1,
+  ).filter(hasEmail);
+  const suppressed = [...RECENTLY_MAILED_IDS, ...MAILED_YESTERDAY].filter(
+    hasEmail,
+  );
+
+  before(async () => {
+    app = await startTestApp({ databases: seedDatabases() });
+    analyst = await app.clientFor("analyst");
+  });
+
+  after(() => {
+    delete process.env.SUPPRESSION_LOOKUP_MODE;
+    return app.close();
+  });
+
+  it("stages the candidates in chunks on the history database", async () => {
+    assert.ok(withEmail.length > 2000);
+    let result!: Awaited<ReturnType<typeof preview>>;
+    const calls = await historyCalls(async () => {
+      result = await preview();
+    });
+
+    const lookups = calls.filter((sql) =>
+      sql.includes("#suppression_candidates"),
+    );
+    assert.equal(lookups.length, 2);
+    // The history table is never downloaded
+    assert.ok(
+      !calls.some((sql) => /^SELECT \[Customer_Ref_ID\] FROM/.test(sql)),
+    );
+
+    assert.equal(result.excludedCount, suppressed.length);
+    const ids = new Set(result.records.map((r) => Number(r.Customer_ID)));
+    assert.equal(ids.size, withEmail.length - suppressed.length);
+    for (const id of suppressed) assert.ok(!ids.has(id));
+  });
+
+  it("gives the same result with the in-memory lookup", async () => {
+    process.env.SUPPRESSION_LOOKUP_MODE = "in-memory";
+    let result!: Awaited<ReturnType<typeof preview>>;
+    const calls = await historyCalls(async () => {
+      result = await preview();
+    });
+
+    assert.ok(!calls.some((sql) => sql.includes("#suppression_candidates")));
+    assert.equal(result.excludedCount, suppressed.length);
+    assert.equal(result.records.length, withEmail.length - suppressed.length);
+  });
+});
@@ -0,0 +1,265 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type {
+  AIAnalysisResponse,
+  SuggestionValidationNote,
+  TargetingRule,
+} from "@shared/schema";
+import { startTestApp, type ApiClient, type TestApp } from "./harness";
+import { CRM_DATABASE_ID, CUSTOMER_TABLE_ID } from "../mock-metabase/seed";
+
+const prefecture = (value: string): TargetingRule => ({
+  type: "condition",
+  field: "Prefecture",
+  operator: "=",
+  value,
+});
+
+describe("AI suggestion validation", () => {
+  let app: TestApp;
+  let analyst: ApiClient;
+
+  const analyze = () =>
+    analyst.json<AIAnalysisResponse & { matchCounts: Record<string, number> }>(
+      "POST",
+      "/api/ai/analyze-concept-v2",
+      {
+        concept: "Spring offer",
+        databaseId: CRM_DATABASE_ID,
+        masterTableId: CUSTOMER_TABLE_ID,
+      },
+    );
+  const notesFor = (notes: SuggestionValidationNote[], segment: string) =>
+    notes.filter((n) => n.segment === segment).map((n) => n.message);
+
+  before(async () => {
+    app = await startTestApp();
+    analyst = await app.clientFor("analyst");
+  });
+
+  after(() => app.close());
+
+  it("corrects near-miss fields and values", async () => {
+    app.llm.respondWith(() => ({
+      suggestions: [
+        {
+          segment: "Tokyo",
+          rule: {
+            type: "condition",
+            field: "prefecture",
+            operator: "=",
+            value: " 東京都 ",
+          },
+        },
+        {
+          segment: "Women",
+          rule: {
+            type: "condition",
+            field: "Gender",
+            operator: "=",
+            value: "ｆ",
+          },
+        },
+        {
+          segment: "High value",
+          rule: {
+            type: "condition",
+            field: "Total_LTV",
+            operator: ">=",
+            value: "２００００",
+          },
+        },
+      ],
+      suggestedAgeRange: null,
+      reasoning: "",
+    }));
+
+    const result = await analyze();
+    assert.deepEqual(
+      result.suggestions.map((s) => s.rule),
+      [
+        prefecture("東京都"),
+        { type: "condition", field: "Gender", operator: "=", value: "F" },
+        {
+          type: "condition",
+          field: "Total_LTV",
+          operator: ">=",
+          value: 20000,
+        },
+      ],
+    );
+    assert.deepEqual(result.matchCounts, {
+      Tokyo: 10,
+      Women: 20,
+      "High value": 21,
+    });
+    assert.deepEqual(notesFor(result.validation!.corrected, "Tokyo"), [
+      'Field "prefecture" → "Prefecture"',
+      'Prefecture: " 東京都 " → "東京都"',
+    ]);
+    assert.deepEqual(notesFor(result.validation!.corrected, "Women"), [
+      'Gender: "ｆ" → "F"',
+    ]);
+    assert.deepEqual(result.validation!.dropped, []);
+  });
+
+  it("drops rules that cannot match and trims impossible alternatives", async () => {
+    app.llm.respondWith(() => ({
+      suggestions: [
+        { segment: "Made-up prefecture", rule: prefecture("x") },
+        {
+          segment: "Loyalty tier",
+          rule: {
+            type: "condition",
+            field: "Loyalty_Tier",
+            operator: "=",
+            value: "Gold",
+          },
+        },
+        {
+          segment: "City code",
+          rule: { type: "condition", field: "City", operator: ">", value: 5 },
+        },
+        {
+          segment: "Hokkaido women",
+          rule: {
+            type: "and",
+            rules: [
+              prefecture("北海道"),
+              { type: "condition", field: "Gender", operator: "=", value: "F" },
+            ],
+          },
+        },
+        {
+          segment: "Aichi or Mars",
+          rule: {
+            type: "or",
+            rules: [prefecture("愛知県"), prefecture("火星")],
+          },
+        },
+        {
+          segment: "Osaka or Okinawa",
+          rule: {
+            type: "condition",
+            field: "Prefecture",
+            operator: "in",
+            values: ["大阪府", "沖縄県"],
+          },
+        },
+      ],
+      suggestedAgeRange: null,
+      reasoning: "",
+    }));
+
+    const result = await analyze();
+    assert.deepEqual(
+      result.suggestions.map((s) => [s.segment, s.rule]),
+      [
+        ["Aichi or Mars", prefecture("愛知県")],
+        [
+          "Osaka or Okinawa",
+          {
+            type: "condition",
+            field: "Prefecture",
+            operator: "in",
+            values: ["大阪府"],
+          },
+        ],
+      ],
+    );
+    assert.deepEqual(result.matchCounts, {
+      "Aichi or Mars": 10,
+      "Osaka or Okinawa": 10,
+    });
+    assert.deepEqual(result.validation!.dropped, [
+      { segment: "Made-up prefecture", message: 'Prefecture has no value "x"' },
+      { segment: "Loyalty tier", message: 'Unknown field "Loyalty_Tier"' },
+      {
+        segment: "City code",
+        message: "Numeric comparison on text field City",
+      },
+      {
+        segment: "Hokkaido women",
+        message: 'Prefecture has no value "北海道"',
+      },
+    ]);
+    assert.deepEqual(result.validation!.corrected, [
+      {
+        segment: "Aichi or Mars",
+        message: 'Removed an alternative: Prefecture has no value "火星"',
+      },
+      {
+        segment: "Osaka or Okinawa",
+        message: 'Removed a value: Prefecture has no value "沖縄県"',
+      },
+    ]);
+  });
+
+  it("keeps negated conditions on values the field does not have", async () => {
+    const atlantis = prefecture("Atlantis");
+    app.llm.respondWith(() => ({
+      suggestions: [
+        {
+          segment: "Outside Atlantis",
+          rule: { ...atlantis, operator: "!=" },
+        },
+        {
+          segment: "Outside Osaka and Mars",
+          rule: {
+            type: "condition",
+            field: "Prefecture",
+            operator: "not_in",
+            values: ["大阪府", "火星"],
+          },
+        },
+        { segment: "Not Atlantis", rule: { type: "not", rule: atlantis } },
+        {
+          segment: "Women outside Atlantis",
+          rule: {
+            type: "and",
+            rules: [
+              { type: "condition", field: "Gender", operator: "=", value: "F" },
+              { type: "not", rule: atlantis },
+            ],
+          },
+        },
+        {
+          segment: "Not not Atlantis",
+          rule: { type: "not", rule: { type: "not", rule: atlantis } },
+        },
+      ],
+      suggestedAgeRange: null,
+      reasoning: "",
+    }));
+
+    const result = await analyze();
+    assert.deepEqual(
+      result.suggestions.map((s) => s.segment),
+      [
+        "Outside Atlantis",
+        "Outside Osaka and Mars",
+        "Not Atlantis",
+        "Women outside Atlantis",
+      ],
+    );
+    assert.deepEqual(result.suggestions[1].rule, {
+      type: "condition",
+      field: "Prefecture",
+      operator: "not_in",
+      values: ["大阪府", "火星"],
+    });
+    assert.deepEqual(result.matchCounts, {
+      "Outside Atlantis": 40,
+      "Outside Osaka and Mars": 30,
+      "Not Atlantis": 40,
+      "Women outside Atlantis": 20,
+    });
+    assert.deepEqual(result.validation!.corrected, []);
+    assert.deepEqual(result.validation!.dropped, [
+      {
+        segment: "Not not Atlantis",
+        message: 'Prefecture has no value "Atlantis"',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,220 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type {
+  SuppressionAddResult,
+  SuppressionCampaignsResponse,
+  SuppressionEntriesResponse,
+  TargetingRule,
+} from "@shared/schema";
+import { startTestApp, type ApiClient, type TestApp } from "./harness";
+import {
+  CRM_DATABASE_ID,
+  CUSTOMER_TABLE,
+  CUSTOMER_TABLE_ID,
+  HISTORY_TABLE,
+  HISTORY_TABLE_ID,
+  MARKETING_DATABASE_ID,
+  RECENTLY_MAILED_IDS,
+} from "../mock-metabase/seed";
+import { formatSqlDate, sqlNow } from "../mock-metabase/sql-engine";
+
+const table = `historyDbId=${MARKETING_DATABASE_ID}&historyTableId=${HISTORY_TABLE_ID}`;
+
+const tokyo: TargetingRule = {
+  type: "condition",
+  field: "Prefecture",
+  operator: "=",
+  value: "東京都",
+};
+
+function daysAgo(days: number): string {
+  const d = sqlNow();
+  d.setUTCDate(d.getUTCDate() - days);
+  return formatSqlDate(d);
+}
+
+describe("Suppression list management", () => {
+  let app: TestApp;
+  let analyst: ApiClient;
+  let operator: ApiClient;
+
+  const history = (campaignCode: string) =>
+    app.mock
+      .engine(MARKETING_DATABASE_ID)
+      .tableRows(HISTORY_TABLE)
+      .filter((h) => h.Campaign_Code === campaignCode);
+  const previewIds = async () => {
+    const preview = await analyst.json<{ records: Record<string, any>[] }>(
+      "POST",
+      "/api/ai/preview-v2",
+      {
+        databaseId: CRM_DATABASE_ID,
+        masterTableId: CUSTOMER_TABLE_ID,
+        historyDbId: MARKETING_DATABASE_ID,
+        historyTableId: HISTORY_TABLE_ID,
+        segments: [],
+        rules: tokyo,
+        contactCap: 100,
+        excludeDays: 7,
+      },
+    );
+    return preview.records.map((r) => Number(r.Customer_ID));
+  };
+
+  before(async () => {
+    app = await startTestApp();
+    analyst = await app.clientFor("analyst");
+    operator = await app.clientFor("operator");
+  });
+
+  after(() => app.close());
+
+  it("summarises entries per campaign code", async () => {
+    const { mapping, campaigns, sourceSystems } =
+      await analyst.json<SuppressionCampaignsResponse>(
+        "GET",
+        `/api/suppression/campaigns?${table}`,
+      );
+    assert.deepEqual(
+      {
+        ref: mapping.refColumn,
+        code: mapping.campaignCodeColumn,
+        source: mapping.sourceSystemColumn,
+        date: mapping.sentDateColumn,
+      },
+      {
+        ref: "Customer_Ref_ID",
+        code: "Campaign_Code",
+        source: "Source_System",
+        date: "Sent_Date",
+      },
+    );
+    assert.deepEqual(campaigns, [
+      {
+        campaignCode: "SPRING24",
+        count: RECENTLY_MAILED_IDS.length + 1,
+        firstSent: daysAgo(2),
+        lastSent: daysAgo(1),
+      },
+      {
+        campaignCode: "WINTER23",
+        count: 1,
+        firstSent: daysAgo(30),
+        lastSent: daysAgo(30),
+      },
+    ]);
+    assert.deepEqual(sourceSystems, ["Customer_Master", "Other_List"]);
+  });
+
+  it("browses entries by campaign, source system and date range", async () => {
+    const bySource = await analyst.json<SuppressionEntriesResponse>(
+      "GET",
+      `/api/suppression/entries?${table}&campaignCode=SPRING24&sourceSystem=${CUSTOMER_TABLE}`,
+    );
+    assert.deepEqual(
+      bySource.entries.map((e) => e.ref).sort(),
+      RECENTLY_MAILED_IDS.map(String),
+    );
+    assert.equal(bySource.pagination.totalCount, RECENTLY_MAILED_IDS.length);
+    assert.equal(bySource.pagination.hasMore, false);
+
+    const lastWeek = await analyst.json<SuppressionEntriesResponse>(
+      "GET",
+      `/api/suppression/entries?${table}&from=${daysAgo(7)}&to=${daysAgo(0)}`,
+    );
+    assert.ok(lastWeek.entries.every((e) => e.campaignCode === "SPRING24"));
+    assert.equal(lastWeek.entries[0].sentDate, daysAgo(1));
+
+    const invalid = await analyst.request(
+      "GET",
+      `/api/suppression/entries?${table}&from=last-week`,
+    );
+    assert.equal(invalid.status, 400);
+  });
+
+  it("only lets operators change the list", async () => {
+    const add = await analyst.request("POST", "/api/suppression/entries", {
+      historyDbId: MARKETING_DATABASE_ID,
+      historyTableId: HISTORY_TABLE_ID,
+      campaignCode: "MANUAL1",
+      refs: ["101"],
+    });
+    assert.equal(add.status, 403);
+    const remove = await analyst.request(
+      "DELETE",
+      `/api/suppression/campaigns/SPRING24?${table}`,
+    );
+    assert.equal(remove.status, 403);
+    assert.equal(history("SPRING24").length, RECENTLY_MAILED_IDS.length + 1);
+  });
+
+  it("adds references manually, once per campaign and day", async () => {
+    const body = {
+      historyDbId: MARKETING_DATABASE_ID,
+      historyTableId: HISTORY_TABLE_ID,
+      campaignCode: "MANUAL1",
+      refs: ["101", "102", "  ", "101"],
+    };
+    const first = await operator.json<SuppressionAddResult>(
+      "POST",
+      "/api/suppression/entries",
+      body,
+    );
+    assert.equal(first.attempted, 2);
+    assert.equal(first.inserted, 2);
+    assert.equal(first.rejected, 1);
+
+    const logged = history("MANUAL1");
+    assert.deepEqual(logged.map((h) => h.Customer_Ref_ID).sort(), [
+      "101",
+      "102",
+    ]);
+    for (const entry of logged) {
+      assert.equal(entry.Source_System, "Manual");
+      assert.equal(entry.Sent_Date, daysAgo(0));
+    }
+
+    const again = await operator.json<SuppressionAddResult>(
+      "POST",
+      "/api/suppression/entries",
+      body,
+    );
+    assert.equal(again.inserted, 0);
+    assert.equal(again.duplicatesSkipped, 2);
+    assert.equal(history("MANUAL1").length, 2);
+  });
+
+  it("suppresses references from an uploaded CSV in the next preview", async () => {
+    assert.ok((await previewIds()).includes(8));
+
+    const res = await operator.send(
+      "POST",
+      `/api/suppression/upload?${table}&campaignCode=UPLOAD1&sourceSystem=${CUSTOMER_TABLE}`,
+      '\uFEFFNote,Customer_Ref_ID\r\n"opted out",8\r\n"bounced",12\r\n',
+      "text/csv",
+    );
+    assert.equal(res.status, 200);
+    const result: SuppressionAddResult = await res.json();
+    assert.equal(result.inserted, 2);
+
+    const ids = await previewIds();
+    assert.ok(!ids.includes(8));
+    assert.ok(!ids.includes(12));
+  });
+
+  it("removes an accidentally logged campaign", async () => {
+    const removed = await operator.json<{ deleted: number }>(
+      "DELETE",
+      `/api/suppression/campaigns/UPLOAD1?${table}`,
+    );
+    assert.equal(removed.deleted, 2);
+    assert.equal(history("UPLOAD1").length, 0);
+    assert.ok((await previewIds()).includes(8));
+
+    const again = await operator.request(
+      "DELETE",
+      `/api/suppression/campaigns/UPLOAD1?${table}`,
+    );
+    assert.equal(again.status, 404);
+  });
+});
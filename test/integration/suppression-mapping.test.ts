@@ -0,0 +1,180 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type {
+  ExportMappingResponse,
+  SuppressionMapping,
+  TargetingRule,
+} from "@shared/schema";
+import { startTestApp, type ApiClient, type TestApp } from "./harness";
+import {
+  CRM_DATABASE_ID,
+  CUSTOMER_TABLE_ID,
+  HISTORY_TABLE,
+  HISTORY_TABLE_ID,
+  MARKETING_DATABASE_ID,
+} from "../mock-metabase/seed";
+
+// Customer 6 was mailed yesterday from another source list, so detection (which
+// scopes suppression to Customer_Master by Source_System) keeps them in the list
+const OTHER_SOURCE_ID = 6;
+
+const kanagawa: TargetingRule = {
+  type: "condition",
+  field: "Prefecture",
+  operator: "=",
+  value: "神奈川県",
+};
+
+const pair = {
+  databaseId: CRM_DATABASE_ID,
+  masterTableId: CUSTOMER_TABLE_ID,
+  historyDbId: MARKETING_DATABASE_ID,
+  historyTableId: HISTORY_TABLE_ID,
+};
+
+const profile = {
+  ...pair,
+  sourceRefColumn: "Customer_ID",
+  sourceSystemColumn: null,
+  historyRefColumn: "Customer_Ref_ID",
+  historyCampaignCodeColumn: "Campaign_Code",
+  // Not source-scoped: every earlier send counts, whatever list it came from
+  historySourceSystemColumn: null,
+  historySentDateColumn: "Sent_Date",
+};
+
+describe("Suppression mapping profiles", () => {
+  let app: TestApp;
+  let analyst: ApiClient;
+  let operator: ApiClient;
+
+  const body = (extra: Record<string, unknown> = {}) => ({
+    ...pair,
+    segments: [],
+    rules: kanagawa,
+    contactCap: 100,
+    excludeDays: 7,
+    ...extra,
+  });
+  const mapping = () =>
+    analyst.json<ExportMappingResponse>(
+      "POST",
+      "/api/ai/export-mapping-v2",
+      body(),
+    );
+  const previewIds = async () => {
+    const preview = await analyst.json<{ records: Record<string, any>[] }>(
+      "POST",
+      "/api/ai/preview-v2",
+      body(),
+    );
+    return preview.records.map((r) => Number(r.Customer_ID));
+  };
+
+  before(async () => {
+    app = await startTestApp();
+    analyst = await app.clientFor("analyst");
+    operator = await app.clientFor("operator");
+  });
+
+  after(() => app.close());
+
+  it("falls back to detection when no profile is saved", async () => {
+    const detected = await mapping();
+    assert.equal(detected.mappingSource, "detected");
+    assert.equal(detected.profile, null);
+    assert.equal(detected.source.refColumn, "Customer_ID");
+    assert.equal(detected.suppression.sourceSystemColumn, "Source_System");
+    assert.ok(detected.availableColumns.source.includes("Email"));
+    assert.ok(detected.availableColumns.suppression.includes("Sent_Date"));
+    assert.ok((await previewIds()).includes(OTHER_SOURCE_ID));
+  });
+
+  it("only lets operators save a profile", async () => {
+    const res = await analyst.request(
+      "PUT",
+      "/api/suppression-mappings",
+      profile,
+    );
+    assert.equal(res.status, 403);
+  });
+
+  it("rejects columns that do not exist", async () => {
+    const res = await operator.request("PUT", "/api/suppression-mappings", {
+      ...profile,
+      historySentDateColumn: "Mailed_On",
+    });
+    assert.equal(res.status, 400);
+    const { error } = await res.json();
+    assert.match(error, /Mailed_On/);
+  });
+
+  let saved: SuppressionMapping;
+
+  it("uses the saved profile for the mapping and the preview", async () => {
+    saved = await operator.json<SuppressionMapping>(
+      "PUT",
+      "/api/suppression-mappings",
+      profile,
+    );
+    assert.equal(saved.updatedBy, "operator-user");
+
+    const fromProfile = await mapping();
+    assert.equal(fromProfile.mappingSource, "profile");
+    assert.equal(fromProfile.profile?.id, saved.id);
+    assert.equal(fromProfile.suppression.sourceSystemColumn, null);
+    assert.equal(fromProfile.suppression.sentDateConfidence, 100);
+    assert.deepEqual(fromProfile.issues, []);
+
+    assert.ok(!(await previewIds()).includes(OTHER_SOURCE_ID));
+  });
+
+  it("replaces the profile for the same table pair", async () => {
+    const updated = await operator.json<SuppressionMapping>(
+      "PUT",
+      "/api/suppression-mappings",
+      { ...profile, sourceSystemColumn: "City" },
+    );
+    assert.equal(updated.id, saved.id);
+    assert.equal(updated.sourceSystemColumn, "City");
+
+    const profiles = await analyst.json<SuppressionMapping[]>(
+      "GET",
+      "/api/suppression-mappings",
+    );
+    assert.equal(profiles.length, 1);
+  });
+
+  it("writes back using the saved columns", async () => {
+    const res = await operator.request(
+      "POST",
+      "/api/ai/export-v2",
+      body({ contactCap: 3, campaignCode: "MAPPED1" }),
+    );
+    assert.equal(res.status, 200);
+    const exported = (await res.text()).trim().split("\n").slice(1);
+    assert.equal(exported.length, 3);
+
+    const logged = app.mock
+      .engine(MARKETING_DATABASE_ID)
+      .tableRows(HISTORY_TABLE)
+      .filter((h) => h.Campaign_Code === "MAPPED1");
+    assert.equal(logged.length, 3);
+    for (const entry of logged) assert.equal(entry.Source_System, null);
+  });
+
+  it("returns to detection once the profile is removed", async () => {
+    const res = await operator.request(
+      "DELETE",
+      `/api/suppression-mappings/${saved.id}`,
+    );
+    assert.equal(res.status, 204);
+    assert.equal((await mapping()).mappingSource, "detected");
+
+    const missing = await operator.request(
+      "DELETE",
+      `/api/suppression-mappings/${saved.id}`,
+    );
+    assert.equal(missing.status, 404);
+  });
+});
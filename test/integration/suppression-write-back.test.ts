@@ -0,0 +1,152 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type {
+  CampaignWithRuns,
+  SuppressionWriteBackReport,
+  TargetingRule,
+} from "@shared/schema";
+import { startTestApp, type ApiClient, type TestApp } from "./harness";
+import {
+  CRM_DATABASE_ID,
+  CUSTOMER_COUNT,
+  CUSTOMER_TABLE_ID,
+  HISTORY_TABLE,
+  HISTORY_TABLE_ID,
+  MARKETING_DATABASE_ID,
+} from "../mock-metabase/seed";
+import { formatSqlDate, sqlNow } from "../mock-metabase/sql-engine";
+
+const prefecture = (value: string): TargetingRule => ({
+  type: "condition",
+  field: "Prefecture",
+  operator: "=",
+  value,
+});
+
+describe("Suppression write-back", () => {
+  let app: TestApp;
+  let operator: ApiClient;
+
+  const exportList = (body: Record<string, unknown>) =>
+    operator.request("POST", "/api/ai/export-v2", {
+      databaseId: CRM_DATABASE_ID,
+      masterTableId: CUSTOMER_TABLE_ID,
+      historyDbId: MARKETING_DATABASE_ID,
+      historyTableId: HISTORY_TABLE_ID,
+      segments: [],
+      contactCap: 5,
+      excludeDays: 7,
+      saveCampaign: true,
+      ...body,
+    });
+  const report = (res: Response): SuppressionWriteBackReport =>
+    JSON.parse(res.headers.get("x-write-back-report") ?? "null");
+  const history = (campaignCode: string) =>
+    app.mock
+      .engine(MARKETING_DATABASE_ID)
+      .tableRows(HISTORY_TABLE)
+      .filter((h) => h.Campaign_Code === campaignCode);
+  const runSqlite = (sql: string) =>
+    app.mock.engine(MARKETING_DATABASE_ID).runSqlite(sql);
+
+  before(async () => {
+    app = await startTestApp();
+    operator = await app.clientFor("operator");
+  });
+
+  after(() => app.close());
+
+  it("returns a write-back report alongside the file", async () => {
+    const res = await exportList({
+      rules: prefecture("大阪府"),
+      campaignCode: "REPORT1",
+    });
+    assert.equal(res.status, 200);
+    await res.text();
+
+    const writeBack = report(res);
+    assert.deepEqual(writeBack, {
+      exportRunId: res.headers.get("x-campaign-run-id"),
+      attempted: 5,
+      inserted: 5,
+      duplicatesSkipped: 0,
+      failed: 0,
+    });
+    assert.equal(history("REPORT1").length, 5);
+
+    const campaign = await operator.json<CampaignWithRuns>(
+      "GET",
+      `/api/campaigns/${res.headers.get("x-campaign-id")}`,
+    );
+    assert.deepEqual(campaign.runs[0].writeBack, writeBack);
+  });
+
+  it("skips references already logged for the same code today", async () => {
+    // Logged today from another source list: not suppressed by the lookup, so the
+    // same customers are selected again, but the uniqueness guard must hold
+    const today = formatSqlDate(sqlNow());
+    for (let id = 1; id <= CUSTOMER_COUNT; id++) {
+      runSqlite(
+        `INSERT INTO "${HISTORY_TABLE}" ("Customer_Ref_ID", "Campaign_Code", "Source_System", "Sent_Date") ` +
+          `VALUES ('${id}', 'DUPE1', 'Other_List', '${today}')`,
+      );
+    }
+
+    const res = await exportList({
+      rules: prefecture("神奈川県"),
+      campaignCode: "DUPE1",
+    });
+    assert.equal(res.status, 200);
+    const rows = (await res.text()).trim().split("\n").slice(1);
+    assert.equal(rows.length, 5);
+
+    assert.deepEqual(report(res), {
+      exportRunId: res.headers.get("x-campaign-run-id"),
+      attempted: 5,
+      inserted: 0,
+      duplicatesSkipped: 5,
+      failed: 0,
+    });
+    assert.equal(history("DUPE1").length, CUSTOMER_COUNT);
+  });
+
+  it("logs nothing when the write-back fails part way", async () => {
+    // Fail the third history insert of this campaign
+    runSqlite(
+      `CREATE TRIGGER fail_write BEFORE INSERT ON "${HISTORY_TABLE}" ` +
+        `WHEN NEW."Campaign_Code" = 'ATOMIC1' AND ` +
+        `(SELECT COUNT(*) FROM "${HISTORY_TABLE}" WHERE "Campaign_Code" = 'ATOMIC1') >= 2 ` +
+        `BEGIN SELECT RAISE(ABORT, 'simulated write failure'); END`,
+    );
+
+    const failed = await exportList({
+      rules: prefecture("愛知県"),
+      campaignCode: "ATOMIC1",
+    });
+    assert.equal(failed.status, 500);
+    const { error } = await failed.json();
+    assert.match(error, /nothing was logged/);
+    assert.match(error, /simulated write failure/);
+    assert.equal(history("ATOMIC1").length, 0);
+
+    const campaigns = await operator.json<
+      Array<{ id: number; campaignCode: string }>
+    >("GET", "/api/campaigns");
+    const campaign = await operator.json<CampaignWithRuns>(
+      "GET",
+      `/api/campaigns/${campaigns.find((c) => c.campaignCode === "ATOMIC1")!.id}`,
+    );
+    assert.equal(campaign.runs[0].status, "failed");
+
+    // Retrying after the failure logs everyone exactly once
+    runSqlite("DROP TRIGGER fail_write");
+    const retried = await exportList({
+      rules: prefecture("愛知県"),
+      campaignCode: "ATOMIC1",
+    });
+    assert.equal(retried.status, 200);
+    await retried.text();
+    assert.equal(report(retried).inserted, 5);
+    assert.equal(history("ATOMIC1").length, 5);
+  });
+});
@@ -0,0 +1,107 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { once } from "events";
+import { PassThrough } from "stream";
+import { createTableExportWriter } from "../../server/table-export";
+import { startTestApp, type ApiClient, type TestApp } from "./harness";
+import { CRM_DATABASE_ID, CUSTOMER_TABLE_ID } from "../mock-metabase/seed";
+
+describe("Streaming table export", () => {
+  let app: TestApp;
+  let analyst: ApiClient;
+
+  const download = (params: Record<string, string> = {}) => {
+    const query = new URLSearchParams({
+      databaseId: String(CRM_DATABASE_ID),
+      tableId: String(CUSTOMER_TABLE_ID),
+      columns: JSON.stringify(["Customer_ID", "Email"]),
+      bom: "false",
+      ...params,
+    });
+    return analyst.request("GET", `/api/metabase/export/stream?${query}`);
+  };
+  const exportedIds = async (params: Record<string, string> = {}) => {
+    const res = await download(params);
+    assert.equal(res.status, 200, await res.clone().text());
+    const [header, ...lines] = (await res.text()).trim().split("\n");
+    assert.equal(header, '"Customer ID","Email"');
+    return lines.map((line) => Number(JSON.parse(line.split(",")[0])));
+  };
+
+  before(async () => {
+    app = await startTestApp();
+    analyst = await app.clientFor("analyst");
+  });
+
+  after(async () => {
+    await app?.close();
+  });
+
+  it("orders rows by the primary key by default", async () => {
+    const ids = await exportedIds();
+    assert.deepEqual(
+      ids,
+      Array.from({ length: 40 }, (_, i) => i + 1),
+    );
+  });
+
+  it("follows the preview's sort column and direction", async () => {
+    const ids = await exportedIds({
+      sortColumn: "Total_LTV",
+      sortDirection: "desc",
+      limit: "5",
+    });
+    assert.deepEqual(ids, [40, 39, 38, 37, 36]);
+  });
+
+  it("accepts the preview's column label as the sort column", async () => {
+    const ids = await exportedIds({
+      sortColumn: "Total LTV",
+      sortDirection: "desc",
+      limit: "5",
+    });
+    assert.deepEqual(ids, [40, 39, 38, 37, 36]);
+  });
+
+  it("places missing values like the preview table does", async () => {
+    const noEmail = [5, 10, 15, 20, 25, 30, 35, 40];
+
+    const ascending = await exportedIds({ sortColumn: "Email" });
+    assert.deepEqual(ascending.slice(-noEmail.length), noEmail);
+
+    const descending = await exportedIds({
+      sortColumn: "Email",
+      sortDirection: "desc",
+    });
+    assert.deepEqual(descending.slice(0, noEmail.length), noEmail);
+  });
+
+  it("rejects an invalid sort direction", async () => {
+    const res = await download({ sortColumn: "Email", sortDirection: "up" });
+    assert.equal(res.status, 400);
+  });
+
+  it("rejects a sort column the table doesn't have", async () => {
+    const res = await download({ sortColumn: "Lifetime Value" });
+    assert.equal(res.status, 400);
+    assert.match(
+      (await res.json()).error,
+      /Unknown sort column: Lifetime Value/,
+    );
+  });
+
+  it("fails rather than hangs when the response is already closed", async () => {
+    const out = new PassThrough();
+    const writer = createTableExportWriter("csv", out, {
+      bom: false,
+      sheetName: "Export",
+    });
+    out.destroy();
+    await once(out, "close"); // no further close event for write() to wait on
+
+    await assert.rejects(
+      writer.writeHeader(["Customer_ID"]),
+      /closed before completion/,
+    );
+  });
+});
@@ -0,0 +1,229 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type {
+  AIResponseErrorBody,
+  TargetingRefinementResponse,
+  TargetingRule,
+} from "@shared/schema";
+import { startTestApp, type ApiClient, type TestApp } from "./harness";
+import { CRM_DATABASE_ID, CUSTOMER_TABLE_ID } from "../mock-metabase/seed";
+
+const tokyo: TargetingRule = {
+  type: "condition",
+  field: "Prefecture",
+  operator: "=",
+  value: "東京都",
+};
+const tokyoOrOsaka: TargetingRule = {
+  type: "condition",
+  field: "Prefecture",
+  operator: "in",
+  values: ["東京都", "大阪府"],
+};
+const female: TargetingRule = {
+  type: "condition",
+  field: "Gender",
+  operator: "=",
+  value: "F",
+};
+const highValue: TargetingRule = {
+  type: "condition",
+  field: "Total_LTV",
+  operator: ">",
+  value: 20000,
+};
+
+describe("Conversational targeting refinement", () => {
+  let app: TestApp;
+  let analyst: ApiClient;
+  let sessionId: string;
+
+  const start = (client: ApiClient, body: object) =>
+    client.json<TargetingRefinementResponse>(
+      "POST",
+      "/api/ai/refinement-sessions",
+      {
+        concept: "Spring offer for Tokyo women",
+        databaseId: CRM_DATABASE_ID,
+        masterTableId: CUSTOMER_TABLE_ID,
+        ...body,
+      },
+    );
+  const send = (message: string, client = analyst) =>
+    client.request(
+      "POST",
+      `/api/ai/refinement-sessions/${sessionId}/messages`,
+      { message },
+    );
+
+  before(async () => {
+    app = await startTestApp();
+    analyst = await app.clientFor("analyst");
+  });
+
+  after(() => app.close());
+
+  it("starts from the current segments with live counts", async () => {
+    const session = await start(analyst, {
+      segments: ["Tokyo", "Women"],
+      segmentRules: { Tokyo: tokyo, Women: female },
+    });
+    sessionId = session.sessionId;
+    assert.deepEqual(session.matchCounts, { Tokyo: 10, Women: 20 });
+    // Every Tokyo customer in the seed is female
+    assert.equal(session.audienceCount, 10);
+    assert.deepEqual(session.turns, []);
+    assert.equal(app.llm.calls.length, 0);
+  });
+
+  it("applies an instruction and reports what changed", async () => {
+    app.llm.respondWith(() => ({
+      suggestions: [
+        { segment: "Tokyo", rule: tokyoOrOsaka, confidence: 0.9 },
+        { segment: "High value", rule: highValue, confidence: 0.8 },
+      ],
+      suggestedAgeRange: "30-50",
+      reasoning:
+        "Added Osaka, dropped the gender filter and kept big spenders.",
+    }));
+
+    const res = await send("add Osaka, any gender, only big spenders");
+    assert.equal(res.status, 200);
+    const result: TargetingRefinementResponse = await res.json();
+
+    // The model saw the rule set with each rule's count and the combined size
+    const prompt = app.llm.calls[0].messages;
+    assert.equal(prompt[0].role, "system");
+    assert.match(prompt[0].content, /"大阪府"/);
+    const last = prompt[prompt.length - 1].content;
+    assert.match(last, /combined audience: 10 customers/);
+    assert.match(last, /"matches": 20/);
+    assert.match(last, /INSTRUCTION: add Osaka, any gender, only big spenders/);
+
+    assert.deepEqual(
+      result.suggestions.map((s) => s.segment),
+      ["Tokyo", "High value"],
+    );
+    assert.deepEqual(result.matchCounts, { Tokyo: 20, "High value": 21 });
+    // Tokyo 20-40 (6) and Osaka 21-37 (5), aged 30-50
+    assert.equal(result.audienceCount, 8);
+
+    const [turn] = result.turns;
+    assert.equal(turn.message, "add Osaka, any gender, only big spenders");
+    assert.deepEqual(
+      turn.diff.added.map((s) => s.segment),
+      ["High value"],
+    );
+    assert.deepEqual(
+      turn.diff.removed.map((s) => s.segment),
+      ["Women"],
+    );
+    assert.deepEqual(turn.diff.changed, [
+      { segment: "Tokyo", before: tokyo, after: tokyoOrOsaka },
+    ]);
+    assert.deepEqual(turn.diff.ageRange, { before: null, after: "30-50" });
+  });
+
+  it("replays the conversation and keeps the rules when a reply is unreadable", async () => {
+    app.llm.respondWith(() => "not json");
+    const res = await send("too small, broaden");
+    // The model was asked once to fix its reply before giving up
+    assert.equal(res.status, 502);
+    const body: AIResponseErrorBody = await res.json();
+    assert.equal(body.code, "ai_response_invalid");
+    assert.equal(body.feature, "targeting-refinement");
+    assert.equal(app.llm.calls.length, 3);
+
+    const prompt = app.llm.calls[1].messages;
+    assert.deepEqual(
+      prompt.slice(1, 3).map((m) => m.role),
+      ["user", "assistant"],
+    );
+    assert.equal(prompt[1].content, "add Osaka, any gender, only big spenders");
+    assert.match(prompt[2].content, /Added Osaka/);
+
+    const session = await analyst.json<TargetingRefinementResponse>(
+      "GET",
+      `/api/ai/refinement-sessions/${sessionId}`,
+    );
+    assert.equal(session.turns.length, 1);
+    assert.equal(session.audienceCount, 8);
+  });
+
+  it("analyses the concept when no segments are sent", async () => {
+    app.llm.respondWith(() => ({
+      suggestions: [
+        { segment: "Prefecture:東京都", confidence: 0.9, reasoning: "Tokyo" },
+        { segment: "Unknown field", confidence: 0.1, reasoning: "No rule" },
+      ],
+      suggestedAgeRange: null,
+      reasoning: "Tokyo customers",
+    }));
+    const session = await start(analyst, {});
+    // The label is parsed into a rule; a suggestion without one is reported and dropped
+    assert.deepEqual(session.suggestions[0].rule, tokyo);
+    assert.equal(session.suggestions.length, 1);
+    assert.deepEqual(session.validation?.dropped, [
+      { segment: "Unknown field", message: "No targeting rule" },
+    ]);
+    assert.equal(session.audienceCount, 10);
+    assert.equal(session.reasoning, "Tokyo customers");
+  });
+
+  it("counts the audience within the age range, like the preview", async () => {
+    const segmentRules = { "Tokyo or Osaka": tokyoOrOsaka };
+    const session = await start(analyst, {
+      segments: ["Tokyo or Osaka"],
+      segmentRules,
+    });
+    sessionId = session.sessionId;
+    const preview = await analyst.json<{ totalCandidates: number }>(
+      "POST",
+      "/api/ai/preview-v2",
+      {
+        databaseId: CRM_DATABASE_ID,
+        masterTableId: CUSTOMER_TABLE_ID,
+        rules: tokyoOrOsaka,
+        ageRange: "over 50",
+        filterEmailsOnly: false,
+      },
+    );
+    assert.ok(preview.totalCandidates < session.audienceCount!);
+
+    // A turn that only narrows the age range changes the count
+    app.llm.respondWith(() => ({
+      suggestions: [
+        { segment: "Tokyo or Osaka", rule: tokyoOrOsaka, confidence: 0.9 },
+      ],
+      suggestedAgeRange: "over 50",
+      reasoning: "Kept the prefectures, only customers over 50.",
+    }));
+    const res = await send("only over 50");
+    assert.equal(res.status, 200);
+    const result: TargetingRefinementResponse = await res.json();
+    assert.equal(result.audienceCount, preview.totalCandidates);
+    // The per-segment counts stay rule-only
+    assert.deepEqual(result.matchCounts, session.matchCounts);
+
+    const started = await start(analyst, {
+      segments: ["Tokyo or Osaka"],
+      segmentRules,
+      ageRange: "over 50",
+    });
+    assert.equal(started.audienceCount, preview.totalCandidates);
+  });
+
+  it("hides sessions from other users and checks the message", async () => {
+    const admin = await app.clientFor("admin");
+    const res = await admin.request(
+      "GET",
+      `/api/ai/refinement-sessions/${sessionId}`,
+    );
+    assert.equal(res.status, 404);
+    assert.equal((await send("broaden", admin)).status, 404);
+    assert.equal((await send("   ")).status, 400);
+
+    const viewer = await app.clientFor("viewer");
+    assert.equal((await send("broaden", viewer)).status, 403);
+  });
+});
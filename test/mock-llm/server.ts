@@ -0,0 +1,91 @@
+import express from "express";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+
+// ── OpenAI-compatible stand-in ──────────────────────────────────────
+// Serves POST /chat/completions so the AI endpoints can run without a model. Tests
+// script the reply for each call with respondWith(); every request is recorded so
+// they can assert on what the app sent (e.g. the rule set and match counts).
+
+export interface ChatMessage {
+  role: string;
+  content: string;
+}
+
+export interface ChatCompletionCall {
+  model: string;
+  messages: ChatMessage[];
+}
+
+/** Returns the assistant's message content; objects are sent as JSON. */
+export type ChatResponder = (call: ChatCompletionCall) => string | object;
+
+export interface MockLlm {
+  url: string;
+  /** Every chat completion request received, oldest first. */
+  calls: ChatCompletionCall[];
+  respondWith(responder: ChatResponder): void;
+  close(): Promise<void>;
+}
+
+export async function startMockLlm(): Promise<MockLlm> {
+  const calls: ChatCompletionCall[] = [];
+  let responder: ChatResponder = () => ({});
+
+  const app = express();
+  app.use(express.json({ limit: "10mb" }));
+
+  app.post("/chat/completions", (req, res) => {
+    const call: ChatCompletionCall = {
+      model: String(req.body?.model ?? ""),
+      messages: (req.body?.messages ?? []).map((m: any) => ({
+        role: String(m.role),
+        content: typeof m.content === "string" ? m.content : "",
+      })),
+    };
+    calls.push(call);
+
+    let content: string;
+    try {
+      const reply = responder(call);
+      content = typeof reply === "string" ? reply : JSON.stringify(reply);
+    } catch (error) {
+      return res.status(500).json({
+        error: {
+          message: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+    res.json({
+      id: `chatcmpl-mock-${calls.length}`,
+      object: "chat.completion",
+      created: Math.floor(Date.now() / 1000),
+      model: call.model,
+      choices: [
+        {
+          index: 0,
+          message: { role: "assistant", content },
+          finish_reason: "stop",
+        },
+      ],
+      usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+    });
+  });
+
+  const server: Server = createServer(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    calls,
+    respondWith: (next) => {
+      responder = next;
+    },
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((err) => (err ? reject(err) : resolve()));
+      }),
+  };
+}
@@ -0,0 +1,182 @@
+import type { SqlValue } from "sql.js";
+import type { MockColumn, MockTable } from "./seed";
+
+// ── MBQL → SQLite ───────────────────────────────────────────────────
+// Compiles the subset of Metabase's structured query language the app sends:
+// source-table / source-query, fields, filter, aggregation, breakout, order-by,
+// limit and offset. Result columns follow Metabase's order (breakouts, then
+// aggregations).
+
+export interface MetabaseCol {
+  name: string;
+  display_name: string;
+  base_type: string;
+}
+
+export interface CompiledMbql {
+  sql: string;
+  params: SqlValue[];
+  cols: MetabaseCol[];
+}
+
+export function baseTypeFor(column: MockColumn): string {
+  const t = column.type.toLowerCase();
+  if (t.startsWith("bigint")) return "type/BigInteger";
+  if (/^(tinyint|smallint|int)\b/.test(t)) return "type/Integer";
+  if (/^(decimal|numeric|money)/.test(t)) return "type/Decimal";
+  if (/^(float|real)/.test(t)) return "type/Float";
+  if (t.startsWith("bit")) return "type/Boolean";
+  if (t === "date") return "type/Date";
+  if (t.startsWith("datetime")) return "type/DateTime";
+  return "type/Text";
+}
+
+const quote = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+export function compileMbql(
+  query: any,
+  resolveTable: (tableId: number) => MockTable | undefined,
+): CompiledMbql {
+  const params: SqlValue[] = [];
+
+  // A source-query only ever wraps a table (optionally with a scan limit)
+  const source = query["source-query"] ?? query;
+  const table = resolveTable(Number(source["source-table"]));
+  if (!table) throw new Error(`Table ${source["source-table"]} not found`);
+  let from = quote(table.name);
+  if (query["source-query"]) {
+    const inner = query["source-query"];
+    from =
+      `(SELECT * FROM ${quote(table.name)}` +
+      (inner.limit ? ` LIMIT ${Number(inner.limit)}` : "") +
+      `) AS source`;
+  }
+
+  const column = (ref: any): MockColumn => {
+    if (!Array.isArray(ref) || ref[0] !== "field") {
+      throw new Error(`Unsupported field reference: ${JSON.stringify(ref)}`);
+    }
+    const id = ref[1];
+    const col =
+      typeof id === "number"
+        ? table.columns[id - table.id * 100 - 1]
+        : table.columns.find((c) => c.name === id);
+    if (!col) throw new Error(`Field ${id} is not in table ${table.name}`);
+    return col;
+  };
+  const bind = (value: unknown) => {
+    params.push(value as SqlValue);
+    return "?";
+  };
+  const like = (ref: any, pattern: string) =>
+    `${quote(column(ref).name)} LIKE ${bind(pattern)}`;
+
+  const compileFilter = (clause: any[]): string => {
+    const [op, ...args] = clause;
+    switch (op) {
+      case "and":
+      case "or":
+        return `(${args.map(compileFilter).join(` ${op.toUpperCase()} `)})`;
+      case "not":
+        return `NOT (${compileFilter(args[0])})`;
+      case "=":
+      case "!=":
+        if (args.length > 2) {
+          // ["=", field, a, b] means IN
+          const list = args.slice(1).map(bind).join(", ");
+          const inOp = op === "=" ? "IN" : "NOT IN";
+          return `${quote(column(args[0]).name)} ${inOp} (${list})`;
+        }
+        return `${quote(column(args[0]).name)} ${op === "=" ? "=" : "<>"} ${bind(args[1])}`;
+      case ">":
+      case "<":
+      case ">=":
+      case "<=":
+        return `${quote(column(args[0]).name)} ${op} ${bind(args[1])}`;
+      case "between":
+        return `${quote(column(args[0]).name)} BETWEEN ${bind(args[1])} AND ${bind(args[2])}`;
+      case "contains":
+        return like(args[0], `%${args[1]}%`);
+      case "starts-with":
+        return like(args[0], `${args[1]}%`);
+      case "ends-with":
+        return like(args[0], `%${args[1]}`);
+      case "is-null":
+        return `${quote(column(args[0]).name)} IS NULL`;
+      case "not-null":
+        return `${quote(column(args[0]).name)} IS NOT NULL`;
+      default:
+        throw new Error(`Unsupported MBQL filter: ${op}`);
+    }
+  };
+
+  const select: string[] = [];
+  const cols: MetabaseCol[] = [];
+  const groupBy: string[] = [];
+  const addCol = (expr: string, name: string, baseType: string) => {
+    select.push(`${expr} AS ${quote(name)}`);
+    cols.push({ name, display_name: name, base_type: baseType });
+  };
+
+  for (const ref of query.breakout ?? []) {
+    const col = column(ref);
+    addCol(quote(col.name), col.name, baseTypeFor(col));
+    groupBy.push(quote(col.name));
+  }
+
+  const aggregations: any[] = query.aggregation ?? [];
+  aggregations.forEach(([fn, ref]: any[]) => {
+    switch (fn) {
+      case "count":
+        addCol("COUNT(*)", "count", "type/BigInteger");
+        break;
+      case "distinct":
+        addCol(
+          `COUNT(DISTINCT ${quote(column(ref).name)})`,
+          "count",
+          "type/BigInteger",
+        );
+        break;
+      case "sum":
+      case "avg":
+      case "min":
+      case "max":
+        addCol(
+          `${fn.toUpperCase()}(${quote(column(ref).name)})`,
+          fn,
+          "type/Float",
+        );
+        break;
+      default:
+        throw new Error(`Unsupported MBQL aggregation: ${fn}`);
+    }
+  });
+
+  if (select.length === 0) {
+    const fields: MockColumn[] = query.fields
+      ? query.fields.map(column)
+      : table.columns;
+    for (const col of fields)
+      addCol(quote(col.name), col.name, baseTypeFor(col));
+  }
+
+  let sql = `SELECT ${select.join(", ")} FROM ${from}`;
+  if (query.filter) sql += ` WHERE ${compileFilter(query.filter)}`;
+  if (groupBy.length > 0) sql += ` GROUP BY ${groupBy.join(", ")}`;
+
+  const orderBy = (query["order-by"] ?? []).map(([dir, ref]: any[]) => {
+    const expr =
+      ref[0] === "aggregation"
+        ? String(groupBy.length + Number(ref[1]) + 1) // column position
+        : quote(column(ref).name);
+    return `${expr} ${dir === "desc" ? "DESC" : "ASC"}`;
+  });
+  if (orderBy.length > 0) sql += ` ORDER BY ${orderBy.join(", ")}`;
+
+  if (query.limit !== undefined || query.offset !== undefined) {
+    sql += ` LIMIT ${query.limit !== undefined ? Number(query.limit) : -1}`;
+    if (query.offset) sql += ` OFFSET ${Number(query.offset)}`;
+  }
+
+  return { sql, params, cols };
+}
@@ -0,0 +1,176 @@
+import { formatSqlDate, sqlNow } from "./sql-engine";
+
+// ── Seed data for the Metabase stand-in ─────────────────────────────
+// A CRM database with a customer master table (plus an orders table for joins) and
+// a marketing database holding the suppression (campaign history) table. Values
+// are deterministic; dates are relative to today so suppression windows line up.
+
+export interface MockColumn {
+  name: string;
+  type: string; // SQL Server type, e.g. "int", "nvarchar(64)", "date"
+  pk?: boolean;
+  semanticType?: string;
+}
+
+export interface MockTable {
+  id: number;
+  name: string;
+  columns: MockColumn[];
+  rows: Record<string, string | number | null>[];
+}
+
+export interface MockDatabase {
+  id: number;
+  name: string;
+  tables: MockTable[];
+}
+
+export const CRM_DATABASE_ID = 1;
+export const CUSTOMER_TABLE_ID = 11;
+export const ORDERS_TABLE_ID = 12;
+export const MARKETING_DATABASE_ID = 2;
+export const HISTORY_TABLE_ID = 21;
+
+export const CUSTOMER_TABLE = "Customer_Master";
+export const HISTORY_TABLE = "Tbl_Global_Campaign_History";
+
+export const CUSTOMER_COUNT = 40;
+
+const PREFECTURES = ["東京都", "大阪府", "神奈川県", "愛知県"];
+const CITIES = ["新宿区", "北区", "横浜市", "名古屋市"];
+
+// Every 5th customer has no email and every 7th a blank one
+export function customerEmail(id: number): string | null {
+  if (id % 5 === 0) return null;
+  if (id % 7 === 0) return "   ";
+  return `customer${id}@example.jp`;
+}
+
+export function customerRow(id: number) {
+  return {
+    Customer_ID: id,
+    Customer_Name: `顧客 ${id}`,
+    Email: customerEmail(id),
+    Prefecture: PREFECTURES[id % PREFECTURES.length],
+    City: CITIES[id % CITIES.length],
+    Gender: id % 2 === 0 ? "F" : "M",
+    ddob: `${1960 + ((id * 3) % 40)}-${String((id % 12) + 1).padStart(2, "0")}-${String((id % 28) + 1).padStart(2, "0")}`,
+    Total_LTV: id * 1000 + 0.5,
+  };
+}
+
+function daysAgo(today: Date, days: number): string {
+  const d = new Date(today);
+  d.setUTCDate(d.getUTCDate() - days);
+  return formatSqlDate(d);
+}
+
+/** Customers mailed from Customer_Master within the last week (suppressed by default). */
+export const RECENTLY_MAILED_IDS = [1, 2, 3];
+
+export function createSeedDatabases(today: Date = sqlNow()): MockDatabase[] {
+  const customers = Array.from({ length: CUSTOMER_COUNT }, (_, i) =>
+    customerRow(i + 1),
+  );
+
+  const history = [
+    ...RECENTLY_MAILED_IDS.map((id) => ({
+      ref: id,
+      code: "SPRING24",
+      source: CUSTOMER_TABLE,
+      sent: daysAgo(today, 2),
+    })),
+    // Outside the default 7-day window
+    {
+      ref: 4,
+      code: "WINTER23",
+      source: CUSTOMER_TABLE,
+      sent: daysAgo(today, 30),
+    },
+    // Mailed recently, but from another source table
+    { ref: 6, code: "SPRING24", source: "Other_List", sent: daysAgo(today, 1) },
+  ];
+
+  return [
+    {
+      id: CRM_DATABASE_ID,
+      name: "CRM",
+      tables: [
+        {
+          id: CUSTOMER_TABLE_ID,
+          name: CUSTOMER_TABLE,
+          columns: [
+            { name: "Customer_ID", type: "int", pk: true },
+            {
+              name: "Customer_Name",
+              type: "nvarchar(100)",
+              semanticType: "type/Name",
+            },
+            {
+              name: "Email",
+              type: "nvarchar(255)",
+              semanticType: "type/Email",
+            },
+            {
+              name: "Prefecture",
+              type: "nvarchar(20)",
+              semanticType: "type/State",
+            },
+            { name: "City", type: "nvarchar(50)", semanticType: "type/City" },
+            { name: "Gender", type: "nvarchar(10)" },
+            { name: "ddob", type: "date" },
+            { name: "Total_LTV", type: "float" },
+          ],
+          rows: customers,
+        },
+        {
+          id: ORDERS_TABLE_ID,
+          name: "Orders",
+          columns: [
+            { name: "Order_ID", type: "int", pk: true },
+            { name: "Customer_ID", type: "int", semanticType: "type/FK" },
+            { name: "Amount", type: "decimal(12,2)" },
+            { name: "Order_Date", type: "date" },
+          ],
+          rows: Array.from({ length: 60 }, (_, i) => ({
+            Order_ID: i + 1,
+            Customer_ID: (i % CUSTOMER_COUNT) + 1,
+            Amount: 1000 + ((i * 37) % 9000),
+            Order_Date: daysAgo(today, (i * 11) % 365),
+          })),
+        },
+      ],
+    },
+    {
+      id: MARKETING_DATABASE_ID,
+      name: "Marketing",
+      tables: [
+        {
+          id: HISTORY_TABLE_ID,
+          name: HISTORY_TABLE,
+          columns: [
+            { name: "History_ID", type: "int", pk: true },
+            { name: "Customer_Ref_ID", type: "nvarchar(64)" },
+            { name: "Campaign_Code", type: "nvarchar(50)" },
+            { name: "Source_System", type: "nvarchar(64)" },
+            { name: "Sent_Date", type: "date" },
+          ],
+          rows: history.map((h, i) => ({
+            History_ID: i + 1,
+            Customer_Ref_ID: String(h.ref),
+            Campaign_Code: h.code,
+            Source_System: h.source,
+            Sent_Date: h.sent,
+          })),
+        },
+      ],
+    },
+  ];
+}
+
+/** Metabase field id for a seeded column (tables number their fields from id*100+1). */
+export function fieldId(table: MockTable, columnName: string): number {
+  const index = table.columns.findIndex((c) => c.name === columnName);
+  if (index === -1) throw new Error(`No column ${columnName} in ${table.name}`);
+  return table.id * 100 + index + 1;
+}
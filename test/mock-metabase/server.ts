@@ -0,0 +1,224 @@
+import express, {
+  type Request,
+  type Response,
+  type NextFunction,
+} from "express";
+import { randomUUID } from "crypto";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { pathToFileURL } from "url";
+import type { SqlValue } from "sql.js";
+import { createSqlEngine, type SqlEngine } from "./sql-engine";
+import { baseTypeFor, compileMbql, type MetabaseCol } from "./mbql";
+import { createSeedDatabases, type MockDatabase, type MockTable } from "./seed";
+
+// ── Metabase stand-in ───────────────────────────────────────────────
+// Serves the parts of the Metabase REST API the app uses (session login, database
+// and table metadata, /api/dataset for MBQL and native queries) from in-memory
+// SQLite databases, so server/metabase.ts can be exercised without a live
+// Metabase. Run it on its own with `npm run mock:metabase` and point METABASE_URL
+// at it, or start it from tests with startMockMetabase().
+
+// Metabase's cap on rows returned by one ad-hoc /api/dataset call
+export const DATASET_ROW_LIMIT = 2000;
+
+export interface MockMetabaseOptions {
+  databases?: MockDatabase[];
+  email?: string;
+  password?: string;
+  port?: number;
+}
+
+export interface DatasetCall {
+  databaseId: number;
+  type: "query" | "native";
+  sql?: string; // native queries only
+}
+
+export interface MockMetabase {
+  url: string;
+  email: string;
+  password: string;
+  databases: MockDatabase[];
+  /** Every /api/dataset request received, oldest first. */
+  datasetCalls: DatasetCall[];
+  engine(databaseId: number): SqlEngine;
+  /** Forgets all sessions, so the next request gets a 401 and must log in again. */
+  expireSessions(): void;
+  close(): Promise<void>;
+}
+
+function fieldMetadata(table: MockTable) {
+  return table.columns.map((col, i) => ({
+    id: table.id * 100 + i + 1,
+    name: col.name,
+    display_name: col.name.replace(/_/g, " "),
+    base_type: baseTypeFor(col),
+    semantic_type: col.pk ? "type/PK" : (col.semanticType ?? null),
+    database_type: col.type,
+    table_id: table.id,
+  }));
+}
+
+// Native results carry no declared types; infer them from the first non-null value
+function inferCols(columns: string[], rows: SqlValue[][]): MetabaseCol[] {
+  return columns.map((name, i) => {
+    const sample = rows.find((row) => row[i] !== null)?.[i];
+    const baseType =
+      typeof sample === "number"
+        ? Number.isInteger(sample)
+          ? "type/Integer"
+          : "type/Float"
+        : "type/Text";
+    return { name, display_name: name, base_type: baseType };
+  });
+}
+
+function datasetResponse(cols: MetabaseCol[], rows: SqlValue[][]) {
+  const capped = rows.slice(0, DATASET_ROW_LIMIT);
+  return {
+    status: "completed",
+    row_count: capped.length,
+    data: { cols, rows: capped, rows_truncated: rows.length > capped.length },
+  };
+}
+
+export async function startMockMetabase(
+  options: MockMetabaseOptions = {},
+): Promise<MockMetabase> {
+  const databases = options.databases ?? createSeedDatabases();
+  const email = options.email ?? "mock@example.com";
+  const password = options.password ?? "mock-password";
+
+  const engines = new Map<number, SqlEngine>();
+  for (const db of databases) engines.set(db.id, await createSqlEngine(db));
+  const findTable = (tableId: number) =>
+    databases.flatMap((db) => db.tables).find((t) => t.id === tableId);
+
+  const sessions = new Set<string>();
+  const datasetCalls: DatasetCall[] = [];
+
+  const app = express();
+  app.use(express.json({ limit: "10mb" }));
+
+  app.post("/api/session", (req, res) => {
+    if (req.body?.username !== email || req.body?.password !== password) {
+      return res.status(401).json({ errors: { password: "did not match" } });
+    }
+    const id = randomUUID();
+    sessions.add(id);
+    res.json({ id });
+  });
+
+  app.use("/api", (req: Request, res: Response, next: NextFunction) => {
+    const token = req.header("X-Metabase-Session");
+    if (!token || !sessions.has(token)) {
+      return res.status(401).send("Unauthenticated");
+    }
+    next();
+  });
+
+  app.get("/api/database", (_req, res) => {
+    res.json({
+      data: databases.map((db) => ({
+        id: db.id,
+        name: db.name,
+        engine: "sqlserver",
+      })),
+      total: databases.length,
+    });
+  });
+
+  app.get("/api/database/:id/metadata", (req, res) => {
+    const db = databases.find((d) => d.id === Number(req.params.id));
+    if (!db) return res.status(404).send("Not found.");
+    res.json({
+      id: db.id,
+      name: db.name,
+      tables: db.tables.map((t) => ({
+        id: t.id,
+        name: t.name,
+        display_name: t.name.replace(/_/g, " "),
+        schema: "dbo",
+        row_count: engines.get(db.id)!.tableRows(t.name).length,
+        fields: fieldMetadata(t),
+      })),
+    });
+  });
+
+  app.get("/api/table/:id/query_metadata", (req, res) => {
+    const table = findTable(Number(req.params.id));
+    if (!table) return res.status(404).send("Not found.");
+    res.json({ id: table.id, name: table.name, fields: fieldMetadata(table) });
+  });
+
+  // Like Metabase, a failing query is a 202 with status "failed" rather than an HTTP error
+  app.post("/api/dataset", (req, res) => {
+    const { database, type, query, native } = req.body ?? {};
+    const engine = engines.get(Number(database));
+    if (!engine) return res.status(404).send("Database not found.");
+
+    datasetCalls.push({
+      databaseId: Number(database),
+      type,
+      ...(type === "native" ? { sql: native?.query } : {}),
+    });
+
+    try {
+      if (type === "native") {
+        const result = engine.runTsql(String(native?.query ?? ""));
+        return res.json(
+          datasetResponse(inferCols(result.columns, result.rows), result.rows),
+        );
+      }
+      const compiled = compileMbql(query, findTable);
+      const result = engine.runSqlite(compiled.sql, compiled.params);
+      res.json(datasetResponse(compiled.cols, result.rows));
+    } catch (error) {
+      res.status(202).json({
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+        data: { rows: [], cols: [] },
+      });
+    }
+  });
+
+  const server: Server = createServer(app);
+  await new Promise<void>((resolve) =>
+    server.listen(options.port ?? 0, "127.0.0.1", resolve),
+  );
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    email,
+    password,
+    databases,
+    datasetCalls,
+    engine: (databaseId) => {
+      const engine = engines.get(databaseId);
+      if (!engine) throw new Error(`No mock database ${databaseId}`);
+      return engine;
+    },
+    expireSessions: () => sessions.clear(),
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((err) => (err ? reject(err) : resolve()));
+      }),
+  };
+}
+
+// `npm run mock:metabase` — a standalone stand-in for local development
+if (
+  process.argv[1] &&
+  import.meta.url === pathToFileURL(process.argv[1]).href
+) {
+  const port = parseInt(process.env.MOCK_METABASE_PORT || "3100", 10);
+  startMockMetabase({ port }).then((mock) => {
+    console.log(`Mock Metabase listening on ${mock.url}`);
+    console.log(
+      `Use METABASE_URL=${mock.url} METABASE_EMAIL=${mock.email} METABASE_PASSWORD=${mock.password}`,
+    );
+  });
+}
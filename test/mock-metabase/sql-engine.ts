@@ -0,0 +1,597 @@
+import initSqlJs, { type Database, type SqlValue } from "sql.js";
+import { tokenizeSql, type SqlToken } from "../../server/sql-safety";
+import type { MockDatabase, MockTable } from "./seed";
+
+// ── In-memory SQL engine for the Metabase stand-in ──────────────────
+// Each mock database is a SQLite database (sql.js, no native build). The T-SQL the
+// app sends is rewritten token by token into SQLite: TOP / OFFSET…FETCH become
+// LIMIT, OUTPUT INSERTED becomes RETURNING (or a temp trigger for OUTPUT … INTO),
+// STRING_AGG becomes group_concat, #temp tables become TEMP tables, batches
+// run statement by statement (rolling back on error), and the date / conversion functions
+// the app uses (GETDATE, DATEADD, DATEDIFF, DATEPART, CAST, TRY_CONVERT, LEN,
+// ISNULL) are provided as user functions with SQL Server semantics.
+
+export interface QueryResult {
+  columns: string[];
+  rows: SqlValue[][];
+}
+
+export interface SqlEngine {
+  /** Runs a T-SQL batch as SQL Server would, returning its first result set. */
+  runTsql(sql: string): QueryResult;
+  /** Runs SQLite SQL with `?` parameters (used by the MBQL compiler). */
+  runSqlite(sql: string, params?: SqlValue[]): QueryResult;
+  /** Every row of a table, as objects — for assertions in tests. */
+  tableRows(tableName: string): Record<string, SqlValue>[];
+}
+
+let sqlJs: Promise<initSqlJs.SqlJsStatic> | null = null;
+
+// ── Dates ───────────────────────────────────────────────────────────
+// Dates are stored as ISO text ("YYYY-MM-DD" or "YYYY-MM-DD HH:MM:SS"), so they
+// compare correctly as strings. Arithmetic is done in UTC on the parsed parts.
+
+const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+
+export function formatSqlDate(date: Date, withTime = false): string {
+  const day = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+  if (!withTime) return day;
+  return `${day} ${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+}
+
+// GETDATE() in local time, expressed as UTC parts so formatting is stable
+export function sqlNow(): Date {
+  const now = new Date();
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60 * 1000);
+}
+
+function parseSqlDate(
+  value: SqlValue,
+): { date: Date; hasTime: boolean } | null {
+  if (value === null || value instanceof Uint8Array) return null;
+  const m = String(value)
+    .trim()
+    .match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?/);
+  if (!m) return null;
+  const [, y, mo, d, h, mi, s] = m;
+  const date = new Date(
+    Date.UTC(+y, +mo - 1, +d, h ? +h : 0, mi ? +mi : 0, s ? +s : 0),
+  );
+  // Rejects 2024-02-31 and the like
+  if (date.getUTCMonth() !== +mo - 1) return null;
+  return { date, hasTime: h !== undefined };
+}
+
+function normalizeDatePart(part: SqlValue): string {
+  const p = String(part).toLowerCase();
+  if (["year", "yy", "yyyy"].includes(p)) return "year";
+  if (["month", "mm", "m"].includes(p)) return "month";
+  if (["day", "dd", "d"].includes(p)) return "day";
+  if (["week", "wk", "ww"].includes(p)) return "week";
+  if (["dayofyear", "dy", "y"].includes(p)) return "dayofyear";
+  if (["weekday", "dw"].includes(p)) return "weekday";
+  if (["hour", "hh"].includes(p)) return "hour";
+  if (["minute", "mi", "n"].includes(p)) return "minute";
+  if (["second", "ss", "s"].includes(p)) return "second";
+  throw new Error(`Unsupported date part: ${part}`);
+}
+
+function dateAdd(part: SqlValue, amount: SqlValue, value: SqlValue): SqlValue {
+  const parsed = parseSqlDate(value);
+  if (!parsed || amount === null) return null;
+  const d = new Date(parsed.date);
+  const n = Number(amount);
+  switch (normalizeDatePart(part)) {
+    case "year":
+      d.setUTCFullYear(d.getUTCFullYear() + n);
+      break;
+    case "month":
+      d.setUTCMonth(d.getUTCMonth() + n);
+      break;
+    case "week":
+      d.setUTCDate(d.getUTCDate() + n * 7);
+      break;
+    case "hour":
+      d.setUTCHours(d.getUTCHours() + n);
+      break;
+    case "minute":
+      d.setUTCMinutes(d.getUTCMinutes() + n);
+      break;
+    case "second":
+      d.setUTCSeconds(d.getUTCSeconds() + n);
+      break;
+    default:
+      d.setUTCDate(d.getUTCDate() + n);
+  }
+  return formatSqlDate(d, parsed.hasTime);
+}
+
+// Like SQL Server, counts boundaries crossed (DATEDIFF(year, '2000-12-31', '2001-01-01') = 1)
+function dateDiff(part: SqlValue, from: SqlValue, to: SqlValue): SqlValue {
+  const a = parseSqlDate(from)?.date;
+  const b = parseSqlDate(to)?.date;
+  if (!a || !b) return null;
+  const dayMs = 24 * 60 * 60 * 1000;
+  const days = (d: Date) =>
+    Math.floor(
+      Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()) / dayMs,
+    );
+  switch (normalizeDatePart(part)) {
+    case "year":
+      return b.getUTCFullYear() - a.getUTCFullYear();
+    case "month":
+      return (
+        (b.getUTCFullYear() - a.getUTCFullYear()) * 12 +
+        (b.getUTCMonth() - a.getUTCMonth())
+      );
+    case "week":
+      return Math.floor((days(b) + 4) / 7) - Math.floor((days(a) + 4) / 7);
+    case "hour":
+      return Math.floor((b.getTime() - a.getTime()) / (60 * 60 * 1000));
+    case "minute":
+      return Math.floor((b.getTime() - a.getTime()) / (60 * 1000));
+    case "second":
+      return Math.floor((b.getTime() - a.getTime()) / 1000);
+    default:
+      return days(b) - days(a);
+  }
+}
+
+function datePart(part: SqlValue, value: SqlValue): SqlValue {
+  const d = parseSqlDate(value)?.date;
+  if (!d) return null;
+  switch (normalizeDatePart(part)) {
+    case "year":
+      return d.getUTCFullYear();
+    case "month":
+      return d.getUTCMonth() + 1;
+    case "dayofyear":
+      return (
+        (dateDiff("day", `${d.getUTCFullYear()}-01-01`, value) as number) + 1
+      );
+    case "weekday":
+      return d.getUTCDay() + 1;
+    case "hour":
+      return d.getUTCHours();
+    case "minute":
+      return d.getUTCMinutes();
+    case "second":
+      return d.getUTCSeconds();
+    default:
+      return d.getUTCDate();
+  }
+}
+
+// CAST / CONVERT to the SQL Server types the app uses; throws like SQL Server does
+function convert(type: SqlValue, value: SqlValue): SqlValue {
+  if (value === null) return null;
+  const t = String(type).toLowerCase().replace(/\(.*$/, "");
+  if (
+    t === "date" ||
+    t === "datetime" ||
+    t === "datetime2" ||
+    t === "smalldatetime"
+  ) {
+    const parsed = parseSqlDate(value);
+    if (!parsed)
+      throw new Error(`Conversion failed when converting "${value}" to ${t}`);
+    return formatSqlDate(parsed.date, t !== "date");
+  }
+  if (["int", "bigint", "smallint", "tinyint", "bit"].includes(t)) {
+    const n = Number(value);
+    if (String(value).trim() === "" || isNaN(n)) {
+      throw new Error(`Conversion failed when converting "${value}" to ${t}`);
+    }
+    return Math.trunc(n);
+  }
+  if (["float", "real", "decimal", "numeric", "money"].includes(t)) {
+    const n = Number(value);
+    if (String(value).trim() === "" || isNaN(n)) {
+      throw new Error(`Error converting "${value}" to ${t}`);
+    }
+    return n;
+  }
+  return String(value);
+}
+
+function tryConvert(type: SqlValue, value: SqlValue): SqlValue {
+  try {
+    return convert(type, value);
+  } catch {
+    return null;
+  }
+}
+
+function registerFunctions(db: Database): void {
+  db.create_function("GETDATE", () => formatSqlDate(sqlNow(), true));
+  db.create_function("LEN", (v: SqlValue) =>
+    v === null ? null : String(v).replace(/\s+$/, "").length,
+  );
+  db.create_function("DATEADD", dateAdd);
+  db.create_function("DATEDIFF", dateDiff);
+  db.create_function("DATEPART", datePart);
+  db.create_function("CAST_AS", (v: SqlValue, type: SqlValue) =>
+    convert(type, v),
+  );
+  db.create_function("TRY_CONVERT", tryConvert);
+  db.create_function("CONVERT", convert);
+}
+
+// ── T-SQL → SQLite ──────────────────────────────────────────────────
+
+// Functions whose first argument is a bare keyword (date part or type name)
+const KEYWORD_ARG_FUNCTIONS = new Set([
+  "DATEADD",
+  "DATEDIFF",
+  "DATEPART",
+  "TRY_CONVERT",
+  "CONVERT",
+]);
+
+const TABLE_HINTS = new Set([
+  "NOLOCK",
+  "READUNCOMMITTED",
+  "UPDLOCK",
+  "HOLDLOCK",
+  "ROWLOCK",
+  "TABLOCK",
+  "SERIALIZABLE",
+]);
+
+const upper = (t: SqlToken | undefined) =>
+  t && t.type === "word" ? t.value.toUpperCase() : "";
+const isPunct = (t: SqlToken | undefined, ch: string) =>
+  !!t && t.type === "punct" && t.value === ch;
+
+function quoteIdent(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function renderToken(t: SqlToken): string {
+  if (t.type === "quoted_identifier" || t.type === "temp_name") {
+    return quoteIdent(t.value);
+  }
+  if (t.type === "string") return t.value.replace(/^[Nn]/, "");
+  return t.value;
+}
+
+function likePattern(t: SqlToken): string {
+  return renderToken(t)
+    .replace(/\\/g, "\\\\")
+    .replace(/\[([%_])\]/g, "\\$1")
+    .replace(/\[\[\]/g, "[");
+}
+
+// Index of the ")" matching the "(" at `open`
+function closingParen(tokens: SqlToken[], open: number): number {
+  for (let i = open + 1; i < tokens.length; i++) {
+    if (isPunct(tokens[i], ")") && tokens[i].depth === tokens[open].depth) {
+      return i;
+    }
+  }
+  throw new Error("Unbalanced parentheses");
+}
+
+// Translates tokens[start, end) — one scope at `depth` — into SQLite text
+function translateRange(
+  tokens: SqlToken[],
+  start: number,
+  end: number,
+  depth: number,
+): string {
+  const out: string[] = [];
+  let limit: string | null = null;
+  let offset: string | null = null;
+  let returning: string | null = null;
+
+  let i = start;
+  while (i < end) {
+    const t = tokens[i];
+    const word = upper(t);
+
+    if (isPunct(t, "(")) {
+      const close = closingParen(tokens, i);
+      out.push(`(${translateRange(tokens, i + 1, close, depth + 1)})`);
+      i = close + 1;
+      continue;
+    }
+
+    // CAST(expr AS type) → CAST_AS(expr, 'type')
+    if (word === "CAST" && isPunct(tokens[i + 1], "(")) {
+      const close = closingParen(tokens, i + 1);
+      let asIdx = -1;
+      for (let j = close - 1; j > i + 1; j--) {
+        if (upper(tokens[j]) === "AS" && tokens[j].depth === depth + 1) {
+          asIdx = j;
+          break;
+        }
+      }
+      if (asIdx === -1) throw new Error("CAST without AS");
+      const typeName = tokens
+        .slice(asIdx + 1, close)
+        .map((tok) => tok.value)
+        .join("");
+      out.push(
+        `CAST_AS(${translateRange(tokens, i + 2, asIdx, depth + 1)}, '${typeName}')`,
+      );
+      i = close + 1;
+      continue;
+    }
+
+    if (
+      KEYWORD_ARG_FUNCTIONS.has(word) &&
+      isPunct(tokens[i + 1], "(") &&
+      tokens[i + 2]?.type === "word" &&
+      isPunct(tokens[i + 3], ",")
+    ) {
+      const close = closingParen(tokens, i + 1);
+      out.push(
+        `${word}('${tokens[i + 2].value}', ${translateRange(tokens, i + 4, close, depth + 1)})`,
+      );
+      i = close + 1;
+      continue;
+    }
+
+    // T-SQL escapes LIKE wildcards as [%] / [_]; SQLite needs an ESCAPE character
+    if (word === "LIKE" && tokens[i + 1]?.type === "string") {
+      out.push(`LIKE ${likePattern(tokens[i + 1])} ESCAPE '\\'`);
+      i += 2;
+      continue;
+    }
+
+    if (word === "ISNULL" && isPunct(tokens[i + 1], "(")) {
+      out.push("IFNULL");
+      i++;
+      continue;
+    }
+
+    if (word === "STRING_AGG" && isPunct(tokens[i + 1], "(")) {
+      out.push("group_concat");
+      i++;
+      continue;
+    }
+
+    // CREATE TABLE #name → a session-scoped SQLite temp table
+    if (
+      word === "CREATE" &&
+      upper(tokens[i + 1]) === "TABLE" &&
+      tokens[i + 2]?.type === "temp_name"
+    ) {
+      out.push("CREATE TEMP TABLE");
+      i += 2;
+      continue;
+    }
+
+    // Table hints (WITH (UPDLOCK, HOLDLOCK)) only matter for SQL Server's locking
+    if (
+      word === "WITH" &&
+      isPunct(tokens[i + 1], "(") &&
+      TABLE_HINTS.has(upper(tokens[i + 2]))
+    ) {
+      i = closingParen(tokens, i + 1) + 1;
+      continue;
+    }
+
+    // dbo.Table → "Table" (SQLite would read dbo as an attached database)
+    if (word === "DBO" && isPunct(tokens[i + 1], ".")) {
+      i += 2;
+      continue;
+    }
+
+    if (word === "TOP" && t.depth === depth) {
+      if (isPunct(tokens[i + 1], "(")) {
+        const close = closingParen(tokens, i + 1);
+        limit = translateRange(tokens, i + 2, close, depth + 1);
+        i = close + 1;
+      } else {
+        limit = tokens[i + 1].value;
+        i += 2;
+      }
+      if (upper(tokens[i]) === "PERCENT") {
+        throw new Error("TOP … PERCENT is not supported by the mock engine");
+      }
+      continue;
+    }
+
+    // OFFSET n ROWS [FETCH NEXT m ROWS ONLY] → LIMIT m OFFSET n
+    if (word === "OFFSET" && t.depth === depth) {
+      let j = i + 1;
+      const exprStart = j;
+      while (j < end && !["ROW", "ROWS"].includes(upper(tokens[j]))) j++;
+      offset = translateRange(tokens, exprStart, j, depth);
+      j++;
+      if (upper(tokens[j]) === "FETCH") {
+        const countStart = j + 2; // FETCH NEXT|FIRST
+        let k = countStart;
+        while (k < end && !["ROW", "ROWS"].includes(upper(tokens[k]))) k++;
+        limit = translateRange(tokens, countStart, k, depth);
+        j = k + 2; // ROWS ONLY
+      }
+      i = j;
+      continue;
+    }
+
+    // OUTPUT INSERTED.[a], INSERTED.[b] → RETURNING "a", "b"
+    if (word === "OUTPUT" && t.depth === depth) {
+      let j = i + 1;
+      const cols: string[] = [];
+      while (
+        j < end &&
+        upper(tokens[j]) !== "VALUES" &&
+        upper(tokens[j]) !== "SELECT"
+      ) {
+        if (upper(tokens[j]) === "INSERTED" && isPunct(tokens[j + 1], ".")) {
+          cols.push(renderToken(tokens[j + 2]));
+          j += 3;
+        } else {
+          j++;
+        }
+      }
+      returning = cols.join(", ");
+      i = j;
+      continue;
+    }
+
+    out.push(renderToken(t));
+    i++;
+  }
+
+  if (limit !== null || offset !== null) {
+    out.push(`LIMIT ${limit ?? -1}`);
+    if (offset !== null) out.push(`OFFSET ${offset}`);
+  }
+  if (returning) out.push(`RETURNING ${returning}`);
+  return out.join(" ");
+}
+
+// Session options with no SQLite equivalent (XACT_ABORT is emulated by runBatch)
+function isSessionOption(tokens: SqlToken[]): boolean {
+  return (
+    upper(tokens[0]) === "SET" &&
+    ["NOCOUNT", "XACT_ABORT", "ANSI_WARNINGS"].includes(upper(tokens[1]))
+  );
+}
+
+const OUTPUT_TRIGGER = quoteIdent("__output_into");
+
+// INSERT INTO t (…) OUTPUT INSERTED.[a], … INTO #x (…) SELECT … — SQLite's RETURNING
+// can't feed another table, so a temp trigger copies each inserted row into #x
+// while the plain INSERT runs. Null for any other statement.
+function translateOutputInto(stmt: SqlToken[]): string[] | null {
+  if (upper(stmt[0]) !== "INSERT" || upper(stmt[1]) !== "INTO") return null;
+  const output = stmt.findIndex((t) => upper(t) === "OUTPUT" && t.depth === 0);
+  if (output === -1) return null;
+  let into = output + 1;
+  while (
+    into < stmt.length &&
+    !["INTO", "SELECT", "VALUES"].includes(upper(stmt[into]))
+  ) {
+    into++;
+  }
+  if (upper(stmt[into]) !== "INTO") return null;
+
+  const values: string[] = [];
+  for (let j = output + 1; j < into; j++) {
+    if (upper(stmt[j]) === "INSERTED" && isPunct(stmt[j + 1], ".")) {
+      values.push(`NEW.${renderToken(stmt[j + 2])}`);
+    }
+  }
+  const close = closingParen(stmt, into + 2);
+  const columns = stmt
+    .slice(into + 3, close)
+    .filter((t) => !isPunct(t, ","))
+    .map(renderToken);
+  const insert = [...stmt.slice(0, output), ...stmt.slice(close + 1)];
+
+  return [
+    `DROP TRIGGER IF EXISTS ${OUTPUT_TRIGGER}`,
+    `CREATE TEMP TRIGGER ${OUTPUT_TRIGGER} AFTER INSERT ON ${renderToken(stmt[2])} ` +
+      `BEGIN INSERT INTO ${renderToken(stmt[into + 1])} (${columns.join(", ")}) VALUES (${values.join(", ")}); END`,
+    translateRange(insert, 0, insert.length, 0),
+    `DROP TRIGGER ${OUTPUT_TRIGGER}`,
+  ];
+}
+
+/** Splits a T-SQL batch on top-level ";" and translates each statement. */
+export function translateTsql(sql: string): string[] {
+  const { tokens, error } = tokenizeSql(sql);
+  if (error) throw new Error(`Incorrect syntax: ${error.message}`);
+  const statements: SqlToken[][] = [[]];
+  for (const t of tokens) {
+    if (isPunct(t, ";") && t.depth === 0) statements.push([]);
+    else statements[statements.length - 1].push(t);
+  }
+  return statements
+    .filter((stmt) => stmt.length > 0 && !isSessionOption(stmt))
+    .flatMap(
+      (stmt) =>
+        translateOutputInto(stmt) ?? [translateRange(stmt, 0, stmt.length, 0)],
+    );
+}
+
+// ── Engine ──────────────────────────────────────────────────────────
+
+export function sqliteType(sqlServerType: string): string {
+  const t = sqlServerType.toLowerCase();
+  if (/^(bigint|int|smallint|tinyint|bit)\b/.test(t)) return "INTEGER";
+  if (/^(float|real|decimal|numeric|money)/.test(t)) return "REAL";
+  return "TEXT";
+}
+
+function createTable(db: Database, table: MockTable): void {
+  const columnDefs = table.columns.map((c) => {
+    const type = sqliteType(c.type);
+    // SQL Server's default collation is case-insensitive
+    const def = `${quoteIdent(c.name)} ${type}${type === "TEXT" ? " COLLATE NOCASE" : ""}`;
+    // INTEGER PRIMARY KEY auto-numbers like an IDENTITY column
+    return c.pk ? `${def} PRIMARY KEY` : def;
+  });
+  db.run(`CREATE TABLE ${quoteIdent(table.name)} (${columnDefs.join(", ")})`);
+
+  const names = table.columns.map((c) => c.name);
+  const insert = db.prepare(
+    `INSERT INTO ${quoteIdent(table.name)} (${names.map(quoteIdent).join(", ")}) ` +
+      `VALUES (${names.map(() => "?").join(", ")})`,
+  );
+  for (const row of table.rows) {
+    insert.run(names.map((n) => (row[n] ?? null) as SqlValue));
+  }
+  insert.free();
+}
+
+function execute(
+  db: Database,
+  sql: string,
+  params: SqlValue[] = [],
+): QueryResult {
+  const stmt = db.prepare(sql);
+  try {
+    stmt.bind(params);
+    const rows: SqlValue[][] = [];
+    while (stmt.step()) rows.push(stmt.get());
+    return { columns: stmt.getColumnNames(), rows };
+  } finally {
+    stmt.free();
+  }
+}
+
+// Runs statements in order and returns the first result set, like a JDBC client
+// reading a batch. Any error rolls back an open transaction (SET XACT_ABORT ON).
+function runBatch(db: Database, statements: string[]): QueryResult {
+  let first: QueryResult | null = null;
+  let inTransaction = false;
+  try {
+    for (const sql of statements) {
+      const keyword = sql.split(/\s/, 1)[0].toUpperCase();
+      const result = execute(db, sql);
+      if (keyword === "BEGIN") inTransaction = true;
+      if (keyword === "COMMIT" || keyword === "ROLLBACK") inTransaction = false;
+      if (!first && result.columns.length > 0) first = result;
+    }
+  } catch (error) {
+    if (inTransaction) db.run("ROLLBACK");
+    throw error;
+  }
+  return first ?? { columns: [], rows: [] };
+}
+
+export async function createSqlEngine(
+  database: MockDatabase,
+): Promise<SqlEngine> {
+  sqlJs ??= initSqlJs();
+  const SQL = await sqlJs;
+  const db = new SQL.Database();
+  registerFunctions(db);
+  for (const table of database.tables) createTable(db, table);
+
+  return {
+    runTsql: (sql) => runBatch(db, translateTsql(sql)),
+    runSqlite: (sql, params) => execute(db, sql, params),
+    tableRows(tableName) {
+      const result = execute(db, `SELECT * FROM ${quoteIdent(tableName)}`);
+      return result.rows.map((row) =>
+        Object.fromEntries(result.columns.map((c, i) => [c, row[i]])),
+      );
+    },
+  };
+}